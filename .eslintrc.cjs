@@ -0,0 +1,14 @@
+module.exports = {
+  root: true,
+  env: { browser: true, es2022: true },
+  extends: ['eslint:recommended', 'plugin:@typescript-eslint/recommended', 'plugin:react-hooks/recommended'],
+  parser: '@typescript-eslint/parser',
+  parserOptions: { ecmaVersion: 'latest', sourceType: 'module' },
+  // The top-level .ts/.tsx files are old copies kept for reference; only src is built
+  ignorePatterns: ['dist', 'node_modules', '/*.ts', '/*.tsx', '!/vite.config.ts'],
+  rules: {
+    '@typescript-eslint/no-explicit-any': 'off',
+    'no-empty': ['error', { allowEmptyCatch: true }],
+    '@typescript-eslint/no-unused-vars': ['error', { args: 'none', ignoreRestSiblings: true }],
+  },
+};
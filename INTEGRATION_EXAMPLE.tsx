@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { ParallelAIEngine, createOptimizedAITasks, AITask } from './parallel-engine';
+import { ParallelAIEngine, createCallAIExecutor, createOptimizedAITasks, AITask } from './parallel-engine';
 import {
   globalPerformanceTracker,
   calculateContentQualityScore,
@@ -26,18 +26,19 @@ export const EnhancedContentGenerator: React.FC<{
     setIsProcessing(true);
     const startTime = performance.now();
 
-    const engine = new ParallelAIEngine(5);
+    const engine = new ParallelAIEngine(createCallAIExecutor(context.callAI), { maxConcurrent: 5 });
 
     const tasks: AITask[] = items.map((item, index) => ({
       promptKey: 'generateContent',
       args: [item.title, context],
-      model: context.selectedModel,
       priority: index < 3 ? 'high' : 'medium',
       id: item.id
     }));
 
     try {
-      const results = await engine.executeParallelBatch(tasks, context);
+      const results = await engine.executeBatch(tasks, {
+        onProgress: (_task, all) => setProgress(Math.round(all.filter(t => t.state === 'succeeded' || t.state === 'failed').length / all.length * 100)),
+      });
 
       const enhancedResults = results.map((result, index) => {
         if (!result.success || !result.data) return result;
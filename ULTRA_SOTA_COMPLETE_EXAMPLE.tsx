@@ -260,7 +260,7 @@ export async function generateUltraSOTAContent(
     const wordCount = plainTextCount ? plainTextCount.split(/\s+/).length : 0;
 
     const aiPhraseCheck = qualityReport.checks.find(
-      (c) => c.name === 'AI Detection Phrases'
+      (c) => c.id === 'banned-phrases'
     );
     const aiPhrasesFree = aiPhraseCheck ? aiPhraseCheck.passed : true;
 
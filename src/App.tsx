@@ -1,5 +1,67 @@
 // SOTA Content Orchestration Suite v11.0 - Enterprise Grade
 import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { WordPressPublisher, PostStatus, PublishResult } from './services/WordPressPublisher';
+import { GodModeUrlResult, optimizeUrl } from './services/GodModePipeline';
+import {
+  createReport,
+  createReportEntry,
+  formatTokens,
+  GodModeReport,
+  parseReport,
+  replayReport,
+  reportToHtml,
+  reportToJson,
+  summarizeReport,
+} from './services/GodModeReport';
+import { buildRouteChain, createApiClients, customModelRef } from './services/AIRouter';
+import { applyContextWindows, DiscoveredModel, discoverModels } from './services/CustomProvider';
+import { generateImages } from './services/ImageGenerator';
+import {
+  PostRevision,
+  RevisionClient,
+  RevisionWriteOptions,
+  restoreRevision,
+  revisionStore,
+  writeWithRevision,
+} from './services/RevisionStore';
+import { callAI, generateContent, maintenanceEngine, MaintenanceEvent, repairGeneratedContent, StreamProgress } from './services';
+import { ReviewModal, SandboxedPreview } from './components';
+import { extractSlugFromUrl } from './utils';
+import { itemsReducer, ItemsAction } from './state';
+import {
+  ContentItem,
+  ExpandedGeoTargeting,
+  GenerationContext,
+  QualityRepairLog,
+  ServiceCallAI,
+  SitemapPage,
+  SitemapPageStatus,
+} from './types';
+import { SitemapValidators } from './services/SitemapCrawler';
+import { storageLayer } from './services/StorageLayer';
+import { useStoredCollection } from './hooks/useStoredCollection';
+import { checkFetchProxy, configureFetchProxy, FETCH_PROXY_STORAGE_KEY, FetchProxyConfig } from './services/FetchProxy';
+import { recrawlSitemap, SitemapChangeset, summarizeChangeset } from './services/SitemapRecrawl';
+import { CONTENT_ITEM_STATUS_TEXT, loadVersioned, PersistedEntity, saveVersioned } from './services/StateSchema';
+import { CostBudgets, CostEstimate, costLedger, CostRun, DEFAULT_BUDGETS, endsRun, UsageRecord, UsageTotals } from './services/CostLedger';
+import { AITask, createCallAIExecutor, ParallelAIEngine, TaskProgress, TaskState } from './services/ParallelAIEngine';
+import { SemanticKeywords } from './services/PromptSchemas';
+import {
+  DEFAULT_QUALITY_PROFILE,
+  profileForItem,
+  QUALITY_PROFILES,
+  QualityOverrides,
+  QualityProfileId,
+  QualityReport,
+  QualityThresholds,
+  qualityEngine,
+  RuleSeverity,
+  summarizeFailures,
+} from './services/QualityRuleEngine';
+import { REPAIR_STOP_REASON_TEXT } from './services/QualityRepairLoop';
+import { DEFAULT_VOICE_PROFILE, voiceForItem, VoiceProfile, voiceProfiles } from './services/VoiceProfiles';
+import { learnVoiceProfile, VoiceMatch, voiceMatch } from './services/VoiceAnalyzer';
+import { HUMANIZER_EDIT_LABELS, HumanizerLog, HumanWritingEngine } from './services/HumanWritingEngine';
 
 // ========== Types ==========
 type WordPressConfig = {
@@ -19,8 +81,13 @@ type AIConfig = {
   anthropic: string;
   openrouter: string;
   groq: string;
-  primaryModel: 'gemini' | 'openai' | 'anthropic' | 'openrouter' | 'groq';
+  primaryModel: 'gemini' | 'openai' | 'anthropic' | 'openrouter' | 'groq' | 'custom';
   openrouterFallbackChain: string;
+  // Self-hosted OpenAI-compatible server (Ollama, llama.cpp, vLLM)
+  customBaseUrl: string;
+  customApiKey: string;
+  customModel: string;
+  customContextWindows: Record<string, number>;
   enableGoogleGrounding: boolean;
 };
 
@@ -32,26 +99,19 @@ type AdvancedConfig = {
   autoDetectUploadMethod: boolean;
 };
 
-type SitemapPage = {
-  url: string;
-  lastmod?: string;
-  changefreq?: string;
-  priority?: number;
-  seoHealth?: number;
-  loc?: string;
-  id?: string;
+type BudgetInputs = {
+  perItem: string;
+  perRun: string;
+  perDay: string;
+  onExceed: CostBudgets['onExceed'];
 };
 
-type ContentItem = {
-  id: string;
-  title: string;
-  type: 'article' | 'bulk' | 'rewrite';
-  status: 'draft' | 'generating' | 'ready' | 'published' | 'error';
-  keywords: string[];
-  content?: string;
-  seoScore?: number;
-  error?: string;
-  createdAt: number;
+type QualityRepairSettings = {
+  // Repair drafts that fail their gate right after generation
+  auto: boolean;
+  maxIterations: number;
+  // Tokens per item; 0 means no limit
+  tokenBudget: number;
 };
 
 type LogEntry = {
@@ -65,15 +125,12 @@ type GodModeResult = {
   success: boolean;
   error?: string;
   seoImprovement?: number;
-};
-
-type ImageGenRequest = {
-  prompt: string;
-  count: number;
-  aspectRatio: string;
+  beforeScore?: number;
+  afterScore?: number;
 };
 
 type GeneratedImage = {
+  id: string;
   url: string;
   prompt: string;
   timestamp: number;
@@ -81,19 +138,18 @@ type GeneratedImage = {
 
 // ========== Utilities: Local Storage ==========
 
-function useLocalStorageState<T>(key: string, initial: T) {
-  const [state, setState] = useState<T>(() => {
-    try {
-      const raw = localStorage.getItem(key);
-      return raw ? (JSON.parse(raw) as T) : initial;
-    } catch {
-      return initial;
-    }
-  });
+const byNewest = (a: ContentItem, b: ContentItem) => b.createdAt - a.createdAt;
+
+/**
+ * State mirrored to a versioned localStorage key; pass the entity for blobs
+ * that have migrations in StateSchema
+ */
+function useLocalStorageState<T>(key: string, initial: T, entity?: PersistedEntity) {
+  const [state, setState] = useState<T>(() => loadVersioned<T>(key, entity) ?? initial);
 
   useEffect(() => {
     try {
-      localStorage.setItem(key, JSON.stringify(state));
+      saveVersioned(key, state);
     } catch {}
   }, [key, state]);
 
@@ -115,11 +171,39 @@ function normalizeWordPressConfig(maybe: any): WordPressConfig {
   };
 }
 
+function parseModelChain(text: string): string[] {
+  return text.split('\n').map((x) => x.trim()).filter(Boolean);
+}
+
 function isWordPressConfigured(cfg?: Partial<WordPressConfig>) {
   if (!cfg) return false;
   return !!(cfg.siteUrl?.trim() && cfg.username?.trim() && cfg.appPassword?.trim());
 }
 
+// ========== Utilities: Costs ==========
+
+function formatUsd(amount: number) {
+  return `$${amount < 1 ? amount.toFixed(4) : amount.toFixed(2)}`;
+}
+
+function parseBudget(text: string) {
+  const value = parseFloat(text);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function sumUsage(records: UsageRecord[]): UsageTotals {
+  return records.reduce(
+    (t, r) => ({ calls: t.calls + 1, inputTokens: t.inputTokens + r.inputTokens, outputTokens: t.outputTokens + r.outputTokens, cost: t.cost + r.cost }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+  );
+}
+
+function describeEstimate(estimate: CostEstimate) {
+  const model = estimate.model || 'no model configured';
+  const basis = estimate.basis === 'history' ? 'based on past runs' : 'rough estimate';
+  return `~${formatUsd(estimate.total)} (${estimate.items} × ${formatUsd(estimate.perItem)} on ${model}, ${basis})`;
+}
+
 // ========== Utilities: Logging ==========
 
 function useLogs(max = 500) {
@@ -146,181 +230,6 @@ function useLogs(max = 500) {
   };
 }
 
-// ========== Utilities: Networking ==========
-
-async function fetchWithFallback(url: string, opts?: RequestInit, timeoutMs = 20000): Promise<Response> {
-  console.log('[Fetch] Attempting:', url);
-  
-  // Try multiple CORS proxies in priority order
-  const strategies = [
-    // 1. AllOrigins - Best free CORS proxy
-    () => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
-    // 2. Jina AI Reader - Good for sitemaps
-    () => `https://r.jina.ai/${url}`,
-    // 3. Direct attempt (will fail with CORS but worth trying)
-    () => url,
-  ];
-
-  let lastErr: any = null;
-
-  for (let i = 0; i < strategies.length; i++) {
-    const target = strategies[i]();
-    console.log(`[Fetch] Strategy ${i + 1}/${strategies.length}:`, target);
-    
-    const ctrl = new AbortController();
-    const timer = setTimeout(() => ctrl.abort(), timeoutMs);
-
-    try {
-      const res = await fetch(target, { 
-        ...opts, 
-        signal: ctrl.signal,
-        mode: 'cors',
-      });
-      clearTimeout(timer);
-      
-      if (!res.ok) {
-        console.warn(`[Fetch] HTTP ${res.status} from:`, target);
-        lastErr = new Error(`HTTP ${res.status}`);
-        continue;
-      }
-      
-      console.log('[Fetch] ✓ Success with:', target);
-      return res;
-    } catch (e: any) {
-      clearTimeout(timer);
-      console.warn(`[Fetch] Failed:`, e.message, '| URL:', target);
-      lastErr = e;
-      continue;
-    }
-  }
-
-  console.error('[Fetch] ❌ All strategies failed for:', url);
-  throw lastErr ?? new Error('All CORS proxies failed. Try adding the sitemap URL directly.');
-}
-
-
-// ========== Utilities: Sitemap Parsing ==========
-
-function isLikelyHtml(text: string) {
-  const head = text.slice(0, 200).toLowerCase();
-  return head.includes('<!doctype html') || head.includes('<html');
-}
-
-function extractLocs(xml: string): string[] {
-  const locs: string[] = [];
-const regex = /<loc[^>]*>([^<]+)<\/loc>/gi;  let m: RegExpExecArray | null;
-      console.log('[extractLocs] Found regex matches:', regex);
-   while ((m = regex.exec(xml)) !== null) {
-      const url = m[1]?.trim();
-      if (url) {
-        console.log('[extractLocs] Extracted URL:', url);
-        locs.push(url);
-      }
-    }
-    console.log('[extractLocs] Total URLs found:', locs.length, locs);
-
-
-
-  return Array.from(new Set(locs));
-}
-
-function detectSitemapType(xml: string): 'index' | 'urlset' | 'unknown' {
-  const lower = xml.toLowerCase();
-  if (lower.includes('<sitemapindex')) return 'index';
-  if (lower.includes('<urlset')) return 'urlset';
-  return 'unknown';
-}
-
-async function crawlSitemapEntry(url: string, limit = 10000): Promise<SitemapPage[]> {
-  const res = await fetchWithFallback(url, { method: 'GET' });
-  const txt = await res.text();
-
-  // Extract XML content even if wrapped in HTML - Jina workaround
-    let xmlContent = txt;
-    if (isLikelyHtml(txt)) {
-      console.log('[Sitemap] Jina returned HTML, extracting XML...');
-      const xmlMatch = txt.match(/<\?xml[\s\S]*?>|<urlset[\s\S]*?<\/urlset>/i);
-      if (xmlMatch) {
-        xmlContent = xmlMatch[0];
-        console.log('[Sitemap] ✓ XML extracted:', xmlContent.length, 'chars');
-      }
-    }
-    
-    const locs = extractLocs(xmlContent);
- const type = detectSitemapType(xmlContent);
-
-  if (type === 'index') {
-    const pages: SitemapPage[] = [];
-    for (const child of locs) {
-      if (!child.startsWith('http')) continue;
-      try {
-        const sub = await crawlSitemapEntry(child, limit);
-        for (const p of sub) {
-          pages.push(p);
-          if (pages.length >= limit) return pages;
-        }
-      } catch {}
-    }
-    return pages;
-  }
-
-  if (type === 'urlset' || type === 'unknown') {
-    return locs.map((u) => ({ url: u, seoHealth: Math.floor(Math.random() * 30 + 70) })).slice(0, limit);
-  }
-
-  return [];
-}
-
-function sitemapCandidatesFromInput(input: string): string[] {
-  const val = input.trim();
-  if (!val) return [];
-  const normalized = val.replace(/\/+$/, '');
-  const looksLikeFile = /sitemap.*\.xml(\.gz)?$/i.test(normalized);
-  if (looksLikeFile) return [normalized];
-  
-  return [
-    `${normalized}/sitemap.xml`,
-    `${normalized}/sitemap_index.xml`,
-    `${normalized}/wp-sitemap.xml`,
-    `${normalized}/sitemap1.xml`,
-  ];
-}
-
-async function crawlSitemap(input: string, limit = 10000, onProgress?: (m: string) => void): Promise<SitemapPage[]> {
-  const candidates = sitemapCandidatesFromInput(input);
-  const visited = new Set<string>();
-  const pages: SitemapPage[] = [];
-
-  for (const c of candidates) {
-    if (visited.has(c)) continue;
-    visited.add(c);
-    try {
-      onProgress?.(`Crawling ${c}`);
-      const chunk = await crawlSitemapEntry(c, limit);
-      for (const p of chunk) {
-        const url = p.url || p.loc || p.id;
-        if (!url) continue;
-        if (!pages.some((x) => (x.url || x.loc || x.id) === url)) {
-          pages.push({ url, seoHealth: p.seoHealth });
-          if (pages.length >= limit) return pages;
-        }
-      }
-      if (pages.length > 0) return pages;
-    } catch (e: any) {
-      onProgress?.(`Skipped ${c}: ${e?.message || 'error'}`);
-      continue;
-    }
-  }
-
-  if (candidates.length === 0 && (input.startsWith('http://') || input.startsWith('https://'))) {
-    try {
-      return await crawlSitemapEntry(input, limit);
-    } catch {}
-  }
-
-  return pages;
-}
-
 // ========== WordPress API ==========
 
 function wpApiHeaders(cfg: WordPressConfig) {
@@ -365,25 +274,118 @@ function slugFromUrl(fullUrl: string) {
 }
 
 async function fetchWordPressPostBySlug(cfg: WordPressConfig, slug: string): Promise<any | null> {
-  const posts = await wpGet<any[]>(cfg, '/wp-json/wp/v2/posts', { slug, _embed: 1 });
+  // Edit context returns content.raw, which God Mode patches and writes back
+  const posts = await wpGet<any[]>(cfg, '/wp-json/wp/v2/posts', { slug, context: 'edit', _embed: 1 });
   return Array.isArray(posts) && posts.length > 0 ? posts[0] : null;
 }
 
-async function updateWordPressPostContent(cfg: WordPressConfig, id: number, content: string): Promise<any> {
-  return wpPost<any>(cfg, `/wp-json/wp/v2/posts/${id}`, { content });
+function wpRevisionClient(cfg: WordPressConfig): RevisionClient {
+  return {
+    siteUrl: cfg.siteUrl,
+    getPost: (id) => wpGet<any>(cfg, `/wp-json/wp/v2/posts/${id}`, { context: 'edit' }),
+    updatePost: (id, updates) => wpPost<any>(cfg, `/wp-json/wp/v2/posts/${id}`, updates),
+  };
 }
 
-async function publishToWordPress(cfg: WordPressConfig, item: ContentItem): Promise<any> {
-  return wpPost<any>(cfg, '/wp-json/wp/v2/posts', {
-    title: item.title,
-    content: item.content || '',
-    status: 'publish',
-    meta: {
-      _seo_score: item.seoScore || 0,
-    },
+async function updateWordPressPostContent(
+  cfg: WordPressConfig,
+  id: number,
+  content: string,
+  options: RevisionWriteOptions = { operation: 'god-mode' }
+): Promise<any> {
+  const { response } = await writeWithRevision(wpRevisionClient(cfg), id, { content }, options);
+  return response;
+}
+
+async function publishToWordPress(
+  cfg: WordPressConfig,
+  item: ContentItem,
+  status: PostStatus,
+  scheduledAt?: string
+): Promise<PublishResult> {
+  const publisher = new WordPressPublisher(cfg);
+  const content = item.generatedContent;
+  const title = content?.title || item.title;
+  // The slug as edited in review; a refresh updates the live post at originalUrl
+  const slug = content?.slug || (item.originalUrl ? extractSlugFromUrl(item.originalUrl) : slugify(title));
+  const existing = await publisher.findPostBySlug(item.originalUrl ? extractSlugFromUrl(item.originalUrl) : slug);
+  if (existing) {
+    revisionStore.capture(await wpGet<any>(cfg, `/wp-json/wp/v2/posts/${existing.id}`, { context: 'edit' }), {
+      operation: 'publish',
+      url: existing.link,
+    });
+  }
+  return publisher.publish({
+    ...(existing ? { postId: existing.id } : {}),
+    title,
+    content: content?.content || '',
+    slug,
+    status,
+    ...(content?.metaDescription ? { metaDescription: content.metaDescription } : {}),
+    primaryKeyword: content?.primaryKeyword || item.keywords[0] || title,
+    categories: content?.categories || [],
+    tags: content?.tags || [],
+    // The first uploaded image becomes the featured image
+    images: (content?.imageDetails || []).flatMap((image) =>
+      image.generatedImageSrc ? [{ src: image.generatedImageSrc, altText: image.altText, title: image.title, placeholder: image.placeholder }] : []
+    ),
+    ...(scheduledAt ? { scheduledAt } : {}),
   });
 }
 
+/** Only a live post counts as published; drafts, pending and scheduled posts stay ready */
+function itemStatusAfterPublish(result: PublishResult): Pick<ContentItem, 'status' | 'statusText'> {
+  switch (result.status) {
+    case 'publish':
+      return { status: 'published', statusText: CONTENT_ITEM_STATUS_TEXT.published };
+    case 'future':
+      return { status: 'done', statusText: `Scheduled in WordPress (post #${result.postId})` };
+    case 'pending':
+      return { status: 'done', statusText: `Pending review in WordPress (post #${result.postId})` };
+    default:
+      return { status: 'done', statusText: `Draft in WordPress (post #${result.postId})` };
+  }
+}
+
+const QUALITY_THRESHOLD_LABELS: Record<keyof QualityThresholds, string> = {
+  minWords: 'Min words',
+  maxWords: 'Max words',
+  minKeywordDensity: 'Min keyword density %',
+  maxKeywordDensity: 'Max keyword density %',
+  maxReadabilityGrade: 'Max reading grade',
+  minInternalLinks: 'Min internal links',
+  minExternalRefs: 'Min external references',
+  maxBannedPhrases: 'Max banned phrases',
+  minHumanScore: 'Min human score',
+  minSections: 'Min H2 sections',
+  minTitleLength: 'Min title length',
+  maxTitleLength: 'Max title length',
+  minMetaLength: 'Min meta length',
+  maxMetaLength: 'Max meta length',
+  passScore: 'Pass score',
+};
+
+/** Report for a generated item under its profile; null until it has content */
+function evaluateItemQuality(item: ContentItem, siteUrl: string, location: string | undefined): QualityReport | null {
+  const content = item.generatedContent;
+  if (!content) return null;
+  return qualityEngine.evaluate(
+    {
+      html: content.content,
+      keyword: content.primaryKeyword || item.keywords[0] || item.title,
+      title: content.title,
+      metaDescription: content.metaDescription,
+      siteUrl,
+      location,
+    },
+    profileForItem(item)
+  );
+}
+
+function slugify(text: string) {
+  return text.toLowerCase().trim().replace(/[^a-z0-9\s-]/g, '').replace(/\s+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '');
+}
+
 // ========== God Mode ==========
 
 function sleep(ms: number) {
@@ -399,7 +401,7 @@ function prioritizeQueue(targeted: string[], sitemap: SitemapPage[], excludeUrls
   };
 
   targeted.forEach(push);
-  sitemap.forEach((p) => push(p.url || p.loc || p.id || ''));
+  sitemap.filter((p) => !p.removedAt).forEach((p) => push(p.url || p.id));
 
   return Array.from(set);
 }
@@ -407,55 +409,62 @@ function prioritizeQueue(targeted: string[], sitemap: SitemapPage[], excludeUrls
 async function runGodMode(params: {
   cfg: WordPressConfig;
   queue: string[];
+  callAI: ServiceCallAI;
+  run: CostRun;
+  dryRun: boolean;
   onLog: (m: string, level?: LogEntry['level']) => void;
   onResult: (r: GodModeResult) => void;
+  onUrlResult?: (r: GodModeUrlResult) => void;
   stopRef: React.MutableRefObject<boolean>;
 }) {
-  const { cfg, queue, onLog, onResult, stopRef } = params;
+  const { cfg, queue, callAI, run, dryRun, onLog, onResult, onUrlResult, stopRef } = params;
 
   for (let i = 0; i < queue.length; i++) {
     if (stopRef.current) {
       onLog('God Mode stopped by user', 'warn');
       break;
     }
-    const url = queue[i];
+    const url = queue[i]!;
     onLog(`Processing (${i + 1}/${queue.length}): ${url}`);
 
     try {
-      const slug = slugFromUrl(url);
-      if (!slug) {
-        onLog(`Skipped: could not derive slug`, 'warn');
-        onResult({ url, success: false, error: 'no-slug' });
-        continue;
-      }
-
-      const post = await fetchWordPressPostBySlug(cfg, slug);
-      if (!post) {
-        onLog(`Skipped: no WP post found for "${slug}"`, 'warn');
-        onResult({ url, success: false, error: 'not-found' });
-        continue;
-      }
-
-      const currentHtml = (post?.content?.rendered || '').toString();
-      let nextHtml = currentHtml;
-
-      if (!/References:/i.test(currentHtml)) {
-        nextHtml += `\n<hr />\n<p><strong>References:</strong></p>\n<ul>\n<li><a href="${cfg.siteUrl}">Source 1</a></li>\n<li><a href="${cfg.siteUrl}">Source 2</a></li>\n</ul>`;
-      }
-
-      if (nextHtml !== currentHtml) {
-        await updateWordPressPostContent(cfg, post.id, nextHtml);
-        onLog(`✓ Updated post ID ${post.id} (${slug})`, 'success');
-        onResult({ url, success: true, seoImprovement: 15 });
+      const result = await optimizeUrl(url, {
+        callAI: run.bind(callAI, { itemId: url, contentType: 'god-mode' }),
+        fetchPostBySlug: (slug) => fetchWordPressPostBySlug(cfg, slug),
+        updatePostContent: async (id, html, scores) => {
+          await updateWordPressPostContent(cfg, id, html, {
+            operation: 'god-mode',
+            url,
+            qualityBefore: scores.before,
+            qualityAfter: scores.after,
+          });
+        },
+        onLog: (m) => onLog(`  ${m}`),
+      }, { dryRun, siteUrl: cfg.siteUrl });
+      onUrlResult?.(result);
+
+      if (dryRun && result.wouldApply) {
+        onLog(`[dry run] Would update post ID ${result.postId} (+${result.delta})`, 'success');
+        onResult({ url, success: true, seoImprovement: 0, beforeScore: result.beforeScore, afterScore: result.afterScore });
+      } else if (result.applied) {
+        onLog(`✓ Updated post ID ${result.postId}: ${result.reason} (+${result.delta})`, 'success');
+        onResult({ url, success: true, seoImprovement: result.delta, beforeScore: result.beforeScore, afterScore: result.afterScore });
+      } else if (result.postId === null) {
+        onLog(`Skipped: ${result.reason}`, 'warn');
+        onResult({ url, success: false, error: result.reason });
       } else {
-        onLog(`No changes needed for ${slug}`, 'info');
-        onResult({ url, success: true, seoImprovement: 0 });
+        onLog(`Not updated: ${result.reason}`, 'info');
+        onResult({ url, success: true, seoImprovement: 0, beforeScore: result.beforeScore, afterScore: result.afterScore });
       }
 
-      await sleep(3000);
+      if (!dryRun) await sleep(3000);
     } catch (e: any) {
       onLog(`Error: ${e?.message || 'update failed'}`, 'error');
       onResult({ url, success: false, error: e?.message || 'error' });
+      if (endsRun(e)) {
+        onLog('God Mode stopped: budget exhausted', 'warn');
+        break;
+      }
       await sleep(1500);
     }
   }
@@ -508,7 +517,7 @@ export default function App() {
     logoUrl: '',
     authorName: '',
     authorPageUrl: '',
-  });
+  }, 'wpConfig');
   const wpConfig = useMemo(() => normalizeWordPressConfig(rawWpConfig), [rawWpConfig]);
 
   // AI Config
@@ -521,8 +530,26 @@ export default function App() {
     groq: '',
     primaryModel: 'gemini',
     openrouterFallbackChain: 'google/gemini-pro\nopenai/gpt-4o\nanthropic/claude-3-opus',
+    customBaseUrl: '',
+    customApiKey: '',
+    customModel: '',
+    customContextWindows: {},
     enableGoogleGrounding: true,
-  });
+  }, 'aiConfig');
+  const [customModels, setCustomModels] = useState<DiscoveredModel[]>([]);
+  const [discoveringModels, setDiscoveringModels] = useState(false);
+  const appliedContextWindows = useRef<Record<string, number>>({});
+  useEffect(() => {
+    applyContextWindows(aiConfig.customContextWindows, appliedContextWindows.current);
+    appliedContextWindows.current = aiConfig.customContextWindows;
+  }, [aiConfig.customContextWindows]);
+  // Discovered models plus any configured earlier, so settings survive a reload
+  const customModelIds = useMemo(
+    () => Array.from(new Set([...customModels.map((m) => m.id), ...Object.keys(aiConfig.customContextWindows), aiConfig.customModel].filter(Boolean))),
+    [customModels, aiConfig.customContextWindows, aiConfig.customModel]
+  );
+  // What buildRouteChain expects as the primary: a provider id or `custom:<model>`
+  const routePrimary = aiConfig.primaryModel === 'custom' ? customModelRef(aiConfig.customModel) : aiConfig.primaryModel;
 
   // Advanced Config
   const [advConfig, setAdvConfig] = useLocalStorageState<AdvancedConfig>('advancedConfig', {
@@ -531,22 +558,162 @@ export default function App() {
     enableGeoTargeting: false,
     geoTargetCountry: 'US',
     autoDetectUploadMethod: true,
+  }, 'advancedConfig');
+
+  // First-party fetch proxy (src/sitemap-worker.ts)
+  const [fetchProxy, setFetchProxy] = useLocalStorageState<FetchProxyConfig>(FETCH_PROXY_STORAGE_KEY, { url: '', secret: '' });
+  const [proxyStatus, setProxyStatus] = useState<{ ok: boolean; text: string } | null>(null);
+  useEffect(() => configureFetchProxy(fetchProxy), [fetchProxy]);
+
+  // Cost budgets & usage (services/CostLedger.ts)
+  // Limits are kept as typed so partial input like "0." survives; parsed below
+  const [budgetInputs, setBudgetInputs] = useLocalStorageState<BudgetInputs>('cost.budgets', {
+    perItem: '',
+    perRun: '',
+    perDay: '',
+    onExceed: DEFAULT_BUDGETS.onExceed,
+  });
+  const costBudgets = useMemo<CostBudgets>(
+    () => ({
+      perItem: parseBudget(budgetInputs.perItem),
+      perRun: parseBudget(budgetInputs.perRun),
+      perDay: parseBudget(budgetInputs.perDay),
+      onExceed: budgetInputs.onExceed,
+    }),
+    [budgetInputs]
+  );
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(() => costLedger.list());
+  useEffect(() => costLedger.configure(costBudgets), [costBudgets]);
+  useEffect(() => costLedger.subscribe(setUsageRecords), []);
+
+  // Quality profiles (services/QualityRuleEngine.ts)
+  const [qualityOverrides, setQualityOverrides] = useLocalStorageState<QualityOverrides>('quality.overrides', {});
+  const [qualityProfileTab, setQualityProfileTab] = useLocalStorageState<QualityProfileId>('ui.qualityProfile', DEFAULT_QUALITY_PROFILE);
+  const [enforceQualityGate, setEnforceQualityGate] = useLocalStorageState<boolean>('publish.enforceQuality', true);
+  const [qualityRepair, setQualityRepair] = useLocalStorageState<QualityRepairSettings>('quality.repair', {
+    auto: true,
+    maxIterations: 3,
+    tokenBudget: 40000,
   });
+  const [repairingItemId, setRepairingItemId] = useState<string | null>(null);
+  const [humanizerItemId, setHumanizerItemId] = useState<string | null>(null);
+  const [reviewItemId, setReviewItemId] = useState<string | null>(null);
+  // Reports recompute on `appliedQualityOverrides`, which changes only once the engine has the new overrides
+  const [appliedQualityOverrides, setAppliedQualityOverrides] = useState<QualityOverrides | null>(null);
+  useEffect(() => {
+    qualityEngine.configure(qualityOverrides);
+    setAppliedQualityOverrides(qualityOverrides);
+  }, [qualityOverrides]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const editedProfile = useMemo(() => qualityEngine.resolveProfile(qualityProfileTab), [qualityProfileTab, appliedQualityOverrides]);
+
+  function setQualityThreshold(key: keyof QualityThresholds, raw: string) {
+    const value = parseFloat(raw);
+    const { [key]: _previous, ...thresholds } = qualityOverrides[qualityProfileTab]?.thresholds ?? {};
+    const next = Number.isFinite(value) && value !== QUALITY_PROFILES[qualityProfileTab].thresholds[key] ? { ...thresholds, [key]: value } : thresholds;
+    setQualityOverrides({ ...qualityOverrides, [qualityProfileTab]: { ...qualityOverrides[qualityProfileTab], thresholds: next } });
+  }
+
+  function setRuleSeverity(ruleId: string, severity: RuleSeverity | 'off') {
+    setQualityOverrides({
+      ...qualityOverrides,
+      [qualityProfileTab]: { ...qualityOverrides[qualityProfileTab], rules: { ...qualityOverrides[qualityProfileTab]?.rules, [ruleId]: severity } },
+    });
+  }
+
+  function resetQualityProfile() {
+    const { [qualityProfileTab]: _reset, ...rest } = qualityOverrides;
+    setQualityOverrides(rest);
+  }
+
+  // Site brand voice (services/VoiceProfiles.ts); items may pick their own
+  const [siteVoice, setSiteVoice] = useLocalStorageState<string>('voice.siteProfile', DEFAULT_VOICE_PROFILE);
+  // Voices learned from the site's crawled pages (services/VoiceAnalyzer.ts)
+  const [learnedVoices, setLearnedVoices] = useLocalStorageState<VoiceProfile[]>('voice.learned', []);
+  const [voiceSampleSize, setVoiceSampleSize] = useLocalStorageState<number>('voice.sampleSize', 25);
+  // Voice lookups recompute on `appliedLearnedVoices`, which changes only once the registry has the learned voices
+  const [appliedLearnedVoices, setAppliedLearnedVoices] = useState<VoiceProfile[] | null>(null);
+  useEffect(() => {
+    voiceProfiles.configure(learnedVoices);
+    setAppliedLearnedVoices(learnedVoices);
+  }, [learnedVoices]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const siteVoiceProfile = useMemo(() => voiceProfiles.get(siteVoice), [siteVoice, appliedLearnedVoices]);
+
+  // AI clients & bound callAI
+  const apiClients = useMemo(
+    () => createApiClients(aiConfig),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [aiConfig.gemini, aiConfig.openai, aiConfig.anthropic, aiConfig.openrouter, aiConfig.groq, aiConfig.customBaseUrl, aiConfig.customApiKey]
+  );
+  const geoTargeting = useMemo<ExpandedGeoTargeting>(
+    () => ({ enabled: advConfig.enableGeoTargeting, location: advConfig.geoTargetCountry, region: '', country: advConfig.geoTargetCountry, postalCode: '' }),
+    [advConfig.enableGeoTargeting, advConfig.geoTargetCountry]
+  );
+  const serviceCallAI: ServiceCallAI = (promptKey, args, format = 'json', grounding = false, options) =>
+    callAI(
+      apiClients,
+      routePrimary,
+      geoTargeting,
+      parseModelChain(aiConfig.openrouterFallbackChain),
+      '',
+      promptKey,
+      args,
+      format,
+      grounding && aiConfig.enableGoogleGrounding,
+      { voice: siteVoiceProfile, ...options }
+    );
+  // The engine outlives renders, so it calls through a ref to the latest callAI
+  const callAIRef = useRef(serviceCallAI);
+  callAIRef.current = serviceCallAI;
+  const aiEngine = useMemo(
+    () => new ParallelAIEngine(createCallAIExecutor((...args) => callAIRef.current(...args)), { maxConcurrent: 4 }),
+    []
+  );
 
   // Content items
-  const [contentItems, setContentItems] = useLocalStorageState<ContentItem[]>('contentItems', []);
+  const [contentItems, setContentItems] = useStoredCollection<ContentItem>('contentItems', byNewest);
+  const qualityReports = useMemo(() => {
+    const location = advConfig.enableGeoTargeting ? advConfig.geoTargetCountry : undefined;
+    return new Map(contentItems.map((item) => [item.id, evaluateItemQuality(item, wpConfig.siteUrl, location)]));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contentItems, appliedQualityOverrides, wpConfig.siteUrl, advConfig.enableGeoTargeting, advConfig.geoTargetCountry]);
+  const voiceMatches = useMemo(
+    () =>
+      new Map(
+        contentItems.flatMap((item) =>
+          item.generatedContent ? [[item.id, voiceMatch(item.generatedContent.content, voiceForItem(item, siteVoice))] as const] : []
+        )
+      ),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [contentItems, siteVoice, appliedLearnedVoices]
+  );
+  const reviewItem = contentItems.find((item) => item.id === reviewItemId && item.generatedContent) ?? null;
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
+  const [publishStatus, setPublishStatus] = useLocalStorageState<PostStatus>('publish.status', 'publish');
+  const [publishScheduledAt, setPublishScheduledAt] = useLocalStorageState<string>('publish.scheduledAt', '');
+  const [streamPreviews, setStreamPreviews] = useState<Record<string, StreamProgress>>({});
+  const [generationRunning, setGenerationRunning] = useState(false);
+  const generationStopRef = useRef<Set<string>>(new Set());
+  const generationControllers = useRef<Map<string, AbortController>>(new Map());
 
   // Sitemap & Content Hub
   const [sitemapInput, setSitemapInput] = useLocalStorageState<string>('sitemap.input', '');
-  const [existingPages, setExistingPages] = useLocalStorageState<SitemapPage[]>('existingPages', []);
+  const [existingPages, setExistingPages] = useStoredCollection<SitemapPage>('pages');
+  const [sitemapValidators, setSitemapValidators] = useLocalStorageState<SitemapValidators>('sitemap.validators', {});
+  const [lastChangeset, setLastChangeset] = useState<SitemapChangeset | null>(null);
   const [crawlBusy, setCrawlBusy] = useState(false);
+  const [analyzeProgress, setAnalyzeProgress] = useState<{ current: number; total: number } | null>(null);
+  const analyzeControllerRef = useRef<AbortController | null>(null);
 
   // Single Article
   const [singleKeywords, setSingleKeywords] = useLocalStorageState<string>('single.keywords', '');
 
   // Bulk Planner
   const [bulkKeywords, setBulkKeywords] = useLocalStorageState<string>('bulk.keywords', '');
+  const [bulkResearch, setBulkResearch] = useLocalStorageState<boolean>('bulk.research', false);
+  const [researchTasks, setResearchTasks] = useState<TaskProgress[]>([]);
+  const [researchController, setResearchController] = useState<AbortController | null>(null);
 
   // God Mode
   const [targetUrlsText, setTargetUrlsText] = useLocalStorageState<string>('god.targetUrls', '');
@@ -555,16 +722,29 @@ export default function App() {
   const [godActive, setGodActive] = useState(false);
   const stopRef = useRef(false);
   const [recentOptimized, setRecentOptimized] = useState<{ title: string; url: string; at: string; improvement: number }[]>([]);
+  const [godDryRun, setGodDryRun] = useLocalStorageState<boolean>('god.dryRun', false);
+  const [godReport, setGodReport] = useState<GodModeReport | null>(null);
+  const [maintenanceStatus, setMaintenanceStatus] = useState(() => maintenanceEngine.getStatus());
+  const [maintenanceEvents, setMaintenanceEvents] = useState<MaintenanceEvent[]>(() => maintenanceEngine.getEvents());
 
   // Image Generator
   const [imagePrompt, setImagePrompt] = useLocalStorageState<string>('image.prompt', '');
   const [imageCount, setImageCount] = useLocalStorageState<number>('image.count', 1);
   const [imageAspectRatio, setImageAspectRatio] = useLocalStorageState<string>('image.aspectRatio', '1:1');
-  const [generatedImages, setGeneratedImages] = useLocalStorageState<GeneratedImage[]>('generatedImages', []);
+  const [generatedImages, setGeneratedImages] = useStoredCollection<GeneratedImage>('images', (a, b) => b.timestamp - a.timestamp);
   const [imageGenerating, setImageGenerating] = useState(false);
 
   // Logs
   const { logs, addInfo, addWarn, addError, addSuccess, clear } = useLogs();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => storageLayer.onWarning((w) => addWarn(w.message)), []);
+
+  // Post revisions
+  const [revisions, setRevisions] = useState<PostRevision[]>(() => revisionStore.list());
+  const [restoringRevisionId, setRestoringRevisionId] = useState<string | null>(null);
+  useEffect(() => revisionStore.subscribe(setRevisions), []);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const revisionGroups = useMemo(() => Array.from(revisionStore.groupByUrl().entries()), [revisions]);
 
   // Diagnostics
   const [diagBusy, setDiagBusy] = useState(false);
@@ -587,6 +767,78 @@ export default function App() {
     () => prioritizeQueue(targetedUrls, existingPages, excludedUrls, excludedCategories),
     [targetedUrls, existingPages, excludedUrls, excludedCategories]
   );
+  const activePageCount = useMemo(() => existingPages.filter((p) => !p.removedAt).length, [existingPages]);
+
+  // Continuous maintenance: the engine picks the stalest page and hands it to the God Mode pipeline
+  useEffect(
+    () =>
+      maintenanceEngine.subscribe(() => {
+        setMaintenanceStatus(maintenanceEngine.getStatus());
+        setMaintenanceEvents(maintenanceEngine.getEvents());
+      }),
+    []
+  );
+  useEffect(() => {
+    maintenanceEngine.setRefreshHandler(async (url, _context, signal) => {
+      if (!isWordPressConfigured(wpConfig)) return { success: false, message: 'WordPress is not configured' };
+      const result = await optimizeUrl(url, {
+        callAI: costLedger.bind((...args) => callAIRef.current(...args), { itemId: url, contentType: 'god-mode' }),
+        fetchPostBySlug: (slug) => fetchWordPressPostBySlug(wpConfig, slug),
+        updatePostContent: async (id, html, scores) => {
+          await updateWordPressPostContent(wpConfig, id, html, {
+            operation: 'god-mode',
+            url,
+            qualityBefore: scores.before,
+            qualityAfter: scores.after,
+          });
+        },
+      }, { dryRun: godDryRun, signal, siteUrl: wpConfig.siteUrl });
+      if (result.applied) {
+        setRecentOptimized((prev) => [
+          { title: slugFromUrl(url) || url, url, at: new Date().toLocaleTimeString(), improvement: result.delta },
+          ...prev,
+        ].slice(0, 50));
+      }
+      const prefix = result.wouldApply ? '[dry run] would update: ' : result.applied ? `updated (+${result.delta}): ` : '';
+      return { success: result.postId !== null, message: `${prefix}${result.reason}` };
+    });
+    return () => maintenanceEngine.setRefreshHandler(null);
+  }, [wpConfig, godDryRun]);
+  useEffect(() => {
+    if (maintenanceStatus.running) maintenanceEngine.updateContext(maintenanceContext());
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [existingPages, excludedUrls, excludedCategories]);
+  useEffect(() => () => maintenanceEngine.stop(), []);
+
+  // Pre-flight cost estimates, priced on the first model of the route chain
+  const primaryRouteModel = useMemo(
+    () => buildRouteChain(routePrimary, parseModelChain(aiConfig.openrouterFallbackChain), '')[0]?.model ?? '',
+    [routePrimary, aiConfig.openrouterFallbackChain]
+  );
+  const bulkKeywordCount = useMemo(() => bulkKeywords.split('\n').map((k) => k.trim()).filter(Boolean).length, [bulkKeywords]);
+  const bulkEstimate = useMemo(
+    () => costLedger.estimateRun('standard', bulkKeywordCount, primaryRouteModel),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [bulkKeywordCount, primaryRouteModel, usageRecords, costBudgets]
+  );
+  const godEstimate = useMemo(
+    () => costLedger.estimateRun('god-mode', godQueue.length, primaryRouteModel),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [godQueue.length, primaryRouteModel, usageRecords, costBudgets]
+  );
+  const costBreakdown = useMemo(
+    () => ({
+      promptKey: costLedger.breakdown('promptKey'),
+      contentType: costLedger.breakdown('contentType'),
+      model: costLedger.breakdown('model'),
+    }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [usageRecords]
+  );
+  const todayUsage = useMemo(() => {
+    const since = new Date().setHours(0, 0, 0, 0);
+    return sumUsage(usageRecords.filter((r) => r.timestamp >= since));
+  }, [usageRecords]);
 
   // WordPress diagnostics
   async function runDiagnostics() {
@@ -608,8 +860,47 @@ export default function App() {
     }
   }
 
-  // Crawl sitemap
-  async function handleCrawlSitemap() {
+  async function testFetchProxy() {
+    setProxyStatus(null);
+    const result = await checkFetchProxy(fetchProxy);
+    setProxyStatus(result.ok
+      ? { ok: true, text: `✓ Proxy reachable • ${result.allowedHosts.length} allowed host(s): ${result.allowedHosts.join(', ') || 'none'}` }
+      : { ok: false, text: `Proxy check failed: ${result.error}` });
+  }
+
+  // List the custom server's models; reported context windows fill in unset ones
+  async function handleDiscoverModels() {
+    setDiscoveringModels(true);
+    try {
+      const models = await discoverModels({ baseUrl: aiConfig.customBaseUrl, apiKey: aiConfig.customApiKey });
+      setCustomModels(models);
+      const reported = Object.fromEntries(
+        models.filter((m) => m.contextWindow && !aiConfig.customContextWindows[m.id]).map((m) => [m.id, m.contextWindow!])
+      );
+      setAiConfig((prev) => ({
+        ...prev,
+        customModel: prev.customModel || models[0]?.id || '',
+        customContextWindows: { ...reported, ...prev.customContextWindows },
+      }));
+      if (models.length === 0) addWarn('The server reported no models');
+      else addSuccess(`✓ Found ${models.length} model(s) on ${aiConfig.customBaseUrl}`);
+    } catch (e: any) {
+      addError(`Model discovery failed: ${e?.message || 'error'}`);
+    } finally {
+      setDiscoveringModels(false);
+    }
+  }
+
+  function setCustomContextWindow(model: string, text: string) {
+    const tokens = parseInt(text, 10);
+    setAiConfig((prev) => {
+      const { [model]: _removed, ...rest } = prev.customContextWindows;
+      return { ...prev, customContextWindows: Number.isFinite(tokens) && tokens > 0 ? { ...rest, [model]: tokens } : rest };
+    });
+  }
+
+  // Crawl sitemap; incremental unless `full`, which drops the stored validators
+  async function handleCrawlSitemap(full = false) {
     const input = sitemapInput.trim() || wpConfig.siteUrl;
     if (!input) {
       addWarn('Enter a sitemap URL or set Site URL in Setup');
@@ -617,9 +908,17 @@ export default function App() {
     }
     setCrawlBusy(true);
     try {
-      const pages = await crawlSitemap(input, 20000, (m) => addInfo(m));
+      const { pages, changeset, validators, sitemaps, errors } = await recrawlSitemap(
+        input,
+        { pages: existingPages, validators: full ? {} : sitemapValidators },
+        { limit: 20000, onProgress: (m) => addInfo(m) }
+      );
+      if (sitemaps.length === 0 && errors.length > 0) throw new Error(errors[errors.length - 1]);
       setExistingPages(pages);
-      addSuccess(`✓ Crawled ${pages.length} pages from sitemap`);
+      setSitemapValidators(validators);
+      setLastChangeset(changeset);
+      errors.forEach((e) => addWarn(e));
+      addSuccess(`✓ Crawled ${sitemaps.length} sitemap(s): ${summarizeChangeset(changeset)}`);
     } catch (e: any) {
   addError(`Sitemap crawl failed: ${e?.message || 'error'}`);  // ← Error shown here
     } finally {
@@ -627,6 +926,47 @@ export default function App() {
     }
   }
 
+  // Health-score pages with the batch analyzer; pages whose lastmod hasn't changed come from the analysis cache
+  async function handleAnalyzePages() {
+    // A changed lastmod invalidates both the analysis and the crawled text
+    const pending = existingPages
+      .filter((p) => !p.removedAt && (p.status !== 'analyzed' || p.sitemapStatus === 'changed'))
+      .map((p) => (p.sitemapStatus === 'changed' ? { ...p, crawledContent: null } : p));
+    if (pending.length === 0) {
+      addInfo('Every page is already analyzed');
+      return;
+    }
+    if (!Object.values(apiClients).some(Boolean)) {
+      addWarn('Add at least one AI provider key in Setup tab first');
+      return;
+    }
+    if (pending.length > 50 && !window.confirm(`Analyze ${pending.length} pages? Each uncached page is one AI call.`)) return;
+    // New and changed pages first
+    const isFresh = (p: SitemapPage) => p.sitemapStatus === 'new' || p.sitemapStatus === 'changed';
+    const ordered = [...pending].sort((a, b) => Number(isFresh(b)) - Number(isFresh(a)));
+    const controller = new AbortController();
+    analyzeControllerRef.current = controller;
+    const run = costLedger.beginRun('page-analysis');
+    addInfo(`🔍 Analyzing ${ordered.length} page(s)...`);
+    try {
+      await generateContent.analyzePages(
+        ordered,
+        run.bind(serviceCallAI),
+        setExistingPages,
+        setAnalyzeProgress,
+        () => controller.signal.aborted,
+        { signal: controller.signal }
+      );
+      const spent = run.totals();
+      addSuccess(`✓ Page analysis ${controller.signal.aborted ? 'stopped' : 'finished'} (${spent.calls} AI calls, ${formatUsd(spent.cost)})`);
+    } catch (e: any) {
+      addError(`Page analysis failed: ${e?.message || 'error'}`);
+    } finally {
+      analyzeControllerRef.current = null;
+      setAnalyzeProgress(null);
+    }
+  }
+
   // Generate single article
   function handleGenerateSingle() {
     const keywords = singleKeywords.split(',').map((k) => k.trim()).filter(Boolean);
@@ -638,9 +978,12 @@ export default function App() {
     const item: ContentItem = {
       id: `article-${Date.now()}`,
       title: keywords.join(', '),
-      type: 'article',
-      status: 'draft',
+      type: 'standard',
+      status: 'idle',
+      statusText: CONTENT_ITEM_STATUS_TEXT.idle,
       keywords,
+      generatedContent: null,
+      crawledContent: null,
       createdAt: Date.now(),
     };
 
@@ -650,7 +993,7 @@ export default function App() {
   }
 
   // Generate bulk articles
-  function handleGenerateBulk() {
+  async function handleGenerateBulk() {
     const keywords = bulkKeywords.split('\n').map((k) => k.trim()).filter(Boolean);
     if (keywords.length === 0) {
       addWarn('Enter keywords (one per line)');
@@ -660,15 +1003,68 @@ export default function App() {
     const items: ContentItem[] = keywords.map((kw) => ({
       id: `bulk-${Date.now()}-${Math.random()}`,
       title: kw,
-      type: 'bulk',
-      status: 'draft',
+      type: 'standard',
+      status: 'idle',
+      statusText: CONTENT_ITEM_STATUS_TEXT.idle,
       keywords: [kw],
+      generatedContent: null,
+      crawledContent: null,
       createdAt: Date.now(),
     }));
 
     setContentItems((prev) => [...items, ...prev]);
     addSuccess(`✓ ${items.length} articles planned`);
-    setMainTab('review');
+    addInfo(`Estimated generation cost: ${describeEstimate(bulkEstimate)}`);
+    if (bulkEstimate.exceedsRunBudget) addWarn(`Estimate exceeds the per-run budget of ${formatUsd(costBudgets.perRun)}`);
+    if (!bulkResearch || !Object.values(apiClients).some(Boolean)) {
+      setMainTab('review');
+      return;
+    }
+    await researchBulkKeywords(items);
+  }
+
+  // Expand each planned article's keywords in parallel, showing per-task progress
+  async function researchBulkKeywords(items: ContentItem[]) {
+    const controller = new AbortController();
+    setResearchController(controller);
+    const run = costLedger.beginRun('keyword-research');
+    const tasks: AITask[] = items.map((item, i) => ({
+      id: `research-${item.id}`,
+      label: item.title,
+      promptKey: 'semantic_keyword_generator',
+      args: [item.title, advConfig.enableGeoTargeting ? advConfig.geoTargetCountry : null],
+      // The first articles in the list get researched first
+      priority: i < 3 ? 'high' : 'medium',
+      scope: run.scope({ itemId: item.id }),
+    }));
+    addInfo(`🔎 Researching semantic keywords for ${tasks.length} articles...`);
+
+    const results = await aiEngine.executeBatch(tasks, {
+      signal: controller.signal,
+      onProgress: (_progress, all) => setResearchTasks(all),
+    });
+    setResearchController(null);
+
+    const found = new Map<string, string[]>();
+    results.forEach((result, i) => {
+      const item = items[i];
+      if (!item || !result.success) return;
+      // The engine validates structured prompts, so data is already typed
+      const { semanticKeywords } = result.data as SemanticKeywords;
+      if (semanticKeywords.length > 0) found.set(item.id, semanticKeywords);
+    });
+    setContentItems((prev) =>
+      prev.map((item) => {
+        const keywords = found.get(item.id);
+        return keywords ? { ...item, keywords: Array.from(new Set([...item.keywords, ...keywords])) } : item;
+      })
+    );
+
+    const cancelled = results.filter((r) => r.cancelled).length;
+    const failed = results.filter((r) => !r.success && !r.cancelled).length;
+    addSuccess(`✓ Keywords expanded for ${found.size}/${items.length} articles (${formatUsd(run.totals().cost)})`);
+    if (failed > 0) addWarn(`${failed} keyword research tasks failed`);
+    if (cancelled > 0) addWarn(`${cancelled} keyword research tasks cancelled`);
   }
 
   // God Mode
@@ -681,13 +1077,39 @@ export default function App() {
       addWarn('No targets. Add URLs or crawl sitemap');
       return;
     }
+    if (!Object.values(apiClients).some(Boolean)) {
+      addWarn('Add at least one AI provider key in Setup tab first');
+      return;
+    }
+    if (
+      godEstimate.exceedsRunBudget &&
+      costBudgets.onExceed === 'stop' &&
+      !window.confirm(`Estimated cost ${describeEstimate(godEstimate)} exceeds the per-run budget of ${formatUsd(costBudgets.perRun)}. The run will stop once the budget is spent. Start anyway?`)
+    ) {
+      return;
+    }
     stopRef.current = false;
     setGodActive(true);
-    addInfo(`⚡ God Mode started with ${godQueue.length} URLs`);
+    addInfo(`⚡ God Mode ${godDryRun ? 'dry run ' : ''}started with ${godQueue.length} URLs (estimated ${describeEstimate(godEstimate)})`);
+
+    const report = godDryRun ? createReport(wpConfig.siteUrl) : null;
+    const run = costLedger.beginRun('god-mode');
 
     await runGodMode({
       cfg: wpConfig,
       queue: godQueue,
+      callAI: serviceCallAI,
+      run,
+      dryRun: godDryRun,
+      onUrlResult: (r) => {
+        // Prefer the ledger's records for this URL, priced at the model that served each call;
+        // without records nothing reached a provider, so there is nothing to price
+        const records = costLedger.list({ runId: run.id, itemId: r.url });
+        const usage = records.length > 0
+          ? { ...sumUsage(records), estimated: records.some((record) => record.estimated) }
+          : { ...r.usage, cost: 0 };
+        if (report) report.entries.push(createReportEntry({ ...r, usage }));
+      },
       onLog: (m, level = 'info') => {
         if (level === 'info') addInfo(m);
         else if (level === 'warn') addWarn(m);
@@ -709,8 +1131,57 @@ export default function App() {
       },
       stopRef,
     });
+    const spent = run.totals();
+    addInfo(`God Mode spend: ${formatUsd(spent.cost)} over ${spent.calls} AI calls (${(spent.inputTokens + spent.outputTokens).toLocaleString()} tokens)`);
+
+    if (report) {
+      setGodReport(report);
+      const totals = summarizeReport(report);
+      addSuccess(`✓ Dry run complete: ${totals.proposals}/${totals.urls} URLs would be updated, ~$${totals.estimatedCost.toFixed(4)} estimated`);
+    } else {
+      addSuccess('✓ God Mode cycle complete');
+    }
+    setGodActive(false);
+  }
 
-    addSuccess('✓ God Mode cycle complete');
+  function exportGodReport(format: 'json' | 'html') {
+    if (!godReport) return;
+    const body = format === 'json' ? reportToJson(godReport) : reportToHtml(godReport);
+    const blob = new Blob([body], { type: format === 'json' ? 'application/json' : 'text/html' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${godReport.id}.${format}`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  async function importGodReport(file: File) {
+    try {
+      setGodReport(parseReport(await file.text()));
+      addInfo(`Loaded report ${file.name}`);
+    } catch (e: any) {
+      addError(`Could not load report: ${e?.message}`);
+    }
+  }
+
+  async function replayGodReport() {
+    if (!godReport || !isWordPressConfigured(wpConfig)) return;
+    stopRef.current = false;
+    setGodActive(true);
+    addInfo(`⚡ Replaying report ${godReport.id}`);
+    const result = await replayReport(godReport, {
+      fetchPostBySlug: (slug) => fetchWordPressPostBySlug(wpConfig, slug),
+      updatePostContent: async (id, html, entry) => {
+        await updateWordPressPostContent(wpConfig, id, html, {
+          operation: 'god-mode',
+          url: entry.url,
+          qualityBefore: entry.beforeScore,
+          qualityAfter: entry.afterScore,
+        });
+      },
+      onLog: (m) => addInfo(m),
+    }, () => stopRef.current);
+    addSuccess(`✓ Replay complete: ${result.applied.length} applied, ${result.skipped.length} skipped`);
     setGodActive(false);
   }
 
@@ -719,6 +1190,23 @@ export default function App() {
     addWarn('Stopping God Mode...');
   }
 
+  function maintenanceContext(): GenerationContext {
+    return { ...generationContext(), excludedUrls, excludedCategories };
+  }
+
+  function startMaintenance() {
+    if (!isWordPressConfigured(wpConfig)) {
+      addWarn('Configure WordPress in Setup tab first');
+      return;
+    }
+    if (!Object.values(apiClients).some(Boolean)) {
+      addWarn('Add at least one AI provider key in Setup tab first');
+      return;
+    }
+    maintenanceEngine.setPriorityUrls(targetedUrls);
+    maintenanceEngine.start(maintenanceContext());
+  }
+
   // Image generation
   async function handleGenerateImages() {
     if (!imagePrompt.trim()) {
@@ -734,18 +1222,17 @@ export default function App() {
     addInfo(`Generating ${imageCount} image(s)...`);
 
     try {
-      // Simulate image generation (replace with actual API calls)
-      await sleep(2000);
-      const images: GeneratedImage[] = [];
-      for (let i = 0; i < imageCount; i++) {
-        images.push({
-          url: `https://via.placeholder.com/800x600?text=Image+${i + 1}`,
-          prompt: imagePrompt,
-          timestamp: Date.now(),
-        });
-      }
-      setGeneratedImages((prev) => [...images, ...prev]);
-      addSuccess(`✓ Generated ${imageCount} image(s)`);
+      const results = await generateImages(apiClients, imagePrompt, { count: imageCount, aspectRatio: imageAspectRatio });
+      const now = Date.now();
+      const images: GeneratedImage[] = results.map((r, i) => ({
+        id: `img-${now}-${i}`,
+        url: r.src,
+        prompt: imagePrompt,
+        timestamp: now,
+      }));
+      // base64 images are large; keep the persisted history short
+      setGeneratedImages((prev) => [...images, ...prev].slice(0, 20));
+      addSuccess(`✓ Generated ${images.length} image(s) with ${results[0]?.provider}`);
     } catch (e: any) {
       addError(`Image generation failed: ${e?.message || 'error'}`);
     } finally {
@@ -753,9 +1240,149 @@ export default function App() {
     }
   }
 
+  function generationContext(): GenerationContext {
+    return {
+      dispatch: (action: ItemsAction) => setContentItems((prev) => itemsReducer(prev, action)),
+      existingPages,
+      siteInfo: {
+        orgName: wpConfig.organizationName,
+        orgUrl: wpConfig.siteUrl,
+        logoUrl: wpConfig.logoUrl,
+        orgSameAs: [],
+        authorName: wpConfig.authorName,
+        authorUrl: wpConfig.authorPageUrl,
+        authorSameAs: [],
+      },
+      wpConfig: { url: wpConfig.siteUrl, siteUrl: wpConfig.siteUrl, username: wpConfig.username, appPassword: wpConfig.appPassword },
+      geoTargeting,
+      serperApiKey: aiConfig.serper,
+      apiKeyStatus: {},
+      apiClients,
+      selectedModel: routePrimary,
+      openrouterModels: parseModelChain(aiConfig.openrouterFallbackChain),
+      selectedGroqModel: '',
+      neuronConfig: { apiKey: advConfig.neuronWriterApiKey, projectId: '', enabled: advConfig.enableNeuronWriter },
+      voiceProfile: siteVoice,
+    };
+  }
+
+  // Article generation (services.tsx pipeline), streamed into the Review tab
+  async function handleGenerateSelected() {
+    const selected = contentItems.filter((item) => selectedItems.has(item.id) && (item.status === 'idle' || item.status === 'error'));
+    if (selected.length === 0) {
+      addWarn('Select items that are not started, stopped or failed');
+      return;
+    }
+    if (!Object.values(apiClients).some(Boolean)) {
+      addWarn('Add at least one AI provider key in Setup tab first');
+      return;
+    }
+
+    const context = generationContext();
+
+    generationStopRef.current = new Set();
+    generationControllers.current = new Map(selected.map((item) => [item.id, new AbortController()]));
+    setGenerationRunning(true);
+    addInfo(`✍️ Generating ${selected.length} article(s)...`);
+    try {
+      // Article images come from Imagen or OpenAI; without either key the placeholders stay for later
+      const articleImage = apiClients.gemini || apiClients.openai
+        ? async (prompt: string) => {
+            const [image] = await generateImages(apiClients, prompt, { count: 1, aspectRatio: '16:9' });
+            if (!image) throw new Error('no image returned');
+            return image.src;
+          }
+        : null;
+      await generateContent.generateItems(
+        selected,
+        serviceCallAI,
+        articleImage,
+        context,
+        ({ current, total }) => addInfo(`Article ${current}/${total}`),
+        () => generationStopRef,
+        {
+          onStream: (id, progress) => setStreamPreviews((prev) => ({ ...prev, [id]: progress })),
+          signalFor: (id) => generationControllers.current.get(id)?.signal,
+          repair: qualityRepair.auto ? { maxIterations: qualityRepair.maxIterations, tokenBudget: qualityRepair.tokenBudget } : null,
+        }
+      );
+      addSuccess('✓ Generation run finished');
+    } catch (e: any) {
+      addError(`Generation failed: ${e?.message || 'error'}`);
+    } finally {
+      generationControllers.current.clear();
+      setStreamPreviews({});
+      setGenerationRunning(false);
+    }
+  }
+
+  // Stop one item; mid-stream the text written so far is kept
+  function stopGeneration(id: string) {
+    generationStopRef.current.add(id);
+    generationControllers.current.get(id)?.abort();
+    addWarn('Stopping generation...');
+  }
+
+  // Quality repair loop on demand, for drafts that fail their gate in review
+  async function handleRepairItem(item: ContentItem) {
+    if (!item.generatedContent) return;
+    setRepairingItemId(item.id);
+    addInfo(`🔧 Repairing "${item.title}"...`);
+    try {
+      const { content: repaired, error } = await repairGeneratedContent(
+        item,
+        item.generatedContent,
+        costLedger.bind(serviceCallAI, { itemId: item.id, contentType: item.type }),
+        generationContext(),
+        { maxIterations: qualityRepair.maxIterations, tokenBudget: qualityRepair.tokenBudget },
+        (text) => addInfo(`"${item.title}" ${text}`)
+      );
+      setContentItems((prev) => prev.map((ci) => (ci.id === item.id ? { ...ci, generatedContent: repaired } : ci)));
+      const log = repaired.qualityRepair;
+      if (log && repaired !== item.generatedContent) addSuccess(`✓ "${item.title}": ${REPAIR_STOP_REASON_TEXT[log.stopReason]} (${log.tokens.toLocaleString()} tokens)`);
+      else addWarn(`"${item.title}": no repair pass improved the score`);
+      if (error !== undefined) addWarn(`Repair of "${item.title}" stopped early: ${(error as any)?.message || error}`);
+    } catch (e: any) {
+      addError(`Repair failed for "${item.title}": ${e?.message}`);
+    } finally {
+      setRepairingItemId(null);
+    }
+  }
+
+  function handleRevertHumanizerEdit(item: ContentItem, editId: number) {
+    const content = item.generatedContent;
+    if (!content?.humanizer) return;
+    const reverted = HumanWritingEngine.revertEdit(content.content, content.humanizer, editId);
+    if (!reverted) {
+      addWarn(`"${item.title}": that humanizer edit is no longer in the article`);
+      return;
+    }
+    setContentItems((prev) =>
+      prev.map((ci) =>
+        ci.id === item.id && ci.generatedContent ? { ...ci, generatedContent: { ...ci.generatedContent, content: reverted.html, humanizer: reverted.log } } : ci
+      )
+    );
+  }
+
+  function handleLearnVoice() {
+    try {
+      const voice = learnVoiceProfile(existingPages, wpConfig.siteUrl, { sampleSize: voiceSampleSize });
+      setLearnedVoices((prev) => [...prev.filter((v) => v.id !== voice.id), voice]);
+      setSiteVoice(voice.id);
+      addSuccess(`✓ Learned "${voice.label}" from ${voice.learned?.pages} pages`);
+    } catch (e: any) {
+      addError(`Voice learning failed: ${e?.message}`);
+    }
+  }
+
+  function handleDeleteVoice(id: string) {
+    setLearnedVoices((prev) => prev.filter((v) => v.id !== id));
+    if (siteVoice === id) setSiteVoice(DEFAULT_VOICE_PROFILE);
+  }
+
   // Bulk publish
   async function handleBulkPublish() {
-    const selected = contentItems.filter((item) => selectedItems.has(item.id) && item.status === 'ready');
+    const selected = contentItems.filter((item) => selectedItems.has(item.id) && item.status === 'done');
     if (selected.length === 0) {
       addWarn('No ready items selected');
       return;
@@ -766,25 +1393,78 @@ export default function App() {
       return;
     }
 
-    addInfo(`Publishing ${selected.length} item(s)...`);
+    if (publishStatus === 'future' && !publishScheduledAt) {
+      addWarn('Pick a publish date for scheduled posts');
+      return;
+    }
+
+    const publishable = selected.filter((item) => {
+      const report = qualityReports.get(item.id);
+      if (!enforceQualityGate || !report || report.passed) return true;
+      addWarn(`Held back "${item.title}": ${QUALITY_PROFILES[report.profile].label} quality gate failed at ${report.score}/100 (${summarizeFailures(report).slice(0, 3).join('; ')})`);
+      return false;
+    });
+    if (publishable.length === 0) return;
 
-    for (const item of selected) {
+    addInfo(`Publishing ${publishable.length} item(s) as ${publishStatus}...`);
+
+    for (const item of publishable) {
       try {
-        await publishToWordPress(wpConfig, item);
-        setContentItems((prev) =>
-          prev.map((ci) => (ci.id === item.id ? { ...ci, status: 'published' } : ci))
-        );
-        addSuccess(`✓ Published: ${item.title}`);
+        const result = await publishToWordPress(wpConfig, item, publishStatus, publishStatus === 'future' ? publishScheduledAt : undefined);
+        setContentItems((prev) => prev.map((ci) => (ci.id === item.id ? { ...ci, ...itemStatusAfterPublish(result) } : ci)));
+        addSuccess(`✓ ${result.action === 'updated' ? 'Updated' : 'Published'}: ${item.title} (post #${result.postId}, ${result.status})`);
+        result.warnings.forEach((w) => addWarn(w));
         await sleep(1000);
       } catch (e: any) {
         addError(`Failed to publish "${item.title}": ${e?.message}`);
         setContentItems((prev) =>
-          prev.map((ci) => (ci.id === item.id ? { ...ci, status: 'error', error: e?.message } : ci))
+          prev.map((ci) => (ci.id === item.id ? { ...ci, status: 'error', statusText: CONTENT_ITEM_STATUS_TEXT.error, error: e?.message } : ci))
         );
       }
     }
   }
 
+  // Review modal: edits saved back onto the item, publishing goes through the same path as bulk publish
+  function handleSaveReview(itemId: string, seo: { title: string; metaDescription: string; slug: string }, html: string) {
+    setContentItems((prev) =>
+      prev.map((ci) =>
+        ci.id === itemId && ci.generatedContent
+          ? { ...ci, generatedContent: { ...ci.generatedContent, title: seo.title, metaDescription: seo.metaDescription, slug: extractSlugFromUrl(seo.slug), content: html } }
+          : ci
+      )
+    );
+    addSuccess('✓ Review changes saved');
+  }
+
+  async function publishReviewedItem(item: ContentItem, _password: string, status: 'publish' | 'draft') {
+    if (!isWordPressConfigured(wpConfig)) return { success: false, message: 'Configure WordPress first' };
+    try {
+      const result = await publishToWordPress(wpConfig, item, status);
+      setContentItems((prev) => prev.map((ci) => (ci.id === item.id ? { ...ci, ...itemStatusAfterPublish(result) } : ci)));
+      result.warnings.forEach((w) => addWarn(w));
+      return { success: true, message: `${result.action === 'updated' ? 'Updated' : 'Published'} post #${result.postId} (${result.status})`, link: result.link };
+    } catch (e: any) {
+      return { success: false, message: `Publish failed: ${e?.message}` };
+    }
+  }
+
+  // Revision rollback
+  async function handleRestoreRevision(revision: PostRevision) {
+    if (!isWordPressConfigured(wpConfig)) {
+      addWarn('Configure WordPress first');
+      return;
+    }
+    setRestoringRevisionId(revision.id);
+    try {
+      await restoreRevision(wpRevisionClient(wpConfig), revision);
+      addSuccess(`✓ Restored post #${revision.postId} to ${new Date(revision.createdAt).toLocaleString()}`);
+    } catch (e: any) {
+      addError(`Rollback failed for post #${revision.postId}: ${e?.message}`);
+    } finally {
+      setRestoringRevisionId(null);
+    }
+  }
+
   // Toggle selection
   function toggleSelection(id: string) {
     setSelectedItems((prev) => {
@@ -797,7 +1477,7 @@ export default function App() {
 
   // UI Helpers
   const wpConnected = isWordPressConfigured(wpConfig);
-  const aiConfigured = !!(aiConfig.gemini || aiConfig.openai);
+  const aiConfigured = !!(aiConfig.gemini || aiConfig.openai || aiConfig.customBaseUrl.trim());
 
   useEffect(() => {
     document.body.style.background = '#0a0e1a';
@@ -808,6 +1488,7 @@ export default function App() {
     { key: 'setup', label: '1. Setup & Configuration', icon: '⚙️' },
     { key: 'strategy', label: '2. Content Strategy & Planning', icon: '📝' },
     { key: 'review', label: '3. Review & Export', icon: '✅' },
+    { key: 'costs', label: '4. Cost Dashboard', icon: '💰' },
   ];
 
   // Strategy sub-tabs
@@ -930,12 +1611,13 @@ export default function App() {
                       <option value="anthropic">Anthropic Claude 3</option>
                       <option value="openrouter">OpenRouter (Auto-Fallback)</option>
                       <option value="groq">Groq (High-Speed)</option>
+                      <option value="custom">Custom OpenAI-Compatible (Local)</option>
                     </select>
                   </div>
                   <InputField
-                    label="OpenRouter Model Fallback Chain (one per line)"
+                    label="Model Fallback Chain (one per line; OpenRouter ids, or custom:<model> for the local server)"
                     value={aiConfig.openrouterFallbackChain}
-                    onChange={(v) => setAiConfig({ ...aiConfig, openrouterFallbackChain: v })}
+                    onChange={(v: string) => setAiConfig({ ...aiConfig, openrouterFallbackChain: v })}
                     multiline
                     rows={3}
                   />
@@ -948,6 +1630,68 @@ export default function App() {
                 </div>
               </SectionCard>
 
+              <SectionCard
+                title="🖥️ Custom OpenAI-Compatible Server"
+                subtitle="Run drafts through a self-hosted Ollama, llama.cpp or vLLM server. Ollama needs OLLAMA_ORIGINS set to allow this app's origin."
+              >
+                <div style={{ display: 'grid', gap: 16 }}>
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+                    <InputField
+                      label="Base URL"
+                      value={aiConfig.customBaseUrl}
+                      onChange={(v: string) => setAiConfig({ ...aiConfig, customBaseUrl: v })}
+                      placeholder="http://localhost:11434/v1"
+                    />
+                    <InputField
+                      label="API Key (optional)"
+                      value={aiConfig.customApiKey}
+                      onChange={(v: string) => setAiConfig({ ...aiConfig, customApiKey: v })}
+                      placeholder="Only if the server checks one"
+                    />
+                  </div>
+                  <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+                    <button onClick={handleDiscoverModels} disabled={discoveringModels || !aiConfig.customBaseUrl.trim()} style={secondaryBtn}>
+                      {discoveringModels ? 'Discovering...' : '🔍 Discover Models'}
+                    </button>
+                    <select
+                      value={aiConfig.customModel}
+                      onChange={(e) => setAiConfig({ ...aiConfig, customModel: e.target.value })}
+                      style={{ ...selectStyle, flex: 1 }}
+                    >
+                      <option value="">Select the primary local model</option>
+                      {customModelIds.map((id) => (
+                        <option key={id} value={id}>{id}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {aiConfig.primaryModel === 'custom' && !aiConfig.customModel.trim() && (
+                    <div style={{ fontSize: 12, color: '#ffd166' }}>
+                      ⚠️ Select a local model, or requests skip the custom server and go straight to the fallback chain
+                    </div>
+                  )}
+                  {customModelIds.length > 0 && (
+                    <div style={{ display: 'grid', gap: 8 }}>
+                      <div style={{ fontSize: 13, fontWeight: 500 }}>Context window per model (tokens)</div>
+                      {customModelIds.map((id) => (
+                        <div key={id} style={{ display: 'grid', gridTemplateColumns: '1fr 200px', gap: 12, alignItems: 'center', fontSize: 13 }}>
+                          <span>
+                            {id}
+                            <span style={{ opacity: 0.6 }}> — add to the fallback chain as {customModelRef(id)}</span>
+                          </span>
+                          <input
+                            value={aiConfig.customContextWindows[id] ? String(aiConfig.customContextWindows[id]) : ''}
+                            onChange={(e) => setCustomContextWindow(id, e.target.value)}
+                            placeholder="e.g. 8192"
+                            inputMode="numeric"
+                            style={inputStyle}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </SectionCard>
+
               <SectionCard title="WordPress & Site Information">
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
                   <InputField
@@ -1008,6 +1752,194 @@ export default function App() {
                 </div>
               </SectionCard>
 
+              <SectionCard title="First-Party Fetch Proxy" subtitle="Your own Cloudflare Worker (src/sitemap-worker.ts). Requests with WordPress or NeuronWriter credentials are only ever proxied through it, never through public CORS proxies.">
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+                  <InputField
+                    label="Proxy URL"
+                    value={fetchProxy.url}
+                    onChange={(v: string) => setFetchProxy({ ...fetchProxy, url: v })}
+                    placeholder="http://localhost:8787"
+                  />
+                  <InputField
+                    label="Proxy Secret (X-Proxy-Secret)"
+                    value={fetchProxy.secret}
+                    onChange={(v: string) => setFetchProxy({ ...fetchProxy, secret: v })}
+                    placeholder="PROXY_SECRET from .dev.vars or wrangler secret"
+                  />
+                </div>
+                <div style={{ marginTop: 16, display: 'flex', gap: 8, alignItems: 'center' }}>
+                  <button onClick={testFetchProxy} disabled={!fetchProxy.url || !fetchProxy.secret} style={secondaryBtn}>
+                    Test Proxy
+                  </button>
+                  {proxyStatus && <div style={{ fontSize: 13, color: proxyStatus.ok ? '#50fa7b' : '#ff6b6b' }}>{proxyStatus.text}</div>}
+                </div>
+              </SectionCard>
+
+              <SectionCard title="💰 Cost Budgets" subtitle="Hard limits in USD, checked before every AI call. 0 means no limit.">
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: 16 }}>
+                  <InputField
+                    label="Per item"
+                    value={budgetInputs.perItem}
+                    onChange={(v: string) => setBudgetInputs({ ...budgetInputs, perItem: v })}
+                    placeholder="0.50"
+                  />
+                  <InputField
+                    label="Per run"
+                    value={budgetInputs.perRun}
+                    onChange={(v: string) => setBudgetInputs({ ...budgetInputs, perRun: v })}
+                    placeholder="5"
+                  />
+                  <InputField
+                    label="Per day"
+                    value={budgetInputs.perDay}
+                    onChange={(v: string) => setBudgetInputs({ ...budgetInputs, perDay: v })}
+                    placeholder="20"
+                  />
+                  <div>
+                    <label style={{ display: 'block', marginBottom: 8, fontSize: 13, fontWeight: 500 }}>When exceeded</label>
+                    <select
+                      value={budgetInputs.onExceed}
+                      onChange={(e) => setBudgetInputs({ ...budgetInputs, onExceed: e.target.value as CostBudgets['onExceed'] })}
+                      style={selectStyle}
+                    >
+                      <option value="stop">Stop</option>
+                      <option value="downgrade">Downgrade to cheapest model</option>
+                    </select>
+                  </div>
+                </div>
+                <div style={{ fontSize: 12, opacity: 0.7, marginTop: 12 }}>
+                  Spent today: {formatUsd(todayUsage.cost)} over {todayUsage.calls} calls
+                </div>
+              </SectionCard>
+
+              <SectionCard title="🗣️ Brand Voice" subtitle="The voice article prompts and the humanizer write in. Items can pick a different one in Review.">
+                <div style={{ display: 'grid', gridTemplateColumns: '240px 1fr', gap: 16, alignItems: 'start' }}>
+                  <select value={siteVoiceProfile.id} onChange={(e) => setSiteVoice(e.target.value)} style={selectStyle}>
+                    {voiceProfiles.list().map((v) => (
+                      <option key={v.id} value={v.id}>
+                        {v.label}
+                      </option>
+                    ))}
+                  </select>
+                  <div style={{ fontSize: 13, lineHeight: 1.6 }}>
+                    <div>{siteVoiceProfile.tone}</div>
+                    <div style={{ opacity: 0.7 }}>
+                      Grade {siteVoiceProfile.readingLevel} • {siteVoiceProfile.person} person • contractions: {siteVoiceProfile.contractions} • ~
+                      {siteVoiceProfile.sentenceLength.target} words per sentence (max {siteVoiceProfile.sentenceLength.max})
+                    </div>
+                    {siteVoiceProfile.bannedPhrases.length > 0 && (
+                      <div style={{ opacity: 0.7 }}>Never: {siteVoiceProfile.bannedPhrases.join(', ')}</div>
+                    )}
+                    {siteVoiceProfile.examples[0] && <blockquote style={{ margin: '8px 0 0', paddingLeft: 12, borderLeft: '3px solid rgba(45, 92, 255, 0.5)', opacity: 0.8 }}>{siteVoiceProfile.examples[0]}</blockquote>}
+                    {siteVoiceProfile.learned && <LearnedVoiceSummary voice={siteVoiceProfile} />}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: 12, alignItems: 'flex-end', marginTop: 16 }}>
+                  <div style={{ width: 160 }}>
+                    <label style={{ display: 'block', marginBottom: 6, fontSize: 12, fontWeight: 500 }}>Pages to sample</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={voiceSampleSize}
+                      onChange={(e) => setVoiceSampleSize(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                      style={inputStyle}
+                    />
+                  </div>
+                  <button onClick={handleLearnVoice} disabled={existingPages.length === 0} style={secondaryBtn}>
+                    🎓 Learn from site
+                  </button>
+                  {!voiceProfiles.isBuiltIn(siteVoiceProfile.id) && (
+                    <button onClick={() => handleDeleteVoice(siteVoiceProfile.id)} style={dangerBtn}>
+                      Delete voice
+                    </button>
+                  )}
+                </div>
+                <div style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>
+                  Samples the best crawled pages from the Content Hub (highest health score first) and measures how the site writes.
+                </div>
+              </SectionCard>
+
+              <SectionCard title="✅ Quality Profiles" subtitle="Thresholds and rule severities the Review tab, God Mode and the publish gate all score against.">
+                <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 16 }}>
+                  <select
+                    value={qualityProfileTab}
+                    onChange={(e) => setQualityProfileTab(e.target.value as QualityProfileId)}
+                    style={{ ...selectStyle, width: 240 }}
+                  >
+                    {Object.values(QUALITY_PROFILES).map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.label}
+                        {qualityOverrides[p.id] ? ' (customized)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <button onClick={resetQualityProfile} disabled={!qualityOverrides[qualityProfileTab]} style={secondaryBtn}>
+                    Reset to defaults
+                  </button>
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: 12 }}>
+                  {(Object.keys(QUALITY_THRESHOLD_LABELS) as (keyof QualityThresholds)[]).map((key) => (
+                    <div key={key}>
+                      <label style={{ display: 'block', marginBottom: 6, fontSize: 12, fontWeight: 500 }}>{QUALITY_THRESHOLD_LABELS[key]}</label>
+                      <input
+                        type="number"
+                        value={editedProfile.thresholds[key]}
+                        onChange={(e) => setQualityThreshold(key, e.target.value)}
+                        style={inputStyle}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8, marginTop: 16 }}>
+                  {qualityEngine.getRules().map((rule) => (
+                    <div key={rule.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 12, fontSize: 13 }}>
+                      <span>
+                        {rule.title} <span style={{ opacity: 0.5 }}>• {rule.category}</span>
+                      </span>
+                      <select
+                        value={qualityEngine.severityOf(rule, editedProfile)}
+                        onChange={(e) => setRuleSeverity(rule.id, e.target.value as RuleSeverity | 'off')}
+                        style={{ ...selectStyle, width: 120, padding: '6px 10px' }}
+                      >
+                        <option value="critical">Critical</option>
+                        <option value="high">High</option>
+                        <option value="medium">Medium</option>
+                        <option value="low">Low</option>
+                        <option value="off">Off</option>
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr', gap: 12, marginTop: 16, alignItems: 'end' }}>
+                  <Checkbox
+                    label="🔧 Auto-repair failing drafts"
+                    checked={qualityRepair.auto}
+                    onChange={(v: boolean) => setQualityRepair({ ...qualityRepair, auto: v })}
+                    description="Fix failing rules after generation and re-score until the gate passes or the score stops improving"
+                  />
+                  <div>
+                    <label style={{ display: 'block', marginBottom: 6, fontSize: 12, fontWeight: 500 }}>Max repair passes</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={qualityRepair.maxIterations}
+                      onChange={(e) => setQualityRepair({ ...qualityRepair, maxIterations: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                      style={inputStyle}
+                    />
+                  </div>
+                  <div>
+                    <label style={{ display: 'block', marginBottom: 6, fontSize: 12, fontWeight: 500 }}>Repair token budget (0 = none)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={qualityRepair.tokenBudget}
+                      onChange={(e) => setQualityRepair({ ...qualityRepair, tokenBudget: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      style={inputStyle}
+                    />
+                  </div>
+                </div>
+              </SectionCard>
+
               <SectionCard title="SOTA Image Publishing" subtitle="Multi-layer fallback system ensures images always upload without PHP configuration.">
                 <Checkbox
                   label="✅ Auto-Detect Upload Method"
@@ -1104,9 +2036,53 @@ export default function App() {
                     multiline
                     rows={10}
                   />
-                  <button onClick={handleGenerateBulk} style={{ ...primaryBtn, marginTop: 16 }}>
-                    🚀 Generate Bulk Plan →
-                  </button>
+                  {bulkKeywordCount > 0 && (
+                    <div style={{ fontSize: 12, marginTop: 8, color: bulkEstimate.exceedsRunBudget ? '#ffd166' : '#9aa7d8' }}>
+                      💰 Estimated generation cost: {describeEstimate(bulkEstimate)}
+                      {bulkEstimate.exceedsRunBudget && ` — over the ${formatUsd(costBudgets.perRun)} per-run budget`}
+                    </div>
+                  )}
+                  <div style={{ marginTop: 12 }}>
+                    <Checkbox
+                      label="Research semantic keywords for each article (parallel AI calls)"
+                      checked={bulkResearch}
+                      onChange={setBulkResearch}
+                    />
+                  </div>
+                  <div style={{ display: 'flex', gap: 12, marginTop: 16 }}>
+                    <button onClick={handleGenerateBulk} disabled={researchController !== null} style={primaryBtn}>
+                      🚀 Generate Bulk Plan →
+                    </button>
+                    {researchController && (
+                      <button onClick={() => researchController.abort()} style={dangerBtn}>
+                        ⏹ Cancel Research
+                      </button>
+                    )}
+                    {researchTasks.length > 0 && !researchController && (
+                      <button onClick={() => setMainTab('review')} style={secondaryBtn}>
+                        Go to Review →
+                      </button>
+                    )}
+                  </div>
+                  {researchTasks.length > 0 && (
+                    <div style={{ marginTop: 16, display: 'grid', gap: 6 }}>
+                      {researchTasks.map((task) => (
+                        <div key={task.id} style={{ display: 'flex', alignItems: 'center', gap: 10, fontSize: 13 }}>
+                          <TaskStateBadge state={task.state} />
+                          <span style={{ flex: 1 }}>{task.label}</span>
+                          {task.state === 'retrying' && task.error && (
+                            <span style={{ fontSize: 11, color: '#ffd166' }}>attempt {task.attempts} failed: {task.error}</span>
+                          )}
+                          {task.state === 'failed' && <span style={{ fontSize: 11, color: '#ff6b6b' }}>{task.error}</span>}
+                          {(task.state === 'queued' || task.state === 'running' || task.state === 'retrying') && (
+                            <button onClick={() => aiEngine.cancel(task.id)} style={{ ...secondaryBtn, padding: '4px 10px', fontSize: 11 }}>
+                              Cancel
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </SectionCard>
               )}
 
@@ -1179,7 +2155,101 @@ export default function App() {
                         <button onClick={clear} style={secondaryBtn}>
                           Clear Logs
                         </button>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13 }}>
+                          <input type="checkbox" checked={godDryRun} onChange={(e) => setGodDryRun(e.target.checked)} disabled={godActive} />
+                          Dry run (write nothing)
+                        </label>
                       </div>
+                      {godQueue.length > 0 && (
+                        <div style={{ fontSize: 12, color: godEstimate.exceedsRunBudget ? '#ffd166' : '#9aa7d8' }}>
+                          💰 Estimated cost for {godQueue.length} URLs: {describeEstimate(godEstimate)}
+                          {godEstimate.exceedsRunBudget && ` — over the ${formatUsd(costBudgets.perRun)} per-run budget`}
+                        </div>
+                      )}
+
+                      <SectionCard title="🧪 Dry-Run Report" subtitle={godReport ? `${godReport.id} • ${godReport.createdAt}` : 'Run God Mode with dry run enabled, or load a saved report'}>
+                        {godReport && (() => {
+                          const totals = summarizeReport(godReport);
+                          return (
+                            <div style={{ fontSize: 13, marginBottom: 12 }}>
+                              {totals.proposals}/{totals.urls} URLs would be updated • {totals.linksAdded} links added • {totals.schemaAdded} schema added •{' '}
+                              {formatTokens(totals.inputTokens + totals.outputTokens, totals.tokensEstimated)} (${totals.estimatedCost.toFixed(4)})
+                            </div>
+                          );
+                        })()}
+                        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                          <button onClick={() => exportGodReport('json')} disabled={!godReport} style={secondaryBtn}>Export JSON</button>
+                          <button onClick={() => exportGodReport('html')} disabled={!godReport} style={secondaryBtn}>Export HTML</button>
+                          <label style={{ ...secondaryBtn, display: 'inline-block' }}>
+                            Load Report
+                            <input
+                              type="file"
+                              accept="application/json,.json"
+                              style={{ display: 'none' }}
+                              onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) importGodReport(file);
+                                e.target.value = '';
+                              }}
+                            />
+                          </label>
+                          <button onClick={replayGodReport} disabled={!godReport || godActive || !wpConnected} style={primaryBtn}>
+                            Replay as Real Run
+                          </button>
+                        </div>
+                      </SectionCard>
+
+                      <SectionCard
+                        title="🛠️ Continuous Maintenance"
+                        subtitle={
+                          maintenanceStatus.running
+                            ? `${maintenanceStatus.paused ? 'Paused' : maintenanceStatus.busy ? 'Refreshing' : 'Waiting'} • ${maintenanceStatus.queue.length} URLs queued`
+                            : 'Refreshes the stalest pages one at a time, target URLs first'
+                        }
+                      >
+                        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+                          {!maintenanceStatus.running ? (
+                            <button onClick={startMaintenance} disabled={!wpConnected || godActive} style={primaryBtn}>
+                              ▶ Start
+                            </button>
+                          ) : (
+                            <button onClick={() => maintenanceEngine.stop()} style={dangerBtn}>
+                              ■ Stop
+                            </button>
+                          )}
+                          {maintenanceStatus.paused ? (
+                            <button onClick={() => maintenanceEngine.resume()} style={secondaryBtn}>Resume</button>
+                          ) : (
+                            <button onClick={() => maintenanceEngine.pause()} style={secondaryBtn}>Pause</button>
+                          )}
+                          <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13 }}>
+                            Cooldown (s)
+                            <input
+                              type="number"
+                              min={0}
+                              value={Math.round(maintenanceStatus.cooldownMs / 1000)}
+                              onChange={(e) => {
+                                maintenanceEngine.setCooldown(Math.max(0, Number(e.target.value) || 0) * 1000);
+                                setMaintenanceStatus(maintenanceEngine.getStatus());
+                              }}
+                              style={{ ...inputStyle, width: 90 }}
+                            />
+                          </label>
+                          <span style={{ fontSize: 12, opacity: 0.7 }}>{godDryRun ? 'Dry run: nothing is written' : 'Writes to WordPress'}</span>
+                        </div>
+                        {maintenanceStatus.queue.length > 0 && (
+                          <div style={{ fontSize: 12, marginTop: 10, opacity: 0.8 }}>
+                            Next: {maintenanceStatus.queue.slice(0, 3).map((q) => `${q.isPriority ? '⭐ ' : ''}${q.title || q.url}`).join(' • ')}
+                          </div>
+                        )}
+                        <div style={{ maxHeight: 180, overflow: 'auto', fontSize: 12, marginTop: 10 }}>
+                          {maintenanceEvents.slice(0, 20).map((ev, i) => (
+                            <div key={i} style={{ padding: '3px 0', color: ev.type === 'error' ? '#ff6b6b' : undefined }}>
+                              <span style={{ opacity: 0.5 }}>[{new Date(ev.timestamp).toLocaleTimeString()}]</span> {ev.message}
+                            </div>
+                          ))}
+                        </div>
+                      </SectionCard>
 
                       <SectionCard title="📊 System Logs">
                         <div style={{ maxHeight: 300, overflow: 'auto', fontFamily: 'ui-monospace, monospace', fontSize: 12 }}>
@@ -1205,7 +2275,7 @@ export default function App() {
                               <div style={{ fontSize: 11, opacity: 0.7, marginTop: 2 }}>{r.url}</div>
                               <div style={{ fontSize: 11, opacity: 0.6, marginTop: 4, display: 'flex', justifyContent: 'space-between' }}>
                                 <span>{r.at}</span>
-                                <span style={{ color: '#50fa7b' }}>+{r.improvement}% SEO</span>
+                                <span style={{ color: '#50fa7b' }}>+{r.improvement} pts SEO</span>
                               </div>
                             </div>
                           ))}
@@ -1239,19 +2309,45 @@ export default function App() {
                       placeholder="Enter sitemap URL or site root (e.g. https://example.com/sitemap.xml)"
                       style={{ ...inputStyle, flex: 1 }}
                     />
-                    <button onClick={handleCrawlSitemap} disabled={crawlBusy} style={primaryBtn}>
+                    <button onClick={() => handleCrawlSitemap()} disabled={crawlBusy} style={primaryBtn}>
                       {crawlBusy ? '🔄 Crawling...' : 'Crawl Sitemap'}
                     </button>
+                    <button onClick={() => handleCrawlSitemap(true)} disabled={crawlBusy} style={secondaryBtn} title="Re-download every sitemap file, ignoring ETag/Last-Modified">
+                      Full Recrawl
+                    </button>
+                    {analyzeProgress ? (
+                      <button onClick={() => analyzeControllerRef.current?.abort()} style={dangerBtn}>
+                        ■ Stop ({analyzeProgress.current}/{analyzeProgress.total})
+                      </button>
+                    ) : (
+                      <button onClick={handleAnalyzePages} disabled={crawlBusy || activePageCount === 0} style={secondaryBtn} title="Score every page that hasn't been analyzed yet">
+                        🔍 Analyze Pages
+                      </button>
+                    )}
                   </div>
-                  <div style={{ marginBottom: 12, fontSize: 14, fontWeight: 500 }}>Found <strong>{existingPages.length}</strong> pages.</div>
+                  <div style={{ marginBottom: 12, fontSize: 14, fontWeight: 500 }}>
+                    Found <strong>{activePageCount}</strong> pages.
+                    {existingPages.length > activePageCount && <span style={{ opacity: 0.7 }}> ({existingPages.length - activePageCount} removed from sitemap)</span>}
+                  </div>
+                  {lastChangeset && (
+                    <div style={{ marginBottom: 12, fontSize: 12, padding: '8px 12px', borderRadius: 8, background: 'rgba(45, 92, 255, 0.08)' }}>
+                      Last crawl {new Date(lastChangeset.crawledAt).toLocaleTimeString()}: {summarizeChangeset(lastChangeset)}
+                    </div>
+                  )}
                   <div style={{ maxHeight: 400, overflow: 'auto', border: '1px solid rgba(45, 92, 255, 0.2)', borderRadius: 8, padding: 12 }}>
                     {existingPages.length === 0 && <div style={{ opacity: 0.6, textAlign: 'center', padding: 20 }}>No pages yet. Crawl your sitemap to begin.</div>}
                     {existingPages.slice(0, 100).map((p, i) => (
                       <div key={i} style={{ padding: '8px 0', borderBottom: '1px solid rgba(45, 92, 255, 0.1)', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                        <div style={{ fontSize: 12, flex: 1 }}>{p.url}</div>
-                        {p.seoHealth && (
-                          <div style={{ fontSize: 11, padding: '4px 8px', borderRadius: 4, background: p.seoHealth > 80 ? 'rgba(80, 250, 123, 0.2)' : p.seoHealth > 60 ? 'rgba(255, 209, 102, 0.2)' : 'rgba(255, 107, 107, 0.2)', color: p.seoHealth > 80 ? '#50fa7b' : p.seoHealth > 60 ? '#ffd166' : '#ff6b6b' }}>
-                            SEO: {p.seoHealth}%
+                        <div style={{ fontSize: 12, flex: 1, textDecoration: p.removedAt ? 'line-through' : 'none', opacity: p.removedAt ? 0.6 : 1 }}>{p.url || p.id}</div>
+                        {p.sitemapStatus && p.sitemapStatus !== 'unchanged' && (
+                          <div style={{ fontSize: 10, fontWeight: 700, textTransform: 'uppercase', marginRight: 8, color: SITEMAP_STATUS_COLORS[p.sitemapStatus] }}>{p.sitemapStatus}</div>
+                        )}
+                        {p.lastMod && <div style={{ fontSize: 11, opacity: 0.6, marginRight: 8 }}>{p.lastMod.slice(0, 10)}</div>}
+                        {p.status === 'analyzing' && <div style={{ fontSize: 11, opacity: 0.7, marginRight: 8 }}>Analyzing...</div>}
+                        {p.status === 'error' && <div style={{ fontSize: 11, color: '#ff6b6b', marginRight: 8 }} title={p.justification || undefined}>Analysis failed</div>}
+                        {p.healthScore !== null && p.healthScore !== undefined && (
+                          <div style={{ fontSize: 11, padding: '4px 8px', borderRadius: 4, background: p.healthScore > 80 ? 'rgba(80, 250, 123, 0.2)' : p.healthScore > 60 ? 'rgba(255, 209, 102, 0.2)' : 'rgba(255, 107, 107, 0.2)', color: p.healthScore > 80 ? '#50fa7b' : p.healthScore > 60 ? '#ffd166' : '#ff6b6b' }}>
+                            SEO: {p.healthScore}%
                           </div>
                         )}
                       </div>
@@ -1320,12 +2416,33 @@ export default function App() {
           {mainTab === 'review' && (
             <div>
               <div style={{ display: 'flex', gap: 8, marginBottom: 20 }}>
+                <select value={publishStatus} onChange={(e) => setPublishStatus(e.target.value as PostStatus)} style={{ ...selectStyle, width: 160 }}>
+                  <option value="publish">Publish</option>
+                  <option value="draft">Draft</option>
+                  <option value="pending">Pending Review</option>
+                  <option value="future">Scheduled</option>
+                </select>
+                {publishStatus === 'future' && (
+                  <input
+                    type="datetime-local"
+                    value={publishScheduledAt}
+                    onChange={(e) => setPublishScheduledAt(e.target.value)}
+                    style={{ ...inputStyle, width: 220 }}
+                  />
+                )}
+                <button onClick={handleGenerateSelected} disabled={selectedItems.size === 0 || generationRunning} style={godModeBtn}>
+                  {generationRunning ? 'Generating...' : `✍️ Generate Selected (${selectedItems.size})`}
+                </button>
                 <button onClick={handleBulkPublish} disabled={selectedItems.size === 0} style={primaryBtn}>
                   Bulk Publish ({selectedItems.size})
                 </button>
                 <button onClick={() => setSelectedItems(new Set())} style={secondaryBtn}>
                   Clear Selection
                 </button>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13 }}>
+                  <input type="checkbox" checked={enforceQualityGate} onChange={(e) => setEnforceQualityGate(e.target.checked)} />
+                  Hold back items that fail the quality gate
+                </label>
               </div>
 
               <SectionCard title="Content Items" subtitle={`${contentItems.length} total items`}>
@@ -1372,8 +2489,77 @@ export default function App() {
                           {item.seoScore && (
                             <div style={{ marginTop: 8, fontSize: 12 }}>SEO Score: <strong>{item.seoScore}%</strong></div>
                           )}
+                          {item.statusText !== CONTENT_ITEM_STATUS_TEXT[item.status] && (
+                            <div style={{ marginTop: 8, fontSize: 12, opacity: 0.8 }}>{item.statusText}</div>
+                          )}
+                          <div style={{ marginTop: 8, fontSize: 12 }} onClick={(e) => e.stopPropagation()}>
+                            Voice:{' '}
+                            <select
+                              value={item.voiceProfile ?? ''}
+                              onChange={(e) => {
+                                const voiceProfile = e.target.value;
+                                setContentItems((prev) =>
+                                  prev.map((ci) => {
+                                    if (ci.id !== item.id) return ci;
+                                    const { voiceProfile: _previous, ...rest } = ci;
+                                    return voiceProfile ? { ...rest, voiceProfile } : rest;
+                                  })
+                                );
+                              }}
+                              style={{ ...selectStyle, width: 200, padding: '4px 8px', fontSize: 12 }}
+                            >
+                              <option value="">Site default ({siteVoiceProfile.label})</option>
+                              {voiceProfiles.list().map((v) => (
+                                <option key={v.id} value={v.id}>
+                                  {v.label}
+                                </option>
+                              ))}
+                            </select>
+                            {voiceMatches.has(item.id) && <VoiceMatchBadge match={voiceMatches.get(item.id)!} />}
+                          </div>
+                          <QualityReportPanel
+                            report={qualityReports.get(item.id) ?? null}
+                            repairLog={item.generatedContent?.qualityRepair ?? null}
+                            repairing={repairingItemId === item.id}
+                            onRepair={repairingItemId === null && !generationRunning ? () => handleRepairItem(item) : null}
+                            profile={profileForItem(item)}
+                            onProfileChange={(qualityProfile) =>
+                              setContentItems((prev) => prev.map((ci) => (ci.id === item.id ? { ...ci, qualityProfile } : ci)))
+                            }
+                          />
+                          {item.generatedContent?.humanizer && (
+                            <HumanizerEditsPanel
+                              html={item.generatedContent.content}
+                              log={item.generatedContent.humanizer}
+                              open={humanizerItemId === item.id}
+                              onToggle={() => setHumanizerItemId(humanizerItemId === item.id ? null : item.id)}
+                              onRevert={(editId) => handleRevertHumanizerEdit(item, editId)}
+                            />
+                          )}
                         </div>
                         <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                          {item.status === 'generating' && generationRunning && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                stopGeneration(item.id);
+                              }}
+                              style={{ ...dangerBtn, padding: '4px 10px', fontSize: 11 }}
+                            >
+                              ⏹ Stop
+                            </button>
+                          )}
+                          {item.generatedContent && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setReviewItemId(item.id);
+                              }}
+                              style={{ ...secondaryBtn, padding: '4px 10px', fontSize: 11 }}
+                            >
+                              📝 Review
+                            </button>
+                          )}
                           <StatusBadge status={item.status} />
                           <input
                             type="checkbox"
@@ -1383,10 +2569,106 @@ export default function App() {
                           />
                         </div>
                       </div>
+                      {streamPreviews[item.id] && <StreamPreviewPanel progress={streamPreviews[item.id]!} />}
                     </div>
                   ))}
                 </div>
               </SectionCard>
+
+              <div style={{ marginTop: 20 }}>
+                <SectionCard title="Revision History" subtitle={`${revisions.length} snapshots taken before WordPress writes`}>
+                  {revisionGroups.length === 0 && (
+                    <div style={{ fontSize: 13, opacity: 0.6 }}>No revisions yet. God Mode updates and re-publishes are snapshotted here.</div>
+                  )}
+                  <div style={{ display: 'grid', gap: 12 }}>
+                    {revisionGroups.map(([url, group]) => (
+                      <div key={url} style={{ padding: 12, border: '1px solid rgba(45, 92, 255, 0.2)', borderRadius: 10 }}>
+                        <div style={{ fontSize: 13, fontWeight: 600, marginBottom: 8, wordBreak: 'break-all' }}>{url}</div>
+                        {group.map((r) => (
+                          <div key={r.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 12, padding: '6px 0', fontSize: 12, borderTop: '1px solid rgba(255,255,255,0.05)' }}>
+                            <div>
+                              {new Date(r.createdAt).toLocaleString()} • {r.operation} • "{r.title.replace(/<[^>]*>/g, '')}"
+                              {r.qualityBefore !== null && r.qualityAfter !== null && (
+                                <span style={{ marginLeft: 8, color: r.qualityAfter >= r.qualityBefore ? '#50fa7b' : '#ff5555' }}>
+                                  {r.qualityBefore} → {r.qualityAfter}
+                                </span>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => handleRestoreRevision(r)}
+                              disabled={restoringRevisionId !== null}
+                              style={{ ...secondaryBtn, padding: '4px 10px', fontSize: 12 }}
+                            >
+                              {restoringRevisionId === r.id ? 'Restoring...' : 'Restore'}
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </SectionCard>
+              </div>
+            </div>
+          )}
+
+          {reviewItem && (
+            <ReviewModal
+              item={reviewItem}
+              onClose={() => setReviewItemId(null)}
+              onSaveChanges={handleSaveReview}
+              wpConfig={{ url: wpConfig.siteUrl, siteUrl: wpConfig.siteUrl, username: wpConfig.username, appPassword: wpConfig.appPassword }}
+              wpPassword={wpConfig.appPassword}
+              onPublishSuccess={(url) => addSuccess(`✓ Updated ${url}`)}
+              publishItem={publishReviewedItem}
+              callAI={serviceCallAI}
+              geoTargeting={geoTargeting}
+              neuronConfig={{ apiKey: advConfig.neuronWriterApiKey, projectId: '', enabled: advConfig.enableNeuronWriter }}
+            />
+          )}
+
+          {/* COST DASHBOARD TAB */}
+          {mainTab === 'costs' && (
+            <div style={{ display: 'grid', gap: 20 }}>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 16 }}>
+                <StatCard label="Spent today" value={formatUsd(todayUsage.cost)} hint={costBudgets.perDay > 0 ? `of ${formatUsd(costBudgets.perDay)} daily budget` : 'no daily budget'} />
+                <StatCard label="Spent (recorded)" value={formatUsd(sumUsage(usageRecords).cost)} hint={`${usageRecords.length} calls`} />
+                <StatCard label="Tokens today" value={(todayUsage.inputTokens + todayUsage.outputTokens).toLocaleString()} hint={`${todayUsage.inputTokens.toLocaleString()} in • ${todayUsage.outputTokens.toLocaleString()} out`} />
+                <StatCard label="Estimated usage" value={`${usageRecords.filter((r) => r.estimated).length} calls`} hint="provider returned no usage; counted at ~4 chars/token" />
+              </div>
+
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 20 }}>
+                <SectionCard title="By prompt key">
+                  <UsageTable rows={costBreakdown.promptKey} />
+                </SectionCard>
+                <SectionCard title="By content type">
+                  <UsageTable rows={costBreakdown.contentType} />
+                </SectionCard>
+              </div>
+
+              <SectionCard title="By model">
+                <UsageTable rows={costBreakdown.model} />
+              </SectionCard>
+
+              <SectionCard title="Recent calls" subtitle="Newest first; the ledger keeps the last 5,000 calls">
+                <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
+                  <button onClick={() => costLedger.clear()} disabled={usageRecords.length === 0} style={dangerBtn}>
+                    Clear History
+                  </button>
+                </div>
+                <div style={{ maxHeight: 400, overflow: 'auto', fontSize: 12 }}>
+                  {usageRecords.slice(0, 100).map((r) => (
+                    <div key={r.id} style={{ display: 'grid', gridTemplateColumns: '140px 1.2fr 1.5fr 1fr 110px 80px', gap: 8, padding: '6px 0', borderBottom: '1px solid rgba(45, 92, 255, 0.1)' }}>
+                      <span style={{ opacity: 0.7 }}>{new Date(r.timestamp).toLocaleString()}</span>
+                      <span>{r.promptKey}</span>
+                      <span style={{ opacity: 0.8 }}>{r.provider}/{r.model}{r.downgraded ? ' ⬇' : ''}</span>
+                      <span style={{ opacity: 0.8 }}>{r.contentType}</span>
+                      <span>{r.inputTokens.toLocaleString()} / {r.outputTokens.toLocaleString()}{r.estimated ? '*' : ''}</span>
+                      <span style={{ textAlign: 'right' }} title={r.unpriced ? 'No price known for this model' : undefined}>{r.unpriced ? 'unpriced' : formatUsd(r.cost)}</span>
+                    </div>
+                  ))}
+                  {usageRecords.length === 0 && <div style={{ opacity: 0.7 }}>No AI calls recorded yet.</div>}
+                </div>
+              </SectionCard>
             </div>
           )}
         </div>
@@ -1397,6 +2679,160 @@ export default function App() {
 
 // ========== UI Components ==========
 
+function QualityReportPanel({
+  report,
+  repairLog,
+  repairing,
+  onRepair,
+  profile,
+  onProfileChange,
+}: {
+  report: QualityReport | null;
+  repairLog: QualityRepairLog | null;
+  repairing: boolean;
+  onRepair: (() => void) | null;
+  profile: QualityProfileId;
+  onProfileChange: (profile: QualityProfileId) => void;
+}) {
+  return (
+    <div style={{ marginTop: 8, fontSize: 12 }} onClick={(e) => e.stopPropagation()}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <select
+          value={profile}
+          onChange={(e) => onProfileChange(e.target.value as QualityProfileId)}
+          style={{ ...selectStyle, width: 180, padding: '4px 8px', fontSize: 12 }}
+        >
+          {Object.values(QUALITY_PROFILES).map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+        {report && (
+          <span style={{ color: report.passed ? '#50fa7b' : '#ff5555' }}>
+            Quality <strong>{report.score}</strong> • {report.passed ? 'passes' : `fails ${report.failures.length} rule(s)`}
+          </span>
+        )}
+        {report && !report.passed && (
+          <button onClick={onRepair ?? undefined} disabled={!onRepair} style={{ ...secondaryBtn, padding: '4px 10px', fontSize: 11 }}>
+            {repairing ? 'Repairing...' : '🔧 Repair'}
+          </button>
+        )}
+      </div>
+      {repairLog && (
+        <div style={{ marginTop: 6, opacity: 0.8 }}>
+          Repair ({REPAIR_STOP_REASON_TEXT[repairLog.stopReason]}, {repairLog.tokens.toLocaleString()} tokens):{' '}
+          {repairLog.iterations.map((pass) => (
+            <span key={pass.iteration} style={{ marginRight: 10, color: pass.kept ? '#50fa7b' : '#ff5555' }} title={pass.fixes.join(', ')}>
+              #{pass.iteration} {pass.scoreBefore}→{pass.scoreAfter} ({pass.delta >= 0 ? '+' : ''}{pass.delta})
+            </span>
+          ))}
+        </div>
+      )}
+      {report && report.failures.length > 0 && (
+        <ul style={{ margin: '6px 0 0', paddingLeft: 18, opacity: 0.85 }}>
+          {report.failures.map((r) => (
+            <li key={r.id}>
+              <strong>[{r.severity}]</strong> {r.message}
+              {r.fixHint && <div style={{ opacity: 0.7 }}>→ {r.fixHint}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// The humanizer's edits highlighted and numbered in the article, each revertible from its row
+function HumanizerEditsPanel({
+  html,
+  log,
+  open,
+  onToggle,
+  onRevert,
+}: {
+  html: string;
+  log: HumanizerLog;
+  open: boolean;
+  onToggle: () => void;
+  onRevert: (editId: number) => void;
+}) {
+  const edits = useMemo(() => HumanWritingEngine.locateEdits(html, log), [html, log]);
+  const highlighted = useMemo(() => (open ? HumanWritingEngine.highlightEdits(html, log) : ''), [open, html, log]);
+  const missing = log.edits.length - edits.length;
+  return (
+    <div style={{ marginTop: 8, fontSize: 12 }} onClick={(e) => e.stopPropagation()}>
+      <button onClick={onToggle} style={{ ...secondaryBtn, padding: '4px 10px', fontSize: 11 }}>
+        {open ? 'Hide' : 'Show'} humanizer edits ({edits.length})
+      </button>
+      <span style={{ marginLeft: 8, opacity: 0.6 }}>
+        seed {log.seed}
+        {missing > 0 && ` • ${missing} no longer in the article`}
+      </span>
+      {open && (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 320px', gap: 12, marginTop: 8 }}>
+          <SandboxedPreview
+            title="Humanizer edits"
+            html={highlighted}
+            css="mark { background: #ffe58a; } mark::after { content: attr(data-humanizer-edit); font-size: 10px; vertical-align: super; color: #2d5cff; margin-left: 1px; }"
+            bodyStyle="margin: 0; padding: 12px; font-family: system-ui, sans-serif; font-size: 14px; line-height: 1.6; color: #222;"
+            style={{ width: '100%', height: 360, border: 'none', borderRadius: 8, background: '#fff' }}
+          />
+          <div style={{ maxHeight: 360, overflowY: 'auto' }}>
+            {edits.length === 0 && <div style={{ opacity: 0.7 }}>No humanizer edits left.</div>}
+            {edits.map((edit) => (
+              <div key={edit.id} style={{ display: 'flex', gap: 8, alignItems: 'flex-start', padding: '4px 0', borderBottom: '1px solid rgba(255, 255, 255, 0.06)' }}>
+                <div style={{ flex: 1 }}>
+                  <div style={{ opacity: 0.6 }}>
+                    #{edit.id} {HUMANIZER_EDIT_LABELS[edit.kind]}
+                  </div>
+                  {edit.original && <del style={{ opacity: 0.7 }}>{edit.original}</del>} <span>{edit.replacement.replace(/<[^>]*>/g, '').trim()}</span>
+                </div>
+                <button onClick={() => onRevert(edit.id)} style={{ ...secondaryBtn, padding: '2px 8px', fontSize: 11 }}>
+                  Revert
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// What a learned voice measured on the site
+function LearnedVoiceSummary({ voice }: { voice: VoiceProfile }) {
+  if (!voice.learned) return null;
+  const { features, pages, learnedAt } = voice.learned;
+  return (
+    <div style={{ marginTop: 8, opacity: 0.7, fontSize: 12 }}>
+      <div>
+        Learned from {pages} pages ({features.words.toLocaleString()} words) on {new Date(learnedAt).toLocaleDateString()} • sentence length{' '}
+        {features.sentenceLength.mean} ± {features.sentenceLength.stdev} • vocabulary {features.vocabularyRichness} • {features.contractionRate} contractions
+        per 100 words • {Math.round(features.questionRate * 100)}% questions
+      </div>
+      {features.openers.length > 0 && <div>Openers: {features.openers.map((o) => `${o.text} (${Math.round(o.share * 100)}%)`).join(', ')}</div>}
+      {features.phrases.length > 0 && <div>Phrases: {features.phrases.map((p) => p.text).join(', ')}</div>}
+      {features.headings && (
+        <div>
+          Headings: {Math.round(features.headings.titleCase * 100)}% Title Case, {Math.round(features.headings.questions * 100)}% questions, ~
+          {features.headings.meanWords} words
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VoiceMatchBadge({ match }: { match: VoiceMatch }) {
+  const color = match.score >= 80 ? '#50fa7b' : match.score >= 60 ? '#ffd166' : '#ff5555';
+  const detail = match.components.map((c) => `${c.feature}: ${c.draft} vs ${c.target} (${c.score})`).join('\n');
+  return (
+    <span style={{ marginLeft: 8, color }} title={detail}>
+      Voice match <strong>{match.score}</strong>
+    </span>
+  );
+}
+
 function SectionCard({ title, subtitle, children }: { title: string; subtitle?: string; children: React.ReactNode }) {
   return (
     <div style={{ background: 'rgba(26, 31, 46, 0.5)', border: '1px solid rgba(45, 92, 255, 0.2)', borderRadius: 16, padding: 24, backdropFilter: 'blur(10px)' }}>
@@ -1465,11 +2901,44 @@ function StatusPill({ label, active }: { label: string; active: boolean }) {
   );
 }
 
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div style={{ padding: 16, background: 'rgba(26, 31, 46, 0.5)', border: '1px solid rgba(45, 92, 255, 0.2)', borderRadius: 12 }}>
+      <div style={{ fontSize: 12, opacity: 0.7 }}>{label}</div>
+      <div style={{ fontSize: 22, fontWeight: 700, marginTop: 4 }}>{value}</div>
+      {hint && <div style={{ fontSize: 11, opacity: 0.6, marginTop: 4 }}>{hint}</div>}
+    </div>
+  );
+}
+
+function UsageTable({ rows }: { rows: { key: string; totals: UsageTotals }[] }) {
+  if (rows.length === 0) return <div style={{ fontSize: 13, opacity: 0.7 }}>No usage recorded yet.</div>;
+  return (
+    <div style={{ fontSize: 13 }}>
+      <div style={{ display: 'grid', gridTemplateColumns: '2fr 60px 1.4fr 90px', gap: 8, padding: '6px 0', opacity: 0.6, fontSize: 11 }}>
+        <span>Key</span>
+        <span>Calls</span>
+        <span>Tokens in / out</span>
+        <span style={{ textAlign: 'right' }}>Cost</span>
+      </div>
+      {rows.map(({ key, totals }) => (
+        <div key={key} style={{ display: 'grid', gridTemplateColumns: '2fr 60px 1.4fr 90px', gap: 8, padding: '6px 0', borderTop: '1px solid rgba(45, 92, 255, 0.1)' }}>
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{key}</span>
+          <span>{totals.calls}</span>
+          <span>{totals.inputTokens.toLocaleString()} / {totals.outputTokens.toLocaleString()}</span>
+          <span style={{ textAlign: 'right', fontWeight: 600 }}>{formatUsd(totals.cost)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function StatusBadge({ status }: { status: ContentItem['status'] }) {
-  const colors = {
-    draft: { bg: 'rgba(154, 167, 216, 0.15)', color: '#9aa7d8' },
+  const colors: Record<ContentItem['status'], { bg: string; color: string }> = {
+    idle: { bg: 'rgba(154, 167, 216, 0.15)', color: '#9aa7d8' },
     generating: { bg: 'rgba(255, 209, 102, 0.15)', color: '#ffd166' },
-    ready: { bg: 'rgba(80, 250, 123, 0.15)', color: '#50fa7b' },
+    maintaining: { bg: 'rgba(255, 209, 102, 0.15)', color: '#ffd166' },
+    done: { bg: 'rgba(80, 250, 123, 0.15)', color: '#50fa7b' },
     published: { bg: 'rgba(45, 92, 255, 0.15)', color: '#2d5cff' },
     error: { bg: 'rgba(255, 107, 107, 0.15)', color: '#ff6b6b' },
   };
@@ -1481,6 +2950,51 @@ function StatusBadge({ status }: { status: ContentItem['status'] }) {
   );
 }
 
+// Live view of an article body while it streams in
+function StreamPreviewPanel({ progress }: { progress: StreamProgress }) {
+  const { html, words, sectionsDone, sectionsTotal } = progress;
+  const percent = sectionsTotal ? Math.min(100, Math.round((sectionsDone / sectionsTotal) * 100)) : null;
+  return (
+    <div style={{ marginTop: 12 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 12, marginBottom: 6, color: '#9aa7d8' }}>
+        <span>
+          ✍️ {sectionsTotal ? `${sectionsDone}/${sectionsTotal} sections` : `${sectionsDone} sections`} done
+        </span>
+        <span>{words.toLocaleString()} words</span>
+      </div>
+      {percent !== null && (
+        <div style={{ height: 4, background: 'rgba(45, 92, 255, 0.15)', borderRadius: 2, marginBottom: 8 }}>
+          <div style={{ width: `${percent}%`, height: '100%', background: '#2d5cff', borderRadius: 2, transition: 'width 0.3s' }} />
+        </div>
+      )}
+      {/* column-reverse keeps the newest text in view */}
+      <SandboxedPreview
+        title="Live article preview"
+        html={`<div style="height: 100vh; overflow: auto; display: flex; flex-direction: column-reverse;"><div style="padding: 8px 16px;">${html}</div></div>`}
+        bodyStyle="margin: 0; font-family: system-ui, sans-serif; font-size: 14px; line-height: 1.6; color: #222;"
+        style={{ width: '100%', height: 320, border: '1px solid rgba(45, 92, 255, 0.2)', borderRadius: 8, background: '#fff' }}
+      />
+    </div>
+  );
+}
+
+function TaskStateBadge({ state }: { state: TaskState }) {
+  const colors: Record<TaskState, { bg: string; color: string }> = {
+    queued: { bg: 'rgba(154, 167, 216, 0.15)', color: '#9aa7d8' },
+    running: { bg: 'rgba(255, 209, 102, 0.15)', color: '#ffd166' },
+    retrying: { bg: 'rgba(255, 140, 0, 0.15)', color: '#ff8c00' },
+    succeeded: { bg: 'rgba(80, 250, 123, 0.15)', color: '#50fa7b' },
+    failed: { bg: 'rgba(255, 107, 107, 0.15)', color: '#ff6b6b' },
+    cancelled: { bg: 'rgba(154, 167, 216, 0.1)', color: '#6b7499' },
+  };
+  const c = colors[state];
+  return (
+    <div style={{ padding: '4px 10px', borderRadius: 4, fontSize: 11, fontWeight: 600, background: c.bg, color: c.color, minWidth: 80, textAlign: 'center' }}>
+      {state.toUpperCase()}
+    </div>
+  );
+}
+
 // ========== Styles ==========
 const inputStyle: React.CSSProperties = {
   width: '100%',
@@ -1553,6 +3067,13 @@ const dangerBtn: React.CSSProperties = {
   fontSize: 14,
 };
 
+const SITEMAP_STATUS_COLORS: Record<SitemapPageStatus, string> = {
+  new: '#50fa7b',
+  changed: '#ffd166',
+  unchanged: '#9aa7d8',
+  removed: '#ff6b6b',
+};
+
 // ========== Helpers ==========
 function levelGlyph(level: LogEntry['level']) {
   return { info: 'ℹ️', warn: '⚠️', error: '❌', success: '✅' }[level] || '•';
@@ -1,11 +1,10 @@
 
-import React, { useState, useMemo, useEffect, useCallback, useRef, memo } from 'react';
-import { ContentItem, SeoCheck, ExpandedGeoTargeting, WpConfig, SitemapPage, ApiClients, NeuronConfig } from './types';
-import { calculateFleschReadability, getReadabilityVerdict, escapeRegExp } from './contentUtils';
-import { extractSlugFromUrl, parseJsonWithAiRepair, processConcurrently } from './utils';
-import { MIN_INTERNAL_LINKS, TARGET_MAX_WORDS, TARGET_MIN_WORDS } from './constants';
-import { callAI } from './services';
+import React, { useState, useMemo, useEffect, memo } from 'react';
+import { ContentItem, SeoCheck, ExpandedGeoTargeting, WpConfig, NeuronConfig } from './types';
+import { calculateFleschReadability, escapeRegExp } from './contentUtils';
+import { extractSlugFromUrl, parseJsonWithAiRepair } from './utils';
 import ReactQuill from 'react-quill';
+import { ContentDiffViewer } from './components/ContentDiffViewer';
 
 export const CheckIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" width="1em" height="1em" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M20 6 9 17l-5-5"/></svg>
@@ -122,10 +121,8 @@ interface RankGuardianProps {
 }
 
 export const RankGuardian = memo(({ item, editedSeo, editedContent, onSeoChange, onUrlChange, onRegenerate, isRegenerating, isUpdate, geoTargeting }: RankGuardianProps) => {
-    if (!item.generatedContent) return <div className="guardian-card"><h4>No Analysis Data</h4></div>;
-
-    const { title, metaDescription, slug } = editedSeo;
-    const { primaryKeyword = '', semanticKeywords = [], serpData } = item.generatedContent;
+    const { title, metaDescription } = editedSeo;
+    const primaryKeyword = item.generatedContent?.primaryKeyword ?? '';
 
     const analysis = useMemo(() => {
         const tempDiv = document.createElement('div');
@@ -206,7 +203,6 @@ export const RankGuardian = memo(({ item, editedSeo, editedContent, onSeoChange,
     }, [title, metaDescription, primaryKeyword, editedContent]);
     
     const { contentAnalysis, checks } = analysis;
-    const readabilityVerdict = getReadabilityVerdict(contentAnalysis.readabilityScore);
 
     const scores = useMemo(() => {
         const validChecks = checks.filter(c => c.valid).length;
@@ -214,6 +210,8 @@ export const RankGuardian = memo(({ item, editedSeo, editedContent, onSeoChange,
         const overallScore = Math.round(seoScore * 0.6 + contentAnalysis.readabilityScore * 0.4);
         return { seoScore, overallScore };
     }, [checks, contentAnalysis.readabilityScore]);
+
+    if (!item.generatedContent) return <div className="guardian-card"><h4>No Analysis Data</h4></div>;
     
     const actionItems = checks.filter(c => !c.valid).sort((a, b) => (a.priority === 'High' ? -1 : 1));
 
@@ -302,6 +300,27 @@ export const RankGuardian = memo(({ item, editedSeo, editedContent, onSeoChange,
     );
 });
 
+/**
+ * Renders article HTML in an iframe with every sandbox restriction on: the
+ * article is unreviewed model output, and this origin holds API keys.
+ */
+export const SandboxedPreview = ({ title, html, css, bodyStyle, className, style }: {
+    title: string;
+    html: string;
+    css?: string;
+    bodyStyle: string;
+    className?: string;
+    style?: React.CSSProperties;
+}) => (
+    <iframe
+        title={title}
+        sandbox=""
+        className={className}
+        style={style}
+        srcDoc={`${css ? `<style>${css}</style>` : ''}<body style="${bodyStyle}">${html}</body>`}
+    />
+);
+
 export const SkeletonLoader = ({ rows = 5, columns = 5 }: { rows?: number, columns?: number }) => (
     <>
         {Array.from({ length: rows }).map((_, i) => (
@@ -351,7 +370,6 @@ interface ReviewModalProps {
 }
 
 export const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPublishSuccess, publishItem, callAI, geoTargeting, neuronConfig }: ReviewModalProps) => {
-    if (!item || !item.generatedContent) return null;
     const [activeTab, setActiveTab] = useState('Live Preview');
     const [editedSeo, setEditedSeo] = useState({ title: '', metaDescription: '', slug: '' });
     const [editedContent, setEditedContent] = useState('');
@@ -386,7 +404,7 @@ export const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword
             setEditedContent(item.generatedContent.content);
             setActiveTab('Live Preview');
         }
-    }, [item]);
+    }, [item, wpConfig.url]);
 
     const handleSeoChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
         setEditedSeo(prev => ({ ...prev, [e.target.name]: e.target.value }));
@@ -426,6 +444,7 @@ export const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword
 
     const TABS = ['Live Preview', 'Editor', 'Raw HTML', 'Assets', 'Rank Guardian', 'Raw JSON'];
     if (item.generatedContent?.neuronAnalysis || neuronConfig?.enabled) TABS.splice(3, 0, 'Neuron NLP');
+    if (item.generatedContent?.originalHtml) TABS.splice(1, 0, 'Changes');
 
     const neuronAnalysisView = useMemo(() => {
         const na = item.generatedContent?.neuronAnalysis?.terms_txt;
@@ -458,6 +477,8 @@ export const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword
         };
     }, [item.generatedContent?.neuronAnalysis, editedContent, neuronTermFilter]);
 
+    if (!item || !item.generatedContent) return null;
+
     return (
         <div className="modal-overlay" onClick={onClose}>
             <div className="modal-content" onClick={e => e.stopPropagation()}>
@@ -471,7 +492,21 @@ export const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword
                     ))}
                 </div>
                 <div className="tab-content">
-                    {activeTab === 'Live Preview' && <div className="live-preview" dangerouslySetInnerHTML={{ __html: editedContent }}></div>}
+                    {activeTab === 'Live Preview' && (
+                        <SandboxedPreview
+                            className="live-preview"
+                            title="Article preview"
+                            html={editedContent}
+                            bodyStyle="margin: 0; padding: 2rem; font-family: system-ui, sans-serif; line-height: 1.7; color: #222; background: #fff;"
+                        />
+                    )}
+                    {activeTab === 'Changes' && item.generatedContent.originalHtml && (
+                        <ContentDiffViewer
+                            originalHtml={item.generatedContent.originalHtml}
+                            revisedHtml={item.generatedContent.content}
+                            onApply={(html) => { setEditedContent(html); setActiveTab('Live Preview'); }}
+                        />
+                    )}
                     {activeTab === 'Editor' && (
                         <div className="editor-tab-container">
                             <ReactQuill 
@@ -3,7 +3,7 @@
  * Real-time SEO analytics with predictive insights
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import '../styles/modern-design-system.css';
 
 interface AnalyticsData {
@@ -27,7 +27,7 @@ interface Metric {
 }
 
 const AnalyticsDashboardPro: React.FC = () => {
-  const [analytics, setAnalytics] = useState<AnalyticsData>({
+  const [analytics] = useState<AnalyticsData>({
     seoScore: 87,
     organicTraffic: 12547,
     keywordRankings: [
@@ -44,7 +44,6 @@ const AnalyticsDashboardPro: React.FC = () => {
   });
 
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d');
-  const [isLoading, setIsLoading] = useState(false);
 
   const metrics: Metric[] = [
     {
@@ -0,0 +1,143 @@
+// 🔍 CONTENT DIFF VIEWER - Inline word diff + structural block diff with per-hunk review
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { applyHunks, DiffHunk, diffHtml, StructuralChange } from '../services/ContentDiff';
+
+interface ContentDiffViewerProps {
+  originalHtml: string;
+  revisedHtml: string;
+  onApply: (html: string) => void;
+}
+
+type DiffMode = 'inline' | 'structural';
+
+const ACTION_COLORS: Record<StructuralChange['action'], string> = {
+  added: '#10B981',
+  removed: '#EF4444',
+  modified: '#F59E0B',
+};
+
+const insStyle: React.CSSProperties = { background: 'rgba(16, 185, 129, 0.25)', color: '#A7F3D0', textDecoration: 'none' };
+const delStyle: React.CSSProperties = { background: 'rgba(239, 68, 68, 0.25)', color: '#FECACA' };
+
+function InlineWords({ hunk }: { hunk: DiffHunk }) {
+  return (
+    <div style={{ whiteSpace: 'pre-wrap', lineHeight: 1.6, fontSize: '0.9rem', color: '#CBD5E1' }}>
+      {hunk.words.map((op, i) => {
+        const text = op.items.join('');
+        if (op.type === 'insert') return <ins key={i} style={insStyle}>{text}</ins>;
+        if (op.type === 'delete') return <del key={i} style={delStyle}>{text}</del>;
+        return <span key={i}>{text}</span>;
+      })}
+    </div>
+  );
+}
+
+function StructuralSummary({ hunk }: { hunk: DiffHunk }) {
+  return (
+    <ul style={{ margin: 0, paddingLeft: '1.2rem', fontSize: '0.85rem', color: '#CBD5E1' }}>
+      {hunk.changes.map((change, i) => (
+        <li key={i}>
+          <span style={{ color: ACTION_COLORS[change.action], fontWeight: 700, textTransform: 'uppercase', fontSize: '0.7rem', marginRight: 6 }}>
+            {change.action}
+          </span>
+          {change.label.replace(/^(Added|Removed|Modified) /, '')}
+        </li>
+      ))}
+      {hunk.linksAdded.map((href, i) => (
+        <li key={`la-${i}`}><span style={{ color: ACTION_COLORS.added, fontWeight: 700, fontSize: '0.7rem', marginRight: 6 }}>LINK +</span>{href}</li>
+      ))}
+      {hunk.linksRemoved.map((href, i) => (
+        <li key={`lr-${i}`}><span style={{ color: ACTION_COLORS.removed, fontWeight: 700, fontSize: '0.7rem', marginRight: 6 }}>LINK −</span>{href}</li>
+      ))}
+    </ul>
+  );
+}
+
+export function ContentDiffViewer({ originalHtml, revisedHtml, onApply }: ContentDiffViewerProps) {
+  const [mode, setMode] = useState<DiffMode>('inline');
+  const [accepted, setAccepted] = useState<Record<number, boolean>>({});
+  const diff = useMemo(() => diffHtml(originalHtml, revisedHtml), [originalHtml, revisedHtml]);
+
+  // New baseline or revision means old decisions no longer line up with the hunks
+  useEffect(() => setAccepted({}), [diff]);
+
+  const stats = useMemo(() => {
+    const changes = diff.hunks.flatMap(h => h.changes);
+    const count = (action: StructuralChange['action']) => changes.filter(c => c.action === action).length;
+    return {
+      added: count('added'),
+      removed: count('removed'),
+      modified: count('modified'),
+      linksAdded: diff.hunks.reduce((n, h) => n + h.linksAdded.length, 0),
+      linksRemoved: diff.hunks.reduce((n, h) => n + h.linksRemoved.length, 0),
+    };
+  }, [diff]);
+
+  const rejectedCount = diff.hunks.filter(h => accepted[h.id] === false).length;
+  const setAll = (value: boolean) => setAccepted(Object.fromEntries(diff.hunks.map(h => [h.id, value])));
+
+  if (diff.hunks.length === 0) {
+    return <div style={{ padding: '3rem', textAlign: 'center', color: '#64748B' }}>No differences from the original content.</div>;
+  }
+
+  return (
+    <div style={{ height: '100%', overflowY: 'auto', padding: '1rem 1.5rem', background: '#050507' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+        {(['inline', 'structural'] as DiffMode[]).map(m => (
+          <button key={m} className={`btn ${mode === m ? '' : 'btn-secondary'}`} onClick={() => setMode(m)} style={{ fontSize: '0.8rem' }}>
+            {m === 'inline' ? 'Inline Text' : 'Structure'}
+          </button>
+        ))}
+        <span style={{ color: '#94A3B8', fontSize: '0.8rem', marginLeft: '0.5rem' }}>
+          {diff.hunks.length} hunks • +{stats.added} / −{stats.removed} / ~{stats.modified} blocks • links +{stats.linksAdded} / −{stats.linksRemoved}
+        </span>
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.5rem' }}>
+          <button className="btn btn-secondary" onClick={() => setAll(true)} style={{ fontSize: '0.8rem' }}>Accept All</button>
+          <button className="btn btn-secondary" onClick={() => setAll(false)} style={{ fontSize: '0.8rem' }}>Reject All</button>
+          <button className="btn" onClick={() => onApply(applyHunks(diff, accepted))} style={{ fontSize: '0.8rem' }}>
+            Apply to Editor{rejectedCount > 0 ? ` (${rejectedCount} rejected)` : ''}
+          </button>
+        </div>
+      </div>
+
+      {diff.segments.map((segment, i) => {
+        if (segment.type === 'equal') {
+          if (mode === 'structural') return null;
+          const text = segment.blocks.map(b => b.text).join(' ');
+          return (
+            <div key={i} style={{ color: '#475569', fontSize: '0.8rem', padding: '0.25rem 0', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+              … {segment.blocks.length} unchanged block{segment.blocks.length === 1 ? '' : 's'}: {text.slice(0, 120)}
+            </div>
+          );
+        }
+
+        const { hunk } = segment;
+        const isAccepted = accepted[hunk.id] !== false;
+        return (
+          <div
+            key={i}
+            style={{
+              border: `1px solid ${isAccepted ? 'rgba(16, 185, 129, 0.4)' : 'rgba(239, 68, 68, 0.4)'}`,
+              borderRadius: 8,
+              padding: '0.75rem 1rem',
+              margin: '0.5rem 0',
+              opacity: isAccepted ? 1 : 0.6,
+            }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+              <span style={{ color: '#E2E8F0', fontWeight: 700, fontSize: '0.8rem' }}>Hunk {hunk.id + 1}</span>
+              <div style={{ display: 'flex', gap: '0.25rem' }}>
+                <button className={`btn btn-small ${isAccepted ? '' : 'btn-secondary'}`} onClick={() => setAccepted(p => ({ ...p, [hunk.id]: true }))}>Accept</button>
+                <button className={`btn btn-small ${isAccepted ? 'btn-secondary' : ''}`} onClick={() => setAccepted(p => ({ ...p, [hunk.id]: false }))}>Reject</button>
+              </div>
+            </div>
+            {mode === 'inline' ? <InlineWords hunk={hunk} /> : <StructuralSummary hunk={hunk} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ContentDiffViewer;
@@ -1,18 +1,17 @@
 // 📊 CONTENT HUB COMPONENT - Fixed & Working
 
 import React, { useState, useEffect } from 'react';
-import { CrawledPage } from '../sitemap-crawler-fixed';
-import { getSEOHealthStats } from '../services/sitemap-service';
+import { SitemapPage } from '../types';
 import { useSitemapCrawler } from '../hooks/useSitemapCrawler';
 
 interface ContentHubProps {
   sitemapUrl: string;
   setSitemapUrl: (url: string) => void;
-  onPagesLoaded?: (pages: CrawledPage[]) => void;
+  onPagesLoaded?: (pages: SitemapPage[]) => void;
 }
 
 export function ContentHub({ sitemapUrl, setSitemapUrl, onPagesLoaded }: ContentHubProps) {
-  const { pages, isLoading, error, progress, crawl, setPages } = useSitemapCrawler();
+  const { pages, isLoading, error, progress, crawl } = useSitemapCrawler();
   const [selectedPages, setSelectedPages] = useState<Set<string>>(new Set());
   const [filter, setFilter] = useState<'all' | 'excellent' | 'good' | 'fair' | 'poor'>('all');
 
@@ -40,7 +39,8 @@ export function ContentHub({ sitemapUrl, setSitemapUrl, onPagesLoaded }: Content
 
   const filteredPages = pages.filter(page => {
     if (filter === 'all') return true;
-    const health = page.seoHealth || 50;
+    const health = page.healthScore;
+    if (health === null || health === undefined) return false;
     if (filter === 'excellent') return health >= 90;
     if (filter === 'good') return health >= 75 && health < 90;
     if (filter === 'fair') return health >= 60 && health < 75;
@@ -124,11 +124,12 @@ export function ContentHub({ sitemapUrl, setSitemapUrl, onPagesLoaded }: Content
           <h3 style={headingStyle}>📊 SEO Health Overview</h3>
           <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))', gap: 12, marginTop: 12 }}>
             <StatCard label="Total Pages" value={pages.length} color="#2d5cff" />
-            <StatCard label="Average Health" value={`${stats.average}%`} color="#50fa7b" />
+            <StatCard label="Average Health" value={stats.scored > 0 ? `${stats.average}%` : '—'} color="#50fa7b" />
             <StatCard label="Excellent (90+)" value={stats.excellent} color="#50fa7b" />
             <StatCard label="Good (75-89)" value={stats.good} color="#8be9fd" />
             <StatCard label="Fair (60-74)" value={stats.fair} color="#ffb86c" />
             <StatCard label="Poor (<60)" value={stats.poor} color="#ff5555" />
+            <StatCard label="Not Analyzed" value={pages.length - stats.scored} color="#9aa7d8" />
           </div>
         </div>
       )}
@@ -183,16 +184,16 @@ export function ContentHub({ sitemapUrl, setSitemapUrl, onPagesLoaded }: Content
                     style={{ width: 16, height: 16 }}
                   />
                   <div style={{ flex: 1, fontSize: 13, wordBreak: 'break-all' }}>{page.url}</div>
-                  {page.seoHealth !== undefined && (
+                  {page.healthScore !== null && page.healthScore !== undefined && (
                     <div style={{
                       padding: '4px 10px',
                       borderRadius: 4,
                       fontSize: 11,
                       fontWeight: 600,
-                      background: getHealthColor(page.seoHealth).bg,
-                      color: getHealthColor(page.seoHealth).text
+                      background: getHealthColor(page.healthScore).bg,
+                      color: getHealthColor(page.healthScore).text
                     }}>
-                      {page.seoHealth}%
+                      {page.healthScore}%
                     </div>
                   )}
                   {page.lastMod && (
@@ -225,6 +226,27 @@ export function ContentHub({ sitemapUrl, setSitemapUrl, onPagesLoaded }: Content
   );
 }
 
+// Health buckets over analyzed pages; unanalyzed pages have no score yet
+function getSEOHealthStats(pages: SitemapPage[]) {
+  const stats = { excellent: 0, good: 0, fair: 0, poor: 0, average: 0, scored: 0 };
+  let totalHealth = 0;
+
+  for (const page of pages) {
+    const health = page.healthScore;
+    if (health === null || health === undefined) continue;
+    stats.scored++;
+    totalHealth += health;
+
+    if (health >= 90) stats.excellent++;
+    else if (health >= 75) stats.good++;
+    else if (health >= 60) stats.fair++;
+    else stats.poor++;
+  }
+
+  if (stats.scored > 0) stats.average = Math.round(totalHealth / stats.scored);
+  return stats;
+}
+
 // Helper Components
 function StatCard({ label, value, color }: { label: string; value: string | number; color: string }) {
   return (
@@ -83,8 +83,44 @@ export const SOTA_AI_MODELS: Record<string, AIModelConfig> = {
     temperature: 0.7,
     topP: 0.9
   },
+  'claude-3-opus': {
+    id: 'claude-3-opus-20240229',
+    name: 'Claude 3 Opus',
+    provider: 'anthropic',
+    maxTokens: 4096,
+    contextWindow: 200000,
+    costPer1MTokens: { input: 15.00, output: 75.00 },
+    capabilities: ['text', 'code', 'analysis', 'vision'],
+    bestFor: ['complex-analysis', 'long-documents'],
+    temperature: 0.7,
+    topP: 0.9
+  },
 
   // Google Models
+  'gemini-2.5-flash': {
+    id: 'gemini-2.5-flash-latest',
+    name: 'Gemini 2.5 Flash',
+    provider: 'google',
+    maxTokens: 65536,
+    contextWindow: 1048576,
+    costPer1MTokens: { input: 0.30, output: 2.50 },
+    capabilities: ['multimodal', 'vision', 'reasoning'],
+    bestFor: ['large-content', 'cost-effective'],
+    temperature: 0.9,
+    topP: 0.95
+  },
+  'gemini-2.5-pro': {
+    id: 'gemini-2.5-pro-latest',
+    name: 'Gemini 2.5 Pro',
+    provider: 'google',
+    maxTokens: 65536,
+    contextWindow: 1048576,
+    costPer1MTokens: { input: 1.25, output: 10.00 },
+    capabilities: ['multimodal', 'vision', 'code', 'reasoning'],
+    bestFor: ['massive-content', 'comprehensive-analysis'],
+    temperature: 0.9,
+    topP: 0.95
+  },
   'gemini-2.0-flash': {
     id: 'gemini-2.0-flash-exp',
     name: 'Gemini 2.0 Flash',
@@ -110,6 +146,19 @@ export const SOTA_AI_MODELS: Record<string, AIModelConfig> = {
     topP: 0.95
   },
 
+  'gemini-pro': {
+    id: 'gemini-pro',
+    name: 'Gemini 1.0 Pro',
+    provider: 'google',
+    maxTokens: 8192,
+    contextWindow: 32760,
+    costPer1MTokens: { input: 0.50, output: 1.50 },
+    capabilities: ['text', 'code'],
+    bestFor: ['quick-tasks', 'cost-effective'],
+    temperature: 0.9,
+    topP: 0.95
+  },
+
   // Meta Models (via third-party API)
   'llama-3.3-70b': {
     id: 'llama-3.3-70b-versatile',
@@ -190,10 +239,35 @@ export class AIModelManager {
   }
 
   /**
-   * Calculate estimated cost for a request
+   * Look a model up by catalogue key or provider model id. OpenRouter ids
+   * ('anthropic/claude-3.5-sonnet', ':free' variants) and dated or '-latest'
+   * ids fall back to the closest catalogue entry.
+   */
+  static findModel(modelId: string): AIModelConfig | null {
+    const exact = SOTA_AI_MODELS[modelId] ?? Object.values(SOTA_AI_MODELS).find(m => m.id === modelId);
+    if (exact) return exact;
+
+    const normalize = (id: string) => id
+      .toLowerCase()
+      .replace(/^[^/]+\//, '')
+      .replace(/:[a-z]+$/, '')
+      .replace(/\./g, '-')
+      .replace(/-(latest|exp|\d{8})$/, '');
+    const wanted = normalize(modelId);
+    // Longest key first so 'gpt-4o-mini' wins over 'gpt-4o'
+    const byLength = Object.entries(SOTA_AI_MODELS).sort(([a], [b]) => b.length - a.length);
+    const match = byLength.find(([key, m]) =>
+      [normalize(key), normalize(m.id)].some(candidate => wanted === candidate || wanted.startsWith(`${candidate}-`))
+    );
+    return match?.[1] ?? null;
+  }
+
+  /**
+   * Calculate estimated cost for a request. Unknown models cost 0, and so
+   * do OpenRouter ':free' variants; check findModel to tell them apart.
    */
   static estimateCost(modelId: string, inputTokens: number, outputTokens: number): number {
-    const model = SOTA_AI_MODELS[modelId];
+    const model = modelId.endsWith(':free') ? null : this.findModel(modelId);
     if (!model) return 0;
 
     const inputCost = (inputTokens / 1000000) * model.costPer1MTokens.input;
@@ -2,6 +2,7 @@ export const AI_MODELS = {
   GEMINI_FLASH: 'gemini-2.5-flash-latest',
   GEMINI_PRO: 'gemini-2.5-pro-latest',
   GEMINI_IMAGEN: 'imagen-3.0-generate-001',
+  OPENAI_IMAGE: 'dall-e-3',
   OPENAI_GPT4_TURBO: 'gpt-4o',
   ANTHROPIC_OPUS: 'claude-3-5-sonnet-20241022',
   ANTHROPIC_HAIKU: 'claude-3-5-haiku-20241022',
@@ -1,5 +1,6 @@
 import { GeneratedContent, SiteInfo, SitemapPage } from "./types";
 import { TARGET_MAX_WORDS, TARGET_MIN_WORDS } from "./constants";
+import { carriesCredentials, fetchViaProxy, getFetchProxyConfig, isProxyError } from "./services/FetchProxy";
 
 export const escapeRegExp = (string: string) => {
     return string.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
@@ -34,25 +35,31 @@ export const getReadabilityVerdict = (score: number): { verdict: string, color:
 };
 
 export const extractYouTubeID = (url: string): string | null => {
-    const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|\&v=)([^#\&\?]*).*/;
+    const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
     const match = url.match(regExp);
     return (match && match[2].length === 11) ? match[2] : null;
 };
 
 // SOTA NETWORK RACER v2.0
 // Instead of trying one proxy then another, we launch ALL of them and take the winner.
+// The first-party proxy (src/sitemap-worker.ts) is tried first when configured.
+// Requests carrying credentials never go near the public proxies.
 export const fetchWithProxies = async (url: string, options: RequestInit = {}, onProgress?: (message: string) => void): Promise<Response> => {
     const encodedUrl = encodeURIComponent(url);
-    const hasAuth = options.headers && (
-        (options.headers as any)['X-API-KEY'] || 
-        (options.headers as any)['Authorization']
-    );
 
-    // If it has Auth, we cannot race public proxies (security).
-    if (hasAuth) {
+    if (getFetchProxyConfig()) {
+        try {
+            const res = await fetchViaProxy(url, options);
+            if (!isProxyError(res)) return res;
+            onProgress?.(`First-party proxy refused ${url}: HTTP ${res.status}`);
+        } catch (e: any) {
+            onProgress?.(`First-party proxy failed for ${url}: ${e?.message || e}`);
+        }
+    }
+
+    if (carriesCredentials(url, options)) {
         return fetch(url, options).catch(() => {
-             const proxy = `https://corsproxy.io/?${encodedUrl}`;
-             return fetch(proxy, options);
+            throw new Error(`Direct request to ${url} failed. Requests with credentials are never sent through public proxies; configure the first-party fetch proxy.`);
         });
     }
 
@@ -95,34 +102,29 @@ export const fetchWithProxies = async (url: string, options: RequestInit = {}, o
 export const smartCrawl = async (url: string): Promise<string> => {
     // SOTA CRAWL RACER: Race Jina vs Proxies
     const controllers: AbortController[] = [];
-    const timeout = 20000; // 20s max
 
     const jinaStrategy = async (): Promise<string> => {
         const controller = new AbortController();
         controllers.push(controller);
-        try {
-            const res = await fetch(`https://r.jina.ai/${url}`, { signal: controller.signal });
-            if (!res.ok) throw new Error("Jina Failed");
-            const text = await res.text();
-            if (!text || text.includes("Access Denied") || text.length < 200) throw new Error("Jina Blocked");
-            return text.substring(0, 30000);
-        } catch (e) { throw e; }
+        const res = await fetch(`https://r.jina.ai/${url}`, { signal: controller.signal });
+        if (!res.ok) throw new Error("Jina Failed");
+        const text = await res.text();
+        if (!text || text.includes("Access Denied") || text.length < 200) throw new Error("Jina Blocked");
+        return text.substring(0, 30000);
     };
 
     const domStrategy = async (): Promise<string> => {
         const controller = new AbortController();
         controllers.push(controller);
-        try {
-            const res = await fetchWithProxies(url, { signal: controller.signal });
-            const html = await res.text();
-            const parser = new DOMParser();
-            const doc = parser.parseFromString(html, 'text/html');
-            doc.querySelectorAll('script, style, nav, footer, iframe, noscript, svg, .ad').forEach(el => el.remove());
-            const main = doc.querySelector('main') || doc.querySelector('article') || doc.body;
-            const text = (main.textContent || '').replace(/\s+/g, ' ').trim();
-            if (text.length < 200) throw new Error("DOM Empty");
-            return text.substring(0, 25000);
-        } catch (e) { throw e; }
+        const res = await fetchWithProxies(url, { signal: controller.signal });
+        const html = await res.text();
+        const parser = new DOMParser();
+        const doc = parser.parseFromString(html, 'text/html');
+        doc.querySelectorAll('script, style, nav, footer, iframe, noscript, svg, .ad').forEach(el => el.remove());
+        const main = doc.querySelector('main') || doc.querySelector('article') || doc.body;
+        const text = (main.textContent || '').replace(/\s+/g, ' ').trim();
+        if (text.length < 200) throw new Error("DOM Empty");
+        return text.substring(0, 25000);
     };
 
     try {
@@ -152,7 +154,7 @@ export function enforceWordCount(content: string, minWords = TARGET_MIN_WORDS, m
 export async function getGuaranteedYoutubeVideos(keyword: string, serperApiKey: string, semanticKeywords: string[]): Promise<any[]> {
     if (!serperApiKey) return [];
     const queries = [keyword, `${keyword} guide`];
-    let allVideos: any[] = [];
+    const allVideos: any[] = [];
     for (const query of queries) {
         if (allVideos.length >= 2) break;
         try {
@@ -1,279 +0,0 @@
-// 🚀 GOD MODE 2.0 ULTRA - 25+ SOTA SEO Metrics Engine v2.0
-// Enterprise-grade content analysis with actionable insights
-
-export interface SEOMetrics {
-  // Readability & Content Quality
-  readability: number; // Flesch-Kincaid score (0-100)
-  keywordDensity: number; // Primary keyword density %
-  wordCount: number;
-  contentDepth: number; // Content comprehensiveness
-  sentimentScore: number; // Positive/negative tone
-  semanticRelevance: number; // Topical authority
-  
-  // Technical SEO
-  h1Count: number;
-  titleLength: number;
-  metaLength: number;
-  schemaScore: number; // Structured data quality
-  metaOptim: number; // Meta tags optimization
-  
-  // Link Architecture
-  internalLinks: number;
-  linkAnchors: number; // Descriptive anchor texts
-  backlinks: number; // Estimated external links
-  
-  // Media Optimization
-  imageAlt: number; // Alt text percentage
-  
-  // Performance & UX
-  pageSpeed: number; // Estimated load time
-  mobileReady: number; // Mobile optimization
-  coreWebVitals: number; // LCP, FID, CLS aggregate
-  
-  // Authority & Trust
-  domainAuth: number; // Domain authority estimate
-  trustFlow: number; // Trust signals
-  
-  // Modern SEO
-  aeoScore: number; // Answer Engine Optimization
-  geoOptimization: number; // Local SEO signals
-  freshness: number; // Content recency
-  contentGap: number; // Coverage vs competitors
-  entitySignals: number; // Named entities detected
-}
-
-export interface SEOResult {
-  url: string;
-  overallScore: number;
-  metrics: SEOMetrics;
-  recommendations: string[];
-  timestamp: number;
-  grade: 'A+' | 'A' | 'B' | 'C' | 'D' | 'F';
-}
-
-/**
- * Calculate Flesch-Kincaid readability score
- * Formula: 206.835 - 1.015(words/sentences) - 84.6(syllables/words)
- */
-function calculateReadability(text: string): number {
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0).length;
-  const words = text.split(/\s+/).filter(w => w.length > 0).length;
-  const syllables = text.split(/\s+/).reduce((count, word) => {
-    return count + Math.max(1, word.match(/[aeiouy]+/gi)?.length || 1);
-  }, 0);
-  
-  if (sentences === 0 || words === 0) return 0;
-  
-  const score = 206.835 - 1.015 * (words / sentences) - 84.6 * (syllables / words);
-  return Math.max(0, Math.min(100, score));
-}
-
-/**
- * Analyze keyword density for top terms
- */
-function calculateKeywordDensity(text: string): number {
-  const words = text.toLowerCase().split(/\s+/).filter(w => w.length > 3);
-  if (words.length === 0) return 0;
-  
-  const freq: Record<string, number> = {};
-  words.forEach(w => freq[w] = (freq[w] || 0) + 1);
-  
-  const topWord = Object.entries(freq).sort((a, b) => b[1] - a[1])[0];
-  return topWord ? Math.min(100, (topWord[1] / words.length) * 100 * 5) : 0;
-}
-
-/**
- * Extract and count named entities (simple NER)
- */
-function extractEntities(text: string): Set<string> {
-  const entities = new Set<string>();
-  // Capitalized words (potential named entities)
-  const matches = text.match(/\b[A-Z][a-z]{2,}(?:\s+[A-Z][a-z]+)*\b/g);
-  if (matches) {
-    matches.forEach(m => {
-      // Filter out common words
-      if (!['The', 'This', 'That', 'These', 'Those'].includes(m)) {
-        entities.add(m);
-      }
-    });
-  }
-  return entities;
-}
-
-/**
- * Comprehensive SEO analysis engine
- */
-export function analyzeContent(html: string, text: string, url: string): SEOResult {
-  // Extract key elements
-  const wordCount = text.split(/\s+/).filter(w => w.length > 0).length;
-  const h1Matches = html.match(/<h1[^>]*>/gi);
-  const h1Count = h1Matches?.length || 0;
-  
-  const metaDesc = html.match(/<meta\s+name=["']description["']\s+content=["']([^"']*)["']/i);
-  const titleMatch = html.match(/<title[^>]*>([^<]*)<\/title>/i);
-  
-  const imgs = html.match(/<img[^>]*>/gi) || [];
-  const imgsWithAlt = imgs.filter(img => img.includes('alt='));
-  
-  const allLinks = html.match(/<a[^>]*href=["']([^"']*)["'][^>]*>/gi) || [];
-  const internalLinks = allLinks.filter(l => l.match(/href=["']\/[^#]/) || l.includes(url));
-  
-  const hasSchema = html.includes('schema.org') || html.includes('application/ld+json');
-  
-  // Calculate advanced metrics
-  const readability = calculateReadability(text);
-  const keywordDensity = calculateKeywordDensity(text);
-  const entities = extractEntities(text);
-  
-  // Count question words (AEO signals)
-  const questionWords = text.match(/\b(what|how|why|when|where|who|which|whose)\b/gi) || [];
-  
-  // Geo signals
-  const hasGeoSignals = /\b(location|address|map|near|city|state|country)\b/i.test(text) ||
-                        /\b(lat|long|coordinates|directions)\b/i.test(html);
-  
-  // Sentiment analysis (basic)
-  const positiveWords = text.match(/\b(great|excellent|amazing|best|perfect|wonderful|fantastic)\b/gi) || [];
-  const negativeWords = text.match(/\b(bad|poor|terrible|worst|awful|horrible)\b/gi) || [];
-  const sentimentScore = Math.min(100, Math.max(0, 
-    50 + (positiveWords.length - negativeWords.length) * 5
-  ));
-  
-  // Build metrics object
-  const metrics: SEOMetrics = {
-    readability: Math.round(readability),
-    keywordDensity: Math.round(keywordDensity),
-    wordCount,
-    contentDepth: Math.min(100, Math.floor(wordCount / 15)), // 1500+ words = 100
-    sentimentScore: Math.round(sentimentScore),
-    semanticRelevance: Math.min(100, entities.size * 3 + 40),
-    
-    h1Count,
-    titleLength: titleMatch ? titleMatch[1].length : 0,
-    metaLength: metaDesc ? metaDesc[1].length : 0,
-    schemaScore: hasSchema ? 90 : 20,
-    metaOptim: metaDesc ? 85 : 30,
-    
-    internalLinks: internalLinks.length,
-    linkAnchors: internalLinks.filter(l => !l.match(/href=["'][^"']*["'][^>]*>[\s]*</)).length,
-    backlinks: Math.floor(Math.random() * 50 + 10), // Would require external API
-    
-    imageAlt: imgs.length > 0 ? Math.round((imgsWithAlt.length / imgs.length) * 100) : 100,
-    
-    pageSpeed: Math.floor(70 + Math.random() * 25), // Estimate
-    mobileReady: html.includes('viewport') ? 90 : 50,
-    coreWebVitals: Math.floor(60 + Math.random() * 30), // Would need real measurement
-    
-    domainAuth: Math.floor(30 + Math.random() * 50), // Would require API
-    trustFlow: Math.floor(40 + Math.random() * 40), // Would require API
-    
-    aeoScore: Math.min(100, questionWords.length * 8 + 30),
-    geoOptimization: hasGeoSignals ? 85 : 35,
-    freshness: 80, // Would check last-modified header
-    contentGap: Math.min(100, 50 + entities.size * 2),
-    entitySignals: Math.min(100, entities.size * 4)
-  };
-  
-  // Calculate overall score (weighted average)
-  const weights = {
-    readability: 1.2,
-    keywordDensity: 1.0,
-    contentDepth: 1.5,
-    schemaScore: 1.3,
-    internalLinks: 1.1,
-    imageAlt: 0.8,
-    metaOptim: 1.2,
-    aeoScore: 1.4,
-    semanticRelevance: 1.3
-  };
-  
-  const weightedSum = Object.entries(metrics).reduce((sum, [key, value]) => {
-    const weight = weights[key as keyof typeof weights] || 0.5;
-    return sum + (value * weight);
-  }, 0);
-  
-  const totalWeight = Object.entries(metrics).reduce((sum, [key]) => {
-    return sum + (weights[key as keyof typeof weights] || 0.5);
-  }, 0);
-  
-  const overallScore = Math.round(weightedSum / totalWeight);
-  
-  // Generate actionable recommendations
-  const recommendations: string[] = [];
-  
-  if (metrics.titleLength < 30) recommendations.push('📝 Expand page title to 30-60 characters for better CTR');
-  if (metrics.titleLength > 60) recommendations.push('✂️ Trim page title to under 60 characters');
-  if (metrics.metaLength < 120) recommendations.push('📄 Enhance meta description (aim for 120-160 characters)');
-  if (metrics.metaLength > 160) recommendations.push('✂️ Shorten meta description to under 160 characters');
-  if (metrics.h1Count === 0) recommendations.push('⚠️ CRITICAL: Add an H1 heading to the page');
-  if (metrics.h1Count > 1) recommendations.push('⚠️ Use only one H1 per page (currently: ' + metrics.h1Count + ')');
-  if (metrics.imageAlt < 80) recommendations.push('🖼️ Add alt text to ' + Math.round((100 - metrics.imageAlt) / 100 * imgs.length) + ' more images');
-  if (metrics.readability < 60) recommendations.push('📖 Improve readability: use shorter sentences and simpler words');
-  if (metrics.internalLinks < 3) recommendations.push('🔗 Add more internal links (currently: ' + metrics.internalLinks + ', target: 5-10)');
-  if (metrics.wordCount < 300) recommendations.push('✍️ Expand content to at least 300 words for better ranking');
-  if (metrics.wordCount > 300 && metrics.wordCount < 1000) recommendations.push('📈 Consider expanding to 1000+ words for pillar content');
-  if (metrics.schemaScore < 50) recommendations.push('🎯 Add structured data (JSON-LD schema.org) for rich snippets');
-  if (metrics.aeoScore < 60) recommendations.push('❓ Add FAQ section with "what, how, why" questions for AEO');
-  if (metrics.geoOptimization < 60 && url.match(/\b(shop|store|business|service)\b/i)) {
-    recommendations.push('📍 Add location data for local SEO (address, map, NAP)');
-  }
-  if (metrics.keywordDensity < 30) recommendations.push('🎯 Increase keyword density naturally throughout content');
-  if (metrics.entitySignals < 50) recommendations.push('🏷️ Mention more relevant brands, people, places for entity SEO');
-  if (!html.includes('viewport')) recommendations.push('📱 Add viewport meta tag for mobile optimization');
-  
-  // Determine letter grade
-  let grade: SEOResult['grade'];
-  if (overallScore >= 90) grade = 'A+';
-  else if (overallScore >= 80) grade = 'A';
-  else if (overallScore >= 70) grade = 'B';
-  else if (overallScore >= 60) grade = 'C';
-  else if (overallScore >= 50) grade = 'D';
-  else grade = 'F';
-  
-  return {
-    url,
-    overallScore,
-    metrics,
-    recommendations,
-    timestamp: Date.now(),
-    grade
-  };
-}
-
-/**
- * Batch analyze multiple URLs
- */
-export async function batchAnalyze(urls: string[]): Promise<SEOResult[]> {
-  const results: SEOResult[] = [];
-  
-  for (const url of urls) {
-    try {
-      const response = await fetch(url);
-      const html = await response.text();
-      const text = html.replace(/<script[^>]*>.*?<\/script>/gi, '')
-                      .replace(/<style[^>]*>.*?<\/style>/gi, '')
-                      .replace(/<[^>]+>/g, ' ')
-                      .replace(/\s+/g, ' ')
-                      .trim();
-      
-      results.push(analyzeContent(html, text, url));
-    } catch (error) {
-      console.error(`Failed to analyze ${url}:`, error);
-    }
-  }
-  
-  return results;
-}
-
-/**
- * Export analysis as JSON report
- */
-export function exportReport(results: SEOResult | SEOResult[]): string {
-  const data = Array.isArray(results) ? results : [results];
-  return JSON.stringify({
-    generated: new Date().toISOString(),
-    totalPages: data.length,
-    averageScore: Math.round(data.reduce((sum, r) => sum + r.overallScore, 0) / data.length),
-    results: data
-  }, null, 2);
-}
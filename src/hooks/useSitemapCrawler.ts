@@ -1,13 +1,19 @@
 // 🎣 CUSTOM HOOK: Sitemap Crawler State Management
 
-import { useState, useCallback } from 'react';
-import { crawlSitemap, CrawledPage } from '../services/sitemap-service';
+import { useState, useCallback, useRef } from 'react';
+import { SitemapValidators } from '../services/SitemapCrawler';
+import { recrawlSitemap, SitemapChangeset, summarizeChangeset } from '../services/SitemapRecrawl';
+import { SitemapPage } from '../types';
 
 export function useSitemapCrawler() {
-  const [pages, setPages] = useState<CrawledPage[]>([]);
+  const [pages, setPages] = useState<SitemapPage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<string>('');
+  const [changeset, setChangeset] = useState<SitemapChangeset | null>(null);
+  const pagesRef = useRef<SitemapPage[]>([]);
+  const validatorsRef = useRef<SitemapValidators>({});
+  pagesRef.current = pages;
 
   const crawl = useCallback(async (sitemapUrl: string) => {
     setIsLoading(true);
@@ -15,13 +21,20 @@ export function useSitemapCrawler() {
     setProgress('Initializing crawler...');
 
     try {
-      const result = await crawlSitemap(sitemapUrl, (message) => {
-        setProgress(message);
-      });
+      const result = await recrawlSitemap(
+        sitemapUrl,
+        { pages: pagesRef.current, validators: validatorsRef.current },
+        { onProgress: (message) => setProgress(message) }
+      );
+      if (result.sitemaps.length === 0 && result.errors.length > 0) {
+        throw new Error(result.errors[result.errors.length - 1]);
+      }
 
-      setPages(result);
-      setProgress(`Successfully crawled ${result.length} pages`);
-      return result;
+      validatorsRef.current = result.validators;
+      setPages(result.pages);
+      setChangeset(result.changeset);
+      setProgress(`Crawled ${result.sitemaps.length} sitemap(s): ${summarizeChangeset(result.changeset)}`);
+      return result.pages;
     } catch (err: any) {
       const errorMessage = err?.message || 'Unknown error occurred';
       setError(errorMessage);
@@ -34,6 +47,8 @@ export function useSitemapCrawler() {
 
   const reset = useCallback(() => {
     setPages([]);
+    setChangeset(null);
+    validatorsRef.current = {};
     setError(null);
     setProgress('');
   }, []);
@@ -43,6 +58,7 @@ export function useSitemapCrawler() {
     isLoading,
     error,
     progress,
+    changeset,
     crawl,
     reset,
     setPages
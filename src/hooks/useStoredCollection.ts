@@ -0,0 +1,82 @@
+// 🎣 CUSTOM HOOK: Collection state persisted to the IndexedDB storage layer
+
+import { useEffect, useRef, useState } from 'react';
+import { CollectionStore, storageLayer, StoredRecord } from '../services/StorageLayer';
+
+const PERSIST_DELAY = 500;
+
+/** Array position saved with each record; IndexedDB returns records in key order */
+type Ordered<T> = T & { storedOrder?: number };
+
+const byStoredOrder = <T>(a: Ordered<T>, b: Ordered<T>) =>
+  (a.storedOrder ?? Number.MAX_SAFE_INTEGER) - (b.storedOrder ?? Number.MAX_SAFE_INTEGER);
+
+const withoutOrder = <T>({ storedOrder: _order, ...record }: Ordered<T>) => record as T;
+
+/**
+ * Drop-in replacement for a localStorage-backed array state. Loads the store
+ * asynchronously, then writes only the records whose object identity changed
+ * (plus deletions) so large collections don't get re-serialized on every
+ * update. Until the initial load finishes nothing is written.
+ *
+ * Without `compare` the array order itself is kept: each record is saved with
+ * its position and the collection is sorted by it on load, so a record that
+ * only moved is rewritten too.
+ */
+export function useStoredCollection<T extends StoredRecord>(
+  store: CollectionStore,
+  compare?: (a: T, b: T) => number
+) {
+  const [items, setItems] = useState<T[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const persisted = useRef<Map<string, T>>(new Map());
+  const persistedOrder = useRef<Map<string, number>>(new Map());
+  const compareRef = useRef(compare);
+
+  useEffect(() => {
+    let cancelled = false;
+    storageLayer.getAll<Ordered<T>>(store).then(records => {
+      if (cancelled) return;
+      const sorted = compareRef.current
+        ? [...records].sort(compareRef.current)
+        : [...records].sort(byStoredOrder).map(withoutOrder);
+      persisted.current = new Map(sorted.map(record => [record.id, record]));
+      // Stored positions are re-saved on the first write if they were missing or had gaps
+      persistedOrder.current = new Map(records.map(record => [record.id, record.storedOrder ?? -1]));
+      // Anything added before the load finished goes in front of the stored records
+      setItems(prev => {
+        const stored = sorted.filter(record => !prev.some(p => p.id === record.id));
+        return [...prev, ...stored];
+      });
+      setLoaded(true);
+    }).catch(e => {
+      console.warn(`[useStoredCollection] Failed to load ${store}:`, e);
+      if (!cancelled) setLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    const timer = setTimeout(() => {
+      const current = new Map(items.map(item => [item.id, item]));
+      const ordered = !compareRef.current;
+      const upserts = items.flatMap((item, index) => {
+        const changed = persisted.current.get(item.id) !== item;
+        if (!ordered) return changed ? [item] : [];
+        return changed || persistedOrder.current.get(item.id) !== index ? [{ ...item, storedOrder: index }] : [];
+      });
+      const deletes = Array.from(persisted.current.keys()).filter(id => !current.has(id));
+      persisted.current = current;
+      if (ordered) persistedOrder.current = new Map(items.map((item, index) => [item.id, index]));
+      storageLayer.sync<T | Ordered<T>>(store, upserts, deletes).catch(e => {
+        console.warn(`[useStoredCollection] Failed to save ${store}:`, e);
+      });
+    }, PERSIST_DELAY);
+    return () => clearTimeout(timer);
+  }, [store, items, loaded]);
+
+  return [items, setItems, loaded] as const;
+}
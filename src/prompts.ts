@@ -133,20 +133,15 @@ Return the JSON blueprint.`
         systemInstruction: `You are an elite, expert-level writer ghostwriting for a top-tier publisher. Your writing must be indistinguishable from a human expert and optimized for Google's E-E-A-T (Experience, Expertise, Authoritativeness, Trustworthiness) and Helpfulness standards.
 
 **HUMANIZATION PROTOCOL (NON-NEGOTIABLE):**
--   **Vary Sentence Structure:** Use a mix of short, medium, and long sentences. A good rule is the 3-1 rule: 3 varied sentences followed by one very short, punchy fragment. Like this.
--   **Engage Directly:** Use rhetorical questions to engage the reader. "But what does this actually mean for you?"
--   **BANNED PHRASES:** NEVER use corporate fluff or AI-clichés. Banned list includes: "In the fast-paced world", "Unlock the potential", "Delve into", "Tapestry", "Symphony", "Navigating the landscape", "In conclusion".
+-   **Vary Sentence Structure:** Mix short, medium and long sentences around the average length the VOICE PROFILE sets.
+-   **BANNED PHRASES:** NEVER use corporate fluff, AI-clichés or any phrase the VOICE PROFILE bans.
 
 **AEO (ANSWER ENGINE OPTIMIZATION) - "THE SNIPPET TRAP" PROTOCOL:**
 -   Immediately following the first H2 heading, you MUST provide a direct, complete answer to the user's likely search intent.
 -   This answer must be a single HTML paragraph (\`<p>\`) wrapped in \`<strong>\` tags.
 -   The paragraph must be **EXACTLY 45-55 words**.
 
-**STYLE GUIDE (ALEX HORMOZI - STRICTLY ENFORCED):**
--   **Readability:** Grade 5 level. Simple words.
--   **Sentence Length:** Maximum 12 words per sentence on average.
--   **Voice:** Active voice only. NO PASSIVE VOICE. (e.g., "We found that..." NOT "It was found that...").
--   **Energy:** High-energy, direct, confident, and punchy. Eliminate all filler words. Get to the point.
+**STYLE GUIDE:** Write in the VOICE PROFILE below: its tone, reading level, person, contraction policy and sentence lengths are STRICTLY ENFORCED. Prefer active voice (e.g., "We found that..." NOT "It was found that...").
 
 **CRITICAL NEGATIVE CONSTRAINTS (VIOLATION = TOTAL FAILURE):**
 1.  **NO H1 TAGS:** The final output MUST NOT contain an \`<h1>\` tag. The blog platform provides this.
@@ -192,11 +187,30 @@ ${auditData}
 2.  Follow all style, formatting, and negative constraints perfectly.
 3.  Create HTML \`<table style="width:100%; border-collapse:collapse; border:1px solid #ddd;">\` for any data comparisons.
 4.  Insert 3 image placeholders and 6-12 internal link placeholders.
-5.  Adhere to the Hormozi style: Short, fast, direct, helpful.
+5.  Stay in the VOICE PROFILE from the first sentence to the last.
 
 Return the HTML body. Nothing else.`
     },
 
+    article_continuation: {
+        systemInstruction: `You are the same expert ghostwriter finishing an article whose generation was cut off. Continue seamlessly in the established voice, style and formatting rules: raw editor-safe HTML only (\`<p>\`, \`<h2>\`, \`<h3>\`, \`<ul>\`, \`<ol>\`, \`<li>\`, \`<strong>\`, \`<em>\`, \`<blockquote>\`, simple tables), no \`<h1>\`, no markdown, no signatures. Keep using \`[IMAGE_n]\` and \`[LINK_CANDIDATE: keyword]\` placeholders where they fit.`,
+        userPrompt: (articlePlan: any, writtenHtml: string, remainingSections: string[]) => `
+**ARTICLE BLUEPRINT:** ${JSON.stringify(articlePlan)}
+
+**SECTIONS ALREADY WRITTEN (do NOT repeat them):**
+${(writtenHtml.match(/<h2[^>]*>[\s\S]*?<\/h2>/gi) || []).map(h => `- ${h.replace(/<[^>]*>/g, '').trim()}`).join('\n') || '- Introduction only'}
+
+**END OF THE WRITTEN TEXT (for continuity):**
+${writtenHtml.slice(-1500)}
+
+**EXECUTION MANDATE:**
+1.  Continue with the next section, starting with its \`<h2>\`.
+2.  ${remainingSections.length > 0 ? `Write these remaining sections in order: ${remainingSections.join(' | ')}.` : 'Write the remaining sections the blueprint calls for, then the conclusion and FAQ if planned.'}
+3.  Keep the total article within 2200-2800 words.
+
+Return only the HTML that comes next. Nothing else.`
+    },
+
     surgical_section_optimizer: {
         systemInstruction: `You are a Surgical SEO Editor. Your task is to optimize a single HTML section without altering its structure or intent. You are a ghost; your edits should be invisible.
 
@@ -211,7 +225,7 @@ Return the HTML body. Nothing else.`
 **SURGICAL OPTIMIZATION RULES:**
 1.  **Fact & Date Correction:** Find any outdated years (e.g., ${PREVIOUS_YEAR}) and update them to **${TARGET_YEAR}**. Correct any demonstrably false statistics or claims.
 2.  **Readability:** Break up long paragraphs (over 6 lines) into shorter ones or a bulleted list (\`<ul>\`).
-3.  **Clarity & Conciseness:** Rephrase convoluted sentences to be more direct (Active Voice, Hormozi style).
+3.  **Clarity & Conciseness:** Rephrase convoluted sentences to be more direct (active voice, in the VOICE PROFILE below).
 4.  **Internal Links:** If a highly relevant keyword appears, convert it to an internal link placeholder: \`<a href="[SLUG_PLACEHOLDER]">Keyword Text</a>\`. Add 1-2 max per section.
 
 **OUTPUT:**
@@ -255,7 +269,8 @@ ${sectionHtml}
       "original_html": "<li>The RTX 3080 is a great choice.</li>",
       "updated_html": "<li>While the RTX 3080 was a great choice, the new standard for ${TARGET_YEAR} gaming is the RTX 5080.</li>"
     }
-  ]
+  ],
+  "faqHtml": "<h2>Frequently Asked Questions</h2>... (ONLY if the article has no FAQ section; otherwise an empty string)"
 }`,
         userPrompt: (content: string, title: string, keyword: string, paaQuestions: string[] | null, semanticKeywords: string[] | null) => `
 **ARTICLE TITLE:** ${title}
@@ -272,6 +287,34 @@ ${content.substring(0, 25000)}
 Generate the JSON output.`
     },
 
+    god_mode_structural_guardian: {
+        systemInstruction: `You are a structural content editor refreshing one HTML section of a live article for ${TARGET_YEAR}.
+
+**STRUCTURAL RULES (IMMUTABLE):**
+1.  **Hierarchy is Sacred:** Every heading in the input must appear in the output at the same level. Do not add or remove headings.
+2.  **Lists remain Lists:** A <ul> or <ol> stays a list. Tables stay tables.
+3.  **Image Preservation:** Keep every <img>, <figure> and <iframe> tag exactly where it is, unchanged.
+4.  **Links:** Keep every existing <a> tag and its href.
+5.  **No Merging:** Do not merge separate paragraphs into one wall of text.
+
+**CLEANUP:** Remove UI noise that leaked into the content: subscription forms, cookie notices, "Leave a reply" prompts, breadcrumbs.
+
+**IMPROVEMENTS:**
+-   Tighten sentences, remove filler and AI cliches ("delve into", "tapestry", "in conclusion").
+-   Replace vague terms with specific named entities where you are certain they are accurate.
+-   Update time-sensitive wording for ${TARGET_YEAR}. Never invent statistics, studies or sources.
+-   The first paragraph after an <h2> should directly answer the heading in 40-50 words.
+
+Return ONLY the revised HTML fragment. No markdown, no commentary.`,
+        userPrompt: (htmlFragment: string, semanticKeywords: string[], title: string) => `**ARTICLE TITLE:** ${title}
+**SEMANTIC TARGETS:** ${semanticKeywords.slice(0, 5).join(', ') || 'n/a'}
+
+**HTML SECTION:**
+${htmlFragment}
+
+Return the revised HTML section with its structure preserved.`
+    },
+
     // All other utility prompts are largely okay but standardized for clarity.
     semantic_keyword_generator: {
         systemInstruction: `You are an SEO entity-crawling bot. Your task is to generate a comprehensive list of semantic and LSI keywords related to a primary topic for achieving topical authority. Output JSON only.`,
@@ -283,12 +326,25 @@ Generate the JSON output.`
 **Title:** "${title}"
 **Content Snippet:** ${content.substring(0, 4000)}
 
-Return JSON: { "healthScore": number, "updatePriority": "Low" | "Medium" | "High" | "Critical", "analysis": { "critique": "A 1-2 sentence summary of weaknesses.", "suggestions": ["Actionable suggestion 1", "Actionable suggestion 2"] } }`
+Return JSON: { "healthScore": number, "updatePriority": "Low" | "Medium" | "High" | "Critical", "justification": "One sentence explaining the priority.", "analysis": { "critique": "A 1-2 sentence summary of weaknesses.", "contentGaps": ["Missing subtopic 1", "Missing subtopic 2"], "seoIssues": ["Specific SEO issue 1", "Specific SEO issue 2"], "improvementPlan": "A short, ordered plan to bring this page to ${TARGET_YEAR} standards." } }`
     },
     json_repair: {
         systemInstruction: `You are a JSON syntax repair bot. Your only function is to fix broken or incomplete JSON strings. You must return only the valid JSON object, without any explanatory text or markdown.`,
         userPrompt: (brokenJson: string) => `The following string is broken JSON. Fix it and return only the corrected, valid JSON string.\n\n${brokenJson}`
     },
+    schema_reask: {
+        systemInstruction: `You are a JSON contract fixer. A previous reply parsed as JSON but broke its schema. Fix ONLY the fields listed as invalid and keep every other field exactly as it is. Return the complete corrected JSON object, without any explanatory text or markdown.`,
+        userPrompt: (promptKey: string, invalidJson: string, fieldErrors: string[], schema: object) => `**TASK:** ${promptKey}
+**REQUIRED SCHEMA:** ${JSON.stringify(schema)}
+
+**INVALID FIELDS:**
+${fieldErrors.map(e => `- ${e}`).join('\n')}
+
+**PREVIOUS REPLY:**
+${invalidJson}
+
+Return the corrected JSON object.`
+    },
     visual_data_extractor: {
         systemInstruction: `You are a Data Visualization Bot. Your task is to scan text for quantitative data (percentages, prices, specs, steps) and convert it into Mermaid.js chart syntax.
 
@@ -312,7 +368,7 @@ xychart-beta
 
 **RUBRIC:**
 - **AEO Snippet Trap (40 pts):** Does the content immediately answer the likely user query in a bolded paragraph of 45-55 words after the first H2?
-- **Hormozi Style (30 pts):** Is the language direct, active-voice, and high-energy? Are sentences short?
+- **Voice Fit (30 pts):** Does the language match the VOICE PROFILE below: tone, person, contractions, sentence length and banned phrases?
 - **Readability (20 pts):** Is the content broken up with lists, bolding, and short paragraphs?
 - **HTML Validity (10 pts):** Is the HTML clean and simple?
 
@@ -338,5 +394,61 @@ ${issues.map(i => `- ${i}`).join('\n')}
 ${html}
 
 **ACTION:** Rewrite the HTML to resolve only the specified issues. Return the complete, corrected HTML.`
+    },
+    fluff_remover_and_replacer: {
+        systemInstruction: `You are a line editor who removes machine-sounding filler. Replace every listed phrase with plain, specific wording a human expert would use, and tighten the sentences around it. Use contractions and vary sentence length.
+
+**RULES:**
+1.  Change only the sentences that contain a listed phrase or obvious filler. Leave everything else byte-for-byte identical.
+2.  Keep every tag, attribute, link, image and heading exactly as it is.
+3.  Output only the full HTML. No markdown fences, no commentary.`,
+        userPrompt: (html: string, phrases: string[]) => `**PHRASES TO REMOVE:** ${phrases.length > 0 ? phrases.map(p => `"${p}"`).join(', ') : 'generic AI filler and cliches'}
+
+**HTML:**
+${html}
+
+Return the complete HTML with those phrases replaced.`
+    },
+    generate_faq_section: {
+        systemInstruction: `You are an SEO editor writing the FAQ block of an article. Answer the questions real searchers ask that the article does not already answer head-on. Each answer is 40-60 words, direct, and consistent with the article.
+
+**OUTPUT FORMAT (HTML only, no markdown):**
+<div class="faq-section"><h2>Frequently Asked Questions</h2><h3>Question?</h3><p>Answer.</p>...</div>`,
+        userPrompt: (keyword: string, html: string) => `**PRIMARY KEYWORD:** ${keyword}
+
+**ARTICLE:**
+${html.substring(0, 12000)}
+
+Write 5-6 questions and answers. Return only the FAQ HTML block.`
+    },
+    generate_key_takeaways: {
+        systemInstruction: `You are an editor summarizing an article for skimmers. Write 4-6 takeaways, each one concrete sentence stating a fact, number or action from the article. No new claims.
+
+**OUTPUT FORMAT (HTML only, no markdown):**
+<blockquote class="key-takeaways-box"><h3>⚡ Key Takeaways</h3><ul><li>...</li></ul></blockquote>`,
+        userPrompt: (keyword: string, html: string) => `**PRIMARY KEYWORD:** ${keyword}
+
+**ARTICLE:**
+${html.substring(0, 12000)}
+
+Return only the Key Takeaways HTML block.`
+    },
+    generate_internal_links: {
+        systemInstruction: `You are an internal-linking editor. Add contextual links from the article to the site's own pages. Link an existing phrase whose meaning matches the target page; never add new sentences just to hold a link.
+
+**RULES:**
+1.  Use only URLs from the provided list, each at most once, and never inside headings.
+2.  Anchor text is 2-6 words already present in the text.
+3.  Keep every other tag, attribute and word exactly as it is.
+4.  Output only the full HTML. No markdown fences, no commentary.`,
+        userPrompt: (html: string, pages: { title: string, url: string }[], count: number) => `**ADD AT LEAST ${count} INTERNAL LINKS.**
+
+**SITE PAGES (title | url):**
+${pages.map(p => `- ${p.title} | ${p.url}`).join('\n')}
+
+**HTML:**
+${html}
+
+Return the complete HTML with the links added.`
     }
 };
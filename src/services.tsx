@@ -1,71 +1,390 @@
-import axios from 'axios';
-import { fetchWithProxies, smartCrawl } from './contentUtils';
-import { ContentItem, SitemapPage, GeneratedContent, GenerationContext } from './types';
+import {
+    smartCrawl,
+    getGuaranteedYoutubeVideos,
+    normalizeGeneratedContent,
+    postProcessGeneratedHtml,
+    processInternalLinks,
+} from './contentUtils';
+import { generateFullSchema } from './schema-generator';
+import { ContentItem, SitemapPage, GeneratedContent, GenerationContext, ApiClients, ExpandedGeoTargeting, WpConfig, ServiceCallAI, AICallOptions, VoiceProfile } from './types';
+import { AIRouter, buildRequest, buildRouteChain, createRouterFromClients } from './services/AIRouter';
+import { WordPressPublisher, PostStatus, Fetcher } from './services/WordPressPublisher';
+import { pageAnalysisStore, PageAnalysisResult } from './services/PageAnalysisStore';
+import { generationCheckpoints, GenerationStage } from './services/GenerationCheckpointStore';
+import { loadVersioned, saveVersioned } from './services/StateSchema';
+import { costLedger, endsRun } from './services/CostLedger';
+import { stalenessDetector } from './services/SOTAEnhancements';
+import { fillArticleImages, generateImages, ImageAspectRatio, ImageClients } from './services/ImageGenerator';
+import { isAbortError } from './services/RateLimiter';
+import { callStructured, ContentBlueprint, PageAnalysis } from './services/PromptSchemas';
+import { profileForItem } from './services/QualityRuleEngine';
+import { RepairOptions, repairUntilPass, REPAIR_STOP_REASON_TEXT } from './services/QualityRepairLoop';
+import { voiceForItem } from './services/VoiceProfiles';
+import { HumanWritingEngine } from './services/HumanWritingEngine';
+import { callAiWithRetry, extractSlugFromUrl, processConcurrently } from './utils';
 
 // ============================================================================
 // COMPATIBILITY LAYER FOR GOD MODE APP.TSX
 // ============================================================================
 
-// 1. callAI (Complex Signature 9 args)
+// 1. callAI (Complex Signature 9 args, plus optional signal / streaming options)
+// `apiClients` may also be a pre-built AIRouter, which lets callers plug in
+// their own providers (e.g. one pointed at a local mock server).
 export const callAI = async (
-    apiClients: any,
+    apiClients: ApiClients | AIRouter | null,
     selectedModel: string,
-    geoTargeting: any,
+    geoTargeting: ExpandedGeoTargeting | null,
     openrouterModels: string[],
     selectedGroqModel: string,
     promptKey: string,
     args: any[],
     format: 'json' | 'html' = 'json',
-    grounding: boolean = false
+    grounding: boolean = false,
+    options: AICallOptions = {}
 ): Promise<string> => {
-    console.log(`[MockCallAI] Model=${selectedModel}, Prompt=${promptKey}, Grounding=${grounding}`);
-
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    if (format === 'json') {
-        if (promptKey === 'cluster_planner') {
-            return JSON.stringify({
-                pillarTitle: args[0] || "Pillar Topic",
-                clusterTitles: [
-                    { title: (args[0] || "Topic") + " Guide" },
-                    { title: (args[0] || "Topic") + " Strategies" },
-                    { title: (args[0] || "Topic") + " Examples" }
-                ]
-            });
-        }
-        return JSON.stringify({
-            search_terms: ["keyword1", "keyword2"],
-            title: "Generated Title",
-            metaDescription: "Generated Meta",
-            slug: "generated-slug",
-            content: "<p>Generated content placeholder</p>"
+    const router = apiClients instanceof AIRouter ? apiClients : createRouterFromClients(apiClients);
+    const request = buildRequest(promptKey, args, format, grounding, geoTargeting, options.voice);
+    if (options.signal) request.signal = options.signal;
+    if (options.onText) request.onText = options.onText;
+    if (options.scope) request.scope = options.scope;
+    if (options.onUsage) request.onUsage = options.onUsage;
+    const chain = buildRouteChain(selectedModel, openrouterModels, selectedGroqModel);
+    const response = await router.route(request, chain, costLedger);
+    return response.text;
+};
+
+// Map the validated batch_content_analyzer reply onto the SitemapPage analysis shape
+const toPageAnalysisResult = (reply: PageAnalysis, text: string): PageAnalysisResult => ({
+    healthScore: Math.max(0, Math.min(100, Math.round(reply.healthScore))),
+    updatePriority: reply.updatePriority,
+    justification: reply.justification || reply.analysis.critique || null,
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+    analysis: reply.analysis,
+});
+
+// Bind a voice to every call that doesn't name its own
+export const withVoice = (serviceCallAI: ServiceCallAI, voice: VoiceProfile): ServiceCallAI =>
+    (promptKey, args, format, grounding, options) => serviceCallAI(promptKey, args, format, grounding, { voice, ...options });
+
+// --- Multi-stage article generation ---
+
+const STAGE_LABELS: Record<GenerationStage, string> = {
+    keywords: 'Stage 1/5 Keywords',
+    outline: 'Stage 2/5 Outline',
+    body: 'Stage 3/5 Writing',
+    videos: 'Stage 4/5 Media',
+    assembly: 'Stage 5/5 Assembly',
+};
+
+const STAGE_RETRIES = 2;
+const STAGE_RETRY_DELAY = 2000;
+
+// Run a stage once, or return its checkpoint if an earlier attempt finished it.
+const runStage = async <T,>(itemId: string, stage: GenerationStage, signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> => {
+    const saved = generationCheckpoints.get<T>(itemId, stage);
+    if (saved !== undefined) return saved;
+    const result: T = await callAiWithRetry(fn, STAGE_RETRIES, STAGE_RETRY_DELAY, signal);
+    generationCheckpoints.set(itemId, stage, result);
+    return result;
+};
+
+// --- Streaming article body ---
+
+export interface StreamProgress {
+    html: string;
+    words: number;
+    sectionsDone: number;
+    sectionsTotal: number | null;
+}
+
+export interface GenerateItemsOptions {
+    // Live body preview while an item's article streams in
+    onStream?: (itemId: string, progress: StreamProgress) => void;
+    // Aborting an item's signal stops it mid-stream; what was written is kept
+    signalFor?: (itemId: string) => AbortSignal | undefined;
+    // Repair drafts that fail their quality gate; omitted or null skips the loop
+    repair?: Pick<RepairOptions, 'maxIterations' | 'tokenBudget'> | null;
+}
+
+const STREAM_REPORT_INTERVAL = 250;
+
+const countWords = (html: string) => html.replace(/<[^>]*>/g, ' ').split(/\s+/).filter(Boolean).length;
+
+// Streams arrive before AIRouter.cleanResponse can strip a markdown fence
+const stripFence = (text: string) => text.replace(/^\s*```(?:html)?\s*/i, '').replace(/\s*```\s*$/, '');
+
+const countSections = (html: string) => (html.match(/<h2[\s>]/gi) || []).length;
+
+// Everything before the last <h2>: the sections the model already moved past
+const completeSections = (html: string): string => {
+    const last = html.search(/<h2[\s>](?![\s\S]*<h2[\s>])/i);
+    return last > 0 ? html.slice(0, last) : '';
+};
+
+const planHeadings = (plan: ContentBlueprint): string[] => plan.outline.map(o => o.heading);
+
+/**
+ * Stream the article body, reporting words and sections as they arrive.
+ * When the stream fails, the finished sections are checkpointed and the
+ * next attempt asks the model to continue after them instead of starting
+ * over. `onProgress` always sees the latest text before this throws.
+ */
+const writeArticleBody = async (
+    itemId: string,
+    plan: ContentBlueprint,
+    availableLinkData: string | null,
+    serviceCallAI: ServiceCallAI,
+    onProgress: (progress: StreamProgress) => void,
+    signal?: AbortSignal
+): Promise<string> => {
+    const headings = planHeadings(plan);
+    const kept = generationCheckpoints.getPartial(itemId, 'body') ?? '';
+    let streamed = '';
+    let lastReport = 0;
+
+    const report = (final: boolean) => {
+        const html = kept + streamed;
+        const sections = countSections(html);
+        lastReport = Date.now();
+        onProgress({
+            html,
+            words: countWords(html),
+            // The section being written isn't done until the next one starts
+            sectionsDone: final ? sections : Math.max(0, sections - 1),
+            sectionsTotal: headings.length > 0 ? headings.length : null,
         });
+    };
+    const onText = (text: string) => {
+        streamed = stripFence(text);
+        if (Date.now() - lastReport >= STREAM_REPORT_INTERVAL) report(false);
+    };
+
+    try {
+        const written = countSections(kept);
+        const html = kept
+            ? await serviceCallAI('article_continuation', [plan, kept, headings.slice(written)], 'html', false, { signal, onText })
+            : await serviceCallAI('ultra_sota_article_writer', [plan, null, null, null, availableLinkData], 'html', false, { signal, onText });
+        if (!html.trim()) throw new Error('Empty article body');
+        streamed = html;
+        report(true);
+        generationCheckpoints.setPartial(itemId, 'body', null);
+        return kept + html;
+    } catch (e) {
+        report(false);
+        const resumable = kept + completeSections(streamed);
+        if (resumable.length > kept.length) generationCheckpoints.setPartial(itemId, 'body', resumable);
+        throw e;
     }
+};
 
-    return "<h2>Generated Article</h2><p>This is a placeholder for actual AI content.</p>";
+interface StagesResult {
+    content: GeneratedContent;
+    // Set when the item was stopped mid-body and `content` holds what was written
+    stoppedAt: StreamProgress | null;
+}
+
+/**
+ * The live post's stored HTML, the baseline a refresh is diffed against.
+ * crawledContent is crawled text or markdown, which would diff as one hunk.
+ */
+const fetchOriginalHtml = async (item: ContentItem, wpConfig: WpConfig): Promise<string | null> => {
+    const siteUrl = wpConfig.siteUrl || wpConfig.url;
+    if (!item.originalUrl || !siteUrl || !wpConfig.username || !wpConfig.appPassword) return null;
+    try {
+        const publisher = new WordPressPublisher({ siteUrl, username: wpConfig.username, appPassword: wpConfig.appPassword });
+        const post = await publisher.findPostBySlug(extractSlugFromUrl(item.originalUrl));
+        return post?.content.raw || null;
+    } catch (error) {
+        console.warn(`[Refresh] Could not fetch the original post for ${item.originalUrl}:`, error);
+        return null;
+    }
 };
 
+const runGenerationStages = async (
+    item: ContentItem,
+    baseCallAI: ServiceCallAI,
+    context: GenerationContext,
+    report: (stage: GenerationStage, text: string) => void,
+    shouldStop: () => boolean,
+    onStream: (progress: StreamProgress) => void,
+    signal?: AbortSignal
+): Promise<StagesResult | null> => {
+    const { existingPages, geoTargeting, serperApiKey, siteInfo, wpConfig } = context;
+    const voice = voiceForItem(item, context.voiceProfile);
+    const serviceCallAI = withVoice(baseCallAI, voice);
+    const location = geoTargeting.enabled ? geoTargeting.location : null;
+    const linkablePages = existingPages.filter(p => p.title && !p.removedAt && p.id !== item.originalUrl);
+
+    report('keywords', 'Generating semantic keywords...');
+    const semanticKeywords = await runStage<string[]>(item.id, 'keywords', signal, async () => {
+        const reply = await callStructured(serviceCallAI, 'semantic_keyword_generator', [item.title, location], { signal });
+        return reply.semanticKeywords;
+    });
+    if (shouldStop()) return null;
+
+    report('outline', 'Building meta and outline...');
+    const plan = await runStage<ContentBlueprint>(item.id, 'outline', signal, () =>
+        callStructured(serviceCallAI, 'content_meta_and_outline', [
+            item.title,
+            semanticKeywords,
+            null,
+            null,
+            linkablePages.slice(0, 50).map(p => ({ title: p.title, url: p.id })),
+            item.crawledContent,
+            item.analysis ?? null,
+        ], { signal })
+    );
+    if (shouldStop()) return null;
+
+    report('body', generationCheckpoints.getPartial(item.id, 'body') ? 'Continuing article body...' : 'Writing article body...');
+    const availableLinkData = linkablePages.length > 0
+        ? linkablePages.slice(0, 80).map(p => `- ${p.title}`).join('\n')
+        : null;
+    // Assigned from the stream callback, so TS can't narrow it
+    let written = null as StreamProgress | null;
+    let stoppedAt: StreamProgress | null = null;
+    let bodyHtml: string;
+    try {
+        bodyHtml = await runStage<string>(item.id, 'body', signal, () =>
+            writeArticleBody(item.id, plan, availableLinkData, serviceCallAI, progress => {
+                written = progress;
+                const sections = progress.sectionsTotal ? `section ${Math.min(progress.sectionsDone + 1, progress.sectionsTotal)}/${progress.sectionsTotal}` : `${progress.sectionsDone} sections`;
+                report('body', `Writing ${sections} • ${progress.words.toLocaleString()} words`);
+                onStream(progress);
+            }, signal)
+        );
+    } catch (e) {
+        // Stopped mid-stream: keep what was written, the checkpoint resumes the rest
+        if (!isAbortError(e) || !written?.html.trim()) throw e;
+        stoppedAt = written;
+        bodyHtml = written.html;
+    }
+    if (!stoppedAt && shouldStop()) return null;
+
+    const primaryKeyword = plan.primaryKeyword || item.title;
+    let youtubeVideos: any[] = [];
+    if (!stoppedAt) {
+        report('videos', 'Finding YouTube videos...');
+        youtubeVideos = await runStage<any[]>(item.id, 'videos', signal, () =>
+            getGuaranteedYoutubeVideos(primaryKeyword, serperApiKey, semanticKeywords)
+        );
+    }
+
+    report('assembly', 'Post-processing, internal links and schema...');
+    const content = normalizeGeneratedContent({
+        ...plan,
+        title: plan.seoTitle || item.title,
+        slug: slugifyKeyword(primaryKeyword),
+        primaryKeyword,
+        semanticKeywords,
+        outline: planHeadings(plan),
+        strategy: { targetAudience: '', searchIntent: '', competitorAnalysis: '', contentAngle: '' },
+        socialMediaCopy: { twitter: '', linkedIn: '' },
+    }, item.title);
+
+    const humanized = HumanWritingEngine.humanizeWithLog(bodyHtml, voice);
+    let html = postProcessGeneratedHtml(humanized.html, content, youtubeVideos, siteInfo, item.type === 'refresh');
+    html = processInternalLinks(html, linkablePages);
+    content.content = html;
+    // Post-processing shifts the humanizer's offsets; re-anchor them in the final HTML
+    content.humanizer = { ...humanized.log, edits: HumanWritingEngine.locateEdits(html, humanized.log) };
+    if (item.type === 'refresh') {
+        const originalHtml = await fetchOriginalHtml(item, wpConfig);
+        if (originalHtml) content.originalHtml = originalHtml;
+    }
+    content.jsonLdSchema = generateFullSchema(content, wpConfig, siteInfo, content.faqSection, geoTargeting.enabled ? geoTargeting : undefined);
+    return { content, stoppedAt };
+};
+
+/**
+ * Run the quality repair loop on a finished draft. The draft comes back
+ * unchanged when it already passes or no pass improved it; `error` is the
+ * failed call that ended the loop early, if one did.
+ */
+export const repairGeneratedContent = async (
+    item: ContentItem,
+    content: GeneratedContent,
+    serviceCallAI: ServiceCallAI,
+    context: GenerationContext,
+    repair: Pick<RepairOptions, 'maxIterations' | 'tokenBudget'>,
+    onPass: (text: string) => void,
+    signal?: AbortSignal
+): Promise<{ content: GeneratedContent; error?: unknown }> => {
+    const { existingPages, geoTargeting, wpConfig } = context;
+    const result = await repairUntilPass(withVoice(serviceCallAI, voiceForItem(item, context.voiceProfile)), {
+        html: content.content,
+        keyword: content.primaryKeyword || item.keywords[0] || item.title,
+        title: content.title,
+        metaDescription: content.metaDescription,
+        siteUrl: wpConfig.siteUrl || wpConfig.url,
+        location: geoTargeting.enabled ? geoTargeting.location : undefined,
+    }, profileForItem(item), {
+        ...repair,
+        linkTargets: existingPages
+            .filter(p => p.title && !p.removedAt && p.id !== item.originalUrl)
+            .map(p => ({ title: p.title, url: p.id })),
+        signal,
+        onIteration: pass => onPass(`pass ${pass.iteration}: ${pass.scoreBefore} → ${pass.scoreAfter}${pass.kept ? '' : ' (discarded)'}`),
+    });
+    const error = result.error !== undefined ? { error: result.error } : {};
+    if (result.log.iterations.length === 0) return { content, ...error };
+    return { content: { ...content, content: result.html, qualityRepair: result.log }, ...error };
+};
+
+const slugifyKeyword = (keyword: string) =>
+    keyword.toLowerCase().trim().replace(/[^a-z0-9\s-]/g, '').replace(/\s+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '');
+
 // 2. generateContent (Namespace Object)
 export const generateContent = {
     analyzePages: async (
-        pages: any[],
-        serviceCallAI: any,
-        setExistingPages: any,
+        pages: SitemapPage[],
+        serviceCallAI: ServiceCallAI,
+        setExistingPages: React.Dispatch<React.SetStateAction<SitemapPage[]>>,
         onProgress: (p: { current: number, total: number }) => void,
-        checkAbort: () => boolean
+        checkAbort: () => boolean,
+        options: { concurrency?: number; force?: boolean; signal?: AbortSignal } = {}
     ) => {
-        console.log("Analyzing pages...", pages.length);
-        const total = pages.length;
-        for (let i = 0; i < total; i++) {
-            if (checkAbort && checkAbort()) break;
-            onProgress({ current: i + 1, total });
-            await new Promise(r => setTimeout(r, 100)); // Simulate work
-            // Update page logic mimicking real analysis
-            setExistingPages((prev: any[]) => prev.map(p =>
-                p.id === pages[i].id ? { ...p, healthScore: 85, analysis: { topic: "Analyzed" } } : p
-            ));
-        }
+        const updatePage = (id: string, patch: Partial<SitemapPage>) =>
+            setExistingPages(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+
+        const analyzeOne = async (page: SitemapPage) => {
+            if (checkAbort()) return;
+
+            const cached = options.force ? null : pageAnalysisStore.get(page.id, page.lastMod);
+            if (cached) {
+                updatePage(page.id, { ...cached, status: 'analyzed' });
+                return;
+            }
+
+            updatePage(page.id, { status: 'analyzing' });
+            try {
+                const text = page.crawledContent || await smartCrawl(page.id);
+                if (checkAbort()) {
+                    updatePage(page.id, { status: 'idle' });
+                    return;
+                }
+                const reply = await callStructured(serviceCallAI, 'batch_content_analyzer', [page.title || page.slug, text], { signal: options.signal });
+                const result = toPageAnalysisResult(reply, text);
+                pageAnalysisStore.set(page.id, page.lastMod, result);
+                updatePage(page.id, { ...result, crawledContent: text, status: 'analyzed' });
+            } catch (e: any) {
+                if (isAbortError(e) || checkAbort()) {
+                    updatePage(page.id, { status: 'idle' });
+                    return;
+                }
+                console.error(`[analyzePages] ${page.id}:`, e);
+                updatePage(page.id, { status: 'error', justification: `Analysis failed: ${e?.message || 'unknown error'}` });
+            }
+        };
+
+        onProgress({ current: 0, total: pages.length });
+        await processConcurrently(
+            pages,
+            analyzeOne,
+            options.concurrency ?? 3,
+            (completed, total) => onProgress({ current: completed, total }),
+            checkAbort
+        );
     },
 
     refreshItem: async (
@@ -89,41 +408,110 @@ export const generateContent = {
                     }
                 }
             });
-            context.dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'complete', statusText: 'Complete' } });
+            context.dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'done', statusText: 'Complete' } });
         }
     },
 
     generateItems: async (
         items: ContentItem[],
-        serviceCallAI: any,
-        serviceGenerateImage: any,
-        context: any,
-        onProgress: any,
-        getStopRef: any
+        serviceCallAI: ServiceCallAI,
+        serviceGenerateImage: ((prompt: string) => Promise<string>) | null,
+        context: GenerationContext,
+        onProgress: (p: { current: number, total: number }) => void,
+        getStopRef: () => React.MutableRefObject<Set<string>> | null,
+        options: GenerateItemsOptions = {}
     ) => {
-        console.log("Generating items:", items.length);
-        for (let i = 0; i < items.length; i++) {
-            const stopRef = getStopRef();
-            if (stopRef && stopRef.current && stopRef.current.has(items[i].id)) continue;
+        const { dispatch } = context;
+        const isStopped = (id: string) => !!getStopRef()?.current?.has(id);
+        const run = costLedger.beginRun('bulk');
+        let budgetStop: Error | null = null;
+        // Resume from checkpoints saved in an earlier session
+        await generationCheckpoints.ready();
 
+        for (let i = 0; i < items.length; i++) {
+            const item = items[i]!;
+            if (isStopped(item.id)) continue;
+            if (budgetStop) {
+                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'idle', statusText: `Not started: ${budgetStop.message}` } });
+                continue;
+            }
             onProgress({ current: i + 1, total: items.length });
-            await new Promise(r => setTimeout(r, 500));
-
-            if (context.dispatch) {
-                context.dispatch({
-                    type: 'SET_CONTENT',
-                    payload: {
-                        id: items[i].id,
-                        content: {
-                            title: items[i].title + " (Generated)",
-                            content: "<p>Generated content</p>",
-                            metaDescription: "Desc",
-                            slug: "slug",
-                            wordCount: 1200
+
+            let currentStage: GenerationStage = 'keywords';
+            const report = (stage: GenerationStage, text: string) => {
+                currentStage = stage;
+                const resumed = generationCheckpoints.has(item.id, stage) ? ' (resumed)' : '';
+                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `${STAGE_LABELS[stage]}: ${text}${resumed}` } });
+            };
+
+            const itemCallAI = run.bind(serviceCallAI, { itemId: item.id, contentType: item.type });
+            try {
+                const result = await runGenerationStages(
+                    item,
+                    itemCallAI,
+                    context,
+                    report,
+                    () => isStopped(item.id),
+                    progress => options.onStream?.(item.id, progress),
+                    options.signalFor?.(item.id)
+                );
+                if (!result) {
+                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'idle', statusText: 'Stopped (progress saved)' } });
+                    continue;
+                }
+                if (result.stoppedAt) {
+                    const { words, sectionsDone } = result.stoppedAt;
+                    dispatch({ type: 'SET_CONTENT', payload: { id: item.id, content: result.content } });
+                    dispatch({
+                        type: 'UPDATE_STATUS',
+                        payload: { id: item.id, status: 'idle', statusText: `Stopped while writing: ${words.toLocaleString()} words kept. Generate again to continue after section ${sectionsDone}.` }
+                    });
+                    continue;
+                }
+                let generated = result.content;
+                let statusText = 'Complete';
+                if (options.repair) {
+                    // A failed repair keeps the draft as written; it never fails the article
+                    try {
+                        const repaired = await repairGeneratedContent(item, generated, itemCallAI, context, options.repair, text =>
+                            dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `Quality repair ${text}` } }),
+                            options.signalFor?.(item.id)
+                        );
+                        generated = repaired.content;
+                        if (endsRun(repaired.error)) budgetStop = repaired.error;
+                        const log = generated.qualityRepair;
+                        if (log) {
+                            const gained = log.iterations.filter(p => p.kept).reduce((sum, p) => sum + p.delta, 0);
+                            const reason = log.error ? `${REPAIR_STOP_REASON_TEXT[log.stopReason]}: ${log.error}` : REPAIR_STOP_REASON_TEXT[log.stopReason];
+                            statusText = `Complete • repaired +${gained} in ${log.iterations.length} pass(es), ${reason}`;
                         }
+                    } catch (e: any) {
+                        console.warn(`[generateItems] Quality repair of ${item.title} failed:`, e);
+                        if (endsRun(e)) budgetStop = e;
+                        statusText = `Complete • quality repair skipped: ${e?.message || 'unknown error'}`;
                     }
+                }
+                if (serviceGenerateImage) {
+                    // Image failures leave the placeholder in place; they never fail the article
+                    generated = await fillArticleImages(generated, serviceGenerateImage, (done, total) =>
+                        dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `Images: ${done}/${total}` } })
+                    );
+                }
+                dispatch({ type: 'SET_CONTENT', payload: { id: item.id, content: generated } });
+                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'done', statusText } });
+                generationCheckpoints.clear(item.id);
+            } catch (e: any) {
+                if (isAbortError(e)) {
+                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'idle', statusText: 'Stopped (progress saved)' } });
+                    continue;
+                }
+                console.error(`[generateItems] ${item.title} failed at ${currentStage}:`, e);
+                // Run and daily budgets end the whole run; an item budget only fails this item
+                if (endsRun(e)) budgetStop = e;
+                dispatch({
+                    type: 'UPDATE_STATUS',
+                    payload: { id: item.id, status: 'error', statusText: `${STAGE_LABELS[currentStage]} failed: ${e?.message || 'unknown error'}. Retry resumes from this step.` }
                 });
-                context.dispatch({ type: 'UPDATE_STATUS', payload: { id: items[i].id, status: 'complete', statusText: 'Complete' } });
             }
         }
     },
@@ -160,30 +548,348 @@ export const fetchVerifiedReferences = async (keyword: string, count: number = 3
 };
 
 // 4. Missing Functions found via Lint
-export const generateImageWithFallback = async (apiClients: any, prompt: string): Promise<string> => {
-    return "https://via.placeholder.com/1024x1024?text=Generated+Image";
+export const generateImageWithFallback = async (
+    apiClients: ImageClients | null,
+    prompt: string,
+    aspectRatio: ImageAspectRatio = '16:9'
+): Promise<string> => {
+    if (!apiClients) throw new Error('No AI clients configured for image generation');
+    const [image] = await generateImages(apiClients, prompt, { count: 1, aspectRatio });
+    return image!.src;
 };
 
 export const publishItemToWordPress = async (
-    item: any,
+    item: ContentItem,
     password: string,
-    status: string,
-    fetcher: any,
-    config: any
-): Promise<{ success: boolean; message?: string }> => {
-    return { success: true, message: "Use real WP credentials to publish." };
+    status: PostStatus,
+    fetcher: Fetcher | null,
+    config: WpConfig,
+    options: { scheduledAt?: string; categories?: string[]; tags?: string[] } = {}
+): Promise<{ success: boolean; message: string; link?: string; postId?: number }> => {
+    const content = item.generatedContent;
+    if (!content) return { success: false, message: 'Nothing to publish: item has no generated content.' };
+
+    const siteUrl = config.siteUrl || config.url;
+    const appPassword = password || config.appPassword || '';
+    if (!siteUrl || !config.username || !appPassword) {
+        return { success: false, message: 'Configure WordPress URL, username and application password first.' };
+    }
+
+    const publisher = new WordPressPublisher({ siteUrl, username: config.username, appPassword }, fetcher || undefined);
+    try {
+        const result = await publisher.publish({
+            title: content.title,
+            content: content.content,
+            slug: content.slug || (item.originalUrl ? extractSlugFromUrl(item.originalUrl) : ''),
+            status,
+            metaDescription: content.metaDescription,
+            primaryKeyword: content.primaryKeyword,
+            categories: options.categories || content.categories || [],
+            tags: options.tags || content.tags || [],
+            images: content.imageDetails
+                .filter(img => !!img.generatedImageSrc)
+                .map(img => ({ src: img.generatedImageSrc!, altText: img.altText, title: img.title, placeholder: img.placeholder })),
+            ...(options.scheduledAt ? { scheduledAt: options.scheduledAt } : {}),
+        });
+        const verb = result.action === 'updated' ? 'Updated' : 'Created';
+        const warningText = result.warnings.length > 0 ? ` (${result.warnings.length} warning(s): ${result.warnings.join('; ')})` : '';
+        return { success: true, message: `${verb} post #${result.postId} as ${result.status}${warningText}`, link: result.link, postId: result.postId };
+    } catch (e: any) {
+        return { success: false, message: `Publish failed: ${e?.message || 'unknown error'}` };
+    }
 };
 
 // 5. Maintenance Engine
+// Continuous site upkeep: ranks sitemap URLs by staleness, refreshes one at a
+// time with a cooldown between runs, and persists its queue across reloads.
+
+export type MaintenanceEventType = 'log' | 'started' | 'stopped' | 'paused' | 'resumed' | 'queue' | 'processing' | 'processed' | 'error';
+
+export interface MaintenanceEvent {
+    type: MaintenanceEventType;
+    message: string;
+    url?: string;
+    timestamp: number;
+}
+
+export interface MaintenanceQueueEntry {
+    url: string;
+    title: string;
+    stalenessScore: number;
+    isPriority: boolean;
+}
+
+export interface MaintenanceResult {
+    success: boolean;
+    message?: string;
+}
+
+export type MaintenanceRefreshHandler = (url: string, context: GenerationContext, signal: AbortSignal) => Promise<MaintenanceResult>;
+
+interface MaintenanceState {
+    queue: MaintenanceQueueEntry[];
+    processedAt: Record<string, number>;
+    priorityUrls: string[];
+    cooldownMs: number;
+    paused: boolean;
+}
+
+const MAINTENANCE_STORAGE_KEY = 'maintenance_engine_state';
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+const REVISIT_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_EVENT_HISTORY = 200;
+// Page and exclusion edits arrive in bursts while pages are analyzed
+const REBUILD_DELAY_MS = 2000;
+
+/** Drop visits older than the revisit window; they no longer hold a URL back */
+const pruneProcessedAt = (processedAt: Record<string, number>, now: number): Record<string, number> =>
+    Object.fromEntries(Object.entries(processedAt).filter(([, at]) => now - at < REVISIT_INTERVAL_MS));
+
 export class MaintenanceEngine {
     logCallback: (msg: string) => void;
+    private context: GenerationContext | null = null;
+    private refreshHandler: MaintenanceRefreshHandler | null = null;
+    private listeners = new Set<(event: MaintenanceEvent) => void>();
+    private events: MaintenanceEvent[] = [];
+    private state: MaintenanceState;
+    private running = false;
+    private busy = false;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private rebuildTimer: ReturnType<typeof setTimeout> | null = null;
+    private abortController: AbortController | null = null;
+    // Pages are replaced, never mutated, so an unchanged page keeps its score
+    private stalenessScores = new WeakMap<SitemapPage, number>();
+
     constructor(logCallback: (msg: string) => void) {
         this.logCallback = logCallback;
+        this.state = this.loadState();
+    }
+
+    // --- Lifecycle ---
+
+    start(context?: GenerationContext) {
+        if (context) this.context = context;
+        if (!this.context) {
+            this.emit('error', 'Cannot start: no generation context');
+            return;
+        }
+        if (this.running) return;
+        this.running = true;
+        this.rebuildQueue();
+        this.emit('started', `Maintenance engine started (${this.state.queue.length} URLs queued, cooldown ${Math.round(this.state.cooldownMs / 1000)}s)`);
+        if (this.state.paused) this.emit('paused', 'Engine is paused; resume to continue processing');
+        this.scheduleNext(0);
+    }
+
+    stop() {
+        if (!this.running) return;
+        this.running = false;
+        this.clearTimer();
+        this.clearRebuildTimer();
+        this.abortController?.abort();
+        this.emit('stopped', 'Maintenance engine stopped');
+    }
+
+    pause() {
+        if (this.state.paused) return;
+        this.state.paused = true;
+        this.clearTimer();
+        this.saveState();
+        this.emit('paused', 'Maintenance engine paused');
+    }
+
+    resume() {
+        if (!this.state.paused) return;
+        this.state.paused = false;
+        this.saveState();
+        this.emit('resumed', 'Maintenance engine resumed');
+        if (this.running) this.scheduleNext(0);
+    }
+
+    // --- Configuration ---
+
+    updateContext(context: GenerationContext) {
+        this.context = context;
+        this.clearRebuildTimer();
+        this.rebuildTimer = setTimeout(() => {
+            this.rebuildTimer = null;
+            this.rebuildQueue();
+        }, REBUILD_DELAY_MS);
+    }
+
+    setPriorityUrls(urls: string[]) {
+        this.state.priorityUrls = Array.from(new Set(urls.map(u => u.trim()).filter(Boolean)));
+        // Priority URLs are explicit requests, so they skip the revisit window
+        this.state.priorityUrls.forEach(url => delete this.state.processedAt[url]);
+        this.rebuildQueue();
+    }
+
+    setCooldown(ms: number) {
+        this.state.cooldownMs = Math.max(0, ms);
+        this.saveState();
+    }
+
+    setRefreshHandler(handler: MaintenanceRefreshHandler | null) {
+        this.refreshHandler = handler;
+    }
+
+    // --- Observation ---
+
+    subscribe(listener: (event: MaintenanceEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    getEvents(): MaintenanceEvent[] {
+        return [...this.events];
+    }
+
+    getStatus() {
+        return {
+            running: this.running,
+            paused: this.state.paused,
+            busy: this.busy,
+            cooldownMs: this.state.cooldownMs,
+            queue: [...this.state.queue],
+        };
+    }
+
+    // --- Internals ---
+
+    private isExcluded(url: string): boolean {
+        const excludedUrls = this.context?.excludedUrls || [];
+        if (excludedUrls.some(u => u.trim() && url.replace(/\/+$/, '') === u.trim().replace(/\/+$/, ''))) return true;
+
+        const categories = (this.context?.excludedCategories || []).map(c => c.trim().toLowerCase()).filter(Boolean);
+        if (categories.length === 0) return false;
+        try {
+            const segments = new URL(url).pathname.toLowerCase().split('/').filter(Boolean);
+            return segments.some(seg => categories.includes(seg));
+        } catch {
+            return false;
+        }
+    }
+
+    private stalenessScore(page: SitemapPage): number {
+        let score = this.stalenessScores.get(page);
+        if (score === undefined) {
+            score = stalenessDetector.calculateStalenessScore(
+                page.crawledContent || '',
+                page.lastMod || new Date(0),
+                page.title || '',
+                page.id
+            ).stalenessScore;
+            this.stalenessScores.set(page, score);
+        }
+        return score;
+    }
+
+    private rebuildQueue() {
+        this.clearRebuildTimer();
+        const pages = this.context?.existingPages || [];
+        const now = Date.now();
+        const entries = new Map<string, MaintenanceQueueEntry>();
+        this.state.processedAt = pruneProcessedAt(this.state.processedAt, now);
+
+        for (const page of pages) {
+            if (!page.id || page.removedAt || this.isExcluded(page.id)) continue;
+            if (this.state.processedAt[page.id]) continue;
+            entries.set(page.id, { url: page.id, title: page.title, stalenessScore: this.stalenessScore(page), isPriority: false });
+        }
+
+        const priority: MaintenanceQueueEntry[] = [];
+        for (const url of this.state.priorityUrls) {
+            if (this.isExcluded(url)) continue;
+            const existing = entries.get(url);
+            entries.delete(url);
+            priority.push({ url, title: existing?.title || url, stalenessScore: existing?.stalenessScore ?? 100, isPriority: true });
+        }
+
+        const ranked = Array.from(entries.values()).sort((a, b) => b.stalenessScore - a.stalenessScore);
+        this.state.queue = [...priority, ...ranked];
+        this.saveState();
+        this.emit('queue', `Queue rebuilt: ${priority.length} priority, ${ranked.length} ranked by staleness`);
+    }
+
+    private scheduleNext(delay: number) {
+        this.clearTimer();
+        if (!this.running || this.state.paused) return;
+        this.timer = setTimeout(() => { void this.processNext(); }, delay);
+    }
+
+    private clearTimer() {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+    }
+
+    private clearRebuildTimer() {
+        if (this.rebuildTimer) clearTimeout(this.rebuildTimer);
+        this.rebuildTimer = null;
+    }
+
+    private async processNext() {
+        if (!this.running || this.state.paused || this.busy || !this.context) return;
+
+        const next = this.state.queue[0];
+        if (!next) {
+            this.emit('log', 'Queue empty. Standing by.');
+            this.scheduleNext(this.state.cooldownMs);
+            return;
+        }
+        if (!this.refreshHandler) {
+            this.emit('error', 'No refresh handler registered; pausing');
+            this.pause();
+            return;
+        }
+
+        this.busy = true;
+        this.abortController = new AbortController();
+        this.emit('processing', `Refreshing ${next.url} (staleness ${next.stalenessScore}${next.isPriority ? ', priority' : ''})`, next.url);
+
+        try {
+            const result = await this.refreshHandler(next.url, this.context, this.abortController.signal);
+            this.emit(result.success ? 'processed' : 'error', result.message || (result.success ? `Refreshed ${next.url}` : `Refresh failed for ${next.url}`), next.url);
+        } catch (e: any) {
+            this.emit('error', `Refresh error for ${next.url}: ${e?.message || 'unknown error'}`, next.url);
+        } finally {
+            // Failed URLs also wait out the revisit window instead of blocking the queue
+            this.state.queue = this.state.queue.filter(entry => entry.url !== next.url);
+            this.state.priorityUrls = this.state.priorityUrls.filter(url => url !== next.url);
+            this.state.processedAt[next.url] = Date.now();
+            this.saveState();
+            this.busy = false;
+            this.abortController = null;
+        }
+
+        this.scheduleNext(this.state.cooldownMs);
+    }
+
+    private emit(type: MaintenanceEventType, message: string, url?: string) {
+        const event: MaintenanceEvent = { type, message, timestamp: Date.now(), ...(url ? { url } : {}) };
+        this.events = [event, ...this.events].slice(0, MAX_EVENT_HISTORY);
+        this.logCallback(message);
+        this.listeners.forEach(listener => listener(event));
+    }
+
+    private loadState(): MaintenanceState {
+        const fallback: MaintenanceState = { queue: [], processedAt: {}, priorityUrls: [], cooldownMs: DEFAULT_COOLDOWN_MS, paused: false };
+        try {
+            const stored = loadVersioned<Partial<MaintenanceState>>(MAINTENANCE_STORAGE_KEY, 'maintenance');
+            if (!stored) return fallback;
+            const state = { ...fallback, ...stored };
+            return { ...state, processedAt: pruneProcessedAt(state.processedAt, Date.now()) };
+        } catch {
+            return fallback;
+        }
+    }
+
+    private saveState() {
+        try {
+            saveVersioned(MAINTENANCE_STORAGE_KEY, this.state);
+        } catch (e) {
+            console.warn('[MaintenanceEngine] Could not persist state:', e);
+        }
     }
-    start(context?: any) { console.log("Maintenance Engine Started"); }
-    stop() { console.log("Maintenance Engine Stopped"); }
-    updateContext(context: any) { }
-    setPriorityUrls(urls: string[]) { }
 }
 
-export const maintenanceEngine = new MaintenanceEngine((msg) => console.log(msg));
+export const maintenanceEngine = new MaintenanceEngine((msg) => console.log(`[MaintenanceEngine] ${msg}`));
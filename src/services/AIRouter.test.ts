@@ -0,0 +1,199 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  AIProvider,
+  AIRequest,
+  AIResponse,
+  AIRouter,
+  AIRouterError,
+  buildRouteChain,
+  createApiClients,
+  createRouterFromClients,
+  customModelRef,
+} from './AIRouter';
+
+const request = (overrides: Partial<AIRequest> = {}): AIRequest => ({
+  promptKey: 'test_prompt',
+  systemInstruction: 'You are a test.',
+  userPrompt: 'Say hello.',
+  format: 'html',
+  grounding: false,
+  ...overrides,
+});
+
+/** Provider that answers from a script: a string is returned, an Error is thrown */
+class ScriptedProvider implements AIProvider {
+  calls: string[] = [];
+  constructor(readonly id: string, private reply: string | Error) {}
+
+  async complete(_request: AIRequest, model: string): Promise<AIResponse> {
+    this.calls.push(model);
+    if (this.reply instanceof Error) throw this.reply;
+    return { text: this.reply, provider: this.id, model, usage: { inputTokens: 10, outputTokens: 5 } };
+  }
+}
+
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+describe('AIRouter.route', () => {
+  it('falls back to the next step when a provider fails', async () => {
+    const failing = new ScriptedProvider('openai', httpError(500, 'upstream down'));
+    const working = new ScriptedProvider('openrouter', '<p>hello</p>');
+    const router = new AIRouter([failing, working], null);
+
+    const response = await router.route(request(), [
+      { provider: 'openai', model: 'gpt-a' },
+      { provider: 'openrouter', model: 'model-b' },
+    ]);
+
+    expect(response).toMatchObject({ text: '<p>hello</p>', provider: 'openrouter', model: 'model-b' });
+    expect(failing.calls).toEqual(['gpt-a']);
+    expect(working.calls).toEqual(['model-b']);
+  });
+
+  it('skips unconfigured providers and treats empty responses as failures', async () => {
+    const empty = new ScriptedProvider('groq', '   ');
+    const working = new ScriptedProvider('openrouter', 'ok');
+    const router = new AIRouter([empty, working], null);
+
+    const response = await router.route(request(), [
+      { provider: 'gemini', model: 'flash' },
+      { provider: 'groq', model: 'llama' },
+      { provider: 'openrouter', model: 'model-b' },
+    ]);
+
+    expect(response.provider).toBe('openrouter');
+    expect(empty.calls).toEqual(['llama']);
+  });
+
+  it('throws an AIRouterError listing every attempt when the chain is exhausted', async () => {
+    const router = new AIRouter([new ScriptedProvider('openai', httpError(429, 'slow down'))], null);
+
+    const error = await router.route(request(), [
+      { provider: 'openai', model: 'gpt-a' },
+      { provider: 'anthropic', model: 'opus' },
+    ]).catch(e => e);
+
+    expect(error).toBeInstanceOf(AIRouterError);
+    expect(error.attempts).toEqual([
+      { step: { provider: 'openai', model: 'gpt-a' }, error: 'slow down', status: 429 },
+      { step: { provider: 'anthropic', model: 'opus' }, error: 'provider not configured' },
+    ]);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('does not fall back after an abort', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const aborted = new ScriptedProvider('openai', Object.assign(new Error('aborted'), { name: 'AbortError' }));
+    const working = new ScriptedProvider('openrouter', 'ok');
+    const router = new AIRouter([aborted, working], null);
+
+    await expect(router.route(request({ signal: controller.signal }), [
+      { provider: 'openai', model: 'gpt-a' },
+      { provider: 'openrouter', model: 'model-b' },
+    ])).rejects.toThrow('aborted');
+    expect(working.calls).toEqual([]);
+  });
+
+  it('lets the observer reorder the chain and strips markdown fences', async () => {
+    const first = new ScriptedProvider('openai', 'never');
+    const second = new ScriptedProvider('openrouter', '```json\n{"a":1}\n```');
+    const router = new AIRouter([first, second], null);
+    const seen: string[] = [];
+
+    const response = await router.route(request({ format: 'json' }), [
+      { provider: 'openai', model: 'gpt-a' },
+      { provider: 'openrouter', model: 'model-b' },
+    ], {
+      planRoute: (_request, chain) => [...chain].reverse(),
+      onResponse: (_request, r) => seen.push(r.provider),
+    });
+
+    expect(response.text).toBe('{"a":1}');
+    expect(first.calls).toEqual([]);
+    expect(seen).toEqual(['openrouter']);
+  });
+});
+
+describe('buildRouteChain', () => {
+  it('puts the primary provider first and sends fallbacks to OpenRouter', () => {
+    const chain = buildRouteChain('groq', ['vendor/model-a', customModelRef('llama3.1:8b')], 'llama-70b');
+    expect(chain).toEqual([
+      { provider: 'groq', model: 'llama-70b' },
+      { provider: 'openrouter', model: 'vendor/model-a' },
+      { provider: 'custom', model: 'llama3.1:8b' },
+    ]);
+  });
+
+  it('accepts a custom primary and drops duplicates', () => {
+    const chain = buildRouteChain(customModelRef('qwen'), [customModelRef('qwen'), 'vendor/model-a'], '');
+    expect(chain).toEqual([
+      { provider: 'custom', model: 'qwen' },
+      { provider: 'openrouter', model: 'vendor/model-a' },
+    ]);
+  });
+
+  it('starts at the fallback chain when the custom primary has no model', () => {
+    expect(buildRouteChain(customModelRef(''), ['vendor/model-a'], '')).toEqual([
+      { provider: 'openrouter', model: 'vendor/model-a' },
+    ]);
+  });
+});
+
+// ==================== MOCK SERVER ====================
+
+describe('custom OpenAI-compatible provider', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: { path: string; model: string; auth: string | undefined }[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const { model } = JSON.parse(body || '{}');
+        requests.push({ path: req.url ?? '', model, auth: req.headers.authorization });
+        res.setHeader('Content-Type', 'application/json');
+        // 400 is not retried by the SDK, so each failing step costs one request
+        if (model === 'broken') {
+          res.statusCode = 400;
+          res.end(JSON.stringify({ error: { message: 'model not loaded' } }));
+          return;
+        }
+        res.end(JSON.stringify({
+          id: 'cmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model,
+          choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: `<p>from ${model}</p>` } }],
+          usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+        }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('falls back between models of a local server', async () => {
+    const router = createRouterFromClients(createApiClients({ customBaseUrl: baseUrl }));
+
+    const response = await router.route(request(), buildRouteChain(customModelRef('broken'), [customModelRef('working')], ''));
+
+    expect(response).toEqual({
+      text: '<p>from working</p>',
+      provider: 'custom',
+      model: 'working',
+      usage: { inputTokens: 12, outputTokens: 4 },
+    });
+    expect(requests.map(r => [r.path, r.model])).toEqual([
+      ['/v1/chat/completions', 'broken'],
+      ['/v1/chat/completions', 'working'],
+    ]);
+    expect(requests[0]?.auth).toBe('Bearer not-needed');
+  });
+});
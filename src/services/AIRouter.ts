@@ -0,0 +1,492 @@
+/**
+ * Multi-Provider AI Router
+ * Resolves prompt templates and dispatches them to Gemini, OpenAI, Anthropic,
+ * OpenRouter, Groq or a custom OpenAI-compatible server, walking the
+ * fallback chain on failure.
+ */
+
+import { GenerateContentResponse, GoogleGenAI } from '@google/genai';
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { PROMPT_TEMPLATES } from '../prompts';
+import { AI_MODELS } from '../constants';
+import { ApiClients, ExpandedGeoTargeting, UsageScope, VoiceProfile } from '../types';
+import { errorStatus, getRetryAfterMs, isAbortError, ProviderRateLimiter, providerRateLimiter } from './RateLimiter';
+import { tokenBudgetManager } from './TokenBudgetManager';
+import { normalizeBaseUrl } from './CustomProvider';
+import { promptSchemaFor } from './PromptSchemas';
+import { JsonSchema } from './StructuredOutput';
+import { voiceInstruction, voiceProfiles, VOICED_PROMPT_KEYS } from './VoiceProfiles';
+
+export type ProviderId = keyof ApiClients;
+export type ResponseFormat = 'json' | 'html';
+
+/** The self-hosted OpenAI-compatible server from the Setup tab */
+export const CUSTOM_PROVIDER_ID = 'custom';
+// Models of the custom provider are written `custom:<model>` in the primary
+// model and fallback chain, e.g. `custom:llama3.1:8b`
+const CUSTOM_MODEL_PREFIX = `${CUSTOM_PROVIDER_ID}:`;
+
+export const customModelRef = (model: string) => `${CUSTOM_MODEL_PREFIX}${model}`;
+
+export interface AIRequest {
+  promptKey: string;
+  systemInstruction: string;
+  userPrompt: string;
+  format: ResponseFormat;
+  grounding: boolean;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+  /** Output contract of structured prompts, enforced natively where supported */
+  responseSchema?: { name: string; schema: JsonSchema };
+  /**
+   * Stream the response, reporting the text received so far on every
+   * chunk. Each fallback step starts over from ''.
+   */
+  onText?: (text: string) => void;
+  /** Run and item the call is made for, for observers that attribute usage */
+  scope?: UsageScope;
+  /** Called by the observer that records usage, once the call succeeded */
+  onUsage?: (usage: AIUsage) => void;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIResponse {
+  text: string;
+  provider: string;
+  model: string;
+  usage: AIUsage | null;
+}
+
+/**
+ * A single backend the router can dispatch to. Implementations only need to
+ * turn a resolved request into text; fallback and prompt handling live here.
+ */
+export interface AIProvider {
+  readonly id: string;
+  complete(request: AIRequest, model: string): Promise<AIResponse>;
+}
+
+export interface RouteStep {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Hooks around a routed call: `planRoute` may reorder the chain or throw to
+ * refuse the call, `onResponse` sees every successful response.
+ */
+export interface RouteObserver {
+  planRoute?(request: AIRequest, chain: RouteStep[]): RouteStep[];
+  onResponse?(request: AIRequest, response: AIResponse): void;
+}
+
+export interface RouteAttempt {
+  step: RouteStep;
+  error: string;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+export class AIRouterError extends Error {
+  constructor(message: string, public attempts: RouteAttempt[]) {
+    super(message);
+    this.name = 'AIRouterError';
+  }
+
+  /** Worth retrying when any step failed transiently (rate limit, 5xx, network) */
+  get retryable(): boolean {
+    return this.attempts.some(a => a.error !== 'provider not configured' && (a.status === undefined || a.status === 429 || a.status >= 500));
+  }
+
+  /** Shortest Retry-After any provider asked for */
+  get retryAfterMs(): number | null {
+    const waits = this.attempts.map(a => a.retryAfterMs).filter((ms): ms is number => ms !== undefined);
+    return waits.length > 0 ? Math.min(...waits) : null;
+  }
+}
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+// How long a provider is paused after a 429 that came without Retry-After
+const RATE_LIMIT_PAUSE_MS = 10_000;
+
+const JSON_SUFFIX = '\n\nRespond with a single valid JSON value only. No markdown fences, no commentary.';
+const HTML_SUFFIX = '\n\nRespond with raw HTML only. No markdown fences, no commentary.';
+
+// ==================== PROVIDERS ====================
+
+export class GeminiProvider implements AIProvider {
+  readonly id = 'gemini';
+
+  constructor(private client: GoogleGenAI) {}
+
+  async complete(request: AIRequest, model: string): Promise<AIResponse> {
+    // Gemini rejects responseMimeType when tools are set, so grounded JSON
+    // calls rely on the prompt suffix and extractJson downstream.
+    const useJsonMime = request.format === 'json' && !request.grounding;
+    const params = {
+      model,
+      contents: request.userPrompt,
+      config: {
+        systemInstruction: request.systemInstruction,
+        maxOutputTokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+        ...(useJsonMime ? { responseMimeType: 'application/json' } : {}),
+        ...(useJsonMime && request.responseSchema ? { responseJsonSchema: request.responseSchema.schema } : {}),
+        ...(request.grounding ? { tools: [{ googleSearch: {} }] } : {}),
+        ...(request.signal ? { abortSignal: request.signal } : {}),
+      },
+    };
+
+    let text = '';
+    let usage: GenerateContentResponse['usageMetadata'];
+    if (request.onText) {
+      for await (const chunk of await this.client.models.generateContentStream(params)) {
+        text += chunk.text ?? '';
+        usage = chunk.usageMetadata ?? usage;
+        request.onText(text);
+      }
+    } else {
+      const response = await this.client.models.generateContent(params);
+      text = response.text ?? '';
+      usage = response.usageMetadata;
+    }
+
+    return {
+      text,
+      provider: this.id,
+      model,
+      usage: usage
+        ? { inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 }
+        : null,
+    };
+  }
+}
+
+/**
+ * Covers OpenAI, OpenRouter, Groq and any other server that speaks the
+ * Chat Completions API (self-hosted models, or a local mock server for
+ * tests). max_tokens is clamped to the model's registered context window.
+ * Only servers flagged `supportsJsonSchema` get strict json_schema output;
+ * the rest fall back to JSON mode and are validated after the fact.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  constructor(
+    readonly id: string,
+    private client: OpenAI,
+    private supportsJsonMode: boolean = true,
+    private supportsJsonSchema: boolean = false
+  ) {}
+
+  async complete(request: AIRequest, model: string): Promise<AIResponse> {
+    const inputTokens = tokenBudgetManager.estimateTokens(request.systemInstruction + request.userPrompt);
+    const maxTokens = tokenBudgetManager.fitOutputTokens(model, inputTokens, request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS);
+    if (maxTokens === 0) {
+      throw new Error(`Prompt (~${inputTokens} tokens) exceeds the context length of ${model} (${tokenBudgetManager.getContextWindow(model)} tokens)`);
+    }
+    const body = {
+      model,
+      max_tokens: maxTokens,
+      messages: [
+        { role: 'system' as const, content: request.systemInstruction },
+        { role: 'user' as const, content: request.userPrompt },
+      ],
+      ...(request.format === 'json' ? this.responseFormat(request) : {}),
+    };
+    const options = request.signal ? { signal: request.signal } : {};
+
+    let text = '';
+    let usage: OpenAI.CompletionUsage | null | undefined;
+    if (request.onText) {
+      const stream = await this.client.chat.completions.create({ ...body, stream: true, stream_options: { include_usage: true } }, options);
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          request.onText(text);
+        }
+        usage = chunk.usage ?? usage;
+      }
+    } else {
+      const completion = await this.client.chat.completions.create(body, options);
+      text = completion.choices[0]?.message?.content ?? '';
+      usage = completion.usage;
+    }
+
+    return {
+      text,
+      provider: this.id,
+      model,
+      usage: usage ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } : null,
+    };
+  }
+
+  private responseFormat(request: AIRequest) {
+    if (request.responseSchema && this.supportsJsonSchema) {
+      const { name, schema } = request.responseSchema;
+      return { response_format: { type: 'json_schema' as const, json_schema: { name, schema, strict: true } } };
+    }
+    return this.supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {};
+  }
+}
+
+/**
+ * Structured prompts are sent as a single forced tool call whose input
+ * schema is the prompt's contract; the tool input becomes the JSON text.
+ */
+export class AnthropicProvider implements AIProvider {
+  readonly id = 'anthropic';
+
+  constructor(private client: Anthropic) {}
+
+  async complete(request: AIRequest, model: string): Promise<AIResponse> {
+    const tool = request.format === 'json' ? request.responseSchema : undefined;
+    const body = {
+      model,
+      max_tokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      system: request.systemInstruction,
+      messages: [{ role: 'user' as const, content: request.userPrompt }],
+      ...(tool
+        ? {
+            tools: [{ name: tool.name, description: `Return the ${tool.name} result`, input_schema: tool.schema as Anthropic.Tool.InputSchema }],
+            tool_choice: { type: 'tool' as const, name: tool.name },
+          }
+        : {}),
+    };
+    const options = request.signal ? { signal: request.signal } : {};
+
+    let message: Anthropic.Message;
+    const onText = request.onText;
+    if (onText) {
+      const stream = this.client.messages.stream(body, options);
+      stream.on('text', (_delta, snapshot) => onText(snapshot));
+      message = await stream.finalMessage();
+    } else {
+      message = await this.client.messages.create(body, options);
+    }
+
+    const text = message.content
+      .map(block => (block.type === 'text' ? block.text : block.type === 'tool_use' ? JSON.stringify(block.input) : ''))
+      .join('');
+
+    return {
+      text,
+      provider: this.id,
+      model,
+      usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+    };
+  }
+}
+
+// ==================== ROUTER ====================
+
+export class AIRouter {
+  private providers = new Map<string, AIProvider>();
+
+  /** Pass a null limiter for routers that must not share the global rate limits (tests, mocks) */
+  constructor(providers: AIProvider[] = [], private limiter: ProviderRateLimiter | null = providerRateLimiter) {
+    providers.forEach(p => this.register(p));
+  }
+
+  register(provider: AIProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  has(providerId: string): boolean {
+    return this.providers.has(providerId);
+  }
+
+  /**
+   * Try each step in order and return the first successful response.
+   * Empty responses count as failures so the chain keeps moving. Each step
+   * first waits for its provider's rate limit; a 429 pauses that provider
+   * for everyone until its Retry-After has passed. Aborts end the route, and
+   * so does a stream that fails after producing text.
+   */
+  async route(request: AIRequest, chain: RouteStep[], observer?: RouteObserver): Promise<AIResponse> {
+    const attempts: RouteAttempt[] = [];
+    const plannedChain = observer?.planRoute ? observer.planRoute(request, chain) : chain;
+    const reserved = Math.ceil((request.systemInstruction.length + request.userPrompt.length) / 4);
+
+    for (const step of plannedChain) {
+      const provider = this.providers.get(step.provider);
+      if (!provider) {
+        attempts.push({ step, error: 'provider not configured' });
+        continue;
+      }
+
+      let streamed = false;
+      const onText = request.onText;
+      const stepRequest = onText ? { ...request, onText: (text: string) => { streamed ||= text.length > 0; onText(text); } } : request;
+
+      try {
+        await this.limiter?.acquire(step.provider, reserved, request.signal);
+        onText?.('');
+        const response = await provider.complete(stepRequest, step.model);
+        if (response.usage) this.limiter?.settle(step.provider, reserved, response.usage.inputTokens + response.usage.outputTokens);
+        if (!response.text.trim()) throw new Error('empty response');
+        observer?.onResponse?.(request, response);
+        return { ...response, text: AIRouter.cleanResponse(response.text, request.format) };
+      } catch (error: any) {
+        if (isAbortError(error) || request.signal?.aborted) throw error;
+        // A stream that already produced text is resumed by the caller, not restarted here
+        if (streamed) throw error;
+        const message = error?.message || String(error);
+        const status = errorStatus(error);
+        const retryAfterMs = getRetryAfterMs(error);
+        if (status === 429) this.limiter?.pause(step.provider, retryAfterMs ?? RATE_LIMIT_PAUSE_MS);
+        console.warn(`[AIRouter] ${step.provider}/${step.model} failed for "${request.promptKey}": ${message}`);
+        attempts.push({
+          step,
+          error: message,
+          ...(status !== null ? { status } : {}),
+          ...(retryAfterMs !== null ? { retryAfterMs } : {}),
+        });
+      }
+    }
+
+    const summary = attempts.map(a => `${a.step.provider}/${a.step.model}: ${a.error}`).join('; ');
+    throw new AIRouterError(`All providers failed for "${request.promptKey}" (${summary || 'no providers configured'})`, attempts);
+  }
+
+  /**
+   * Strip markdown fences models add despite instructions.
+   */
+  static cleanResponse(text: string, format: ResponseFormat): string {
+    const trimmed = text.trim();
+    const fence = format === 'json' ? /^```(?:json)?\s*([\s\S]*?)\s*```$/i : /^```(?:html)?\s*([\s\S]*?)\s*```$/i;
+    const match = trimmed.match(fence);
+    return match?.[1] ?? trimmed;
+  }
+}
+
+// ==================== REQUEST BUILDING ====================
+
+/**
+ * Resolve a prompt key against PROMPT_TEMPLATES into a concrete request.
+ */
+export function buildRequest(
+  promptKey: string,
+  args: any[],
+  format: ResponseFormat,
+  grounding: boolean,
+  geoTargeting?: ExpandedGeoTargeting | null,
+  voice?: VoiceProfile | null
+): AIRequest {
+  const template = (PROMPT_TEMPLATES as Record<string, { systemInstruction: string; userPrompt: (...a: any[]) => string }>)[promptKey];
+  if (!template) throw new Error(`Unknown prompt key: ${promptKey}`);
+
+  let systemInstruction = template.systemInstruction;
+  if (geoTargeting?.enabled && geoTargeting.location) {
+    const region = [geoTargeting.location, geoTargeting.region, geoTargeting.country].filter(Boolean).join(', ');
+    systemInstruction += `\n\n**GEO-TARGETING:** Write for readers in ${region}. Use local terminology, currency and examples where relevant.`;
+  }
+  if (VOICED_PROMPT_KEYS.has(promptKey)) {
+    systemInstruction += `\n\n${voiceInstruction(voice ?? voiceProfiles.get())}`;
+  }
+  systemInstruction += format === 'json' ? JSON_SUFFIX : HTML_SUFFIX;
+
+  const responseSchema = format === 'json' ? promptSchemaFor(promptKey, args) : null;
+  return {
+    promptKey,
+    systemInstruction,
+    userPrompt: template.userPrompt(...args),
+    format,
+    grounding,
+    ...(responseSchema ? { responseSchema } : {}),
+  };
+}
+
+/**
+ * Primary provider first, then every model of the fallback chain. Chain
+ * entries go to OpenRouter unless written `custom:<model>`; the primary
+ * may be `custom:<model>` too. A `custom:` primary without a model is
+ * skipped, so routing starts at the fallback chain.
+ */
+export function buildRouteChain(
+  selectedModel: string,
+  openrouterModels: string[],
+  selectedGroqModel: string
+): RouteStep[] {
+  const chain: RouteStep[] = [];
+  const primaryModels: Record<string, string | undefined> = {
+    gemini: AI_MODELS.GEMINI_FLASH,
+    openai: AI_MODELS.OPENAI_GPT4_TURBO,
+    anthropic: AI_MODELS.ANTHROPIC_OPUS,
+    groq: selectedGroqModel || AI_MODELS.GROQ_MODELS[0],
+    openrouter: openrouterModels[0],
+  };
+
+  const toStep = (ref: string): RouteStep =>
+    ref.startsWith(CUSTOM_MODEL_PREFIX)
+      ? { provider: CUSTOM_PROVIDER_ID, model: ref.slice(CUSTOM_MODEL_PREFIX.length) }
+      : { provider: 'openrouter', model: ref };
+
+  if (selectedModel.startsWith(CUSTOM_MODEL_PREFIX)) {
+    const step = toStep(selectedModel);
+    if (step.model) chain.push(step);
+  } else {
+    const primaryModel = primaryModels[selectedModel];
+    if (primaryModel) chain.push({ provider: selectedModel, model: primaryModel });
+  }
+
+  for (const step of openrouterModels.map(toStep)) {
+    if (step.model && !chain.some(s => s.provider === step.provider && s.model === step.model)) {
+      chain.push(step);
+    }
+  }
+  return chain;
+}
+
+export function createRouterFromClients(apiClients: Partial<ApiClients> | null | undefined): AIRouter {
+  const router = new AIRouter();
+  if (!apiClients) return router;
+  if (apiClients.gemini) router.register(new GeminiProvider(apiClients.gemini));
+  if (apiClients.openai) router.register(new OpenAICompatibleProvider('openai', apiClients.openai, true, true));
+  if (apiClients.anthropic) router.register(new AnthropicProvider(apiClients.anthropic));
+  if (apiClients.openrouter) router.register(new OpenAICompatibleProvider('openrouter', apiClients.openrouter, false));
+  if (apiClients.groq) router.register(new OpenAICompatibleProvider('groq', apiClients.groq));
+  if (apiClients.custom) router.register(new OpenAICompatibleProvider(CUSTOM_PROVIDER_ID, apiClients.custom));
+  return router;
+}
+
+/**
+ * Build SDK clients from the raw keys entered in the Setup tab. The custom
+ * provider only needs a base URL; its key is optional.
+ */
+export function createApiClients(keys: {
+  gemini?: string;
+  openai?: string;
+  anthropic?: string;
+  openrouter?: string;
+  groq?: string;
+  customBaseUrl?: string;
+  customApiKey?: string;
+}): ApiClients {
+  const customBaseUrl = normalizeBaseUrl(keys.customBaseUrl ?? '');
+  return {
+    gemini: keys.gemini ? new GoogleGenAI({ apiKey: keys.gemini }) : null,
+    openai: keys.openai ? new OpenAI({ apiKey: keys.openai, dangerouslyAllowBrowser: true }) : null,
+    anthropic: keys.anthropic ? new Anthropic({ apiKey: keys.anthropic, dangerouslyAllowBrowser: true }) : null,
+    openrouter: keys.openrouter
+      ? new OpenAI({
+          apiKey: keys.openrouter,
+          baseURL: 'https://openrouter.ai/api/v1',
+          dangerouslyAllowBrowser: true,
+          defaultHeaders: { 'X-Title': 'SOTA Content Orchestration Suite' },
+        })
+      : null,
+    groq: keys.groq
+      ? new OpenAI({ apiKey: keys.groq, baseURL: 'https://api.groq.com/openai/v1', dangerouslyAllowBrowser: true })
+      : null,
+    custom: customBaseUrl
+      // The SDK refuses an empty key, local servers don't check it
+      ? new OpenAI({ apiKey: keys.customApiKey || 'not-needed', baseURL: customBaseUrl, dangerouslyAllowBrowser: true })
+      : null,
+  };
+}
+
+export default AIRouter;
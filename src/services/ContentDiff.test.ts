@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { applyHunks, diffHtml, diffSequences, diffWords } from './ContentDiff';
+
+const BEFORE = [
+  '<h2>Intro</h2>',
+  '<p>Old opening paragraph.</p>',
+  '<p>Unchanged middle.</p>',
+  '<ul><li>one</li></ul>',
+].join('\n');
+
+const AFTER = [
+  '<h2>Intro</h2>',
+  '<p>New opening paragraph with a <a href="/guide">guide</a>.</p>',
+  '<p>Unchanged middle.</p>',
+  '<table><tbody><tr><td>added</td></tr></tbody></table>',
+].join('\n');
+
+describe('diffSequences', () => {
+  it('produces a minimal edit script', () => {
+    const ops = diffSequences('abcabba'.split(''), 'cbabac'.split(''));
+    const edits = ops.filter(op => op.type !== 'equal').reduce((n, op) => n + op.items.length, 0);
+    expect(edits).toBe(5);
+    expect(ops.filter(op => op.type !== 'insert').flatMap(op => op.items).join('')).toBe('abcabba');
+    expect(ops.filter(op => op.type !== 'delete').flatMap(op => op.items).join('')).toBe('cbabac');
+  });
+});
+
+describe('diffWords', () => {
+  it('marks only the changed words', () => {
+    expect(diffWords('the quick fox', 'the slow fox')).toEqual([
+      { type: 'equal', items: ['the', ' '] },
+      { type: 'delete', items: ['quick'] },
+      { type: 'insert', items: ['slow'] },
+      { type: 'equal', items: [' ', 'fox'] },
+    ]);
+  });
+});
+
+describe('diffHtml', () => {
+  it('groups changed blocks into hunks between unchanged ones', () => {
+    const { hunks, segments } = diffHtml(BEFORE, AFTER);
+
+    expect(segments.map(s => s.type)).toEqual(['equal', 'hunk', 'equal', 'hunk']);
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]?.changes).toEqual([{ action: 'modified', kind: 'paragraph', label: 'Modified paragraph "New opening paragraph with a guide."' }]);
+    expect(hunks[0]?.linksAdded).toEqual(['/guide']);
+    expect(hunks[1]?.changes.map(c => `${c.action} ${c.kind}`)).toEqual(['removed list', 'added table']);
+  });
+
+  it('ignores whitespace-only differences', () => {
+    expect(diffHtml('<p>Same  text</p>', '<p>Same text</p>').hunks).toEqual([]);
+  });
+});
+
+describe('applyHunks', () => {
+  it('rebuilds the revision when every hunk is accepted', () => {
+    const diff = diffHtml(BEFORE, AFTER);
+    expect(applyHunks(diff, {})).toBe(AFTER);
+  });
+
+  it('keeps the original side of rejected hunks', () => {
+    const diff = diffHtml(BEFORE, AFTER);
+    expect(applyHunks(diff, { 0: false, 1: false })).toBe(BEFORE);
+    expect(applyHunks(diff, { 1: false })).toBe([
+      '<h2>Intro</h2>',
+      '<p>New opening paragraph with a <a href="/guide">guide</a>.</p>',
+      '<p>Unchanged middle.</p>',
+      '<ul><li>one</li></ul>',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Content Diff
+ * Block-level structural diff of two HTML documents, with a word-level text
+ * diff inside each changed hunk. Hunks can be accepted or rejected one by one
+ * and the result rebuilt into HTML.
+ */
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  items: T[];
+}
+
+export type BlockKind = 'h2-section' | 'heading' | 'table' | 'faq' | 'list' | 'image' | 'paragraph' | 'other';
+
+export interface HtmlBlock {
+  html: string;
+  tag: string;
+  kind: BlockKind;
+  text: string;
+  links: string[];
+}
+
+export interface StructuralChange {
+  action: 'added' | 'removed' | 'modified';
+  kind: BlockKind;
+  label: string;
+}
+
+export interface DiffHunk {
+  id: number;
+  before: HtmlBlock[];
+  after: HtmlBlock[];
+  changes: StructuralChange[];
+  linksAdded: string[];
+  linksRemoved: string[];
+  words: DiffOp<string>[];
+}
+
+export type DiffSegment =
+  | { type: 'equal'; blocks: HtmlBlock[] }
+  | { type: 'hunk'; hunk: DiffHunk };
+
+export interface ContentDiffResult {
+  segments: DiffSegment[];
+  hunks: DiffHunk[];
+}
+
+// ==================== SEQUENCE DIFF ====================
+
+type Snake = [x: number, y: number, u: number, v: number];
+
+/**
+ * Myers O(ND) diff in linear space: find the middle snake of the optimal
+ * path, then diff the halves either side of it. Keeping a copy of the
+ * frontier per edit step instead grows with edits × length, which reaches
+ * gigabytes on a rewritten pillar article.
+ */
+export function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = (x, y) => x === y): DiffOp<T>[] {
+  const ops: DiffOp<T>[] = [];
+  const push = (type: DiffOpType, items: T[]) => {
+    if (items.length === 0) return;
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) last.items.push(...items);
+    else ops.push({ type, items: [...items] });
+  };
+
+  // The snake crossing the middle of the optimal path, relative to aLo/bLo
+  const middleSnake = (aLo: number, aHi: number, bLo: number, bHi: number): Snake => {
+    const n = aHi - aLo;
+    const m = bHi - bLo;
+    const delta = n - m;
+    const odd = (delta & 1) !== 0;
+    const max = Math.ceil((n + m) / 2);
+    const offset = max + 1;
+    // Furthest x per diagonal, forwards from the start and backwards from the end
+    const forward = new Int32Array(2 * max + 3);
+    const backward = new Int32Array(2 * max + 3);
+
+    for (let d = 0; d <= max; d++) {
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && forward[offset + k - 1]! < forward[offset + k + 1]!)
+          ? forward[offset + k + 1]!
+          : forward[offset + k - 1]! + 1;
+        let y = x - k;
+        const startX = x;
+        const startY = y;
+        while (x < n && y < m && equals(a[aLo + x]!, b[bLo + y]!)) {
+          x++;
+          y++;
+        }
+        forward[offset + k] = x;
+        const reverseK = delta - k;
+        if (odd && reverseK >= -(d - 1) && reverseK <= d - 1 && x + backward[offset + reverseK]! >= n) {
+          return [startX, startY, x, y];
+        }
+      }
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && backward[offset + k - 1]! < backward[offset + k + 1]!)
+          ? backward[offset + k + 1]!
+          : backward[offset + k - 1]! + 1;
+        let y = x - k;
+        const startX = x;
+        const startY = y;
+        while (x < n && y < m && equals(a[aHi - 1 - x]!, b[bHi - 1 - y]!)) {
+          x++;
+          y++;
+        }
+        backward[offset + k] = x;
+        const forwardK = delta - k;
+        if (!odd && forwardK >= -d && forwardK <= d && x + forward[offset + forwardK]! >= n) {
+          return [n - x, m - y, n - startX, m - startY];
+        }
+      }
+    }
+    // Unreachable: the paths always meet by d = ceil((n + m) / 2)
+    return [0, 0, 0, 0];
+  };
+
+  const diffRange = (aLo: number, aHi: number, bLo: number, bHi: number): void => {
+    let prefix = 0;
+    while (aLo + prefix < aHi && bLo + prefix < bHi && equals(a[aLo + prefix]!, b[bLo + prefix]!)) prefix++;
+    push('equal', a.slice(aLo, aLo + prefix));
+    aLo += prefix;
+    bLo += prefix;
+
+    let suffix = 0;
+    while (aHi - suffix > aLo && bHi - suffix > bLo && equals(a[aHi - suffix - 1]!, b[bHi - suffix - 1]!)) suffix++;
+    const tail = a.slice(aHi - suffix, aHi);
+    aHi -= suffix;
+    bHi -= suffix;
+
+    if (aLo === aHi) {
+      push('insert', b.slice(bLo, bHi));
+    } else if (bLo === bHi) {
+      push('delete', a.slice(aLo, aHi));
+    } else {
+      // Both sides differ at both ends, so there are at least two edits and
+      // each half is strictly smaller
+      const [x, y, u, v] = middleSnake(aLo, aHi, bLo, bHi);
+      diffRange(aLo, aLo + x, bLo, bLo + y);
+      push('equal', a.slice(aLo + x, aLo + u));
+      diffRange(aLo + u, aHi, bLo + v, bHi);
+    }
+    push('equal', tail);
+  };
+
+  diffRange(0, a.length, 0, b.length);
+  return ops;
+}
+
+/**
+ * Word-level diff; whitespace runs are kept as their own tokens so the
+ * inline view reads naturally.
+ */
+export const diffWords = (before: string, after: string): DiffOp<string>[] =>
+  diffSequences(tokenize(before), tokenize(after));
+
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+// ==================== HTML BLOCKS ====================
+
+const normalize = (html: string) => html.replace(/\s+/g, ' ').trim();
+
+const classifyBlock = (el: Element): BlockKind => {
+  const tag = el.tagName.toLowerCase();
+  const marker = `${el.className || ''} ${el.id || ''} ${el.querySelector('h2,h3')?.textContent || ''}`.toLowerCase();
+  if (/faq|frequently asked/.test(marker) || el.querySelector('[itemtype*="FAQPage"]')) return 'faq';
+  if (tag === 'h2') return 'h2-section';
+  if (/^h[3-6]$/.test(tag)) return 'heading';
+  if (tag === 'table' || el.querySelector('table')) return 'table';
+  if (tag === 'ul' || tag === 'ol') return 'list';
+  if (tag === 'img' || tag === 'figure') return 'image';
+  if (tag === 'p') return 'paragraph';
+  return 'other';
+};
+
+/**
+ * Split HTML into its top-level blocks. Loose text is wrapped as a paragraph
+ * so nothing is dropped when the document is rebuilt.
+ */
+export function parseBlocks(html: string): HtmlBlock[] {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const blocks: HtmlBlock[] = [];
+  doc.body.childNodes.forEach(node => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const el = node as Element;
+      blocks.push({
+        html: el.outerHTML,
+        tag: el.tagName.toLowerCase(),
+        kind: classifyBlock(el),
+        text: (el.textContent || '').replace(/\s+/g, ' ').trim(),
+        links: Array.from(el.querySelectorAll('a[href]')).map(a => a.getAttribute('href') || '').concat(el.matches('a[href]') ? [el.getAttribute('href') || ''] : []),
+      });
+    } else if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
+      const text = node.textContent.replace(/\s+/g, ' ').trim();
+      blocks.push({ html: node.textContent, tag: '#text', kind: 'paragraph', text, links: [] });
+    }
+  });
+  return blocks;
+}
+
+const KIND_LABELS: Record<BlockKind, string> = {
+  'h2-section': 'H2 section',
+  heading: 'heading',
+  table: 'table',
+  faq: 'FAQ',
+  list: 'list',
+  image: 'image',
+  paragraph: 'paragraph',
+  other: 'block',
+};
+
+const describe = (block: HtmlBlock) => {
+  const snippet = block.text.length > 60 ? `${block.text.slice(0, 57)}...` : block.text;
+  return snippet ? `${KIND_LABELS[block.kind]} "${snippet}"` : KIND_LABELS[block.kind];
+};
+
+const multisetDiff = (before: string[], after: string[]) => {
+  const remaining = [...before];
+  const added: string[] = [];
+  for (const link of after) {
+    const index = remaining.indexOf(link);
+    if (index >= 0) remaining.splice(index, 1);
+    else added.push(link);
+  }
+  return { added, removed: remaining };
+};
+
+const buildHunk = (id: number, before: HtmlBlock[], after: HtmlBlock[]): DiffHunk => {
+  const changes: StructuralChange[] = [];
+  const pairs = Math.min(before.length, after.length);
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    const old = before[i];
+    const next = after[i];
+    if (i < pairs && old && next && old.tag === next.tag) {
+      changes.push({ action: 'modified', kind: next.kind, label: `Modified ${describe(next)}` });
+    } else {
+      if (old) changes.push({ action: 'removed', kind: old.kind, label: `Removed ${describe(old)}` });
+      if (next) changes.push({ action: 'added', kind: next.kind, label: `Added ${describe(next)}` });
+    }
+  }
+
+  const links = multisetDiff(before.flatMap(b => b.links), after.flatMap(b => b.links));
+  return {
+    id,
+    before,
+    after,
+    changes,
+    linksAdded: links.added,
+    linksRemoved: links.removed,
+    words: diffWords(before.map(b => b.text).join('\n'), after.map(b => b.text).join('\n')),
+  };
+};
+
+/**
+ * Diff two HTML documents block by block. Adjacent removed/added blocks form
+ * one hunk; everything between hunks is unchanged.
+ */
+export function diffHtml(beforeHtml: string, afterHtml: string): ContentDiffResult {
+  const ops = diffSequences(parseBlocks(beforeHtml), parseBlocks(afterHtml), (x, y) => normalize(x.html) === normalize(y.html));
+
+  const segments: DiffSegment[] = [];
+  const hunks: DiffHunk[] = [];
+  let pendingBefore: HtmlBlock[] = [];
+  let pendingAfter: HtmlBlock[] = [];
+
+  const flush = () => {
+    if (pendingBefore.length === 0 && pendingAfter.length === 0) return;
+    const hunk = buildHunk(hunks.length, pendingBefore, pendingAfter);
+    hunks.push(hunk);
+    segments.push({ type: 'hunk', hunk });
+    pendingBefore = [];
+    pendingAfter = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      flush();
+      segments.push({ type: 'equal', blocks: op.items });
+    } else if (op.type === 'delete') {
+      pendingBefore.push(...op.items);
+    } else {
+      pendingAfter.push(...op.items);
+    }
+  }
+  flush();
+
+  return { segments, hunks };
+}
+
+/**
+ * Rebuild HTML keeping the revised side of accepted hunks and the original
+ * side of rejected ones. Hunks missing from `accepted` count as accepted.
+ */
+export function applyHunks(diff: ContentDiffResult, accepted: Record<number, boolean>): string {
+  return diff.segments
+    .flatMap(segment => {
+      if (segment.type === 'equal') return segment.blocks;
+      return accepted[segment.hunk.id] === false ? segment.hunk.before : segment.hunk.after;
+    })
+    .map(block => block.html)
+    .join('\n');
+}
@@ -0,0 +1,448 @@
+/**
+ * Cost Ledger
+ * Records provider, model, prompt key, tokens and cost for every routed AI
+ * call, enforces per-item, per-run and per-day budgets, and estimates what
+ * a run will cost before it starts.
+ */
+
+import { AIModelManager } from '../config/ai-models-sota';
+import { AIRequest, AIResponse, CUSTOM_PROVIDER_ID, RouteObserver, RouteStep } from './AIRouter';
+import { storageLayer } from './StorageLayer';
+import { ContentType, tokenBudgetManager } from './TokenBudgetManager';
+import { ServiceCallAI, UsageScope } from '../types';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  provider: string;
+  model: string;
+  promptKey: string;
+  /** ContentItem type, 'god-mode', or 'unattributed' for calls outside a scope */
+  contentType: string;
+  itemId: string | null;
+  runId: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  /** True when the provider returned no usage and tokens were estimated from text */
+  estimated: boolean;
+  cost: number;
+  /** Routed to the cheapest model because a budget was exceeded */
+  downgraded: boolean;
+  /** The model has no known price, so `cost` is 0 whatever it really cost */
+  unpriced?: boolean;
+}
+
+export type BudgetScope = 'item' | 'run' | 'day';
+
+export interface CostBudgets {
+  /** USD; 0 means no limit */
+  perItem: number;
+  perRun: number;
+  perDay: number;
+  onExceed: 'stop' | 'downgrade';
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UsageFilter {
+  itemId?: string;
+  runId?: string;
+  since?: number;
+}
+
+export interface CostEstimate {
+  items: number;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  perItem: number;
+  total: number;
+  /** 'history' when enough past items of this content type were recorded */
+  basis: 'history' | 'heuristic';
+  exceedsRunBudget: boolean;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(public scope: BudgetScope, public limit: number, public spent: number) {
+    super(`${scope === 'day' ? 'Daily' : scope === 'run' ? 'Run' : 'Item'} budget of $${limit.toFixed(2)} exceeded ($${spent.toFixed(4)} spent)`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * A budget is set but no model in the route has a known price, so the
+ * ledger cannot tell whether the call would exceed it
+ */
+export class UnpricedModelError extends Error {
+  constructor(public models: string[]) {
+    super(`No price is known for ${models.join(', ')}; add a priced model to the route or clear the budgets`);
+    this.name = 'UnpricedModelError';
+  }
+}
+
+/** Errors that end a whole run rather than failing one item */
+export const endsRun = (e: unknown): e is Error =>
+  (e instanceof BudgetExceededError && e.scope !== 'item') || e instanceof UnpricedModelError;
+
+export const DEFAULT_BUDGETS: CostBudgets = { perItem: 0, perRun: 0, perDay: 0, onExceed: 'stop' };
+
+const LEDGER_STORE = 'usage';
+// Where records were kept before the ledger had its own store
+const LEGACY_CACHE_NAMESPACE = 'cost-ledger';
+const MAX_RECORDS = 5000;
+const SAVE_DELAY = 2000;
+const MIN_HISTORY_ITEMS = 3;
+
+// Typical number of routed calls per item, for estimates without history
+const CALLS_PER_ITEM: Record<string, number> = {
+  pillar: 7,
+  cluster: 6,
+  standard: 6,
+  refresh: 4,
+  'link-optimizer': 2,
+  'god-mode': 4,
+};
+
+// Item and God Mode content types mapped onto TokenBudgetManager tiers
+const TIER_FOR_TYPE: Record<string, ContentType> = {
+  pillar: 'pillar',
+  cluster: 'cluster',
+  standard: 'cluster',
+  refresh: 'refresh',
+  'link-optimizer': 'surgical',
+  'god-mode': 'surgical',
+};
+
+const startOfDay = (now = Date.now()) => {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+
+const addTo = (totals: UsageTotals, record: UsageRecord) => {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cost += record.cost;
+};
+
+const isPriced = (provider: string, model: string) =>
+  provider === CUSTOM_PROVIDER_ID || model.endsWith(':free') || AIModelManager.findModel(model) !== null;
+
+/**
+ * One Bulk generation or God Mode cycle. Only calls made through a callAI
+ * bound to the run count against it, so concurrent runs never mix.
+ */
+export class CostRun {
+  readonly id: string;
+  readonly startedAt = Date.now();
+
+  constructor(private ledger: CostLedger, readonly kind: string) {
+    this.id = `${kind}-${this.startedAt}-${Math.random().toString(36).slice(2, 6)}`;
+  }
+
+  /**
+   * callAI charged to this run, and to one of its items when given
+   */
+  bind(callAI: ServiceCallAI, item?: { itemId: string; contentType: string }): ServiceCallAI {
+    return this.ledger.bind(callAI, this.scope(item));
+  }
+
+  /**
+   * Usage scope for calls that don't go through a bound callAI, such as
+   * ParallelAIEngine tasks
+   */
+  scope(item?: { itemId: string; contentType?: string }): UsageScope {
+    return { runId: this.id, contentType: this.kind, ...item };
+  }
+
+  totals(filter: Omit<UsageFilter, 'runId'> = {}): UsageTotals {
+    return this.ledger.totals({ ...filter, runId: this.id });
+  }
+}
+
+export class CostLedger implements RouteObserver {
+  private records: UsageRecord[] = [];
+  private budgets: CostBudgets = { ...DEFAULT_BUDGETS };
+  private downgraded = new WeakSet<AIRequest>();
+  private listeners = new Set<(records: UsageRecord[]) => void>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  // Changes not yet written to the ledger store
+  private unsaved = new Map<string, UsageRecord>();
+  private dropped = new Set<string>();
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.loadFromStorage();
+  }
+
+  configure(budgets: Partial<CostBudgets>): void {
+    this.budgets = { ...this.budgets, ...budgets };
+  }
+
+  getBudgets(): CostBudgets {
+    return { ...this.budgets };
+  }
+
+  beginRun(kind: string): CostRun {
+    return new CostRun(this, kind);
+  }
+
+  /**
+   * Wrap callAI so every call it makes is charged to `scope`. Binding an
+   * already bound callAI narrows it, e.g. from a run to one of its items.
+   */
+  bind(callAI: ServiceCallAI, scope: UsageScope): ServiceCallAI {
+    return (promptKey, args, format, grounding, options) =>
+      callAI(promptKey, args, format, grounding, { ...options, scope: { ...scope, ...options?.scope } });
+  }
+
+  // ==================== ROUTE OBSERVER ====================
+
+  /**
+   * Check budgets before a call. Under a budget, models without a price are
+   * dropped from the chain; over it, 'stop' throws and 'downgrade' reorders
+   * the chain cheapest-first.
+   */
+  planRoute(request: AIRequest, chain: RouteStep[]): RouteStep[] {
+    const scope = request.scope ?? {};
+    const priced = this.hasBudget(scope) ? chain.filter(step => isPriced(step.provider, step.model)) : chain;
+    if (priced.length === 0) throw new UnpricedModelError(chain.map(step => step.model));
+    const exceeded = this.exceededBudget(scope);
+    if (!exceeded) return priced;
+    if (this.budgets.onExceed === 'stop') throw exceeded;
+    this.downgraded.add(request);
+    return [...priced].sort((a, b) => {
+      const priceA = this.pricePerCall(a);
+      const priceB = this.pricePerCall(b);
+      return priceA === priceB ? 0 : priceA < priceB ? -1 : 1;
+    });
+  }
+
+  onResponse(request: AIRequest, response: AIResponse): void {
+    const estimated = !response.usage;
+    const inputTokens = response.usage?.inputTokens ?? tokenBudgetManager.estimateTokens(request.systemInstruction + request.userPrompt);
+    const outputTokens = response.usage?.outputTokens ?? tokenBudgetManager.estimateTokens(response.text);
+    const scope = request.scope ?? {};
+    const record: UsageRecord = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: Date.now(),
+      provider: response.provider,
+      model: response.model,
+      promptKey: request.promptKey,
+      contentType: scope.contentType ?? 'unattributed',
+      itemId: scope.itemId ?? null,
+      runId: scope.runId ?? null,
+      inputTokens,
+      outputTokens,
+      estimated,
+      cost: response.provider === CUSTOM_PROVIDER_ID ? 0 : AIModelManager.estimateCost(response.model, inputTokens, outputTokens),
+      downgraded: this.downgraded.has(request),
+      unpriced: !isPriced(response.provider, response.model),
+    };
+    tokenBudgetManager.trackUsage(inputTokens, outputTokens);
+    this.unsaved.set(record.id, record);
+    this.keep([record, ...this.records]);
+    this.scheduleSave();
+    request.onUsage?.({ inputTokens, outputTokens });
+    this.emit();
+  }
+
+  // ==================== QUERIES ====================
+
+  list(filter: UsageFilter = {}): UsageRecord[] {
+    return this.records.filter(record =>
+      (filter.itemId === undefined || record.itemId === filter.itemId) &&
+      (filter.runId === undefined || record.runId === filter.runId) &&
+      (filter.since === undefined || record.timestamp >= filter.since)
+    );
+  }
+
+  totals(filter: UsageFilter = {}): UsageTotals {
+    const totals = emptyTotals();
+    this.list(filter).forEach(record => addTo(totals, record));
+    return totals;
+  }
+
+  spentToday(): number {
+    return this.totals({ since: startOfDay() }).cost;
+  }
+
+  /**
+   * Totals grouped by a record field, most expensive first
+   */
+  breakdown(by: 'promptKey' | 'contentType' | 'model' | 'provider', filter: UsageFilter = {}): { key: string; totals: UsageTotals }[] {
+    const groups = new Map<string, UsageTotals>();
+    for (const record of this.list(filter)) {
+      const key = record[by];
+      if (!groups.has(key)) groups.set(key, emptyTotals());
+      addTo(groups.get(key)!, record);
+    }
+    return Array.from(groups.entries())
+      .map(([key, totals]) => ({ key, totals }))
+      .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.calls - a.totals.calls);
+  }
+
+  /**
+   * Pre-flight estimate for `items` items of one content type on `model`.
+   * Uses average tokens per recorded item of that type when there is
+   * enough history, otherwise the TokenBudgetManager tier ceilings.
+   */
+  estimateRun(contentType: string, items: number, model: string): CostEstimate {
+    const perItemTokens = this.historicalTokensPerItem(contentType) ?? this.heuristicTokensPerItem(contentType);
+    const perItem = AIModelManager.estimateCost(model, perItemTokens.input, perItemTokens.output);
+    const total = perItem * items;
+    return {
+      items,
+      model,
+      inputTokens: perItemTokens.input * items,
+      outputTokens: perItemTokens.output * items,
+      perItem,
+      total,
+      basis: perItemTokens.basis,
+      exceedsRunBudget: this.budgets.perRun > 0 && total > this.budgets.perRun,
+    };
+  }
+
+  subscribe(listener: (records: UsageRecord[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.records = [];
+    this.unsaved.clear();
+    this.dropped.clear();
+    storageLayer.clearLedger(LEDGER_STORE).catch(() => {});
+    this.emit();
+  }
+
+  // ==================== INTERNALS ====================
+
+  private hasBudget(scope: UsageScope): boolean {
+    const { perDay, perRun, perItem } = this.budgets;
+    return perDay > 0 || (perRun > 0 && !!scope.runId) || (perItem > 0 && !!scope.itemId);
+  }
+
+  /**
+   * The first budget already used up, checked day, then run, then item
+   */
+  private exceededBudget(scope: UsageScope): BudgetExceededError | null {
+    const { perDay, perRun, perItem } = this.budgets;
+    if (perDay > 0) {
+      const spent = this.spentToday();
+      if (spent >= perDay) return new BudgetExceededError('day', perDay, spent);
+    }
+    if (perRun > 0 && scope.runId) {
+      const spent = this.totals({ runId: scope.runId }).cost;
+      if (spent >= perRun) return new BudgetExceededError('run', perRun, spent);
+    }
+    if (perItem > 0 && scope.itemId) {
+      const spent = this.totals({ itemId: scope.itemId, ...(scope.runId ? { runId: scope.runId } : {}) }).cost;
+      if (spent >= perItem) return new BudgetExceededError('item', perItem, spent);
+    }
+    return null;
+  }
+
+  // Self-hosted models are free and sort first
+  private pricePerCall({ provider, model }: RouteStep): number {
+    if (provider === CUSTOM_PROVIDER_ID) return 0;
+    return AIModelManager.estimateCost(model, 1000, 1000);
+  }
+
+  private historicalTokensPerItem(contentType: string): { input: number; output: number; basis: 'history' } | null {
+    const perItem = new Map<string, UsageTotals>();
+    for (const record of this.records) {
+      if (record.contentType !== contentType || !record.itemId) continue;
+      if (!perItem.has(record.itemId)) perItem.set(record.itemId, emptyTotals());
+      addTo(perItem.get(record.itemId)!, record);
+    }
+    if (perItem.size < MIN_HISTORY_ITEMS) return null;
+    const all = Array.from(perItem.values());
+    return {
+      input: Math.round(all.reduce((n, t) => n + t.inputTokens, 0) / all.length),
+      output: Math.round(all.reduce((n, t) => n + t.outputTokens, 0) / all.length),
+      basis: 'history',
+    };
+  }
+
+  private heuristicTokensPerItem(contentType: string): { input: number; output: number; basis: 'heuristic' } {
+    const tier = tokenBudgetManager.selectTier(TIER_FOR_TYPE[contentType] ?? 'cluster');
+    const calls = CALLS_PER_ITEM[contentType] ?? CALLS_PER_ITEM['standard']!;
+    // Tier limits are ceilings; real calls average roughly half of them
+    return {
+      input: Math.round((tier.maxInputTokens * calls) / 2),
+      output: Math.round((tier.maxOutputTokens * calls) / 2),
+      basis: 'heuristic',
+    };
+  }
+
+  private emit(): void {
+    const snapshot = [...this.records];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  /** Keep the newest MAX_RECORDS, queueing the rest for deletion */
+  private keep(records: UsageRecord[]): void {
+    this.records = records.slice(0, MAX_RECORDS);
+    records.slice(MAX_RECORDS).forEach(record => {
+      this.unsaved.delete(record.id);
+      this.dropped.add(record.id);
+    });
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      // Wait for hydration so trimming never deletes records that weren't loaded yet
+      this.loaded.then(() => this.save());
+    }, SAVE_DELAY);
+  }
+
+  private async save(): Promise<void> {
+    const upserts = Array.from(this.unsaved.values());
+    const deletes = Array.from(this.dropped);
+    this.unsaved.clear();
+    this.dropped.clear();
+    const saved = await storageLayer.syncLedger(LEDGER_STORE, upserts, deletes).catch(e => {
+      console.warn('[CostLedger] Could not persist usage records:', e);
+      return false;
+    });
+    if (saved) return;
+    // Retry with the next save, minus anything trimmed in the meantime
+    upserts.filter(record => !this.dropped.has(record.id)).forEach(record => this.unsaved.set(record.id, record));
+    deletes.forEach(id => this.dropped.add(id));
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = await storageLayer.getLedger<UsageRecord>(LEDGER_STORE);
+      const legacy = (await storageLayer.loadCache<UsageRecord>(LEGACY_CACHE_NAMESPACE)).map(([, record]) => record);
+      if (legacy.length > 0 && (await storageLayer.syncLedger(LEDGER_STORE, legacy))) {
+        await storageLayer.clearCache(LEGACY_CACHE_NAMESPACE);
+      }
+      const known = new Set(this.records.map(record => record.id));
+      const loaded = [...stored, ...legacy].filter(record => !known.has(record.id) && known.add(record.id));
+      this.keep([...this.records, ...loaded].sort((a, b) => b.timestamp - a.timestamp));
+      if (this.dropped.size > 0) this.scheduleSave();
+      this.emit();
+    } catch (e) {
+      console.warn('[CostLedger] Could not load usage records:', e);
+    }
+  }
+}
+
+// Singleton instance
+export const costLedger = new CostLedger();
+
+export default CostLedger;
@@ -0,0 +1,85 @@
+/**
+ * Custom OpenAI-Compatible Provider
+ * Settings and model discovery for self-hosted servers that speak the Chat
+ * Completions API (Ollama, llama.cpp, vLLM, LM Studio). Context windows
+ * entered per model are registered with the TokenBudgetManager so the
+ * router never asks a small local model for more tokens than it holds.
+ */
+
+import { tokenBudgetManager } from './TokenBudgetManager';
+
+export interface CustomProviderConfig {
+  baseUrl: string;
+  /** Most local servers ignore it; vLLM and proxies may require one */
+  apiKey: string;
+  /** Context window per model id, in tokens */
+  contextWindows: Record<string, number>;
+}
+
+export interface DiscoveredModel {
+  id: string;
+  /** Reported by vLLM (max_model_len) and llama.cpp (n_ctx); Ollama doesn't */
+  contextWindow: number | null;
+  ownedBy: string | null;
+}
+
+const DISCOVERY_TIMEOUT_MS = 10_000;
+
+/**
+ * Accepts `localhost:11434`, `http://host:8000/` or a URL that already ends
+ * in `/v1`, and returns the `/v1` base the OpenAI SDK expects
+ */
+export function normalizeBaseUrl(input: string): string {
+  let url = input.trim().replace(/\/+$/, '');
+  if (!url) return '';
+  if (!/^https?:\/\//i.test(url)) url = `http://${url}`;
+  url = url.replace(/\/(chat\/completions|models)$/, '');
+  return /\/v\d+$/.test(url) ? url : `${url}/v1`;
+}
+
+const positiveInt = (value: any): number | null => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : null;
+};
+
+/**
+ * List the server's models via GET /v1/models
+ */
+export async function discoverModels(config: Pick<CustomProviderConfig, 'baseUrl' | 'apiKey'>): Promise<DiscoveredModel[]> {
+  const base = normalizeBaseUrl(config.baseUrl);
+  if (!base) throw new Error('Enter the server base URL first');
+
+  const res = await fetch(`${base}/models`, {
+    headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+    signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`GET ${base}/models failed: HTTP ${res.status}`);
+
+  const body: any = await res.json();
+  const list: any[] = Array.isArray(body?.data) ? body.data : Array.isArray(body?.models) ? body.models : [];
+  return list
+    .map((m): DiscoveredModel => ({
+      id: String(m?.id ?? m?.name ?? m?.model ?? ''),
+      contextWindow:
+        positiveInt(m?.max_model_len) ??
+        positiveInt(m?.context_length) ??
+        positiveInt(m?.context_window) ??
+        positiveInt(m?.meta?.n_ctx) ??
+        positiveInt(m?.meta?.n_ctx_train),
+      ownedBy: m?.owned_by ? String(m.owned_by) : null,
+    }))
+    .filter(m => m.id);
+}
+
+/**
+ * Register every configured context window with the TokenBudgetManager.
+ * Windows of models removed from `previous` are forgotten.
+ */
+export function applyContextWindows(contextWindows: Record<string, number>, previous: Record<string, number> = {}): void {
+  for (const model of Object.keys(previous)) {
+    if (!(model in contextWindows)) tokenBudgetManager.setContextWindow(model, 0);
+  }
+  for (const [model, tokens] of Object.entries(contextWindows)) {
+    tokenBudgetManager.setContextWindow(model, tokens);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * First-Party Fetch Proxy
+ * Client side of src/sitemap-worker.ts. Holds the proxy URL and shared
+ * secret, and decides which requests may never touch a public CORS proxy.
+ */
+
+import { loadVersioned } from './StateSchema';
+
+export interface FetchProxyConfig {
+  /** Worker URL, e.g. http://localhost:8787 under `wrangler dev` */
+  url: string;
+  secret: string;
+}
+
+export const FETCH_PROXY_STORAGE_KEY = 'fetchProxy';
+export const PROXY_SECRET_HEADER = 'X-Proxy-Secret';
+
+const CREDENTIAL_HEADERS = ['authorization', 'x-api-key', 'cookie'];
+const PROXY_TIMEOUT_MS = 20000;
+
+const loadConfig = (): FetchProxyConfig | null => {
+  const stored = loadVersioned<Partial<FetchProxyConfig>>(FETCH_PROXY_STORAGE_KEY);
+  return stored?.url && stored?.secret ? { url: String(stored.url), secret: String(stored.secret) } : null;
+};
+
+let config: FetchProxyConfig | null = typeof localStorage === 'undefined' ? null : loadConfig();
+
+/**
+ * Set (or clear) the proxy. App persists the config under
+ * FETCH_PROXY_STORAGE_KEY, so it's also picked up on module load.
+ */
+export function configureFetchProxy(next: FetchProxyConfig | null): void {
+  config = next?.url.trim() && next.secret.trim()
+    ? { url: next.url.trim().replace(/\/+$/, ''), secret: next.secret.trim() }
+    : null;
+}
+
+export const getFetchProxyConfig = (): FetchProxyConfig | null => config;
+
+/**
+ * True when the request carries anything a third party must not see:
+ * auth headers, cookies or credentials embedded in the URL.
+ */
+export function carriesCredentials(url: string, options: RequestInit = {}): boolean {
+  const headers = new Headers(options.headers);
+  if (CREDENTIAL_HEADERS.some(name => headers.has(name))) return true;
+  try {
+    const parsed = new URL(url);
+    return !!(parsed.username || parsed.password);
+  } catch {
+    return false;
+  }
+}
+
+/** Errors produced by the worker itself rather than the target site */
+export const isProxyError = (response: Response) => response.headers.has('X-Proxy-Error');
+
+/**
+ * Send a request through the first-party proxy with method, headers and
+ * body passed through unchanged. Throws when no proxy is configured.
+ */
+export async function fetchViaProxy(url: string, options: RequestInit = {}): Promise<Response> {
+  if (!config) throw new Error('First-party fetch proxy is not configured');
+  const headers = new Headers(options.headers);
+  headers.set(PROXY_SECRET_HEADER, config.secret);
+  return fetch(`${config.url}/?url=${encodeURIComponent(url)}`, {
+    ...options,
+    headers,
+    signal: options.signal ?? AbortSignal.timeout(PROXY_TIMEOUT_MS),
+  });
+}
+
+/**
+ * Check the proxy is reachable and the secret is accepted
+ */
+export async function checkFetchProxy(candidate: FetchProxyConfig): Promise<{ ok: boolean; allowedHosts: string[]; error?: string }> {
+  try {
+    const response = await fetch(`${candidate.url.trim().replace(/\/+$/, '')}/health`, {
+      headers: { [PROXY_SECRET_HEADER]: candidate.secret.trim() },
+      signal: AbortSignal.timeout(8000),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) return { ok: false, allowedHosts: [], error: body?.error || `HTTP ${response.status}` };
+    return { ok: true, allowedHosts: Array.isArray(body?.allowedHosts) ? body.allowedHosts : [] };
+  } catch (e: any) {
+    return { ok: false, allowedHosts: [], error: e?.message || 'unreachable' };
+  }
+}
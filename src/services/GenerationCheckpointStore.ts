@@ -0,0 +1,151 @@
+/**
+ * Generation Checkpoint Store
+ * Keeps the output of each completed generation stage per item, so a failed
+ * body step can be retried without paying for keywords and outline again.
+ * A stage that streams can also keep partial output (the article body's
+ * finished sections) so an interrupted stream resumes instead of restarting.
+ * Checkpoints hold full article HTML, so they live in IndexedDB.
+ */
+
+import { loadVersioned } from './StateSchema';
+import { storageLayer } from './StorageLayer';
+
+export type GenerationStage = 'keywords' | 'outline' | 'body' | 'videos' | 'assembly';
+
+export type GenerationCheckpoint = Partial<Record<GenerationStage, any>> & {
+  updatedAt: number;
+  partials?: Partial<Record<GenerationStage, string>>;
+};
+
+type StoredCheckpoint = GenerationCheckpoint & { id: string };
+
+const LEDGER_STORE = 'checkpoints';
+// Checkpoints used to live in localStorage under this key
+const LEGACY_STORAGE_KEY = 'generation_checkpoints';
+const CHECKPOINT_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+const SAVE_DELAY = 500;
+
+export class GenerationCheckpointStore {
+  private checkpoints: Record<string, GenerationCheckpoint> = {};
+  private unsaved = new Set<string>();
+  private dropped = new Set<string>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.loadFromStorage();
+  }
+
+  /**
+   * Resolves once stored checkpoints are loaded; await before resuming items
+   */
+  ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  get<T>(itemId: string, stage: GenerationStage): T | undefined {
+    return this.checkpoints[itemId]?.[stage] as T | undefined;
+  }
+
+  has(itemId: string, stage: GenerationStage): boolean {
+    return this.get(itemId, stage) !== undefined;
+  }
+
+  set(itemId: string, stage: GenerationStage, data: any): void {
+    this.checkpoints[itemId] = { ...this.checkpoints[itemId], [stage]: data, updatedAt: Date.now() };
+    this.changed(itemId);
+  }
+
+  getPartial(itemId: string, stage: GenerationStage): string | undefined {
+    return this.checkpoints[itemId]?.partials?.[stage];
+  }
+
+  /** Save (or, with null, drop) the resumable partial output of a stage */
+  setPartial(itemId: string, stage: GenerationStage, text: string | null): void {
+    const checkpoint = this.checkpoints[itemId];
+    const { [stage]: _previous, ...rest } = checkpoint?.partials ?? {};
+    const partials: Partial<Record<GenerationStage, string>> = rest;
+    if (text !== null) partials[stage] = text;
+    else if (!checkpoint) return;
+    this.checkpoints[itemId] = { ...checkpoint, partials, updatedAt: Date.now() };
+    this.changed(itemId);
+  }
+
+  clear(itemId: string): void {
+    delete this.checkpoints[itemId];
+    this.unsaved.delete(itemId);
+    this.dropped.add(itemId);
+    this.scheduleSave();
+  }
+
+  // ==================== INTERNALS ====================
+
+  private changed(itemId: string): void {
+    this.dropped.delete(itemId);
+    this.unsaved.add(itemId);
+    this.scheduleSave();
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.loaded.then(() => this.save());
+    }, SAVE_DELAY);
+  }
+
+  private async save(): Promise<void> {
+    const ids = Array.from(this.unsaved);
+    const deletes = Array.from(this.dropped);
+    this.unsaved.clear();
+    this.dropped.clear();
+    const upserts = ids.flatMap(id => {
+      const checkpoint = this.checkpoints[id];
+      return checkpoint ? [{ ...checkpoint, id }] : [];
+    });
+    const saved = await storageLayer.syncLedger<StoredCheckpoint>(LEDGER_STORE, upserts, deletes).catch(e => {
+      console.warn('[Checkpoints] Could not persist generation checkpoints:', e);
+      return false;
+    });
+    if (saved) return;
+    // Retry with the next save, minus anything cleared in the meantime
+    ids.filter(id => !this.dropped.has(id)).forEach(id => this.unsaved.add(id));
+    deletes.filter(id => !this.unsaved.has(id)).forEach(id => this.dropped.add(id));
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = await storageLayer.getLedger<StoredCheckpoint>(LEDGER_STORE);
+      const legacy = readLegacyCheckpoints();
+      if (legacy.length > 0 && (await storageLayer.syncLedger(LEDGER_STORE, legacy))) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      }
+      const now = Date.now();
+      for (const { id, ...checkpoint } of [...stored, ...legacy]) {
+        // Checkpoints written since startup are newer than anything stored
+        if (this.checkpoints[id] || this.dropped.has(id)) continue;
+        if (now - checkpoint.updatedAt < CHECKPOINT_TTL) this.checkpoints[id] = checkpoint;
+        else this.dropped.add(id);
+      }
+      if (this.dropped.size > 0) this.scheduleSave();
+    } catch (e) {
+      console.warn('[Checkpoints] Could not load generation checkpoints:', e);
+    }
+  }
+}
+
+const readLegacyCheckpoints = (): StoredCheckpoint[] => {
+  try {
+    const data = typeof localStorage === 'undefined'
+      ? undefined
+      : loadVersioned<Record<string, GenerationCheckpoint>>(LEGACY_STORAGE_KEY);
+    return data ? Object.entries(data).map(([id, checkpoint]) => ({ ...checkpoint, id })) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Singleton instance
+export const generationCheckpoints = new GenerationCheckpointStore();
+
+export default GenerationCheckpointStore;
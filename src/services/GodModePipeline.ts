@@ -0,0 +1,231 @@
+/**
+ * God Mode Optimization Pipeline
+ * Per-URL refresh loop: fetch -> score -> patch -> structural polish ->
+ * quality gate -> re-score. Scores come from the QualityRuleEngine's refresh
+ * profile; only writes back when the score improves without new blocking
+ * rule failures.
+ */
+
+import { QualityGate, QualityCheckResult } from './QualityGate';
+import { performSurgicalUpdate } from '../contentUtils';
+import { extractSlugFromUrl } from '../utils';
+import { ServiceCallAI } from '../types';
+import { callStructured } from './PromptSchemas';
+
+export interface WordPressPost {
+  id: number;
+  link?: string;
+  title?: { raw?: string; rendered?: string };
+  /** Only present with context=edit; `raw` keeps block comments and shortcodes intact */
+  content?: { raw?: string; rendered?: string };
+  excerpt?: { raw?: string; rendered?: string };
+  meta?: Record<string, any>;
+}
+
+export interface GodModePipelineDeps {
+  callAI: ServiceCallAI;
+  /** Must fetch with context=edit: the pipeline reads and writes back `content.raw` */
+  fetchPostBySlug: (slug: string) => Promise<WordPressPost | null>;
+  /** Scores are the quality engine's before/after values, recorded with the revision */
+  updatePostContent: (postId: number, html: string, scores: { before: number; after: number }) => Promise<void>;
+  onLog?: (message: string) => void;
+}
+
+export interface GodModePipelineOptions {
+  /** Max number of H2 sections sent through the structural guardian */
+  maxGuardianSections?: number;
+  signal?: AbortSignal;
+  /** Run every step but never call updatePostContent */
+  dryRun?: boolean;
+  /** Links to this host count as internal, as in the Review tab */
+  siteUrl?: string;
+}
+
+export interface GodModeUrlResult {
+  url: string;
+  postId: number | null;
+  beforeScore: number;
+  afterScore: number;
+  delta: number;
+  /** Passed every gate; `applied` is only true if it was also written */
+  wouldApply: boolean;
+  applied: boolean;
+  reason: string;
+  patchesApplied: number;
+  sectionsPolished: number;
+  beforeHtml: string;
+  afterHtml: string;
+  quality: QualityCheckResult | null;
+  /**
+   * Provider-reported tokens as recorded by the cost ledger; `estimated` is set
+   * when some call reported nothing and was counted at ~4 chars per token
+   */
+  usage: { inputTokens: number; outputTokens: number; estimated: boolean };
+}
+
+const DEFAULT_GUARDIAN_SECTIONS = 3;
+
+// Written by WordPressPublisher.buildSeoMeta, one key per SEO plugin
+const META_DESCRIPTION_KEYS = ['_yoast_wpseo_metadesc', 'rank_math_description', '_aioseo_description'];
+
+/**
+ * The SEO plugin's meta description, else the excerpt. Accepts REST
+ * `{ raw, rendered }` fields or the plain strings of an update.
+ */
+export const postMetaDescription = (post: { excerpt?: unknown; meta?: Record<string, any> }): string | undefined => {
+  const fromMeta = META_DESCRIPTION_KEYS.map(key => post.meta?.[key]).find(value => typeof value === 'string' && value.trim());
+  if (fromMeta) return fromMeta;
+  const excerpt: any = post.excerpt;
+  const text = (typeof excerpt === 'string' ? excerpt : excerpt?.raw || excerpt?.rendered || '').replace(/<[^>]*>/g, '').trim();
+  return text || undefined;
+};
+
+const countTags = (html: string, tag: string) => (html.match(new RegExp(`<${tag}[\\s>]`, 'gi')) || []).length;
+
+/**
+ * Guardian output must keep the section skeleton intact
+ */
+export const preservesStructure = (before: string, after: string): boolean =>
+  ['h2', 'h3', 'img', 'table', 'ul', 'ol', 'iframe'].every(tag => countTags(before, tag) === countTags(after, tag)) &&
+  (after.match(/<a\s/gi) || []).length >= (before.match(/<a\s/gi) || []).length;
+
+/**
+ * Split HTML into the intro plus one chunk per H2 section
+ */
+export const splitIntoSections = (html: string): string[] => {
+  const parts = html.split(/(?=<h2[\s>])/i);
+  return parts.filter(part => part.trim().length > 0);
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new Error('Aborted');
+};
+
+export async function optimizeUrl(
+  url: string,
+  deps: GodModePipelineDeps,
+  options: GodModePipelineOptions = {}
+): Promise<GodModeUrlResult> {
+  const { onLog } = deps;
+  const { signal, dryRun = false, siteUrl } = options;
+  const usage = { inputTokens: 0, outputTokens: 0, estimated: false };
+  const callAI: ServiceCallAI = async (promptKey, args, format, grounding, callOptions) => {
+    let reported = false;
+    const text = await deps.callAI(promptKey, args, format, grounding, {
+      ...callOptions,
+      onUsage: callUsage => {
+        reported = true;
+        usage.inputTokens += callUsage.inputTokens;
+        usage.outputTokens += callUsage.outputTokens;
+        callOptions?.onUsage?.(callUsage);
+      },
+    });
+    if (!reported) {
+      usage.inputTokens += Math.ceil(JSON.stringify(args).length / 4);
+      usage.outputTokens += Math.ceil(text.length / 4);
+      usage.estimated = true;
+    }
+    return text;
+  };
+  const maxSections = options.maxGuardianSections ?? DEFAULT_GUARDIAN_SECTIONS;
+
+  const skip = (reason: string, postId: number | null = null, html = ''): GodModeUrlResult => ({
+    url, postId, beforeScore: 0, afterScore: 0, delta: 0, wouldApply: false, applied: false, reason,
+    patchesApplied: 0, sectionsPolished: 0, beforeHtml: html, afterHtml: html, quality: null, usage,
+  });
+
+  const slug = extractSlugFromUrl(url);
+  if (!slug) return skip('could not derive slug');
+
+  const post = await deps.fetchPostBySlug(slug);
+  if (!post) return skip(`no WordPress post found for "${slug}"`);
+
+  // Writing `rendered` back would flatten Gutenberg blocks and expand shortcodes for good
+  if (typeof post.content?.raw !== 'string') return skip('raw post content unavailable (needs context=edit)', post.id);
+  const beforeHtml = post.content.raw;
+  const title = (post.title?.raw || post.title?.rendered || slug.replace(/-/g, ' ')).toString();
+  if (!beforeHtml.trim()) return skip('post has no content', post.id, beforeHtml);
+  // Drop a subtitle after ": ", " | " or " – "; hyphenated words like "Wi-Fi" stay whole
+  const keyword = title.replace(/<[^>]*>/g, '').replace(/\b(19|20)\d{2}\b/g, '').replace(/(?::\s|\s\|\s|\s–\s).*$/, '').trim() || title;
+
+  // 1. Baseline score, with the same site, title and meta inputs the Review tab scores with
+  const qualityInput = { siteUrl, title: title.replace(/<[^>]*>/g, ''), metaDescription: postMetaDescription(post) };
+  const qualityBefore = QualityGate.preflightCheck(beforeHtml, keyword, 'refresh', qualityInput);
+  const beforeScore = qualityBefore.report.score;
+  onLog?.(`Baseline score ${beforeScore} for "${title}" (${qualityBefore.report.failures.length} rules failing)`);
+  throwIfAborted(signal);
+
+  // 2. Surgical patches for outdated facts
+  const refresh = await callStructured(callAI, 'content_refresher', [beforeHtml, title, keyword, null, null], { signal });
+
+  const { patches } = refresh;
+
+  let html = beforeHtml;
+  const touchedSections = new Set<number>();
+  let patchesApplied = 0;
+  for (const patch of patches) {
+    if (!html.includes(patch.original_html)) continue;
+    const sectionIndex = splitIntoSections(html).findIndex(section => section.includes(patch.original_html));
+    // A function replacer, so "$&" or "$1" in model output is inserted literally
+    html = html.replace(patch.original_html, () => patch.updated_html);
+    if (sectionIndex >= 0) touchedSections.add(sectionIndex);
+    patchesApplied++;
+  }
+  onLog?.(`Applied ${patchesApplied}/${patches.length} refresh patches`);
+  throwIfAborted(signal);
+
+  // 3. Structural polish on the sections we touched (or the intro if none)
+  const sections = splitIntoSections(html);
+  const targets = (touchedSections.size > 0 ? Array.from(touchedSections) : [0]).slice(0, maxSections);
+  let sectionsPolished = 0;
+  for (const index of targets) {
+    const original = sections[index];
+    if (!original) continue;
+    throwIfAborted(signal);
+    try {
+      const polished = await callAI('god_mode_structural_guardian', [original, [keyword], title], 'html');
+      if (polished.trim() && preservesStructure(original, polished)) {
+        sections[index] = polished;
+        sectionsPolished++;
+      } else {
+        onLog?.(`Guardian output for section ${index + 1} broke structure; kept original`);
+      }
+    } catch (e: any) {
+      onLog?.(`Guardian failed on section ${index + 1}: ${e?.message || 'error'}`);
+    }
+  }
+  html = sections.join('');
+
+  // 4. Missing blocks (FAQ) appended surgically
+  const faqHtml = refresh.faqHtml;
+  if (faqHtml && !/frequently asked questions|<h2[^>]*>\s*faq/i.test(html)) {
+    html = performSurgicalUpdate(html, { faqHtml });
+  }
+
+  // 5. Gate and re-score
+  const qualityAfter = QualityGate.preflightCheck(html, keyword, 'refresh', qualityInput);
+  const afterScore = qualityAfter.report.score;
+  const delta = afterScore - beforeScore;
+
+  const base = {
+    url, postId: post.id, beforeScore, afterScore, delta,
+    patchesApplied, sectionsPolished, beforeHtml, afterHtml: html, quality: qualityAfter, usage,
+  };
+  const reject = (reason: string): GodModeUrlResult => ({ ...base, wouldApply: false, applied: false, reason });
+
+  if (html === beforeHtml) return reject('no changes proposed');
+  const wasBlocking = new Set(qualityBefore.report.blocking.map(r => r.id));
+  const newlyBlocking = qualityAfter.report.blocking.filter(r => !wasBlocking.has(r.id));
+  if (newlyBlocking.length > 0) {
+    return reject(`quality gate regressed (${newlyBlocking.map(r => r.message).join('; ')})`);
+  }
+  if (delta <= 0) return reject(`score did not improve (${beforeScore} -> ${afterScore})`);
+
+  if (dryRun) {
+    return { ...base, wouldApply: true, applied: false, reason: `dry run: would update, score ${beforeScore} -> ${afterScore}` };
+  }
+
+  throwIfAborted(signal);
+  await deps.updatePostContent(post.id, html, { before: beforeScore, after: afterScore });
+  return { ...base, wouldApply: true, applied: true, reason: `score ${beforeScore} -> ${afterScore}` };
+}
@@ -0,0 +1,274 @@
+/**
+ * God Mode Dry-Run Report
+ * Collects what a God Mode run would have changed, exports it as JSON or a
+ * standalone HTML page, and replays an approved report as the real run.
+ */
+
+import { diffHtml, diffWords } from './ContentDiff';
+import { extractSlugFromUrl } from '../utils';
+import type { WordPressPost } from './GodModePipeline';
+
+export const REPORT_VERSION = 1;
+
+export interface ReportHunk {
+  changes: string[];
+  before: string;
+  after: string;
+}
+
+export interface GodModeReportEntry {
+  url: string;
+  postId: number | null;
+  beforeScore: number;
+  afterScore: number;
+  delta: number;
+  wouldApply: boolean;
+  reason: string;
+  hunks: ReportHunk[];
+  linksAdded: string[];
+  linksRemoved: string[];
+  schemaAdded: string[];
+  estimatedTokens: { input: number; output: number };
+  /** False when every token was provider-reported; reports saved before this flag were all estimated */
+  tokensEstimated?: boolean;
+  estimatedCost: number;
+  /** Hash of the live content the proposal was computed against */
+  baseHash: string;
+  proposedHtml: string;
+}
+
+export interface GodModeReport {
+  version: number;
+  id: string;
+  createdAt: string;
+  siteUrl: string;
+  entries: GodModeReportEntry[];
+}
+
+export interface ReplayDeps {
+  fetchPostBySlug: (slug: string) => Promise<WordPressPost | null>;
+  updatePostContent: (postId: number, html: string, entry: GodModeReportEntry) => Promise<void>;
+  onLog?: (message: string) => void;
+}
+
+export interface ReplayResult {
+  applied: string[];
+  skipped: { url: string; reason: string }[];
+}
+
+/**
+ * FNV-1a; only used to detect that a post changed since the dry run
+ */
+export const hashContent = (html: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < html.length; i++) {
+    hash ^= html.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const schemaTypes = (html: string): string[] => {
+  const types: string[] = [];
+  const ldBlocks = html.match(/<script[^>]*application\/ld\+json[^>]*>[\s\S]*?<\/script>/gi) || [];
+  for (const block of ldBlocks) {
+    for (const match of block.matchAll(/"@type"\s*:\s*"([^"]+)"/g)) types.push(match[1]!);
+  }
+  for (const match of html.matchAll(/itemtype=["']https?:\/\/schema\.org\/(\w+)["']/gi)) types.push(match[1]!);
+  return types;
+};
+
+const added = (before: string[], after: string[]): string[] => {
+  const remaining = [...before];
+  return after.filter(item => {
+    const index = remaining.indexOf(item);
+    if (index < 0) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+};
+
+export function createReport(siteUrl: string): GodModeReport {
+  return {
+    version: REPORT_VERSION,
+    id: `report-${Date.now()}`,
+    createdAt: new Date().toISOString(),
+    siteUrl,
+    entries: [],
+  };
+}
+
+export function createReportEntry(
+  input: {
+    url: string;
+    postId: number | null;
+    beforeScore: number;
+    afterScore: number;
+    wouldApply: boolean;
+    reason: string;
+    beforeHtml: string;
+    afterHtml: string;
+    /** `cost` as priced by the cost ledger for the models that actually served the calls */
+    usage: { inputTokens: number; outputTokens: number; estimated?: boolean; cost: number };
+  }
+): GodModeReportEntry {
+  const diff = diffHtml(input.beforeHtml, input.afterHtml);
+  return {
+    url: input.url,
+    postId: input.postId,
+    beforeScore: input.beforeScore,
+    afterScore: input.afterScore,
+    delta: input.afterScore - input.beforeScore,
+    wouldApply: input.wouldApply,
+    reason: input.reason,
+    hunks: diff.hunks.map(h => ({
+      changes: h.changes.map(c => c.label),
+      before: h.before.map(b => b.text).join('\n'),
+      after: h.after.map(b => b.text).join('\n'),
+    })),
+    linksAdded: diff.hunks.flatMap(h => h.linksAdded),
+    linksRemoved: diff.hunks.flatMap(h => h.linksRemoved),
+    schemaAdded: added(schemaTypes(input.beforeHtml), schemaTypes(input.afterHtml)),
+    estimatedTokens: { input: input.usage.inputTokens, output: input.usage.outputTokens },
+    tokensEstimated: input.usage.estimated ?? false,
+    estimatedCost: input.usage.cost,
+    baseHash: hashContent(input.beforeHtml),
+    proposedHtml: input.afterHtml,
+  };
+}
+
+export function summarizeReport(report: GodModeReport) {
+  const proposals = report.entries.filter(e => e.wouldApply);
+  return {
+    urls: report.entries.length,
+    proposals: proposals.length,
+    linksAdded: proposals.reduce((n, e) => n + e.linksAdded.length, 0),
+    schemaAdded: proposals.reduce((n, e) => n + e.schemaAdded.length, 0),
+    inputTokens: report.entries.reduce((n, e) => n + e.estimatedTokens.input, 0),
+    outputTokens: report.entries.reduce((n, e) => n + e.estimatedTokens.output, 0),
+    tokensEstimated: report.entries.some(e => e.tokensEstimated !== false),
+    estimatedCost: report.entries.reduce((n, e) => n + e.estimatedCost, 0),
+  };
+}
+
+export const reportToJson = (report: GodModeReport): string => JSON.stringify(report, null, 2);
+
+/**
+ * Validate an imported report before it can be replayed
+ */
+export function parseReport(json: string): GodModeReport {
+  const data = JSON.parse(json);
+  if (!data || data.version !== REPORT_VERSION || !Array.isArray(data.entries)) {
+    throw new Error('Not a God Mode report (or an unsupported version)');
+  }
+  for (const entry of data.entries) {
+    if (typeof entry?.url !== 'string' || typeof entry?.proposedHtml !== 'string' || typeof entry?.baseHash !== 'string') {
+      throw new Error('Report entry is missing url, proposedHtml or baseHash');
+    }
+  }
+  return data as GodModeReport;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderWordDiff = (before: string, after: string) =>
+  diffWords(before, after)
+    .map(op => {
+      const text = escapeHtml(op.items.join(''));
+      if (op.type === 'insert') return `<ins>${text}</ins>`;
+      if (op.type === 'delete') return `<del>${text}</del>`;
+      return text;
+    })
+    .join('');
+
+export function formatTokens(tokens: number, estimated: boolean): string {
+  return estimated ? `~${tokens.toLocaleString()} tokens (estimated)` : `${tokens.toLocaleString()} tokens`;
+}
+
+/**
+ * Standalone HTML page for sharing with reviewers
+ */
+export function reportToHtml(report: GodModeReport): string {
+  const totals = summarizeReport(report);
+  const rows = report.entries.map(entry => `
+    <section class="entry ${entry.wouldApply ? 'apply' : 'skip'}">
+      <h2><a href="${escapeHtml(entry.url)}">${escapeHtml(entry.url)}</a></h2>
+      <p><strong>${entry.wouldApply ? 'Would update' : 'No change'}</strong> &middot; ${escapeHtml(entry.reason)}</p>
+      <p>Health ${entry.beforeScore} &rarr; ${entry.afterScore} (${entry.delta >= 0 ? '+' : ''}${entry.delta})
+        &middot; links +${entry.linksAdded.length}/&minus;${entry.linksRemoved.length}
+        &middot; schema ${entry.schemaAdded.length ? escapeHtml(entry.schemaAdded.join(', ')) : 'none'}
+        &middot; ${formatTokens(entry.estimatedTokens.input + entry.estimatedTokens.output, entry.tokensEstimated !== false)} ($${entry.estimatedCost.toFixed(4)})</p>
+      ${entry.linksAdded.length ? `<p>Links added: ${entry.linksAdded.map(escapeHtml).join(', ')}</p>` : ''}
+      ${entry.hunks.map(hunk => `
+        <div class="hunk">
+          <ul>${hunk.changes.map(c => `<li>${escapeHtml(c)}</li>`).join('')}</ul>
+          <div class="words">${renderWordDiff(hunk.before, hunk.after)}</div>
+        </div>`).join('')}
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>God Mode dry run &ndash; ${escapeHtml(report.siteUrl)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; color: #1e293b; }
+  .entry { border: 1px solid #e2e8f0; border-radius: 8px; padding: 1rem 1.5rem; margin: 1rem 0; }
+  .entry.apply { border-left: 4px solid #10b981; }
+  .entry.skip { border-left: 4px solid #94a3b8; opacity: 0.8; }
+  .hunk { background: #f8fafc; padding: 0.75rem; margin: 0.5rem 0; border-radius: 6px; }
+  .words { white-space: pre-wrap; line-height: 1.6; }
+  ins { background: #d1fae5; text-decoration: none; }
+  del { background: #fee2e2; }
+  h2 { font-size: 1rem; word-break: break-all; }
+</style>
+</head>
+<body>
+<h1>God Mode dry run</h1>
+<p>${escapeHtml(report.siteUrl)} &middot; ${escapeHtml(report.createdAt)} &middot; report ${escapeHtml(report.id)}</p>
+<p>${totals.proposals} of ${totals.urls} URLs would be updated &middot; ${totals.linksAdded} links added &middot;
+  ${totals.schemaAdded} schema blocks added &middot; ${formatTokens(totals.inputTokens + totals.outputTokens, totals.tokensEstimated)}
+  ($${totals.estimatedCost.toFixed(4)})</p>
+${rows}
+</body>
+</html>`;
+}
+
+/**
+ * Apply the proposals from an approved report. Posts edited since the dry
+ * run are skipped, since the proposal was computed against older content.
+ */
+export async function replayReport(
+  report: GodModeReport,
+  deps: ReplayDeps,
+  shouldStop: () => boolean = () => false
+): Promise<ReplayResult> {
+  const result: ReplayResult = { applied: [], skipped: [] };
+
+  for (const entry of report.entries.filter(e => e.wouldApply)) {
+    if (shouldStop()) break;
+    const skip = (reason: string) => {
+      result.skipped.push({ url: entry.url, reason });
+      deps.onLog?.(`Skipped ${entry.url}: ${reason}`);
+    };
+
+    try {
+      const post = await deps.fetchPostBySlug(extractSlugFromUrl(entry.url));
+      if (!post) {
+        skip('post no longer exists');
+        continue;
+      }
+      if (hashContent((post.content?.raw || '').toString()) !== entry.baseHash) {
+        skip('post changed since the dry run');
+        continue;
+      }
+      await deps.updatePostContent(post.id, entry.proposedHtml, entry);
+      result.applied.push(entry.url);
+      deps.onLog?.(`Applied ${entry.url} (${entry.beforeScore} -> ${entry.afterScore})`);
+    } catch (e: any) {
+      skip(e?.message || 'update failed');
+    }
+  }
+  return result;
+}
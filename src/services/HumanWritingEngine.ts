@@ -1,34 +1,17 @@
 /**
  * GOD MODE 2.0: Human Writing Engine
- * Alex Hormozi style injection - 90% reduction in AI detection
+ * Post-processes drafts into the brand voice of a VoiceProfile: swaps AI
+ * phrases, applies the voice's contraction policy and person, and adds the
+ * openers, questions and sentence starters the voice allows. Randomness is
+ * seeded, so a draft humanizes the same way every time, and every edit is
+ * logged with its offset so Review can highlight and revert it.
  */
 
-// Hormozi-approved sentence openers
-import {
-  factValidationEngine,
-  stalenessDetector,
-  enhancedQualityCheck,
-  FactValidationEngine,
-  StalenessDetector,
-} from './SOTAEnhancements';
-import { referenceValidator } from './ReferenceValidator';
-
-const HORMOZI_OPENERS = [
-  'Look.',
-  "Here's the thing.",
-  'Most people fail at this.',
-  'The truth?',
-  'But here\'s what nobody tells you.',
-  'And that\'s exactly why',
-  'You know what\'s crazy?',
-  'Real talk.',
-  'Stop.',
-  'Think about it.',
-  'Here\'s the deal.',
-  'Now listen.',
-  'Pay attention.',
-  'This is important.',
-];
+import { HumanizerEdit, HumanizerEditKind, HumanizerLog } from '../types';
+import { enhancedQualityCheck } from './SOTAEnhancements';
+import { VoiceProfile, voiceProfiles } from './VoiceProfiles';
+
+export type { HumanizerEdit, HumanizerEditKind, HumanizerLog };
 
 // Natural contractions humans use
 const CONTRACTIONS_MAP: Record<string, string> = {
@@ -61,7 +44,14 @@ const CONTRACTIONS_MAP: Record<string, string> = {
   'let us': "let's",
 };
 
-// AI phrases that MUST be replaced
+// Contractions spelled out for voices that never contract; the first
+// formal form wins where two map to the same contraction
+const EXPANSIONS_MAP: Record<string, string> = Object.entries(CONTRACTIONS_MAP).reduce<Record<string, string>>(
+  (map, [formal, contraction]) => (map[contraction] ? map : { ...map, [contraction]: formal === 'can not' ? 'cannot' : formal }),
+  {}
+);
+
+// AI phrases that MUST be replaced; a voice's phraseReplacements take precedence
 const AI_PHRASE_REPLACEMENTS: Record<string, string[]> = {
   'delve into': ['dig into', 'explore', 'look at', 'break down'],
   'delve': ['dig', 'explore', 'look'],
@@ -107,219 +97,405 @@ const AI_PHRASE_REPLACEMENTS: Record<string, string[]> = {
   'paramount': ['crucial', 'key', 'essential'],
 };
 
-// Rhetorical devices to inject
-const RHETORICAL_QUESTIONS = [
-  'So what does this mean for you?',
-  'Why does this matter?',
-  'What\'s the catch?',
-  'Sound familiar?',
-  'Make sense?',
-  'See where I\'m going with this?',
-  'Get it?',
-  'You with me?',
+// Stiff constructions rewritten for the voice's person; null leaves them alone
+const PERSON_REWRITES: { find: string; first: string | null; second: string | null; third: string | null }[] = [
+  { find: 'It is important to', first: 'We need to', second: 'You need to', third: null },
+  { find: 'One should', first: 'We should', second: 'You should', third: null },
 ];
 
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// ==================== SEEDED RANDOMNESS ====================
+
+type Rng = () => number;
+
+/** mulberry32: small, fast and good enough to pick between alternatives */
+const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** FNV-1a hash of the draft, the default seed, so the same draft always humanizes the same way */
+const seedFor = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const pick = <T>(rng: Rng, values: T[]): T => values[Math.floor(rng() * values.length)]!;
+
+/** Keep the capitalisation of the first letter of what was replaced */
+const matchCase = (original: string, replacement: string) =>
+  original[0] === original[0]?.toUpperCase() ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+
+// ==================== EDITS ====================
+
+export interface HumanizeOptions {
+  /** Defaults to a hash of the input, so re-running on the same draft is reproducible */
+  seed?: number;
+}
+
+export interface HumanizeResult {
+  html: string;
+  log: HumanizerLog;
+}
+
+type PendingEdit = Pick<HumanizerEdit, 'kind' | 'offset' | 'original' | 'replacement'>;
+
+// Characters of preceding text kept with each edit to find it again
+const CONTEXT_CHARS = 24;
+
+const editEnd = (edit: PendingEdit) => edit.offset + edit.replacement.length;
+
+/** Text between tags with its offset in `html`, so attributes and URLs are never rewritten */
+const textSegments = (html: string): { start: number; text: string }[] => {
+  const segments: { start: number; text: string }[] = [];
+  let last = 0;
+  for (const tag of html.matchAll(/<[^>]*>/g)) {
+    if (tag.index > last) segments.push({ start: last, text: html.slice(last, tag.index) });
+    last = tag.index + tag[0].length;
+  }
+  if (last < html.length) segments.push({ start: last, text: html.slice(last) });
+  return segments;
+};
+
+/** Every match of `regex` in the text of `html`, with offsets into `html` */
+const textMatches = (html: string, regex: RegExp): { offset: number; match: RegExpMatchArray }[] =>
+  textSegments(html).flatMap(({ start, text }) =>
+    Array.from(text.matchAll(regex), match => ({ offset: start + match.index!, match }))
+  );
+
+/**
+ * Apply one step's candidate edits (offsets into `html`) and carry the
+ * earlier steps' edits through. A candidate that overlaps an earlier edit, or
+ * one found before it in this step, is dropped so every edit stays
+ * independently revertible.
+ */
+function applyStep(html: string, edits: PendingEdit[], candidates: PendingEdit[]): { html: string; edits: PendingEdit[] } {
+  const accepted: PendingEdit[] = [];
+  const overlaps = (a: PendingEdit, start: number, end: number) => a.offset < end && start < a.offset + a.original.length;
+  for (const candidate of candidates) {
+    const start = candidate.offset;
+    const end = candidate.offset + candidate.original.length;
+    if (edits.some(edit => edit.offset < end && start < editEnd(edit))) continue;
+    if (accepted.some(other => overlaps(other, start, end))) continue;
+    accepted.push(candidate);
+  }
+  if (accepted.length === 0) return { html, edits };
+  accepted.sort((a, b) => a.offset - b.offset);
+
+  let output = '';
+  let cursor = 0;
+  const applied = accepted.map(candidate => {
+    output += html.slice(cursor, candidate.offset);
+    const offset = output.length;
+    output += candidate.replacement;
+    cursor = candidate.offset + candidate.original.length;
+    return { ...candidate, offset };
+  });
+  output += html.slice(cursor);
+
+  const carried = edits.map(edit => {
+    const shift = accepted
+      .filter(candidate => candidate.offset + candidate.original.length <= edit.offset)
+      .reduce((sum, candidate) => sum + candidate.replacement.length - candidate.original.length, 0);
+    return { ...edit, offset: edit.offset + shift };
+  });
+  return { html: output, edits: [...carried, ...applied] };
+}
+
+/** Edits in document order, with the text before each one as it now reads */
+const withContext = (html: string, edits: Omit<HumanizerEdit, 'before'>[]): HumanizerEdit[] =>
+  [...edits]
+    .sort((a, b) => a.offset - b.offset)
+    .map(edit => ({ ...edit, before: html.slice(Math.max(0, edit.offset - CONTEXT_CHARS), edit.offset) }));
+
+/** The occurrence of `needle` at or after `from` closest to `hint`, or -1 */
+const nearestIndex = (html: string, needle: string, hint: number, from: number): number => {
+  let best = -1;
+  for (let at = html.indexOf(needle, Math.max(0, from)); at !== -1; at = html.indexOf(needle, at + 1)) {
+    if (best === -1 || Math.abs(at - hint) < Math.abs(best - hint)) best = at;
+    if (at > hint) break;
+  }
+  return best;
+};
+
+const escapeAttribute = (text: string) =>
+  text.replace(/<[^>]*>/g, '').replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const HUMANIZER_EDIT_LABELS: Record<HumanizerEditKind, string> = {
+  phrase: 'AI phrase replaced',
+  rewrite: 'Stiff construction rewritten',
+  contraction: 'Contraction',
+  restructure: 'Sentence restructured',
+  opener: 'Section opener added',
+  question: 'Rhetorical question added',
+};
+
 export class HumanWritingEngine {
   /**
-   * Main humanization function - transforms AI content to human-like
+   * Main humanization function - rewrites a draft into `voice`
    */
-  static humanize(content: string): string {
-    let result = content;
-    
-    // Step 1: Replace AI phrases
-    result = this.replaceAIPhrases(result);
-    
-    // Step 2: Add contractions
-    result = this.addContractions(result);
-    
-    // Step 3: Vary sentence structure
-    result = this.varySentenceStructure(result);
-    
-    // Step 4: Inject Hormozi patterns
-    result = this.injectHormoziPatterns(result);
-    
-    // Step 5: Add strategic imperfections
-    result = this.addStrategicImperfections(result);
-    
-    return result;
+  static humanize(content: string, voice: VoiceProfile = voiceProfiles.get(), options: HumanizeOptions = {}): string {
+    return this.humanizeWithLog(content, voice, options).html;
   }
-  
+
   /**
-   * Replace banned AI phrases with human alternatives
+   * Humanize and log every edit with its offset in the output. The same
+   * seed, voice and input always give the same output and log.
    */
-  private static replaceAIPhrases(content: string): string {
-    let result = content;
-    
-    Object.entries(AI_PHRASE_REPLACEMENTS).forEach(([aiPhrase, humanAlternatives]) => {
-      const regex = new RegExp(aiPhrase, 'gi');
-      result = result.replace(regex, () => {
-        return humanAlternatives[Math.floor(Math.random() * humanAlternatives.length)];
-      });
-    });
-    
-    return result;
+  static humanizeWithLog(content: string, voice: VoiceProfile = voiceProfiles.get(), options: HumanizeOptions = {}): HumanizeResult {
+    const seed = options.seed ?? seedFor(content);
+    const rng = createRng(seed);
+    const steps: ((html: string) => PendingEdit[])[] = [
+      // Step 1: Replace AI phrases
+      html => this.replaceAIPhrases(html, voice, rng),
+      // Step 2: Rewrite stiff constructions (before contracting them away)
+      html => this.rewriteStiffConstructions(html, voice),
+      // Step 3: Apply the contraction policy
+      html => this.applyContractions(html, voice, rng),
+      // Step 4: Vary sentence structure
+      html => this.varySentenceStructure(html, voice, rng),
+      // Step 5: Open some sections the way the voice does
+      html => this.injectSectionOpeners(html, voice, rng),
+      // Step 6: Add strategic imperfections
+      html => this.addStrategicImperfections(html, voice, rng),
+    ];
+
+    let state = { html: content, edits: [] as PendingEdit[] };
+    for (const step of steps) state = applyStep(state.html, state.edits, step(state.html));
+
+    const edits = withContext(state.html, state.edits.sort((a, b) => a.offset - b.offset).map((edit, i) => ({ ...edit, id: i + 1 })));
+    return { html: state.html, log: { seed, voice: voice.id, edits } };
   }
-  
+
   /**
-   * Add natural contractions
+   * Replace banned AI phrases with alternatives that fit the voice
    */
-  private static addContractions(content: string): string {
-    let result = content;
-    
-    Object.entries(CONTRACTIONS_MAP).forEach(([formal, contraction]) => {
-      // Only replace ~70% to keep some formal instances
-      const regex = new RegExp(`\\b${formal}\\b`, 'gi');
-      result = result.replace(regex, (match) => {
-        return Math.random() > 0.3 ? contraction : match;
-      });
+  private static replaceAIPhrases(content: string, voice: VoiceProfile, rng: Rng): PendingEdit[] {
+    const replacements = { ...AI_PHRASE_REPLACEMENTS, ...voice.phraseReplacements };
+
+    // Longer phrases are listed first, so "delve into" wins over "delve"
+    return Object.entries(replacements).flatMap(([aiPhrase, alternatives]) => {
+      if (alternatives.length === 0) return [];
+      return textMatches(content, new RegExp(`\\b${escapeRegExp(aiPhrase)}\\b`, 'gi')).map(({ offset, match }) => ({
+        kind: 'phrase' as const,
+        offset,
+        original: match[0],
+        replacement: matchCase(match[0], pick(rng, alternatives)),
+      }));
     });
-    
-    return result;
   }
-  
+
+  /**
+   * Conversational rewrites in the voice's person; "Here's why" needs a voice that contracts
+   */
+  private static rewriteStiffConstructions(content: string, voice: VoiceProfile): PendingEdit[] {
+    const conversational = [
+      { find: 'This is because', replace: voice.contractions === 'never' ? 'The reason:' : "Here's why:" },
+      { find: 'It can be said that', replace: 'Simply put,' },
+      { find: 'In order to', replace: 'To' },
+      ...PERSON_REWRITES.flatMap(rewrite => {
+        const replace = rewrite[voice.person];
+        return replace ? [{ find: rewrite.find, replace }] : [];
+      }),
+    ];
+
+    return conversational.flatMap(({ find, replace }) =>
+      textMatches(content, new RegExp(`\\b${escapeRegExp(find)}\\b`, 'gi')).map(({ offset, match }) => ({
+        kind: 'rewrite' as const,
+        offset,
+        original: match[0],
+        replacement: matchCase(match[0], replace),
+      }))
+    );
+  }
+
+  /**
+   * Contract (always, or ~70% for 'natural') or spell contractions out ('never')
+   */
+  private static applyContractions(content: string, voice: VoiceProfile, rng: Rng): PendingEdit[] {
+    const map = voice.contractions === 'never' ? EXPANSIONS_MAP : CONTRACTIONS_MAP;
+    const rate = voice.contractions === 'natural' ? 0.7 : 1;
+
+    return Object.entries(map).flatMap(([from, to]) =>
+      textMatches(content, new RegExp(`\\b${escapeRegExp(from)}(?![\\w'])`, 'gi'))
+        .filter(() => rng() < rate)
+        .map(({ offset, match }) => ({ kind: 'contraction' as const, offset, original: match[0], replacement: matchCase(match[0], to) }))
+    );
+  }
+
   /**
-   * Vary sentence structure for natural rhythm
+   * Vary sentence starts for natural rhythm, in paragraphs of 3+ sentences
    */
-  private static varySentenceStructure(content: string): string {
-    // Split into paragraphs
-    const paragraphs = content.split(/<\/p>/gi);
-    
-    const processed = paragraphs.map(paragraph => {
-      // Extract sentences
-      const sentenceRegex = /([^.!?]+[.!?]+)/g;
-      const sentences = paragraph.match(sentenceRegex) || [];
-      
-      if (sentences.length < 3) return paragraph;
-      
-      // Occasionally add sentence fragments or vary starts
-      const varied = sentences.map((sentence, index) => {
-        // Every 4th sentence, make it punchy/short
-        if (index % 4 === 3 && sentence.length > 50) {
-          // Already short is fine
-        }
-        
-        // Occasionally start with "And" or "But" (natural in speech)
-        if (index > 0 && Math.random() > 0.85) {
-          const starters = ['And ', 'But ', 'So '];
-          const starter = starters[Math.floor(Math.random() * starters.length)];
-          if (!sentence.trim().startsWith(starter.trim())) {
-            return starter + sentence.trim().charAt(0).toLowerCase() + sentence.trim().slice(1);
-          }
-        }
-        
-        return sentence;
+  private static varySentenceStructure(content: string, voice: VoiceProfile, rng: Rng): PendingEdit[] {
+    if (voice.conjunctionStarters.length === 0) return [];
+
+    return Array.from(content.matchAll(/(<p(?:\s[^>]*)?>)([\s\S]*?)<\/p>/gi)).flatMap(paragraph => {
+      const open = paragraph[1]!;
+      const inner = paragraph[2]!;
+      if ((inner.match(/[.!?](\s|$)/g) || []).length < 3) return [];
+      const innerStart = paragraph.index! + open.length;
+
+      // Occasionally start a sentence with "And" or "But" (natural in speech);
+      // "I" and acronyms keep their case
+      return textMatches(inner, /([.!?]\s+)([A-Z][a-z]+)\b/g).flatMap(({ offset, match }) => {
+        if (rng() <= 0.85) return [];
+        const starter = pick(rng, voice.conjunctionStarters);
+        const word = match[2]!;
+        if (word === starter.trim()) return [];
+        return [{
+          kind: 'restructure' as const,
+          offset: innerStart + offset + match[1]!.length,
+          original: word,
+          replacement: `${starter}${word.toLowerCase()}`,
+        }];
       });
-      
-      return varied.join(' ');
     });
-    
-    return processed.join('</p>');
   }
-  
+
   /**
-   * Inject Hormozi-style patterns at strategic points
+   * Open every third section with one of the voice's openers
    */
-  private static injectHormoziPatterns(content: string): string {
-    // Find H2 headings and add openers after them occasionally
-    const h2Regex = /<\/h2>\s*<p>/gi;
-    let count = 0;
-    
-    return content.replace(h2Regex, (match) => {
-      count++;
-      // Every 3rd H2, add a Hormozi opener
-      if (count % 3 === 0) {
-        const opener = HORMOZI_OPENERS[Math.floor(Math.random() * HORMOZI_OPENERS.length)];
-        return `</h2>\n<p><strong>${opener}</strong> `;
-      }
-      return match;
-    });
+  private static injectSectionOpeners(content: string, voice: VoiceProfile, rng: Rng): PendingEdit[] {
+    if (voice.sectionOpeners.length === 0) return [];
+
+    // The opener goes at the start of the paragraph after every third H2
+    return Array.from(content.matchAll(/<\/h2>\s*<p>/gi))
+      .filter((_match, i) => (i + 1) % 3 === 0)
+      .map(match => ({
+        kind: 'opener' as const,
+        offset: match.index! + match[0].length,
+        original: '',
+        replacement: `<strong>${pick(rng, voice.sectionOpeners)}</strong> `,
+      }));
   }
-  
+
   /**
    * Add strategic "imperfections" that make content feel human
    */
-  private static addStrategicImperfections(content: string): string {
-    let result = content;
-    
-    // Add occasional rhetorical questions
-    const paragraphs = result.split('</p>');
+  private static addStrategicImperfections(content: string, voice: VoiceProfile, rng: Rng): PendingEdit[] {
+    if (voice.rhetoricalQuestions.length === 0) return [];
+
+    // Add an occasional rhetorical question, at the end of the paragraph a third of the way in
+    const paragraphs = content.split('</p>');
     const rhetoricIndex = Math.floor(paragraphs.length / 3);
-    
-    if (rhetoricIndex > 0 && rhetoricIndex < paragraphs.length) {
-      const question = RHETORICAL_QUESTIONS[Math.floor(Math.random() * RHETORICAL_QUESTIONS.length)];
-      paragraphs[rhetoricIndex] = paragraphs[rhetoricIndex] + ` ${question}`;
+    if (rhetoricIndex === 0 || rhetoricIndex >= paragraphs.length) return [];
+
+    const offset = paragraphs.slice(0, rhetoricIndex + 1).reduce((sum, paragraph) => sum + paragraph.length, 0) + rhetoricIndex * '</p>'.length;
+    return [{ kind: 'question', offset, original: '', replacement: ` ${pick(rng, voice.rhetoricalQuestions)}` }];
+  }
+
+  // ==================== CHANGE LOG ====================
+
+  /**
+   * The log's edits that are still in `html`, at their current offsets.
+   * Edits a later rewrite removed are left out.
+   */
+  static locateEdits(html: string, log: HumanizerLog): HumanizerEdit[] {
+    const located: Omit<HumanizerEdit, 'before'>[] = [];
+    let from = 0;
+    let drift = 0;
+    for (const edit of [...log.edits].sort((a, b) => a.offset - b.offset)) {
+      const needle = edit.before + edit.replacement;
+      const hint = edit.offset + drift - edit.before.length;
+      const start = hint >= Math.max(0, from - edit.before.length) && html.startsWith(needle, hint)
+        ? hint
+        : nearestIndex(html, needle, hint, from - edit.before.length);
+      if (start === -1) continue;
+      const offset = start + edit.before.length;
+      drift = offset - edit.offset;
+      from = offset + edit.replacement.length;
+      located.push({ ...edit, offset });
     }
-    
-    result = paragraphs.join('</p>');
-    
-    // Add conversational phrases
-    const conversational = [
-      { find: 'This is because', replace: "Here's why:" },
-      { find: 'It is important to', replace: 'You need to' },
-      { find: 'One should', replace: 'You should' },
-      { find: 'It can be said that', replace: 'Simply put,' },
-      { find: 'In order to', replace: 'To' },
-    ];
-    
-    conversational.forEach(({ find, replace }) => {
-      const regex = new RegExp(find, 'gi');
-      result = result.replace(regex, replace);
-    });
-    
-    return result;
+    return withContext(html, located);
   }
-  
+
+  /**
+   * Undo one edit. Returns null when the edit is no longer in `html`.
+   */
+  static revertEdit(html: string, log: HumanizerLog, id: number): HumanizeResult | null {
+    const located = this.locateEdits(html, log);
+    const target = located.find(edit => edit.id === id);
+    if (!target) return null;
+
+    const reverted = html.slice(0, target.offset) + target.original + html.slice(target.offset + target.replacement.length);
+    const shift = target.original.length - target.replacement.length;
+    const remaining = located
+      .filter(edit => edit.id !== id)
+      .map(edit => (edit.offset > target.offset ? { ...edit, offset: edit.offset + shift } : edit));
+    return { html: reverted, log: { ...log, edits: withContext(reverted, remaining) } };
+  }
+
+  /**
+   * `html` with each edit still in it wrapped in a <mark data-humanizer-edit="id">
+   */
+  static highlightEdits(html: string, log: HumanizerLog): string {
+    let output = '';
+    let cursor = 0;
+    for (const edit of this.locateEdits(html, log)) {
+      const title = `${HUMANIZER_EDIT_LABELS[edit.kind]}${edit.original ? `: ${edit.original}` : ''}`;
+      output += html.slice(cursor, edit.offset);
+      output += `<mark data-humanizer-edit="${edit.id}" title="${escapeAttribute(title)}">${edit.replacement}</mark>`;
+      cursor = edit.offset + edit.replacement.length;
+    }
+    return output + html.slice(cursor);
+  }
+
   /**
    * Calculate human score after processing
    */
-  static calculateScore(content: string): number {
+  static calculateScore(content: string, voice: VoiceProfile = voiceProfiles.get()): number {
     let score = 100;
     const textLower = content.toLowerCase();
-    
-    // Check for remaining AI phrases
-    Object.keys(AI_PHRASE_REPLACEMENTS).forEach(phrase => {
-      if (textLower.includes(phrase.toLowerCase())) {
+
+    // Check for remaining AI phrases and phrases the voice bans
+    const banned = new Set([...Object.keys(AI_PHRASE_REPLACEMENTS), ...voice.bannedPhrases.map(p => p.toLowerCase())]);
+    banned.forEach(phrase => {
+      if (textLower.includes(phrase)) {
         score -= 5;
       }
     });
-    
-    // Check for contractions (positive signal)
+
+    // Contractions are a positive signal unless the voice never uses them
     const contractionCount = (content.match(/\b(don't|won't|can't|you're|it's|that's)\b/gi) || []).length;
-    score += Math.min(10, contractionCount);
-    
+    score += voice.contractions === 'never' ? -Math.min(10, contractionCount * 2) : Math.min(10, contractionCount);
+
     // Check for varied sentence lengths
     const sentences = content.replace(/<[^>]*>/g, '').split(/[.!?]+/);
     const lengths = sentences.map(s => s.trim().split(/\s+/).length).filter(l => l > 0);
-    
+
     if (lengths.length > 5) {
       const avg = lengths.reduce((a, b) => a + b, 0) / lengths.length;
       const variance = lengths.reduce((acc, l) => acc + Math.pow(l - avg, 2), 0) / lengths.length;
       if (variance > 15) score += 5; // Good variety
     }
-    
-    // Check for Hormozi openers
-    const openerCount = HORMOZI_OPENERS.filter(opener => 
+
+    // Check for the voice's section openers
+    const openerCount = voice.sectionOpeners.filter(opener =>
       content.includes(opener.replace('.', ''))
     ).length;
     score += Math.min(5, openerCount * 2);
-    
+
     return Math.max(0, Math.min(100, score));
   }
-  
+
   /**
-   * Get list of detected AI patterns in content
+   * Get list of detected AI patterns and voice-banned phrases in content
    */
-  static detectAIPatterns(content: string): string[] {
-    const detected: string[] = [];
+  static detectAIPatterns(content: string, voice: VoiceProfile = voiceProfiles.get()): string[] {
     const textLower = content.toLowerCase();
-    
-    Object.keys(AI_PHRASE_REPLACEMENTS).forEach(phrase => {
-      if (textLower.includes(phrase.toLowerCase())) {
-        detected.push(phrase);
-      }
-    });
-    
-    return detected;
+    const phrases = new Set([...Object.keys(AI_PHRASE_REPLACEMENTS), ...voice.bannedPhrases]);
+    return Array.from(phrases).filter(phrase => textLower.includes(phrase.toLowerCase()));
   }
 }
 
@@ -0,0 +1,158 @@
+/**
+ * Image Generator
+ * Generates images with Gemini Imagen, falling back to OpenAI, and fills an
+ * article's image placeholders with the results.
+ */
+
+import { AI_MODELS } from '../constants';
+import { ApiClients, GeneratedContent } from '../types';
+
+export type ImageAspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+
+export interface ImageGenerationOptions {
+  count?: number;
+  aspectRatio?: ImageAspectRatio | string;
+}
+
+export interface GeneratedImageResult {
+  /** data: URL, safe to use directly as an <img> src */
+  src: string;
+  provider: 'gemini' | 'openai';
+  model: string;
+}
+
+export type ImageClients = Pick<ApiClients, 'gemini' | 'openai'>;
+
+export class ImageGenerationError extends Error {
+  constructor(message: string, public attempts: { provider: string; error: string }[]) {
+    super(message);
+    this.name = 'ImageGenerationError';
+  }
+}
+
+const MAX_IMAGES_PER_REQUEST = 4;
+
+// DALL-E 3 only supports three sizes; pick the closest orientation
+const OPENAI_SIZES: Record<string, '1024x1024' | '1792x1024' | '1024x1792'> = {
+  '1:1': '1024x1024',
+  '16:9': '1792x1024',
+  '4:3': '1792x1024',
+  '9:16': '1024x1792',
+  '3:4': '1024x1792',
+};
+
+const clampCount = (count?: number) => Math.min(Math.max(Math.round(count ?? 1), 1), MAX_IMAGES_PER_REQUEST);
+
+async function generateWithImagen(client: NonNullable<ImageClients['gemini']>, prompt: string, count: number, aspectRatio: string): Promise<GeneratedImageResult[]> {
+  const response = await client.models.generateImages({
+    model: AI_MODELS.GEMINI_IMAGEN,
+    prompt,
+    config: { numberOfImages: count, aspectRatio, outputMimeType: 'image/png' },
+  });
+
+  return (response.generatedImages || [])
+    .map(generated => generated.image)
+    .filter(image => !!image?.imageBytes)
+    .map(image => ({
+      src: `data:${image!.mimeType || 'image/png'};base64,${image!.imageBytes}`,
+      provider: 'gemini' as const,
+      model: AI_MODELS.GEMINI_IMAGEN,
+    }));
+}
+
+async function generateWithOpenAI(client: NonNullable<ImageClients['openai']>, prompt: string, count: number, aspectRatio: string): Promise<GeneratedImageResult[]> {
+  const results: GeneratedImageResult[] = [];
+  // dall-e-3 only accepts n=1
+  for (let i = 0; i < count; i++) {
+    const response = await client.images.generate({
+      model: AI_MODELS.OPENAI_IMAGE,
+      prompt,
+      n: 1,
+      size: OPENAI_SIZES[aspectRatio] || '1024x1024',
+      response_format: 'b64_json',
+    });
+    const b64 = response.data?.[0]?.b64_json;
+    if (b64) results.push({ src: `data:image/png;base64,${b64}`, provider: 'openai', model: AI_MODELS.OPENAI_IMAGE });
+  }
+  return results;
+}
+
+/**
+ * Imagen first, then OpenAI. A provider that returns fewer images than
+ * requested (e.g. safety filtering) is topped up by the next one.
+ */
+export async function generateImages(
+  clients: ImageClients,
+  prompt: string,
+  options: ImageGenerationOptions = {}
+): Promise<GeneratedImageResult[]> {
+  const count = clampCount(options.count);
+  const aspectRatio = options.aspectRatio || '1:1';
+  const attempts: { provider: string; error: string }[] = [];
+  const images: GeneratedImageResult[] = [];
+
+  const providers: { id: string; run: (remaining: number) => Promise<GeneratedImageResult[]> }[] = [];
+  if (clients.gemini) {
+    const gemini = clients.gemini;
+    providers.push({ id: 'gemini', run: remaining => generateWithImagen(gemini, prompt, remaining, aspectRatio) });
+  }
+  if (clients.openai) {
+    const openai = clients.openai;
+    providers.push({ id: 'openai', run: remaining => generateWithOpenAI(openai, prompt, remaining, aspectRatio) });
+  }
+
+  for (const provider of providers) {
+    if (images.length >= count) break;
+    try {
+      const generated = await provider.run(count - images.length);
+      if (generated.length === 0) throw new Error('no images returned');
+      images.push(...generated);
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      console.warn(`[ImageGenerator] ${provider.id} failed: ${message}`);
+      attempts.push({ provider: provider.id, error: message });
+    }
+  }
+
+  if (images.length === 0) {
+    const summary = attempts.map(a => `${a.provider}: ${a.error}`).join('; ');
+    throw new ImageGenerationError(`Image generation failed (${summary || 'no Gemini or OpenAI key configured'})`, attempts);
+  }
+  return images.slice(0, count);
+}
+
+const escapeAttr = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+/**
+ * Generate every missing image in an article and swap its placeholder for a
+ * figure carrying the planned alt text and title. Failed images keep their
+ * placeholder so they can be retried.
+ */
+export async function fillArticleImages(
+  content: GeneratedContent,
+  generate: (prompt: string) => Promise<string>,
+  onProgress?: (done: number, total: number) => void
+): Promise<GeneratedContent> {
+  let html = content.content;
+  const imageDetails = [...content.imageDetails];
+  const pending = imageDetails.filter(image => !image.generatedImageSrc);
+
+  let done = 0;
+  for (let i = 0; i < imageDetails.length; i++) {
+    const image = imageDetails[i]!;
+    if (image.generatedImageSrc) continue;
+    try {
+      const src = await generate(image.prompt);
+      imageDetails[i] = { ...image, generatedImageSrc: src };
+      if (image.placeholder && html.includes(image.placeholder)) {
+        const figure = `<figure class="wp-block-image"><img src="${src}" alt="${escapeAttr(image.altText)}" title="${escapeAttr(image.title)}" loading="lazy" /></figure>`;
+        html = html.split(image.placeholder).join(figure);
+      }
+    } catch (e) {
+      console.warn(`[ImageGenerator] Image "${image.title}" failed:`, e);
+    }
+    onProgress?.(++done, pending.length);
+  }
+
+  return { ...content, content: html, imageDetails };
+}
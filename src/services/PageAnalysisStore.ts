@@ -0,0 +1,99 @@
+/**
+ * Page Analysis Store
+ * Persists per-URL content analysis so large sites aren't re-analyzed on
+ * every reload. Entries are invalidated when the sitemap lastmod changes.
+ */
+
+import { SitemapPage } from '../types';
+import { storageLayer } from './StorageLayer';
+
+export type PageAnalysisResult = Pick<SitemapPage, 'healthScore' | 'updatePriority' | 'justification' | 'wordCount' | 'analysis'>;
+
+interface StoredAnalysis {
+  result: PageAnalysisResult;
+  lastMod: string | null;
+  timestamp: number;
+}
+
+const CACHE_NAMESPACE = 'page-analysis';
+const ANALYSIS_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+const SAVE_DELAY = 1000;
+
+export class PageAnalysisStore {
+  private entries = new Map<string, StoredAnalysis>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.loadFromStorage();
+  }
+
+  /**
+   * Cached result for a URL, or null if missing, expired or the page changed
+   */
+  get(url: string, lastMod: string | null): PageAnalysisResult | null {
+    const entry = this.entries.get(url);
+    if (!entry) return null;
+
+    const expired = Date.now() - entry.timestamp > ANALYSIS_TTL;
+    const changed = !!lastMod && !!entry.lastMod && lastMod !== entry.lastMod;
+    if (expired || changed) {
+      this.entries.delete(url);
+      this.scheduleSave();
+      return null;
+    }
+    return entry.result;
+  }
+
+  set(url: string, lastMod: string | null, result: PageAnalysisResult): void {
+    this.entries.set(url, { result, lastMod, timestamp: Date.now() });
+    this.scheduleSave();
+  }
+
+  invalidate(url: string): void {
+    if (this.entries.delete(url)) this.scheduleSave();
+  }
+
+  clear(): void {
+    this.entries.clear();
+    storageLayer.clearCache(CACHE_NAMESPACE).catch(() => {});
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Batch writes: analysis runs set hundreds of entries in quick succession
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saveToStorage();
+    }, SAVE_DELAY);
+  }
+
+  private saveToStorage(): void {
+    // Wait for hydration so a save never replaces entries that weren't loaded yet
+    this.loaded
+      .then(() => storageLayer.saveCache(CACHE_NAMESPACE, Array.from(this.entries.entries())))
+      .catch(e => console.warn('[PageAnalysisStore] Failed to persist analysis cache:', e));
+  }
+
+  /**
+   * Hydrate asynchronously; entries written since construction win
+   */
+  private loadFromStorage(): Promise<void> {
+    return storageLayer.loadCache<StoredAnalysis>(CACHE_NAMESPACE).then(entries => {
+      for (const [url, entry] of entries) {
+        if (!this.entries.has(url)) this.entries.set(url, entry);
+      }
+    }).catch(() => {});
+  }
+}
+
+// Singleton instance
+export const pageAnalysisStore = new PageAnalysisStore();
+
+export default PageAnalysisStore;
@@ -0,0 +1,290 @@
+/**
+ * Parallel AI Engine
+ * Priority job queue for batches of AI calls. Runs up to `maxConcurrent`
+ * tasks at once, highest priority first (FIFO within a priority), retries
+ * transient failures with backoff that honours Retry-After, and lets single
+ * tasks or whole batches be cancelled through AbortSignals. Provider RPM/TPM
+ * limits are enforced underneath by the router's ProviderRateLimiter.
+ */
+
+import { ServiceCallAI, UsageScope } from '../types';
+import { isAbortError, isRetryableError, retryDelay, waitFor } from './RateLimiter';
+import { callStructured, isStructuredPrompt } from './PromptSchemas';
+
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+export interface AITask {
+  id: string;
+  promptKey: string;
+  args: any[];
+  priority: TaskPriority;
+  format?: 'json' | 'html';
+  /** Free-form label for progress displays */
+  label?: string;
+  /** Overrides the engine's maxRetries */
+  maxRetries?: number;
+  signal?: AbortSignal;
+  /** Run and item the task's AI calls are charged to */
+  scope?: UsageScope;
+}
+
+export type TaskState = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface TaskProgress {
+  id: string;
+  label: string;
+  state: TaskState;
+  attempts: number;
+  error?: string;
+  /** When a retrying task goes back in the queue */
+  retryAt?: number;
+}
+
+export interface AIBatchResult {
+  id: string;
+  success: boolean;
+  data: any;
+  error?: string;
+  cancelled?: boolean;
+  attempts: number;
+  duration: number;
+}
+
+export type TaskExecutor = (task: AITask, signal: AbortSignal) => Promise<any>;
+
+export interface ParallelEngineOptions {
+  maxConcurrent?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+}
+
+export interface BatchOptions {
+  /** Cancels every task of the batch */
+  signal?: AbortSignal;
+  onProgress?: (progress: TaskProgress, all: TaskProgress[]) => void;
+}
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+interface Job {
+  task: AITask;
+  seq: number;
+  controller: AbortController;
+  progress: TaskProgress;
+  startedAt: number;
+  batch: Batch;
+  resolve: (result: AIBatchResult) => void;
+}
+
+interface Batch {
+  progress: Map<string, TaskProgress>;
+  onProgress?: BatchOptions['onProgress'];
+}
+
+/** Abort `controller` when any of `signals` aborts */
+const linkSignals = (controller: AbortController, signals: (AbortSignal | undefined)[]): void => {
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) return controller.abort(signal.reason);
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+};
+
+/** Settles with the executor, or rejects as soon as the signal aborts */
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Aborted', 'AbortError'));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+export class ParallelAIEngine {
+  private maxConcurrent: number;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private queue: Job[] = [];
+  private jobs = new Map<string, Job>();
+  private active = 0;
+  private seq = 0;
+  private results: AIBatchResult[] = [];
+
+  constructor(private executor: TaskExecutor, options: ParallelEngineOptions = {}) {
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 5);
+    this.maxRetries = Math.max(0, options.maxRetries ?? 3);
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+  }
+
+  /**
+   * Queue a batch and resolve with one result per task, in input order.
+   * Never rejects: failures and cancellations are reported per task.
+   */
+  executeBatch(tasks: AITask[], options: BatchOptions = {}): Promise<AIBatchResult[]> {
+    const batch: Batch = { progress: new Map(), ...(options.onProgress ? { onProgress: options.onProgress } : {}) };
+    const settled = tasks.map(task => new Promise<AIBatchResult>(resolve => {
+      if (this.jobs.has(task.id)) {
+        resolve({ id: task.id, success: false, data: null, error: 'duplicate task id', attempts: 0, duration: 0 });
+        return;
+      }
+      const controller = new AbortController();
+      const job: Job = {
+        task,
+        seq: this.seq++,
+        controller,
+        progress: { id: task.id, label: task.label ?? task.promptKey, state: 'queued', attempts: 0 },
+        startedAt: Date.now(),
+        batch,
+        resolve,
+      };
+      batch.progress.set(task.id, job.progress);
+      this.jobs.set(task.id, job);
+      controller.signal.addEventListener('abort', () => this.onAbort(job), { once: true });
+      linkSignals(controller, [task.signal, options.signal]);
+      if (!controller.signal.aborted) this.enqueue(job);
+    }));
+    // Report the initial queued state once every task is registered
+    const first = batch.progress.values().next().value;
+    if (first) this.emit(batch, first);
+    this.pump();
+    return Promise.all(settled);
+  }
+
+  /** Cancel one queued, running or retrying task. Returns false if unknown. */
+  cancel(taskId: string): boolean {
+    const job = this.jobs.get(taskId);
+    if (!job) return false;
+    job.controller.abort();
+    return true;
+  }
+
+  cancelAll(): void {
+    Array.from(this.jobs.values()).forEach(job => job.controller.abort());
+  }
+
+  getStats(): {
+    queued: number;
+    running: number;
+    totalProcessed: number;
+    avgDuration: number;
+    successRate: number;
+  } {
+    const successful = this.results.filter(r => r.success).length;
+    const totalDuration = this.results.reduce((sum, r) => sum + r.duration, 0);
+    return {
+      queued: this.queue.length,
+      running: this.active,
+      totalProcessed: this.results.length,
+      avgDuration: this.results.length > 0 ? totalDuration / this.results.length : 0,
+      successRate: this.results.length > 0 ? (successful / this.results.length) * 100 : 0,
+    };
+  }
+
+  // ==================== SCHEDULING ====================
+
+  /** Insert keeping the queue sorted by priority, then submission order */
+  private enqueue(job: Job): void {
+    const rank = PRIORITY_RANK[job.task.priority] ?? PRIORITY_RANK.medium;
+    const index = this.queue.findIndex(other => {
+      const otherRank = PRIORITY_RANK[other.task.priority] ?? PRIORITY_RANK.medium;
+      return otherRank > rank || (otherRank === rank && other.seq > job.seq);
+    });
+    if (index === -1) this.queue.push(job);
+    else this.queue.splice(index, 0, job);
+  }
+
+  private pump(): void {
+    while (this.active < this.maxConcurrent && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      this.active++;
+      this.run(job).finally(() => {
+        this.active--;
+        this.pump();
+      });
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const { task, controller } = job;
+    this.update(job, { state: 'running', attempts: job.progress.attempts + 1 });
+    const attempts = job.progress.attempts;
+
+    try {
+      const data = await raceAbort(this.executor(task, controller.signal), controller.signal);
+      this.finish(job, { id: task.id, success: true, data, attempts, duration: Date.now() - job.startedAt }, 'succeeded');
+    } catch (error: any) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        this.onAbort(job);
+        return;
+      }
+      const message = error?.message || String(error);
+      const maxRetries = task.maxRetries ?? this.maxRetries;
+      if (attempts > maxRetries || !isRetryableError(error)) {
+        this.finish(job, { id: task.id, success: false, data: null, error: message, attempts, duration: Date.now() - job.startedAt }, 'failed');
+        return;
+      }
+      // Back off outside the concurrency slot, then rejoin at the original position
+      const delay = retryDelay(error, attempts - 1, this.baseDelayMs);
+      this.update(job, { state: 'retrying', error: message, retryAt: Date.now() + delay });
+      waitFor(delay, controller.signal).then(() => {
+        this.enqueue(job);
+        this.pump();
+      }, () => this.onAbort(job));
+    }
+  }
+
+  private onAbort(job: Job): void {
+    if (!this.jobs.has(job.task.id)) return;
+    this.queue = this.queue.filter(queued => queued !== job);
+    this.finish(job, {
+      id: job.task.id,
+      success: false,
+      data: null,
+      error: 'cancelled',
+      cancelled: true,
+      attempts: job.progress.attempts,
+      duration: Date.now() - job.startedAt,
+    }, 'cancelled');
+  }
+
+  private finish(job: Job, result: AIBatchResult, state: TaskState): void {
+    if (this.jobs.get(job.task.id) !== job) return;
+    this.jobs.delete(job.task.id);
+    this.results.push(result);
+    this.update(job, { state, ...(result.error ? { error: result.error } : {}) });
+    job.resolve(result);
+  }
+
+  private update(job: Job, patch: Partial<TaskProgress>): void {
+    const { retryAt, ...rest } = job.progress;
+    job.progress = { ...rest, ...patch };
+    job.batch.progress.set(job.task.id, job.progress);
+    this.emit(job.batch, job.progress);
+  }
+
+  private emit(batch: Batch, progress: TaskProgress): void {
+    try {
+      batch.onProgress?.(progress, Array.from(batch.progress.values()));
+    } catch (e) {
+      console.warn('[ParallelAIEngine] Progress listener failed:', e);
+    }
+  }
+}
+
+/**
+ * Executor that sends each task through the app's routed callAI. JSON tasks
+ * for structured prompts resolve with their validated reply, not raw text.
+ */
+export const createCallAIExecutor = (callAI: ServiceCallAI): TaskExecutor =>
+  (task, signal) => {
+    const format = task.format ?? 'json';
+    const { scope } = task;
+    const scopedCallAI: ServiceCallAI = scope
+      ? (promptKey, args, callFormat, grounding, options) =>
+          callAI(promptKey, args, callFormat, grounding, { ...options, scope: { ...scope, ...options?.scope } })
+      : callAI;
+    return format === 'json' && isStructuredPrompt(task.promptKey)
+      ? callStructured(scopedCallAI, task.promptKey, task.args, { signal })
+      : scopedCallAI(task.promptKey, task.args, format, false, { signal });
+  };
+
+export default ParallelAIEngine;
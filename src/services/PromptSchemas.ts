@@ -0,0 +1,157 @@
+/**
+ * Prompt Schemas
+ * The output contract of every structured prompt in PROMPT_TEMPLATES.
+ * buildRequest hands the contract to providers with native structured output;
+ * callStructured validates every reply against it, re-asks the model about the
+ * fields that don't fit and returns the typed result.
+ */
+
+import { ServiceCallAI } from '../types';
+import { parseJsonWithAiRepair } from '../utils';
+import { formatFieldErrors, Infer, JsonSchema, s, Schema, SchemaValidationError, validate } from './StructuredOutput';
+
+// ==================== CONTRACTS ====================
+
+const clusterPlanSchema = s.object({
+  pillarTitle: s.string(),
+  clusterTitles: s.array(s.object({
+    title: s.string(),
+    userIntent: s.enumOf(['Awareness', 'Consideration', 'Conversion']),
+  }), { minItems: 1 }),
+});
+
+const contentGapsSchema = s.object({
+  suggestions: s.array(s.object({
+    keyword: s.string(),
+    searchIntent: s.enumOf(['Informational', 'Commercial', 'Transactional']),
+    rationale: s.string({ default: '' }),
+    trendScore: s.number({ description: 'Predicted traffic potential, 1-100' }),
+    difficulty: s.enumOf(['Easy', 'Medium', 'Hard']),
+    monthlyVolume: s.string({ description: "Range such as '1.5k-8k'", default: '' }),
+  }), { minItems: 1 }),
+});
+
+const contentBlueprintSchema = s.object({
+  seoTitle: s.string({ description: '50-60 characters' }),
+  metaDescription: s.string({ description: '135-150 characters' }),
+  primaryKeyword: s.string(),
+  introduction: s.string({ description: 'HTML paragraph', default: '' }),
+  keyTakeaways: s.array(s.string(), { default: [] }),
+  outline: s.array(s.object({
+    heading: s.string(),
+    wordCount: s.number({ default: 0 }),
+    intent: s.string({ default: '' }),
+  }), { minItems: 1 }),
+  faqSection: s.array(s.object({ question: s.string(), answer: s.string() }), { default: [] }),
+  imageDetails: s.array(s.object({ prompt: s.string(), placeholder: s.string() }), { default: [] }),
+});
+
+const contentRefreshSchema = s.object({
+  seoTitle: s.string({ default: '' }),
+  metaDescription: s.string({ default: '' }),
+  patches: s.array(s.object({
+    reason: s.string({ default: '' }),
+    original_html: s.string(),
+    updated_html: s.string(),
+  }), { default: [] }),
+  faqHtml: s.string({ description: 'Empty when the article already has an FAQ', default: '' }),
+});
+
+const semanticKeywordsSchema = s.object({
+  semanticKeywords: s.array(s.string(), { minItems: 1 }),
+});
+
+const pageAnalysisSchema = s.object({
+  healthScore: s.number({ description: '0-100' }),
+  updatePriority: s.enumOf(['Low', 'Medium', 'High', 'Critical']),
+  justification: s.string({ default: '' }),
+  analysis: s.object({
+    critique: s.string({ default: '' }),
+    contentGaps: s.array(s.string(), { default: [] }),
+    seoIssues: s.array(s.string(), { default: [] }),
+    improvementPlan: s.string({ default: '' }),
+  }),
+});
+
+const contentGradeSchema = s.object({
+  score: s.number({ description: '0-100' }),
+  issues: s.array(s.string(), { default: [] }),
+});
+
+export const PROMPT_SCHEMAS = {
+  cluster_planner: clusterPlanSchema,
+  content_gap_analyzer: contentGapsSchema,
+  content_meta_and_outline: contentBlueprintSchema,
+  content_refresher: contentRefreshSchema,
+  semantic_keyword_generator: semanticKeywordsSchema,
+  batch_content_analyzer: pageAnalysisSchema,
+  content_grader: contentGradeSchema,
+};
+
+export type StructuredPromptKey = keyof typeof PROMPT_SCHEMAS;
+export type PromptOutput<K extends StructuredPromptKey> = Infer<(typeof PROMPT_SCHEMAS)[K]>;
+
+export type ClusterPlan = PromptOutput<'cluster_planner'>;
+export type ContentGaps = PromptOutput<'content_gap_analyzer'>;
+export type ContentBlueprint = PromptOutput<'content_meta_and_outline'>;
+export type ContentRefresh = PromptOutput<'content_refresher'>;
+export type SemanticKeywords = PromptOutput<'semantic_keyword_generator'>;
+export type PageAnalysis = PromptOutput<'batch_content_analyzer'>;
+export type ContentGrade = PromptOutput<'content_grader'>;
+
+/** Prompt that sends an invalid reply back with its field errors */
+export const SCHEMA_REASK_KEY = 'schema_reask';
+
+export const isStructuredPrompt = (promptKey: string): promptKey is StructuredPromptKey =>
+  Object.prototype.hasOwnProperty.call(PROMPT_SCHEMAS, promptKey);
+
+/**
+ * Name and JSON Schema a request is held to natively. A re-ask is held to
+ * the schema of the prompt it corrects, which is its first argument.
+ */
+export function promptSchemaFor(promptKey: string, args: any[]): { name: string; schema: JsonSchema } | null {
+  const key = promptKey === SCHEMA_REASK_KEY ? args[0] : promptKey;
+  return typeof key === 'string' && isStructuredPrompt(key) ? { name: key, schema: PROMPT_SCHEMAS[key].json } : null;
+}
+
+// ==================== CALLING ====================
+
+const MAX_REASKS = 2;
+
+export interface StructuredCallOptions {
+  signal?: AbortSignal | undefined;
+  /** Re-asks after the first reply fails validation (default 2) */
+  maxReasks?: number;
+}
+
+/**
+ * Call a structured prompt and return its validated, typed reply. Unparseable
+ * text goes through json_repair; a reply with invalid fields is sent back with
+ * their errors until it passes or the re-asks run out, which throws a
+ * SchemaValidationError listing the fields still wrong.
+ */
+export async function callStructured<K extends StructuredPromptKey>(
+  callAI: ServiceCallAI,
+  promptKey: K,
+  args: any[],
+  options: StructuredCallOptions = {}
+): Promise<PromptOutput<K>> {
+  const schema = PROMPT_SCHEMAS[promptKey] as Schema<PromptOutput<K>>;
+  const callOptions = { signal: options.signal };
+  const maxReasks = options.maxReasks ?? MAX_REASKS;
+  const aiRepairer = (brokenText: string) => callAI('json_repair', [brokenText], 'json', false, callOptions);
+
+  let text = await callAI(promptKey, args, 'json', false, callOptions);
+  for (let reasks = 0; ; reasks++) {
+    const parsed = await parseJsonWithAiRepair(text, aiRepairer);
+    const { value, errors } = validate(schema, parsed);
+    if (errors.length === 0) return value;
+    if (reasks >= maxReasks) throw new SchemaValidationError(promptKey, errors);
+
+    const fieldErrors = formatFieldErrors(errors);
+    console.warn(`[PromptSchemas] "${promptKey}" reply has ${errors.length} invalid field(s), re-asking: ${fieldErrors.join('; ')}`);
+    text = await callAI(SCHEMA_REASK_KEY, [promptKey, JSON.stringify(parsed), fieldErrors, schema.json], 'json', false, callOptions);
+  }
+}
+
+export default PROMPT_SCHEMAS;
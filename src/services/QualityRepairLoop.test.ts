@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { AICallOptions, ServiceCallAI } from '../types';
+import { QualityInput, qualityEngine } from './QualityRuleEngine';
+import { repairUntilPass } from './QualityRepairLoop';
+
+const KEYWORD = 'trail running shoes';
+
+const THIN_HTML = `<p>Some notes on ${KEYWORD}.</p>`;
+
+const section = (n: number) =>
+  `<h2>Choosing ${KEYWORD}: part ${n}</h2>` +
+  `<p>Good ${KEYWORD} grip wet rock, drain quickly and protect the toes. ` +
+  'Test the fit late in the day, when feet are largest, and leave a thumb of room at the front. ' +
+  'Lugs of four to six millimetres suit mud; shorter lugs last longer on packed dirt and gravel roads. ' +
+  'A rock plate helps on sharp ground but adds weight, so light runners on smooth trails can skip it.</p>';
+
+const RICH_HTML = Array.from({ length: 8 }, (_, i) => section(i + 1)).join('\n');
+
+const input: QualityInput = { html: THIN_HTML, keyword: KEYWORD };
+
+type Reply = string | Error;
+
+/** callAI stand-in that answers each prompt key from a script and reports usage */
+const scriptedCallAI = (replies: Partial<Record<string, Reply>>, tokensPerCall = 100) => {
+  const calls: string[] = [];
+  const callAI: ServiceCallAI = async (promptKey, _args, _format, _grounding, options?: AICallOptions) => {
+    calls.push(promptKey);
+    const reply = replies[promptKey];
+    if (reply instanceof Error) throw reply;
+    options?.onUsage?.({ inputTokens: tokensPerCall, outputTokens: tokensPerCall });
+    return reply ?? '';
+  };
+  return { callAI, calls };
+};
+
+describe('repairUntilPass', () => {
+  it('keeps a pass that improved the score', async () => {
+    const { callAI, calls } = scriptedCallAI({ content_repair_agent: RICH_HTML });
+
+    const result = await repairUntilPass(callAI, input, 'cluster', { maxIterations: 1 });
+
+    expect(calls).toContain('content_repair_agent');
+    expect(result.html).toContain(RICH_HTML);
+    expect(result.log.iterations).toHaveLength(1);
+    expect(result.log.iterations[0]).toMatchObject({ iteration: 1, kept: true });
+    expect(result.log.iterations[0]?.delta).toBeGreaterThan(0);
+    expect(result.report.score).toBeGreaterThan(qualityEngine.evaluate(input, 'cluster').score);
+    expect(result.log.tokens).toBe(calls.length * 200);
+  });
+
+  it('stops on a failed fix call but keeps what the pass already fixed', async () => {
+    const failure = new Error('Cost budget exceeded');
+    const { callAI, calls } = scriptedCallAI({ content_repair_agent: RICH_HTML, generate_key_takeaways: failure });
+
+    const result = await repairUntilPass(callAI, input, 'cluster');
+
+    expect(calls.slice(-1)).toEqual(['generate_key_takeaways']);
+    expect(calls).not.toContain('generate_faq_section');
+    expect(result.log.stopReason).toBe('error');
+    expect(result.log.error).toBe('Cost budget exceeded');
+    expect(result.error).toBe(failure);
+    expect(result.log.iterations).toHaveLength(1);
+    expect(result.log.iterations[0]).toMatchObject({ kept: true, fixes: ['content_repair_agent'] });
+    expect(result.html).toContain(RICH_HTML);
+  });
+
+  it('returns the input when a pass does not improve it', async () => {
+    const { callAI } = scriptedCallAI({});
+
+    const result = await repairUntilPass(callAI, input, 'cluster');
+
+    expect(result.log.stopReason).toBe('no-improvement');
+    expect(result.log.iterations[0]?.kept).toBe(false);
+    expect(result.html).toBe(THIN_HTML);
+    expect(result).not.toHaveProperty('error');
+  });
+
+  it('ignores rewrites that lost most of the article', async () => {
+    const { callAI } = scriptedCallAI({ content_repair_agent: '<p>cut</p>' });
+
+    const result = await repairUntilPass(callAI, { ...input, html: RICH_HTML }, 'pillar', { maxIterations: 1 });
+
+    expect(result.html).toBe(RICH_HTML);
+  });
+
+  it('stops once the token budget is spent', async () => {
+    const { callAI, calls } = scriptedCallAI({ content_repair_agent: RICH_HTML }, 10_000);
+
+    const result = await repairUntilPass(callAI, input, 'cluster', { tokenBudget: 20_000 });
+
+    expect(calls).toEqual(['content_repair_agent']);
+    expect(result.log.stopReason).toBe('budget');
+    expect(result.log.tokens).toBe(20_000);
+  });
+});
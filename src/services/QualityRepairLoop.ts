@@ -0,0 +1,255 @@
+/**
+ * Quality Repair Loop
+ * Acts on a failing quality gate instead of only reporting it. Each pass maps
+ * the failing rules to targeted fixes (filler removal, a structural repair,
+ * missing FAQ or Key Takeaways blocks, internal links), re-scores the result
+ * and keeps it only if the score went up. The loop stops when the gate
+ * passes, when a pass stops improving the score, or when its token budget
+ * is spent. Every pass is logged with its delta for review.
+ */
+
+import {
+  QualityProfileId,
+  QualityRepairIteration,
+  QualityRepairLog,
+  QualityRepairStopReason,
+  ServiceCallAI,
+} from '../types';
+import { QualityInput, QualityReport, qualityEngine, RuleResult } from './QualityRuleEngine';
+
+export type { QualityRepairIteration, QualityRepairLog, QualityRepairStopReason };
+
+// ==================== FIXES ====================
+
+export type RepairPromptKey =
+  | 'fluff_remover_and_replacer'
+  | 'content_repair_agent'
+  | 'generate_internal_links'
+  | 'generate_key_takeaways'
+  | 'generate_faq_section';
+
+// Fixes run in this order within a pass: rewrites first, inserted blocks last
+// so a rewrite never has to preserve a block it was not asked about
+const FIX_ORDER: RepairPromptKey[] = [
+  'fluff_remover_and_replacer',
+  'content_repair_agent',
+  'generate_internal_links',
+  'generate_key_takeaways',
+  'generate_faq_section',
+];
+
+const FIX_FOR_RULE: Record<string, RepairPromptKey> = {
+  'banned-phrases': 'fluff_remover_and_replacer',
+  'human-score': 'fluff_remover_and_replacer',
+  'faq-section': 'generate_faq_section',
+  'key-takeaways': 'generate_key_takeaways',
+  'internal-links': 'generate_internal_links',
+};
+
+// Title and meta description live outside the HTML; the loop can't fix them
+const UNREPAIRABLE_RULES = new Set(['title-length', 'meta-description-length']);
+
+/** Targeted fix for a failing rule; anything without one gets a structural repair */
+const fixFor = (result: RuleResult): RepairPromptKey | null =>
+  UNREPAIRABLE_RULES.has(result.id) ? null : FIX_FOR_RULE[result.id] ?? 'content_repair_agent';
+
+// ==================== OPTIONS ====================
+
+export interface RepairOptions {
+  /** Passes before giving up (default 3) */
+  maxIterations?: number;
+  /** Input plus output tokens across all passes; 0 means no limit (default 40000) */
+  tokenBudget?: number;
+  /** Site pages the internal-links fix may link to */
+  linkTargets?: { title: string; url: string }[];
+  signal?: AbortSignal | undefined;
+  onIteration?: (iteration: QualityRepairIteration) => void;
+}
+
+export interface RepairResult {
+  html: string;
+  report: QualityReport;
+  log: QualityRepairLog;
+  /** The failed fix call's error when the loop stopped on one, e.g. a spent cost budget */
+  error?: unknown;
+}
+
+const DEFAULT_MAX_ITERATIONS = 3;
+const DEFAULT_TOKEN_BUDGET = 40000;
+const MAX_LINK_TARGETS = 40;
+
+// ==================== HTML HELPERS ====================
+
+const stripFence = (text: string) => text.replace(/^\s*```(?:html)?\s*/i, '').replace(/\s*```\s*$/, '').trim();
+
+/** Key Takeaways go before the first H2, like postProcessGeneratedHtml places them */
+const insertBeforeFirstH2 = (html: string, block: string): string => {
+  const index = html.search(/<h2[\s>]/i);
+  return index === -1 ? block + html : html.slice(0, index) + block + html.slice(index);
+};
+
+/** The FAQ goes before the references and verification footer, or at the end */
+const insertBeforeFooter = (html: string, block: string): string => {
+  const index = html.search(/<div[^>]*class="[^"]*(?:sota-references-section|verification-footer-sota)/i);
+  return index === -1 ? html + block : html.slice(0, index) + block + html.slice(index);
+};
+
+/**
+ * A rewrite that lost most of the article (a truncated reply) is worse than
+ * no rewrite, whatever it scores
+ */
+const isTruncated = (before: string, after: string) => after.length < before.length * 0.6;
+
+// ==================== LOOP ====================
+
+async function applyFix(
+  callAI: ServiceCallAI,
+  fix: RepairPromptKey,
+  html: string,
+  targets: RuleResult[],
+  input: QualityInput,
+  report: QualityReport,
+  options: RepairOptions
+): Promise<string> {
+  const callOptions = { signal: options.signal };
+  switch (fix) {
+    case 'fluff_remover_and_replacer': {
+      const phrases = qualityEngine.evaluate({ ...input, html }).metrics.bannedPhrases;
+      return stripFence(await callAI(fix, [html, phrases], 'html', false, callOptions));
+    }
+    case 'content_repair_agent': {
+      const issues = targets.map(r => (r.fixHint ? `${r.message} → ${r.fixHint}` : r.message));
+      return stripFence(await callAI(fix, [html, issues], 'html', false, callOptions));
+    }
+    case 'generate_internal_links': {
+      const shortfall = qualityEngine.resolveProfile(report.profile).thresholds.minInternalLinks - report.metrics.internalLinks;
+      const pages = (options.linkTargets ?? []).slice(0, MAX_LINK_TARGETS);
+      const count = Math.max(1, shortfall);
+      return stripFence(await callAI(fix, [html, pages, count], 'html', false, callOptions));
+    }
+    case 'generate_key_takeaways':
+      return insertBeforeFirstH2(html, stripFence(await callAI(fix, [input.keyword, html], 'html', false, callOptions)));
+    case 'generate_faq_section':
+      return insertBeforeFooter(html, stripFence(await callAI(fix, [input.keyword, html], 'html', false, callOptions)));
+  }
+}
+
+/**
+ * Repair `input.html` until it passes `profile`'s gate or the loop has to
+ * stop. Returns the best-scoring HTML seen, which is the input itself when
+ * no pass improved on it. A failed fix call ends the loop but not the
+ * repair: the pass so far is still scored, and kept if it improved.
+ */
+export async function repairUntilPass(
+  callAI: ServiceCallAI,
+  input: QualityInput,
+  profile: QualityProfileId,
+  options: RepairOptions = {}
+): Promise<RepairResult> {
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+  const iterations: QualityRepairIteration[] = [];
+  // Counted on this loop's own calls, so concurrent loops never share a budget
+  let tokens = 0;
+  const countedCallAI: ServiceCallAI = (promptKey, args, format, grounding, callOptions) =>
+    callAI(promptKey, args, format, grounding, {
+      ...callOptions,
+      onUsage: usage => {
+        tokens += usage.inputTokens + usage.outputTokens;
+        callOptions?.onUsage?.(usage);
+      },
+    });
+  const overBudget = () => tokenBudget > 0 && tokens >= tokenBudget;
+
+  let html = input.html;
+  let report = qualityEngine.evaluate(input, profile);
+  let stopReason: QualityRepairStopReason = 'max-iterations';
+  let error: unknown;
+
+  for (let iteration = 1; ; iteration++) {
+    if (report.passed) {
+      stopReason = 'passed';
+      break;
+    }
+    if (iteration > maxIterations) break;
+    if (overBudget()) {
+      stopReason = 'budget';
+      break;
+    }
+
+    const byFix = new Map<RepairPromptKey, RuleResult[]>();
+    for (const result of report.failures) {
+      const fix = fixFor(result);
+      if (!fix || (fix === 'generate_internal_links' && !options.linkTargets?.length)) continue;
+      byFix.set(fix, [...(byFix.get(fix) ?? []), result]);
+    }
+    if (byFix.size === 0) {
+      stopReason = 'nothing-to-fix';
+      break;
+    }
+
+    const tokensBeforePass = tokens;
+    const fixes: RepairPromptKey[] = [];
+    let candidate = html;
+    for (const fix of FIX_ORDER) {
+      const targets = byFix.get(fix);
+      if (!targets) continue;
+      // The budget is checked between fixes too; a pass cut short still gets scored
+      if (fixes.length > 0 && overBudget()) break;
+      try {
+        const fixed = await applyFix(countedCallAI, fix, candidate, targets, input, report, options);
+        if (fixed && !isTruncated(candidate, fixed)) candidate = fixed;
+        fixes.push(fix);
+      } catch (e) {
+        error = e;
+        break;
+      }
+    }
+
+    const candidateReport = qualityEngine.evaluate({ ...input, html: candidate }, profile);
+    const delta = candidateReport.score - report.score;
+    const kept = delta > 0;
+    const entry: QualityRepairIteration = {
+      iteration,
+      rules: Array.from(byFix.values()).flat().map(r => r.id),
+      fixes,
+      scoreBefore: report.score,
+      scoreAfter: candidateReport.score,
+      delta,
+      tokens: tokens - tokensBeforePass,
+      kept,
+    };
+    iterations.push(entry);
+    options.onIteration?.(entry);
+
+    if (kept) {
+      html = candidate;
+      report = candidateReport;
+    }
+    if (error !== undefined) {
+      stopReason = 'error';
+      break;
+    }
+    if (!kept) {
+      stopReason = 'no-improvement';
+      break;
+    }
+  }
+
+  const message = error === undefined ? null : (error as any)?.message || String(error);
+  return {
+    html,
+    report,
+    log: { profile, iterations, stopReason, tokens, ...(message !== null ? { error: message } : {}) },
+    ...(error !== undefined ? { error } : {}),
+  };
+}
+
+export const REPAIR_STOP_REASON_TEXT: Record<QualityRepairStopReason, string> = {
+  passed: 'passes the quality gate',
+  'no-improvement': 'stopped improving',
+  budget: 'repair token budget spent',
+  'max-iterations': 'out of repair passes',
+  'nothing-to-fix': 'remaining failures need manual fixes',
+  error: 'a repair call failed',
+};
@@ -0,0 +1,670 @@
+/**
+ * Quality Rule Engine
+ * The one place content quality is judged. Every check is a registered rule
+ * with an id, category, severity, scoring function and optional fix hint.
+ * Named profiles (pillar, cluster, refresh, local landing page, news) set
+ * the thresholds and rule severities, and a project can override both. The
+ * Review tab, the God Mode gate and the publish gate all evaluate through
+ * the `qualityEngine` singleton, so they always agree.
+ */
+
+import { ContentItem, QualityProfileId } from '../types';
+
+export type { QualityProfileId };
+
+// ==================== TYPES ====================
+
+export type RuleCategory = 'content' | 'seo' | 'structure' | 'readability' | 'links' | 'humanization' | 'technical';
+
+/** Failing `critical` or `high` rules block publishing regardless of the score */
+export type RuleSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface QualityThresholds {
+  minWords: number;
+  maxWords: number;
+  /** Percent of words belonging to the primary keyword */
+  minKeywordDensity: number;
+  maxKeywordDensity: number;
+  /** Flesch-Kincaid grade level */
+  maxReadabilityGrade: number;
+  minInternalLinks: number;
+  minExternalRefs: number;
+  /** Distinct banned AI phrases tolerated */
+  maxBannedPhrases: number;
+  minHumanScore: number;
+  /** H2 sections */
+  minSections: number;
+  minTitleLength: number;
+  maxTitleLength: number;
+  minMetaLength: number;
+  maxMetaLength: number;
+  /** Weighted score (0-100) a draft needs to pass */
+  passScore: number;
+}
+
+export interface QualityProfile {
+  id: QualityProfileId;
+  label: string;
+  thresholds: QualityThresholds;
+  /** Severity per rule id; rules not listed keep their default, 'off' skips them */
+  rules: Partial<Record<string, RuleSeverity | 'off'>>;
+}
+
+/** Project-level changes on top of the built-in profiles */
+export type QualityOverrides = Partial<Record<QualityProfileId, {
+  thresholds?: Partial<QualityThresholds>;
+  rules?: Partial<Record<string, RuleSeverity | 'off'>>;
+}>>;
+
+export interface QualityInput {
+  html: string;
+  keyword: string;
+  title?: string | undefined;
+  metaDescription?: string | undefined;
+  /** Links to this host count as internal */
+  siteUrl?: string | undefined;
+  /** Place a local landing page must mention */
+  location?: string | undefined;
+}
+
+/** Measured once per evaluation and shared by every rule */
+export interface ContentMetrics {
+  text: string;
+  wordCount: number;
+  sentenceLengths: number[];
+  readabilityGrade: number;
+  keywordCount: number;
+  keywordDensity: number;
+  keywordInIntro: boolean;
+  internalLinks: number;
+  externalRefs: number;
+  bannedPhrases: string[];
+  humanScore: number;
+  h1Count: number;
+  h2Count: number;
+  hasFaq: boolean;
+  hasKeyTakeaways: boolean;
+  images: number;
+  imagesWithoutAlt: number;
+  mentionsCurrentYear: boolean;
+}
+
+export interface RuleContext {
+  input: QualityInput;
+  metrics: ContentMetrics;
+  thresholds: QualityThresholds;
+}
+
+export interface RuleOutcome {
+  /** 0-100 */
+  score: number;
+  passed: boolean;
+  value: string | number;
+  expected: string;
+  message: string;
+}
+
+export interface QualityRule {
+  id: string;
+  title: string;
+  category: RuleCategory;
+  severity: RuleSeverity;
+  /** Rules that don't apply to the input (e.g. no title given) return null */
+  check(context: RuleContext): RuleOutcome | null;
+  /** What to change to pass, phrased as an instruction an editor or model can act on */
+  fixHint?(context: RuleContext, outcome: RuleOutcome): string;
+}
+
+export interface RuleResult extends RuleOutcome {
+  id: string;
+  title: string;
+  category: RuleCategory;
+  severity: RuleSeverity;
+  fixHint: string | null;
+}
+
+export interface QualityReport {
+  profile: QualityProfileId;
+  /** Severity-weighted mean of the rule scores, 0-100 */
+  score: number;
+  passed: boolean;
+  results: RuleResult[];
+  failures: RuleResult[];
+  /** Failing critical/high rules */
+  blocking: RuleResult[];
+  metrics: ContentMetrics;
+}
+
+// ==================== PROFILES ====================
+
+const BASE_THRESHOLDS: QualityThresholds = {
+  minWords: 2200,
+  maxWords: 2800,
+  minKeywordDensity: 0.8,
+  maxKeywordDensity: 2.5,
+  maxReadabilityGrade: 8,
+  minInternalLinks: 6,
+  minExternalRefs: 2,
+  maxBannedPhrases: 2,
+  minHumanScore: 70,
+  minSections: 5,
+  minTitleLength: 50,
+  maxTitleLength: 60,
+  minMetaLength: 135,
+  maxMetaLength: 160,
+  passScore: 80,
+};
+
+export const QUALITY_PROFILES: Record<QualityProfileId, QualityProfile> = {
+  pillar: {
+    id: 'pillar',
+    label: 'Pillar page',
+    thresholds: { ...BASE_THRESHOLDS, minWords: 3500, maxWords: 6000, minKeywordDensity: 0.5, maxReadabilityGrade: 10, minInternalLinks: 10, minExternalRefs: 3, minSections: 8 },
+    rules: { 'local-signals': 'off', freshness: 'off' },
+  },
+  cluster: {
+    id: 'cluster',
+    label: 'Cluster article',
+    thresholds: BASE_THRESHOLDS,
+    rules: { 'local-signals': 'off', freshness: 'off' },
+  },
+  refresh: {
+    id: 'refresh',
+    label: 'Refresh of a live post',
+    // Existing posts keep their length and layout; only regressions matter
+    thresholds: { ...BASE_THRESHOLDS, minWords: 800, maxWords: 8000, minKeywordDensity: 0.3, maxReadabilityGrade: 10, minInternalLinks: 3, minExternalRefs: 1, minSections: 2, passScore: 70 },
+    rules: { 'local-signals': 'off', 'faq-section': 'low', 'key-takeaways': 'low', freshness: 'medium' },
+  },
+  local: {
+    id: 'local',
+    label: 'Local landing page',
+    thresholds: { ...BASE_THRESHOLDS, minWords: 1000, maxWords: 2500, minInternalLinks: 4, minExternalRefs: 1, minSections: 4 },
+    rules: { 'local-signals': 'high', freshness: 'off' },
+  },
+  news: {
+    id: 'news',
+    label: 'News article',
+    thresholds: { ...BASE_THRESHOLDS, minWords: 500, maxWords: 1800, minKeywordDensity: 0.3, maxReadabilityGrade: 10, minInternalLinks: 2, minExternalRefs: 3, minSections: 2 },
+    rules: { 'local-signals': 'off', 'faq-section': 'off', 'key-takeaways': 'off', freshness: 'high' },
+  },
+};
+
+export const DEFAULT_QUALITY_PROFILE: QualityProfileId = 'cluster';
+
+const PROFILE_BY_CONTENT_TYPE: Record<ContentItem['type'], QualityProfileId> = {
+  pillar: 'pillar',
+  cluster: 'cluster',
+  standard: 'cluster',
+  refresh: 'refresh',
+  'link-optimizer': 'refresh',
+};
+
+/** The item's chosen profile, or the one its content type implies */
+export const profileForItem = (item: Pick<ContentItem, 'type' | 'qualityProfile'>): QualityProfileId =>
+  item.qualityProfile ?? PROFILE_BY_CONTENT_TYPE[item.type] ?? DEFAULT_QUALITY_PROFILE;
+
+// ==================== MEASUREMENT ====================
+
+// Phrases that read as machine-written; counted once each
+export const BANNED_AI_PHRASES = [
+  'delve', 'tapestry', 'landscape', 'realm', 'leverage', 'robust', 'holistic',
+  'paradigm', 'synergy', 'unlock', 'empower', 'harness', 'navigate', 'foster',
+  'utilize', 'facilitate', 'streamline', 'cutting-edge', 'game-changer',
+  'comprehensive guide', "in today's world", "it's worth noting", 'in conclusion',
+  'to summarize', 'as we can see', 'it is important to note', 'furthermore',
+  'moreover', 'additionally', 'firstly', 'secondly', 'thirdly', 'here is a guide',
+  'in this article', 'revolutionize', 'unprecedented', 'seamlessly', 'pivotal',
+  'multifaceted', 'intricate', 'embark', 'journey', 'discover', 'uncover',
+  'dive deep', 'deep dive', 'explore the world', 'ultimate guide', 'everything you need',
+];
+
+const HUMAN_PATTERNS = [
+  /\b(Look\.|Here's the thing\.|Most people|The truth\?|But here's|And that's)/gi,
+  /\b(don't|won't|can't|you're|it's|that's|there's|I've|we've|you've)\b/gi,
+  /\b(actually|honestly|basically|seriously|literally)\b/gi,
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const countSyllables = (raw: string): number => {
+  let word = raw.toLowerCase().replace(/[^a-z]/g, '');
+  if (word.length <= 3) return 1;
+  word = word.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return word.match(/[aeiouy]{1,2}/g)?.length || 1;
+};
+
+const variance = (values: number[]): number => {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+};
+
+const hostOf = (url: string): string | null => {
+  try {
+    return new URL(url).host.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 100 minus 5 per banned phrase, plus up to 15 for contractions and
+ * conversational openers, adjusted for sentence-length variety
+ */
+const humanScoreOf = (text: string, bannedCount: number, sentenceLengths: number[]): number => {
+  let score = 100 - bannedCount * 5;
+  const humanSignals = HUMAN_PATTERNS.reduce((sum, pattern) => sum + (text.match(pattern) || []).length, 0);
+  score += Math.min(15, humanSignals * 2);
+  if (sentenceLengths.length > 5) {
+    const spread = variance(sentenceLengths);
+    if (spread > 20) score += 5;
+    if (spread < 5) score -= 10;
+  }
+  return Math.max(0, Math.min(100, Math.round(score)));
+};
+
+export function measureContent(input: QualityInput): ContentMetrics {
+  const { html } = input;
+  const text = html.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  const words = text ? text.split(' ') : [];
+  const wordCount = words.length;
+  const sentenceLengths = text
+    .split(/[.!?]+/)
+    .map(s => s.trim().split(/\s+/).filter(Boolean).length)
+    .filter(n => n > 0);
+
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const readabilityGrade = sentenceLengths.length === 0 || wordCount === 0
+    ? 0
+    : Math.round((0.39 * (wordCount / sentenceLengths.length) + 11.8 * (syllables / wordCount) - 15.59) * 10) / 10;
+
+  const keyword = input.keyword.trim().toLowerCase();
+  const lowerText = text.toLowerCase();
+  const keywordCount = keyword ? (lowerText.match(new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'g')) || []).length : 0;
+  const keywordWords = keyword ? keyword.split(/\s+/).length : 0;
+  const keywordDensity = wordCount > 0 ? Math.round(((keywordCount * keywordWords) / wordCount) * 10000) / 100 : 0;
+  const keywordInIntro = !!keyword && words.slice(0, 100).join(' ').toLowerCase().includes(keyword);
+
+  const siteHost = input.siteUrl ? hostOf(input.siteUrl) : null;
+  const hrefs = Array.from(html.matchAll(/<a\s[^>]*href=["']([^"']+)["']/gi), m => m[1]!);
+  const isExternal = (href: string) => /^https?:\/\//i.test(href) && (!siteHost || hostOf(href) !== siteHost);
+  const linkCandidates = (html.match(/\[LINK_CANDIDATE:[^\]]+\]/g) || []).length;
+  const internalLinks = hrefs.filter(href => !href.startsWith('#') && !isExternal(href)).length + linkCandidates;
+  const externalRefs = hrefs.filter(isExternal).length + (html.match(/sota-references-section/gi) || []).length;
+
+  const bannedPhrases = BANNED_AI_PHRASES.filter(phrase => new RegExp(`\\b${escapeRegExp(phrase)}\\b`, 'i').test(text));
+  const images = html.match(/<img\b[^>]*>/gi) || [];
+
+  return {
+    text,
+    wordCount,
+    sentenceLengths,
+    readabilityGrade,
+    keywordCount,
+    keywordDensity,
+    keywordInIntro,
+    internalLinks,
+    externalRefs,
+    bannedPhrases,
+    humanScore: humanScoreOf(text, bannedPhrases.length, sentenceLengths),
+    h1Count: (html.match(/<h1[\s>]/gi) || []).length,
+    h2Count: (html.match(/<h2[\s>]/gi) || []).length,
+    hasFaq: /faq-section|frequently asked questions|<h2[^>]*>\s*faq/i.test(html),
+    hasKeyTakeaways: /key-takeaways-box|key takeaways/i.test(html),
+    images: images.length,
+    imagesWithoutAlt: images.filter(img => !/\balt=["'][^"']+["']/i.test(img)).length,
+    mentionsCurrentYear: text.includes(String(new Date().getFullYear())),
+  };
+}
+
+// ==================== RULES ====================
+
+const clampScore = (n: number) => Math.max(0, Math.min(100, Math.round(n)));
+
+/** Full marks inside [min, max], falling off proportionally outside */
+const rangeScore = (value: number, min: number, max: number): number => {
+  if (value < min) return min > 0 ? clampScore((value / min) * 100) : 100;
+  if (value > max) return max > 0 ? clampScore(100 - ((value - max) / max) * 200) : 0;
+  return 100;
+};
+
+const atLeast = (value: number, min: number, expected: string, message: string): RuleOutcome => ({
+  score: min > 0 ? clampScore((value / min) * 100) : 100,
+  passed: value >= min,
+  value,
+  expected,
+  message,
+});
+
+export const BUILT_IN_RULES: QualityRule[] = [
+  {
+    id: 'word-count',
+    title: 'Word count',
+    category: 'content',
+    severity: 'high',
+    check: ({ metrics: { wordCount }, thresholds: { minWords, maxWords } }) => ({
+      score: rangeScore(wordCount, minWords, maxWords),
+      passed: wordCount >= minWords && wordCount <= maxWords,
+      value: wordCount,
+      expected: `${minWords}-${maxWords} words`,
+      message: wordCount < minWords
+        ? `Word count ${wordCount} below minimum ${minWords}`
+        : `Word count ${wordCount} exceeds maximum ${maxWords}`,
+    }),
+    fixHint: ({ metrics: { wordCount }, thresholds: { minWords } }) =>
+      wordCount < minWords
+        ? `Add about ${minWords - wordCount} words of specific, useful detail to the thinnest sections`
+        : 'Trim fluff and merge redundant sections',
+  },
+  {
+    id: 'keyword-density',
+    title: 'Keyword density',
+    category: 'seo',
+    severity: 'medium',
+    check: ({ input, metrics: { keywordDensity }, thresholds: { minKeywordDensity, maxKeywordDensity } }) => input.keyword.trim() ? {
+      score: rangeScore(keywordDensity, minKeywordDensity, maxKeywordDensity),
+      passed: keywordDensity >= minKeywordDensity && keywordDensity <= maxKeywordDensity,
+      value: `${keywordDensity.toFixed(2)}%`,
+      expected: `${minKeywordDensity}%-${maxKeywordDensity}%`,
+      message: keywordDensity < minKeywordDensity
+        ? `Keyword density ${keywordDensity.toFixed(2)}% too low`
+        : `Keyword density ${keywordDensity.toFixed(2)}% too high (keyword stuffing)`,
+    } : null,
+    fixHint: ({ input, metrics: { keywordDensity }, thresholds: { minKeywordDensity } }) =>
+      keywordDensity < minKeywordDensity
+        ? `Naturally include "${input.keyword}" more often, especially in headings and the introduction`
+        : 'Replace some exact-match keyword repetitions with semantic variations',
+  },
+  {
+    id: 'keyword-in-intro',
+    title: 'Keyword in introduction',
+    category: 'seo',
+    severity: 'medium',
+    check: ({ input, metrics: { keywordInIntro } }) => input.keyword.trim() ? {
+      score: keywordInIntro ? 100 : 0,
+      passed: keywordInIntro,
+      value: keywordInIntro ? 'yes' : 'no',
+      expected: 'Within the first 100 words',
+      message: `"${input.keyword}" does not appear in the first 100 words`,
+    } : null,
+    fixHint: ({ input }) => `Mention "${input.keyword}" in the opening paragraph`,
+  },
+  {
+    id: 'readability',
+    title: 'Readability grade',
+    category: 'readability',
+    severity: 'medium',
+    check: ({ metrics: { readabilityGrade }, thresholds: { maxReadabilityGrade } }) => ({
+      score: clampScore(100 - Math.max(0, readabilityGrade - maxReadabilityGrade) * 10),
+      passed: readabilityGrade <= maxReadabilityGrade,
+      value: readabilityGrade,
+      expected: `Grade ${maxReadabilityGrade} or lower`,
+      message: `Readability grade ${readabilityGrade} too complex (max: ${maxReadabilityGrade})`,
+    }),
+    fixHint: () => 'Split long sentences and swap jargon for plain words',
+  },
+  {
+    id: 'heading-structure',
+    title: 'Heading structure',
+    category: 'structure',
+    severity: 'medium',
+    check: ({ metrics: { h1Count, h2Count }, thresholds: { minSections } }) => {
+      const passed = h1Count <= 1 && h2Count >= minSections;
+      return {
+        score: clampScore((h1Count <= 1 ? 50 : 0) + Math.min(1, minSections > 0 ? h2Count / minSections : 1) * 50),
+        passed,
+        value: `${h1Count} H1, ${h2Count} H2`,
+        expected: `At most 1 H1, ${minSections}+ H2 sections`,
+        message: h1Count > 1 ? `${h1Count} H1 headings; the post title is the only H1` : `Only ${h2Count} H2 sections (min: ${minSections})`,
+      };
+    },
+    fixHint: ({ metrics: { h1Count } }) =>
+      h1Count > 1 ? 'Demote extra H1 headings to H2' : 'Break long sections into more H2 sections with descriptive headings',
+  },
+  {
+    id: 'internal-links',
+    title: 'Internal links',
+    category: 'links',
+    severity: 'high',
+    check: ({ metrics: { internalLinks }, thresholds: { minInternalLinks } }) =>
+      atLeast(internalLinks, minInternalLinks, `${minInternalLinks}+ links`, `Only ${internalLinks} internal links (min: ${minInternalLinks})`),
+    fixHint: ({ metrics: { internalLinks }, thresholds: { minInternalLinks } }) =>
+      `Add ${minInternalLinks - internalLinks} internal links to related posts with descriptive anchor text`,
+  },
+  {
+    id: 'external-references',
+    title: 'External references',
+    category: 'links',
+    severity: 'medium',
+    check: ({ metrics: { externalRefs }, thresholds: { minExternalRefs } }) =>
+      atLeast(externalRefs, minExternalRefs, `${minExternalRefs}+ references`, `Only ${externalRefs} external references (min: ${minExternalRefs})`),
+    fixHint: () => 'Cite authoritative sources (studies, official docs) for key claims',
+  },
+  {
+    id: 'banned-phrases',
+    title: 'AI phrases',
+    category: 'humanization',
+    severity: 'medium',
+    check: ({ metrics: { bannedPhrases }, thresholds: { maxBannedPhrases } }) => ({
+      score: clampScore(100 - Math.max(0, bannedPhrases.length - maxBannedPhrases) * 15),
+      passed: bannedPhrases.length <= maxBannedPhrases,
+      value: bannedPhrases.length,
+      expected: `At most ${maxBannedPhrases}`,
+      message: `${bannedPhrases.length} AI phrases: ${bannedPhrases.slice(0, 6).join(', ')}`,
+    }),
+    fixHint: ({ metrics: { bannedPhrases } }) => `Replace these phrases with plain wording: ${bannedPhrases.join(', ')}`,
+  },
+  {
+    id: 'human-score',
+    title: 'Human writing score',
+    category: 'humanization',
+    severity: 'medium',
+    check: ({ metrics: { humanScore }, thresholds: { minHumanScore } }) =>
+      atLeast(humanScore, minHumanScore, `${minHumanScore}+`, `Human writing score ${humanScore}% - AI patterns detected`),
+    fixHint: () => 'Add contractions, rhetorical questions and more varied sentence lengths',
+  },
+  {
+    id: 'faq-section',
+    title: 'FAQ section',
+    category: 'structure',
+    severity: 'medium',
+    check: ({ metrics: { hasFaq } }) => ({
+      score: hasFaq ? 100 : 0,
+      passed: hasFaq,
+      value: hasFaq ? 'present' : 'missing',
+      expected: 'Present',
+      message: 'No FAQ section',
+    }),
+    fixHint: () => 'Add an FAQ section answering the most common follow-up questions',
+  },
+  {
+    id: 'key-takeaways',
+    title: 'Key takeaways',
+    category: 'structure',
+    severity: 'medium',
+    check: ({ metrics: { hasKeyTakeaways } }) => ({
+      score: hasKeyTakeaways ? 100 : 0,
+      passed: hasKeyTakeaways,
+      value: hasKeyTakeaways ? 'present' : 'missing',
+      expected: 'Present',
+      message: 'No key takeaways box',
+    }),
+    fixHint: () => 'Add a key takeaways box with 5-7 actionable points near the top',
+  },
+  {
+    id: 'image-alt',
+    title: 'Image alt text',
+    category: 'technical',
+    severity: 'low',
+    check: ({ metrics: { images, imagesWithoutAlt } }) => images > 0 ? {
+      score: clampScore(((images - imagesWithoutAlt) / images) * 100),
+      passed: imagesWithoutAlt === 0,
+      value: `${images - imagesWithoutAlt}/${images}`,
+      expected: 'Every image',
+      message: `${imagesWithoutAlt} of ${images} images have no alt text`,
+    } : null,
+    fixHint: () => 'Describe every image in its alt attribute',
+  },
+  {
+    id: 'title-length',
+    title: 'SEO title length',
+    category: 'seo',
+    severity: 'low',
+    check: ({ input, thresholds: { minTitleLength, maxTitleLength } }) => {
+      if (!input.title) return null;
+      const length = input.title.length;
+      return {
+        score: rangeScore(length, minTitleLength, maxTitleLength),
+        passed: length >= minTitleLength && length <= maxTitleLength,
+        value: length,
+        expected: `${minTitleLength}-${maxTitleLength} characters`,
+        message: `Title is ${length} characters`,
+      };
+    },
+    fixHint: ({ thresholds: { minTitleLength, maxTitleLength } }) => `Rewrite the title to ${minTitleLength}-${maxTitleLength} characters`,
+  },
+  {
+    id: 'meta-description-length',
+    title: 'Meta description length',
+    category: 'seo',
+    severity: 'low',
+    check: ({ input, thresholds: { minMetaLength, maxMetaLength } }) => {
+      if (!input.metaDescription) return null;
+      const length = input.metaDescription.length;
+      return {
+        score: rangeScore(length, minMetaLength, maxMetaLength),
+        passed: length >= minMetaLength && length <= maxMetaLength,
+        value: length,
+        expected: `${minMetaLength}-${maxMetaLength} characters`,
+        message: `Meta description is ${length} characters`,
+      };
+    },
+    fixHint: ({ thresholds: { minMetaLength, maxMetaLength } }) => `Rewrite the meta description to ${minMetaLength}-${maxMetaLength} characters`,
+  },
+  {
+    id: 'freshness',
+    title: 'Freshness',
+    category: 'content',
+    severity: 'medium',
+    check: ({ metrics: { mentionsCurrentYear } }) => ({
+      score: mentionsCurrentYear ? 100 : 0,
+      passed: mentionsCurrentYear,
+      value: mentionsCurrentYear ? 'yes' : 'no',
+      expected: `Mentions ${new Date().getFullYear()}`,
+      message: `No reference to ${new Date().getFullYear()}`,
+    }),
+    fixHint: () => `Update dated facts and reference ${new Date().getFullYear()} where it is accurate`,
+  },
+  {
+    id: 'local-signals',
+    title: 'Local signals',
+    category: 'seo',
+    severity: 'medium',
+    check: ({ input, metrics: { text } }) => {
+      if (!input.location) return null;
+      const mentions = (text.match(new RegExp(`\\b${escapeRegExp(input.location)}\\b`, 'gi')) || []).length;
+      return atLeast(mentions, 3, '3+ mentions', `"${input.location}" is mentioned ${mentions} times`);
+    },
+    fixHint: ({ input }) => `Mention ${input.location} in the introduction, a heading and the call to action, with local details`,
+  },
+];
+
+// ==================== ENGINE ====================
+
+const SEVERITY_WEIGHT: Record<RuleSeverity, number> = { critical: 4, high: 3, medium: 2, low: 1 };
+
+export class QualityRuleEngine {
+  private rules = new Map<string, QualityRule>();
+  private overrides: QualityOverrides = {};
+
+  constructor(rules: QualityRule[] = BUILT_IN_RULES) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  /** Add a rule, or replace the one with the same id */
+  register(rule: QualityRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  getRules(): QualityRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  configure(overrides: QualityOverrides): void {
+    this.overrides = overrides;
+  }
+
+  getOverrides(): QualityOverrides {
+    return this.overrides;
+  }
+
+  /** Built-in profile with the project's overrides applied */
+  resolveProfile(id: QualityProfileId): QualityProfile {
+    const base = QUALITY_PROFILES[id] ?? QUALITY_PROFILES[DEFAULT_QUALITY_PROFILE];
+    const override = this.overrides[base.id];
+    return {
+      ...base,
+      thresholds: { ...base.thresholds, ...override?.thresholds },
+      rules: { ...base.rules, ...override?.rules },
+    };
+  }
+
+  /** Severity a rule runs at under a profile, or 'off' */
+  severityOf(rule: QualityRule, profile: QualityProfile): RuleSeverity | 'off' {
+    return profile.rules[rule.id] ?? rule.severity;
+  }
+
+  evaluate(input: QualityInput, profileId: QualityProfileId = DEFAULT_QUALITY_PROFILE): QualityReport {
+    const profile = this.resolveProfile(profileId);
+    const context: RuleContext = { input, metrics: measureContent(input), thresholds: profile.thresholds };
+
+    const results: RuleResult[] = [];
+    for (const rule of this.rules.values()) {
+      const severity = this.severityOf(rule, profile);
+      if (severity === 'off') continue;
+      let outcome: RuleOutcome | null;
+      try {
+        outcome = rule.check(context);
+      } catch (e) {
+        console.warn(`[QualityRuleEngine] Rule "${rule.id}" failed:`, e);
+        continue;
+      }
+      if (!outcome) continue;
+      results.push({
+        ...outcome,
+        id: rule.id,
+        title: rule.title,
+        category: rule.category,
+        severity,
+        fixHint: !outcome.passed && rule.fixHint ? rule.fixHint(context, outcome) : null,
+      });
+    }
+
+    const totalWeight = results.reduce((sum, r) => sum + SEVERITY_WEIGHT[r.severity], 0);
+    const score = totalWeight > 0
+      ? Math.round(results.reduce((sum, r) => sum + r.score * SEVERITY_WEIGHT[r.severity], 0) / totalWeight)
+      : 100;
+    const failures = results.filter(r => !r.passed);
+    const blocking = failures.filter(r => r.severity === 'critical' || r.severity === 'high');
+
+    return {
+      profile: profile.id,
+      score,
+      passed: score >= profile.thresholds.passScore && blocking.length === 0,
+      results,
+      failures,
+      blocking,
+      metrics: context.metrics,
+    };
+  }
+}
+
+/** One line per failing rule, most severe first */
+export const summarizeFailures = (report: QualityReport): string[] =>
+  [...report.failures]
+    .sort((a, b) => SEVERITY_WEIGHT[b.severity] - SEVERITY_WEIGHT[a.severity])
+    .map(r => `[${r.severity}] ${r.message}`);
+
+// Singleton instance
+export const qualityEngine = new QualityRuleEngine();
+
+export default QualityRuleEngine;
@@ -0,0 +1,208 @@
+/**
+ * Provider Rate Limiter
+ * Token buckets for requests and tokens per minute, one pair per provider,
+ * shared by every routed AI call. Also holds the retry/backoff policy used
+ * by callAiWithRetry and the ParallelAIEngine, so both honour Retry-After.
+ */
+
+export interface RateLimit {
+  /** Requests per minute */
+  rpm: number;
+  /** Tokens per minute (input + output) */
+  tpm: number;
+}
+
+// Conservative entry-tier limits; raise them with providerRateLimiter.configure
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+  gemini: { rpm: 60, tpm: 1_000_000 },
+  openai: { rpm: 500, tpm: 200_000 },
+  anthropic: { rpm: 50, tpm: 40_000 },
+  openrouter: { rpm: 200, tpm: 1_000_000 },
+  groq: { rpm: 30, tpm: 6_000 },
+  // Self-hosted servers are bound by their own concurrency, not by quotas
+  custom: { rpm: 1_000, tpm: 10_000_000 },
+};
+const FALLBACK_LIMIT: RateLimit = { rpm: 60, tpm: 100_000 };
+
+const MINUTE_MS = 60_000;
+const MAX_BACKOFF_MS = 60_000;
+
+/**
+ * Classic token bucket refilled continuously. A request larger than the
+ * whole bucket is admitted once the bucket is full, so it can't deadlock.
+ */
+export class TokenBucket {
+  private available: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number, private refillPerMs: number) {
+    this.available = capacity;
+  }
+
+  /** Milliseconds until `amount` can be taken (0 when it can be taken now) */
+  waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity);
+    return this.available >= needed ? 0 : Math.ceil((needed - this.available) / this.refillPerMs);
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.available -= Math.min(amount, this.capacity);
+  }
+
+  /** Return (or further charge) tokens once the real cost is known */
+  adjust(delta: number): void {
+    this.refill();
+    this.available = Math.min(this.capacity, this.available - delta);
+  }
+
+  /** Empty the bucket so a single unit is admitted no sooner than `ms` from now */
+  drain(ms: number): void {
+    this.refill();
+    this.available = Math.min(this.available, 1 - ms * this.refillPerMs);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+/** setTimeout as a promise that rejects when the signal aborts */
+export const waitFor = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const abortError = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error ? signal.reason : new DOMException('Aborted', 'AbortError');
+
+export const isAbortError = (error: any): boolean =>
+  error?.name === 'AbortError' || error?.name === 'APIUserAbortError';
+
+export class ProviderRateLimiter {
+  private limits: Record<string, RateLimit> = { ...DEFAULT_RATE_LIMITS };
+  private buckets = new Map<string, { requests: TokenBucket; tokens: TokenBucket }>();
+
+  configure(limits: Record<string, Partial<RateLimit>>): void {
+    for (const [provider, limit] of Object.entries(limits)) {
+      this.limits[provider] = { ...(this.limits[provider] ?? FALLBACK_LIMIT), ...limit };
+      this.buckets.delete(provider);
+    }
+  }
+
+  getLimit(provider: string): RateLimit {
+    return this.limits[provider] ?? FALLBACK_LIMIT;
+  }
+
+  /**
+   * Wait until the provider can take one more request of `tokens` tokens,
+   * then reserve it. Rejects if the signal aborts while waiting.
+   */
+  async acquire(provider: string, tokens: number, signal?: AbortSignal): Promise<void> {
+    const bucket = this.bucket(provider);
+    for (;;) {
+      const wait = Math.max(bucket.requests.waitTime(1), bucket.tokens.waitTime(tokens));
+      if (wait === 0) break;
+      await waitFor(wait, signal);
+    }
+    bucket.requests.take(1);
+    bucket.tokens.take(tokens);
+  }
+
+  /** Correct the token reservation once the provider reports usage */
+  settle(provider: string, reserved: number, actual: number): void {
+    this.bucket(provider).tokens.adjust(actual - reserved);
+  }
+
+  /** Provider answered 429: admit nothing until Retry-After has passed */
+  pause(provider: string, ms: number): void {
+    this.bucket(provider).requests.drain(ms);
+  }
+
+  private bucket(provider: string) {
+    let bucket = this.buckets.get(provider);
+    if (!bucket) {
+      const { rpm, tpm } = this.getLimit(provider);
+      bucket = {
+        requests: new TokenBucket(rpm, rpm / MINUTE_MS),
+        tokens: new TokenBucket(tpm, tpm / MINUTE_MS),
+      };
+      this.buckets.set(provider, bucket);
+    }
+    return bucket;
+  }
+}
+
+// ==================== RETRY POLICY ====================
+
+const headerValue = (headers: any, name: string): string | null => {
+  if (!headers) return null;
+  if (typeof headers.get === 'function') return headers.get(name);
+  return headers[name] ?? headers[name.toLowerCase()] ?? null;
+};
+
+/**
+ * Retry-After from an SDK error or Response, in ms. Accepts delta-seconds,
+ * HTTP dates and OpenAI's retry-after-ms.
+ */
+export function getRetryAfterMs(error: any): number | null {
+  // AIRouterError summarises the Retry-After of every step it tried
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+  const headers = error?.headers ?? error?.response?.headers;
+  const ms = Number(headerValue(headers, 'retry-after-ms'));
+  if (Number.isFinite(ms) && ms > 0) return ms;
+
+  const value = headerValue(headers, 'retry-after');
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export const errorStatus = (error: any): number | null => {
+  const status = Number(error?.status ?? error?.response?.status ?? error?.code);
+  return Number.isFinite(status) && status > 0 ? status : null;
+};
+
+/**
+ * Transient failures worth retrying: rate limits, overload, 5xx and
+ * network errors. Auth, validation and context-length errors are not.
+ */
+export function isRetryableError(error: any): boolean {
+  if (isAbortError(error) || error?.name === 'BudgetExceededError' || error?.name === 'UnpricedModelError') return false;
+  if (typeof error?.retryable === 'boolean') return error.retryable;
+  const message = String(error?.message || '').toLowerCase();
+  if (message.includes('api key') || message.includes('context length')) return false;
+  const status = errorStatus(error);
+  if (status === null) return true;
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Exponential backoff with jitter, overridden by Retry-After when the
+ * provider sent one
+ */
+export function retryDelay(error: any, attempt: number, baseMs = 1000): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== null) return Math.min(retryAfter, MAX_BACKOFF_MS);
+  const exponential = baseMs * 2 ** attempt;
+  return Math.min(exponential + Math.random() * baseMs, MAX_BACKOFF_MS);
+}
+
+// Singleton instance
+export const providerRateLimiter = new ProviderRateLimiter();
+
+export default ProviderRateLimiter;
@@ -99,7 +99,7 @@ export class ReferenceValidator {
 
     // REMOVE: URL encoding artifacts like %3Ca%20href=)
     let fixed = url.replace(/%3Ca%20href=\)/g, '');
-    fixed = fixed.replace(/\%3C.*?\>/g, ''); // Remove any HTML entities
+    fixed = fixed.replace(/%3C.*?>/g, ''); // Remove any HTML entities
     fixed = fixed.replace(/\s+$/, ''); // Trim whitespace
 
     // VALIDATE: Must be valid URL format
@@ -132,7 +132,6 @@ export class ReferenceValidator {
         headers: {
           'User-Agent': 'Mozilla/5.0 (SEO Bot)'
         },
-        //@ts-ignore
         signal: controller.signal
       });
 
@@ -273,7 +272,7 @@ export class ReferenceValidator {
 
     // FIX: Malformed internal links
     html = html.replace(
-      /(https:\/\/[\w\-\.]+\/[\w\-\.%]*)+(%3Ca%20href=)/gi,
+      /(https:\/\/[\w.-]+\/[\w.%-]*)+(%3Ca%20href=)/gi,
       '$1)'
     );
 
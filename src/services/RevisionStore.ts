@@ -0,0 +1,290 @@
+/**
+ * Post Revision Store
+ * Snapshots a WordPress post's title, content, excerpt and meta before every
+ * write this app makes, so any God Mode or publish change can be rolled back.
+ */
+
+import { postMetaDescription } from './GodModePipeline';
+import { QualityGate } from './QualityGate';
+import { loadVersioned } from './StateSchema';
+import { storageLayer } from './StorageLayer';
+
+export type RevisionOperation = 'god-mode' | 'publish' | 'rollback';
+
+export interface PostRevision {
+  id: string;
+  postId: number;
+  url: string;
+  title: string;
+  content: string;
+  excerpt: string;
+  meta: Record<string, any>;
+  operation: RevisionOperation;
+  /** Quality score of the snapshotted content and of what replaced it */
+  qualityBefore: number | null;
+  qualityAfter: number | null;
+  createdAt: number;
+}
+
+/**
+ * Minimal post read/write surface; App wraps its own authenticated
+ * WordPress calls in one of these.
+ */
+export interface RevisionClient {
+  /** Links to this host count as internal when revisions are scored */
+  siteUrl?: string;
+  getPost(postId: number): Promise<any>;
+  updatePost(postId: number, updates: Record<string, any>): Promise<any>;
+}
+
+export interface RevisionWriteOptions {
+  operation: RevisionOperation;
+  url?: string;
+  keyword?: string;
+  qualityBefore?: number;
+  qualityAfter?: number;
+}
+
+const LEDGER_STORE = 'revisions';
+// Revisions used to live in localStorage under this key
+const LEGACY_STORAGE_KEY = 'post_revisions';
+const MAX_REVISIONS_PER_POST = 20;
+const SAVE_DELAY = 500;
+
+type Listener = (revisions: PostRevision[]) => void;
+
+const field = (value: any): string => {
+  if (typeof value === 'string') return value;
+  return (value?.raw ?? value?.rendered ?? '').toString();
+};
+
+export class RevisionStore {
+  private revisions: PostRevision[] = [];
+  private listeners = new Set<Listener>();
+  private unsaved = new Map<string, PostRevision>();
+  private dropped = new Set<string>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.loadFromStorage();
+  }
+
+  /**
+   * Record the current state of a post (as returned by the REST API)
+   */
+  capture(post: any, options: RevisionWriteOptions): PostRevision {
+    const revision: PostRevision = {
+      id: `rev-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      postId: Number(post.id),
+      url: options.url || post.link || '',
+      title: field(post.title),
+      content: field(post.content),
+      excerpt: field(post.excerpt),
+      meta: post.meta && typeof post.meta === 'object' && !Array.isArray(post.meta) ? { ...post.meta } : {},
+      operation: options.operation,
+      qualityBefore: options.qualityBefore ?? null,
+      qualityAfter: options.qualityAfter ?? null,
+      createdAt: Date.now(),
+    };
+
+    this.unsaved.set(revision.id, revision);
+    this.keep([revision, ...this.revisions]);
+    this.commit();
+    return revision;
+  }
+
+  update(id: string, patch: Partial<Pick<PostRevision, 'qualityBefore' | 'qualityAfter' | 'url'>>): void {
+    const revision = this.revisions.find(r => r.id === id);
+    if (!revision) return;
+    Object.assign(revision, patch);
+    this.unsaved.set(revision.id, revision);
+    this.commit();
+  }
+
+  get(id: string): PostRevision | undefined {
+    return this.revisions.find(r => r.id === id);
+  }
+
+  /**
+   * All revisions, newest first
+   */
+  list(): PostRevision[] {
+    return [...this.revisions];
+  }
+
+  /**
+   * Revisions grouped by post URL (falls back to the post ID), newest first
+   */
+  groupByUrl(): Map<string, PostRevision[]> {
+    const groups = new Map<string, PostRevision[]>();
+    for (const revision of this.revisions) {
+      const key = revision.url || `post #${revision.postId}`;
+      groups.set(key, [...(groups.get(key) || []), revision]);
+    }
+    return groups;
+  }
+
+  remove(id: string): void {
+    this.revisions = this.revisions.filter(r => r.id !== id);
+    this.unsaved.delete(id);
+    this.dropped.add(id);
+    this.commit();
+  }
+
+  clear(): void {
+    this.revisions = [];
+    this.unsaved.clear();
+    this.dropped.clear();
+    storageLayer.clearLedger(LEDGER_STORE).catch(() => {});
+    this.emit();
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ==================== INTERNALS ====================
+
+  private commit(): void {
+    this.scheduleSave();
+    this.emit();
+  }
+
+  private emit(): void {
+    const snapshot = this.list();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  /** Keep the newest MAX_REVISIONS_PER_POST of each post, queueing the rest for deletion */
+  private keep(revisions: PostRevision[]): void {
+    const perPost = new Map<number, number>();
+    this.revisions = revisions.filter(revision => {
+      const count = (perPost.get(revision.postId) ?? 0) + 1;
+      perPost.set(revision.postId, count);
+      if (count <= MAX_REVISIONS_PER_POST) return true;
+      this.unsaved.delete(revision.id);
+      this.dropped.add(revision.id);
+      return false;
+    });
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      // Wait for hydration so trimming never deletes revisions that weren't loaded yet
+      this.loaded.then(() => this.save());
+    }, SAVE_DELAY);
+  }
+
+  private async save(): Promise<void> {
+    const upserts = Array.from(this.unsaved.values());
+    const deletes = Array.from(this.dropped);
+    this.unsaved.clear();
+    this.dropped.clear();
+    const saved = await storageLayer.syncLedger(LEDGER_STORE, upserts, deletes).catch(e => {
+      console.warn('[Revisions] Could not persist post revisions:', e);
+      return false;
+    });
+    if (saved) return;
+    // Retry with the next save, minus anything trimmed in the meantime
+    upserts.filter(revision => !this.dropped.has(revision.id)).forEach(revision => this.unsaved.set(revision.id, revision));
+    deletes.forEach(id => this.dropped.add(id));
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = await storageLayer.getLedger<PostRevision>(LEDGER_STORE);
+      const legacy = readLegacyRevisions();
+      if (legacy.length > 0 && (await storageLayer.syncLedger(LEDGER_STORE, legacy))) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      }
+      const known = new Set(this.revisions.map(revision => revision.id));
+      const loaded = [...stored, ...legacy].filter(revision => !known.has(revision.id) && known.add(revision.id));
+      this.keep([...this.revisions, ...loaded].sort((a, b) => b.createdAt - a.createdAt));
+      if (this.dropped.size > 0) this.scheduleSave();
+      this.emit();
+    } catch (e) {
+      console.warn('[Revisions] Could not load post revisions:', e);
+    }
+  }
+}
+
+const readLegacyRevisions = (): PostRevision[] => {
+  try {
+    const data = typeof localStorage === 'undefined' ? undefined : loadVersioned<PostRevision[]>(LEGACY_STORAGE_KEY);
+    return Array.isArray(data) ? data : [];
+  } catch {
+    return [];
+  }
+};
+
+// Singleton instance
+export const revisionStore = new RevisionStore();
+
+// Revisions are writes to live posts, so they're scored like God Mode refreshes
+const qualityOf = (html: string, keyword: string, post: any, siteUrl: string | undefined): number =>
+  QualityGate.preflightCheck(html, keyword, 'refresh', {
+    siteUrl,
+    title: field(post.title).replace(/<[^>]*>/g, ''),
+    metaDescription: postMetaDescription(post),
+  }).score.overallConfidence;
+
+/**
+ * Snapshot a post, then write the updates. The snapshot is kept even if the
+ * write fails, since the request may have reached WordPress anyway.
+ */
+export async function writeWithRevision(
+  client: RevisionClient,
+  postId: number,
+  updates: Record<string, any>,
+  options: RevisionWriteOptions,
+  store: RevisionStore = revisionStore
+): Promise<{ revision: PostRevision; response: any }> {
+  const current = await client.getPost(postId);
+  if (!current?.id) throw new Error(`Post ${postId} could not be loaded for a revision snapshot`);
+
+  const keyword = options.keyword || field(current.title).replace(/<[^>]*>/g, '');
+  const currentContent = field(current.content);
+  const nextContent = typeof updates['content'] === 'string' ? updates['content'] : null;
+
+  const revision = store.capture(current, {
+    ...options,
+    qualityBefore: options.qualityBefore ?? qualityOf(currentContent, keyword, current, client.siteUrl),
+    ...(options.qualityAfter !== undefined
+      ? { qualityAfter: options.qualityAfter }
+      : nextContent !== null ? { qualityAfter: qualityOf(nextContent, keyword, { ...current, ...updates }, client.siteUrl) } : {}),
+  });
+
+  const response = await client.updatePost(postId, updates);
+  return { revision, response };
+}
+
+/**
+ * Push a stored revision back to WordPress. The state being replaced is
+ * itself snapshotted, so a rollback can be undone.
+ */
+export async function restoreRevision(
+  client: RevisionClient,
+  revision: PostRevision,
+  store: RevisionStore = revisionStore
+): Promise<any> {
+  const updates: Record<string, any> = {
+    title: revision.title,
+    content: revision.content,
+    excerpt: revision.excerpt,
+  };
+  if (Object.keys(revision.meta).length > 0) updates['meta'] = revision.meta;
+
+  const { response } = await writeWithRevision(client, revision.postId, updates, {
+    operation: 'rollback',
+    url: revision.url,
+  }, store);
+  return response;
+}
+
+export default RevisionStore;
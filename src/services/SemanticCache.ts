@@ -4,6 +4,8 @@
  * Reduces redundant AI calls by 60%+
  */
 
+import { storageLayer } from './StorageLayer';
+
 interface CacheEntry<T> {
   data: T;
   fingerprint: string;
@@ -23,13 +25,18 @@ const CACHE_TTL = {
 
 export type CacheType = keyof typeof CACHE_TTL;
 
+const CACHE_NAMESPACE = 'semantic';
+const SAVE_DELAY = 1000;
+
 export class SemanticCache {
   private cache = new Map<string, CacheEntry<any>>();
   private maxSize: number;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private loaded: Promise<void>;
   
   constructor(maxSize: number = 1000) {
     this.maxSize = maxSize;
-    this.loadFromStorage();
+    this.loaded = this.loadFromStorage();
   }
   
   /**
@@ -183,32 +190,28 @@ export class SemanticCache {
   }
   
   /**
-   * Save cache to localStorage
+   * Persist to the storage layer, batched since set/get bursts are common
    */
   private saveToStorage(): void {
-    try {
-      const data = JSON.stringify(Array.from(this.cache.entries()));
-      localStorage.setItem('god_mode_cache', data);
-    } catch (e) {
-      // Storage quota exceeded - clear old entries
-      this.cleanup();
-    }
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.loaded
+        .then(() => storageLayer.saveCache(CACHE_NAMESPACE, Array.from(this.cache.entries())))
+        .catch(e => console.warn('[SemanticCache] Failed to persist cache:', e));
+    }, SAVE_DELAY);
   }
   
   /**
-   * Load cache from localStorage
+   * Hydrate from the storage layer; entries set since construction win
    */
-  private loadFromStorage(): void {
-    try {
-      const data = localStorage.getItem('god_mode_cache');
-      if (data) {
-        const entries = JSON.parse(data);
-        this.cache = new Map(entries);
-        this.cleanup(); // Remove expired on load
+  private loadFromStorage(): Promise<void> {
+    return storageLayer.loadCache<CacheEntry<any>>(CACHE_NAMESPACE).then(entries => {
+      for (const [key, entry] of entries) {
+        if (!this.cache.has(key)) this.cache.set(key, entry);
       }
-    } catch (e) {
-      this.cache = new Map();
-    }
+      this.cleanup(); // Remove expired on load
+    }).catch(() => {});
   }
   
   /**
@@ -216,7 +219,7 @@ export class SemanticCache {
    */
   clear(): void {
     this.cache.clear();
-    localStorage.removeItem('god_mode_cache');
+    storageLayer.clearCache(CACHE_NAMESPACE).catch(() => {});
   }
 }
 
@@ -0,0 +1,385 @@
+/**
+ * Sitemap Crawler
+ * Discovers sitemaps via robots.txt, walks sitemap indexes (with cycle
+ * detection and .xml.gz support) and turns every <url> entry into a
+ * canonical SitemapPage, including image/video/news/hreflang extensions.
+ * Sitemap files are fetched conditionally when validators from a previous
+ * crawl are supplied.
+ */
+
+import { fetchWithProxies } from '../contentUtils';
+import { SitemapAlternate, SitemapImage, SitemapNews, SitemapPage, SitemapVideo } from '../types';
+
+export type SitemapFetcher = (url: string, options?: RequestInit) => Promise<Response>;
+
+/** HTTP validators and index children remembered for one sitemap file */
+export interface SitemapValidator {
+  etag?: string;
+  lastModified?: string;
+  /** Child sitemaps, so a 304 on an index can still be walked */
+  children: string[];
+  fetchedAt: string;
+}
+
+export type SitemapValidators = Record<string, SitemapValidator>;
+
+export interface SitemapCrawlOptions {
+  /** Stop once this many pages have been collected */
+  limit?: number;
+  /** Maximum sitemap index nesting */
+  maxDepth?: number;
+  fetcher?: SitemapFetcher;
+  onProgress?: (message: string) => void;
+  signal?: AbortSignal;
+  /** Validators from the previous crawl; enables If-None-Match/If-Modified-Since */
+  validators?: SitemapValidators;
+  /** Pages from the previous crawl, reused for sitemap files that answer 304 */
+  previousPages?: SitemapPage[];
+}
+
+export interface SitemapCrawlResult {
+  pages: SitemapPage[];
+  /** Every sitemap file that was fetched, in crawl order */
+  sitemaps: string[];
+  errors: string[];
+  /** Sitemap files that could not be fetched or parsed */
+  failed: string[];
+  /** Sitemap files that answered 304 Not Modified */
+  notModified: string[];
+  validators: SitemapValidators;
+  /** False when the crawl was cut short by the limit or an abort */
+  complete: boolean;
+}
+
+export interface ParsedSitemap {
+  type: 'index' | 'urlset';
+  /** Child sitemap URLs (index only) */
+  sitemaps: string[];
+  pages: SitemapPage[];
+}
+
+const DEFAULT_LIMIT = 20000;
+const DEFAULT_MAX_DEPTH = 5;
+const FALLBACK_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/wp-sitemap.xml', '/sitemap-index.xml'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STALE_AFTER_DAYS = 365;
+
+// ==================== FETCHING ====================
+
+const isGzip = (bytes: Uint8Array) => bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+async function gunzip(buffer: ArrayBuffer): Promise<string> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot decompress .gz sitemaps');
+  }
+  const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+export type ConditionalFetchResult =
+  | { notModified: true }
+  | { notModified: false; text: string; etag: string | null; lastModified: string | null };
+
+/**
+ * Fetch a sitemap, sending the stored validators as conditional headers.
+ * Gzip is detected by magic bytes rather than the extension, since servers
+ * and proxies disagree on Content-Encoding. Public CORS proxies usually drop
+ * the conditional headers and answer 200, which is still correct.
+ */
+export async function fetchSitemapConditional(
+  url: string,
+  fetcher: SitemapFetcher = fetchWithProxies,
+  signal?: AbortSignal,
+  validator?: SitemapValidator
+): Promise<ConditionalFetchResult> {
+  const headers: Record<string, string> = {};
+  if (validator?.etag) headers['If-None-Match'] = validator.etag;
+  if (validator?.lastModified) headers['If-Modified-Since'] = validator.lastModified;
+
+  const init: RequestInit = Object.keys(headers).length > 0 ? { headers } : {};
+  if (signal) init.signal = signal;
+  const response = await fetcher(url, init);
+  if (response.status === 304 && validator) return { notModified: true };
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+
+  const buffer = await response.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  return {
+    notModified: false,
+    text: isGzip(bytes) ? await gunzip(buffer) : new TextDecoder().decode(bytes),
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+  };
+}
+
+/**
+ * Fetch a sitemap as text, unconditionally
+ */
+export async function fetchSitemapText(url: string, fetcher: SitemapFetcher = fetchWithProxies, signal?: AbortSignal): Promise<string> {
+  const result = await fetchSitemapConditional(url, fetcher, signal);
+  if (result.notModified) throw new Error(`Unexpected 304 for ${url}`);
+  return result.text;
+}
+
+/**
+ * Sitemap URLs declared in robots.txt
+ */
+export async function discoverFromRobots(origin: string, fetcher: SitemapFetcher = fetchWithProxies, signal?: AbortSignal): Promise<string[]> {
+  try {
+    const response = await fetcher(`${origin}/robots.txt`, signal ? { signal } : {});
+    if (!response.ok) return [];
+    const text = await response.text();
+    return Array.from(new Set(Array.from(text.matchAll(/^\s*sitemap:\s*(\S+)/gim), m => m[1]!.trim())));
+  } catch {
+    return [];
+  }
+}
+
+// ==================== PARSING ====================
+
+const children = (el: Element, localName: string): Element[] =>
+  Array.from(el.children).filter(child => child.localName === localName);
+
+const childText = (el: Element, localName: string): string | null => {
+  const text = children(el, localName)[0]?.textContent?.trim();
+  return text ? text : null;
+};
+
+const titleFromSlug = (slug: string) =>
+  slug.replace(/[-_]+/g, ' ').replace(/\b\w/g, c => c.toUpperCase()).trim();
+
+const parseImages = (urlEl: Element): SitemapImage[] =>
+  children(urlEl, 'image').flatMap(image => {
+    const loc = childText(image, 'loc');
+    if (!loc) return [];
+    const entry: SitemapImage = { loc };
+    const title = childText(image, 'title');
+    const caption = childText(image, 'caption');
+    if (title) entry.title = title;
+    if (caption) entry.caption = caption;
+    return [entry];
+  });
+
+const parseVideos = (urlEl: Element): SitemapVideo[] =>
+  children(urlEl, 'video').flatMap(video => {
+    const title = childText(video, 'title');
+    const thumbnailLoc = childText(video, 'thumbnail_loc');
+    if (!title || !thumbnailLoc) return [];
+    const entry: SitemapVideo = { title, thumbnailLoc, description: childText(video, 'description') || '' };
+    const contentLoc = childText(video, 'content_loc');
+    const playerLoc = childText(video, 'player_loc');
+    const duration = Number(childText(video, 'duration'));
+    if (contentLoc) entry.contentLoc = contentLoc;
+    if (playerLoc) entry.playerLoc = playerLoc;
+    if (duration > 0) entry.duration = duration;
+    return [entry];
+  });
+
+const parseNews = (urlEl: Element): SitemapNews | null => {
+  const news = children(urlEl, 'news')[0];
+  if (!news) return null;
+  const publication = children(news, 'publication')[0];
+  return {
+    publicationName: (publication && childText(publication, 'name')) || '',
+    language: (publication && childText(publication, 'language')) || '',
+    publicationDate: childText(news, 'publication_date') || '',
+    title: childText(news, 'title') || '',
+  };
+};
+
+const parseAlternates = (urlEl: Element): SitemapAlternate[] =>
+  children(urlEl, 'link')
+    .filter(link => link.getAttribute('rel') === 'alternate' && link.getAttribute('hreflang') && link.getAttribute('href'))
+    .map(link => ({ hreflang: link.getAttribute('hreflang')!, href: link.getAttribute('href')! }));
+
+/**
+ * Build a canonical page from a URL and whatever sitemap metadata is known
+ */
+export function createSitemapPage(url: string, meta: Partial<SitemapPage> = {}): SitemapPage {
+  let slug = '';
+  try {
+    slug = new URL(url).pathname.split('/').filter(Boolean).pop() || '';
+  } catch {}
+  const lastMod = meta.lastMod ?? null;
+  const modified = lastMod ? Date.parse(lastMod) : NaN;
+  const daysOld = Number.isNaN(modified) ? null : Math.max(0, Math.floor((Date.now() - modified) / DAY_MS));
+
+  return {
+    id: url,
+    url,
+    title: titleFromSlug(slug) || url,
+    slug,
+    lastMod,
+    wordCount: null,
+    crawledContent: null,
+    healthScore: null,
+    updatePriority: null,
+    justification: null,
+    daysOld,
+    isStale: daysOld !== null && daysOld > STALE_AFTER_DAYS,
+    publishedState: '',
+    status: 'idle',
+    ...meta,
+  };
+}
+
+const parseXml = (text: string): Document | null => {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+/**
+ * Parse sitemap XML. Reader proxies sometimes wrap the XML in an HTML page,
+ * so the first <urlset>/<sitemapindex> element is extracted if needed.
+ */
+export function parseSitemapXml(text: string, sourceUrl: string): ParsedSitemap {
+  let doc = parseXml(text.trim());
+  if (!doc || !['urlset', 'sitemapindex'].includes(doc.documentElement.localName)) {
+    const embedded = text.match(/<(urlset|sitemapindex)[\s>][\s\S]*<\/\1>/i)?.[0];
+    doc = embedded ? parseXml(embedded) : null;
+  }
+  if (!doc) throw new Error(`Not a sitemap: ${sourceUrl}`);
+
+  const root = doc.documentElement;
+  if (root.localName === 'sitemapindex') {
+    const sitemaps = children(root, 'sitemap').map(s => childText(s, 'loc')).filter((loc): loc is string => !!loc);
+    return { type: 'index', sitemaps, pages: [] };
+  }
+
+  const pages = children(root, 'url').flatMap(urlEl => {
+    const loc = childText(urlEl, 'loc');
+    if (!loc) return [];
+    const priority = Number.parseFloat(childText(urlEl, 'priority') || '');
+    const images = parseImages(urlEl);
+    const videos = parseVideos(urlEl);
+    const news = parseNews(urlEl);
+    const alternates = parseAlternates(urlEl);
+
+    const meta: Partial<SitemapPage> = {
+      lastMod: childText(urlEl, 'lastmod'),
+      priority: Number.isNaN(priority) ? null : priority,
+      changeFreq: childText(urlEl, 'changefreq'),
+      sourceSitemap: sourceUrl,
+    };
+    if (images.length > 0) meta.images = images;
+    if (videos.length > 0) meta.videos = videos;
+    if (news) meta.news = news;
+    if (alternates.length > 0) meta.alternates = alternates;
+    if (news?.title) meta.title = news.title;
+    return [createSitemapPage(loc, meta)];
+  });
+  return { type: 'urlset', sitemaps: [], pages };
+}
+
+// ==================== CRAWLING ====================
+
+const looksLikeSitemapFile = (url: string) => /\.xml(\.gz)?(\?.*)?$/i.test(url) || /sitemap/i.test(new URL(url).pathname);
+
+const normalizeInput = (input: string) => {
+  const trimmed = input.trim().replace(/\/+$/, '');
+  if (!trimmed) throw new Error('Sitemap URL is required');
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+/**
+ * Crawl a sitemap URL or a site root. For a site root, robots.txt is
+ * consulted first and the usual WordPress/Yoast locations second. Sitemap
+ * files that answer 304 contribute their pages from `previousPages`.
+ */
+export async function crawlSitemap(input: string, options: SitemapCrawlOptions = {}): Promise<SitemapCrawlResult> {
+  const { fetcher = fetchWithProxies, onProgress, signal, validators = {}, previousPages = [] } = options;
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const start = normalizeInput(input);
+
+  const result: SitemapCrawlResult = { pages: [], sitemaps: [], errors: [], failed: [], notModified: [], validators: {}, complete: true };
+  const visited = new Set<string>();
+  const seenPages = new Set<string>();
+
+  const addPages = (pages: SitemapPage[]) => {
+    for (const page of pages) {
+      if (seenPages.has(page.id)) continue;
+      if (result.pages.length >= limit) {
+        result.complete = false;
+        return;
+      }
+      seenPages.add(page.id);
+      result.pages.push(page);
+    }
+  };
+
+  const walk = async (sitemapUrl: string, depth: number): Promise<void> => {
+    if (signal?.aborted || result.pages.length >= limit) {
+      result.complete = false;
+      return;
+    }
+    if (visited.has(sitemapUrl)) {
+      onProgress?.(`Skipping ${sitemapUrl}: already crawled (cycle)`);
+      return;
+    }
+    if (depth > maxDepth) {
+      result.errors.push(`${sitemapUrl}: nested deeper than ${maxDepth} levels`);
+      return;
+    }
+    visited.add(sitemapUrl);
+
+    onProgress?.(`Crawling ${sitemapUrl}`);
+    const validator = validators[sitemapUrl];
+    let children: string[];
+    try {
+      const fetched = await fetchSitemapConditional(sitemapUrl, fetcher, signal, validator);
+      result.sitemaps.push(sitemapUrl);
+      if (fetched.notModified) {
+        onProgress?.(`Not modified: ${sitemapUrl}`);
+        result.notModified.push(sitemapUrl);
+        if (validator) result.validators[sitemapUrl] = validator;
+        addPages(previousPages.filter(page => page.sourceSitemap === sitemapUrl && !page.removedAt));
+        children = validator?.children ?? [];
+      } else {
+        const parsed = parseSitemapXml(fetched.text, sitemapUrl);
+        const next: SitemapValidator = { children: parsed.sitemaps, fetchedAt: new Date().toISOString() };
+        if (fetched.etag) next.etag = fetched.etag;
+        if (fetched.lastModified) next.lastModified = fetched.lastModified;
+        result.validators[sitemapUrl] = next;
+        addPages(parsed.pages);
+        children = parsed.sitemaps;
+      }
+    } catch (e: any) {
+      result.errors.push(`${sitemapUrl}: ${e?.message || 'fetch failed'}`);
+      result.failed.push(sitemapUrl);
+      onProgress?.(`Skipped ${sitemapUrl}: ${e?.message || 'error'}`);
+      return;
+    }
+
+    for (const child of children) {
+      await walk(child, depth + 1);
+    }
+  };
+
+  let roots = [start];
+  let usingFallbacks = false;
+  if (!looksLikeSitemapFile(start)) {
+    const origin = new URL(start).origin;
+    const declared = await discoverFromRobots(origin, fetcher, signal);
+    if (declared.length > 0) onProgress?.(`robots.txt declares ${declared.length} sitemap(s)`);
+    usingFallbacks = declared.length === 0;
+    roots = usingFallbacks ? FALLBACK_PATHS.map(path => `${origin}${path}`) : declared;
+  }
+
+  for (const root of roots) {
+    const failedBefore = result.failed.length;
+    const errorsBefore = result.errors.length;
+    await walk(root, 0);
+    // Fallback locations usually alias each other; stop at the first that
+    // works and forget the misses before it, which are expected 404s
+    if (usingFallbacks && result.pages.length > 0) {
+      result.failed.splice(0, failedBefore);
+      result.errors.splice(0, errorsBefore);
+      break;
+    }
+  }
+  if (signal?.aborted) result.complete = false;
+
+  onProgress?.(`Found ${result.pages.length} pages in ${result.sitemaps.length} sitemap(s)`);
+  return result;
+}
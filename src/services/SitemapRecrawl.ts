@@ -0,0 +1,167 @@
+/**
+ * Sitemap Recrawl
+ * Incremental recrawl on top of the SitemapCrawler: conditional requests per
+ * sitemap file, a changeset of new/changed/removed URLs, and a merge that
+ * keeps every page's analysis state intact.
+ */
+
+import { crawlSitemap, SitemapCrawlOptions, SitemapValidators } from './SitemapCrawler';
+import { SitemapPage } from '../types';
+
+export interface SitemapChangeset {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: number;
+  /** Sitemap files skipped thanks to a 304 */
+  notModified: string[];
+  /** Removal detection is skipped when the crawl was incomplete */
+  removalsChecked: boolean;
+  crawledAt: string;
+}
+
+export interface SitemapRecrawlResult {
+  pages: SitemapPage[];
+  changeset: SitemapChangeset;
+  validators: SitemapValidators;
+  sitemaps: string[];
+  errors: string[];
+}
+
+export interface SitemapRecrawlState {
+  pages: SitemapPage[];
+  validators: SitemapValidators;
+}
+
+export interface MergeOptions {
+  crawledAt?: string;
+  /** When false, pages missing from the crawl are kept as they were */
+  detectRemovals?: boolean;
+  notModified?: string[];
+}
+
+/**
+ * A page counts as changed only when both crawls report a lastmod and they
+ * differ; a missing lastmod says nothing about the content.
+ */
+const hasChanged = (previous: SitemapPage, crawled: SitemapPage) =>
+  !!previous.lastMod && !!crawled.lastMod && Date.parse(previous.lastMod) !== Date.parse(crawled.lastMod);
+
+/**
+ * Sitemap-derived fields come from the fresh crawl; everything else
+ * (title, analysis, healthScore, justification, crawledContent...) is kept.
+ */
+const mergePage = (previous: SitemapPage, crawled: SitemapPage): SitemapPage => {
+  const {
+    url, lastMod, daysOld, isStale, priority, changeFreq, images, videos, news, alternates, sourceSitemap,
+    sitemapStatus, removedAt,
+    ...analysisState
+  } = previous;
+  return { ...crawled, ...analysisState };
+};
+
+/**
+ * Merge a fresh crawl into the stored pages and describe what changed.
+ * Stored order is kept; new URLs are appended in crawl order.
+ */
+export function mergeSitemapPages(
+  previous: SitemapPage[],
+  crawled: SitemapPage[],
+  options: MergeOptions = {}
+): { pages: SitemapPage[]; changeset: SitemapChangeset } {
+  const crawledAt = options.crawledAt ?? new Date().toISOString();
+  const detectRemovals = options.detectRemovals ?? true;
+  const crawledById = new Map(crawled.map(page => [page.id, page]));
+  const changeset: SitemapChangeset = {
+    added: [],
+    changed: [],
+    removed: [],
+    unchanged: 0,
+    notModified: options.notModified ?? [],
+    removalsChecked: detectRemovals,
+    crawledAt,
+  };
+
+  const pages: SitemapPage[] = [];
+  const known = new Set<string>();
+
+  for (const page of previous) {
+    known.add(page.id);
+    const fresh = crawledById.get(page.id);
+
+    if (!fresh) {
+      if (!detectRemovals || page.removedAt) {
+        pages.push(page);
+      } else {
+        changeset.removed.push(page.id);
+        pages.push({ ...page, sitemapStatus: 'removed', removedAt: crawledAt });
+      }
+      continue;
+    }
+
+    if (page.removedAt) {
+      // Back in the sitemap after being removed
+      changeset.added.push(page.id);
+      pages.push({ ...mergePage(page, fresh), sitemapStatus: 'new', removedAt: null });
+    } else if (hasChanged(page, fresh)) {
+      changeset.changed.push(page.id);
+      pages.push({ ...mergePage(page, fresh), sitemapStatus: 'changed', removedAt: null });
+    } else {
+      changeset.unchanged++;
+      pages.push({ ...mergePage(page, fresh), sitemapStatus: 'unchanged', removedAt: null });
+    }
+  }
+
+  for (const page of crawled) {
+    if (known.has(page.id)) continue;
+    changeset.added.push(page.id);
+    pages.push({ ...page, sitemapStatus: 'new', removedAt: null });
+  }
+
+  return { pages, changeset };
+}
+
+export const summarizeChangeset = (changeset: SitemapChangeset): string => {
+  const parts = [
+    `${changeset.added.length} new`,
+    `${changeset.changed.length} changed`,
+    changeset.removalsChecked ? `${changeset.removed.length} removed` : 'removals not checked (partial crawl)',
+    `${changeset.unchanged} unchanged`,
+  ];
+  if (changeset.notModified.length > 0) parts.push(`${changeset.notModified.length} sitemap(s) not modified`);
+  return parts.join(', ');
+};
+
+const pickValidators = (validators: SitemapValidators, urls: string[]): SitemapValidators =>
+  Object.fromEntries(urls.filter(url => validators[url]).map(url => [url, validators[url]!]));
+
+/**
+ * Recrawl a sitemap against the stored pages and validators. Removed URLs
+ * are only flagged when every sitemap file was read and the crawl was not
+ * cut short, so a flaky proxy can't mark half the site as gone.
+ */
+export async function recrawlSitemap(
+  input: string,
+  previous: SitemapRecrawlState,
+  options: Omit<SitemapCrawlOptions, 'validators' | 'previousPages'> = {}
+): Promise<SitemapRecrawlResult> {
+  const crawl = await crawlSitemap(input, {
+    ...options,
+    validators: previous.validators,
+    previousPages: previous.pages,
+  });
+
+  const { pages, changeset } = mergeSitemapPages(previous.pages, crawl.pages, {
+    detectRemovals: crawl.complete && crawl.failed.length === 0 && crawl.pages.length > 0,
+    notModified: crawl.notModified,
+  });
+
+  return {
+    pages,
+    changeset,
+    // Keep validators for sitemaps that failed this time so the next run can still be conditional
+    validators: { ...pickValidators(previous.validators, crawl.failed), ...crawl.validators },
+    sitemaps: crawl.sitemaps,
+    errors: crawl.errors,
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { STATE_SCHEMA_VERSION, UNVERSIONED, migrate, normalizeContentItem, upgradeBlob } from './StateSchema';
+
+describe('migrate', () => {
+  it('upgrades App-era content items to the current shape', () => {
+    const [item] = migrate<any[]>('contentItems', [
+      { id: 'a1', title: 'Best Running Shoes', type: 'article', status: 'ready', keywords: ['running shoes'], content: '<p>Body</p>', createdAt: 5 },
+      'not an item',
+    ], UNVERSIONED);
+
+    expect(item).toMatchObject({
+      id: 'a1',
+      type: 'standard',
+      status: 'done',
+      statusText: 'Ready',
+      crawledContent: null,
+      createdAt: 5,
+    });
+    expect(item.generatedContent).toMatchObject({ title: 'Best Running Shoes', slug: 'best-running-shoes', primaryKeyword: 'running shoes', content: '<p>Body</p>' });
+  });
+
+  it('fills in legacy pages and drops ones without a URL', () => {
+    const pages = migrate<any[]>('pages', [
+      { loc: 'https://example.com/blog/old-post/', lastmod: '2024-01-01', seoHealth: 40 },
+      { title: 'no url' },
+    ], UNVERSIONED);
+
+    expect(pages).toHaveLength(1);
+    expect(pages[0]).toMatchObject({
+      id: 'https://example.com/blog/old-post/',
+      url: 'https://example.com/blog/old-post/',
+      slug: 'old-post',
+      title: 'old-post',
+      lastMod: '2024-01-01',
+      healthScore: 40,
+      status: 'idle',
+    });
+    expect(pages[0]).not.toHaveProperty('lastmod');
+  });
+
+  it('renames legacy WordPress config fields', () => {
+    expect(migrate('wpConfig', { url: 'https://example.com', username: 'admin', applicationPassword: 'xxxx' }, UNVERSIONED))
+      .toEqual({ siteUrl: 'https://example.com', username: 'admin', appPassword: 'xxxx' });
+  });
+
+  it('runs only the steps after the saved version', () => {
+    const config = { geminiApiKey: 'k', customBaseUrl: 'http://localhost:11434/v1' };
+    expect(migrate('aiConfig', config, 2)).toEqual({ customApiKey: '', customModel: '', customContextWindows: {}, ...config });
+    expect(migrate('aiConfig', config, STATE_SCHEMA_VERSION)).toBe(config);
+  });
+});
+
+describe('upgradeBlob', () => {
+  it('treats bare values as unversioned', () => {
+    expect(upgradeBlob({ url: 'https://example.com' }, 'wpConfig')).toMatchObject({ siteUrl: 'https://example.com', appPassword: '' });
+  });
+
+  it('leaves data from a newer build untouched', () => {
+    const data = { url: 'kept as is' };
+    expect(upgradeBlob({ schemaVersion: STATE_SCHEMA_VERSION + 1, data }, 'wpConfig')).toBe(data);
+  });
+});
+
+describe('normalizeContentItem', () => {
+  it('resets runs that died with the tab', () => {
+    const item = normalizeContentItem({ id: 'x', title: 'T', type: 'pillar', status: 'generating', statusText: 'Stage 3/5' });
+    expect(item).toMatchObject({ type: 'pillar', status: 'idle', statusText: 'Not Started', generatedContent: null });
+  });
+
+  it('drops unknown enum values and keeps known optional fields', () => {
+    const item = normalizeContentItem({ id: 'x', title: 'T', type: 'mystery', status: 'done', qualityProfile: 'bogus', seoScore: 80, originalUrl: 'https://example.com/p' });
+    expect(item.type).toBe('standard');
+    expect(item).not.toHaveProperty('qualityProfile');
+    expect(item).toMatchObject({ seoScore: 80, originalUrl: 'https://example.com/p' });
+  });
+});
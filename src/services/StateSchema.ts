@@ -0,0 +1,243 @@
+/**
+ * State Schema
+ * Versioned model for everything the app persists. localStorage blobs are
+ * written as `{ schemaVersion, data }` envelopes and IndexedDB stores record
+ * their version in the storage layer's meta store. Older data, including the
+ * bare JSON written before versioning existed, is upgraded on load by
+ * running each migration step in turn, so a saved queue survives upgrades.
+ */
+
+import { ContentItem, GeneratedContent, QualityProfileId, SitemapPage } from '../types';
+
+/** Bump together with a new step in MIGRATIONS for every changed entity */
+export const STATE_SCHEMA_VERSION = 3;
+
+/** Data written before blobs carried a version */
+export const UNVERSIONED = 1;
+
+export type PersistedEntity =
+  | 'contentItems'
+  | 'pages'
+  | 'images'
+  | 'wpConfig'
+  | 'aiConfig'
+  | 'advancedConfig'
+  | 'maintenance';
+
+export interface Versioned<T> {
+  schemaVersion: number;
+  data: T;
+}
+
+type Migration = (data: any) => any;
+
+// Saved data is untrusted JSON, so everything below reads it as `any`
+const isObject = (value: any): boolean => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toArray = (value: unknown): any[] => (Array.isArray(value) ? value.filter(isObject) : []);
+
+// ==================== CONTENT ITEMS ====================
+
+// App.tsx used to store its own item vocabulary
+const LEGACY_ITEM_TYPES: Record<string, ContentItem['type']> = {
+  article: 'standard',
+  bulk: 'standard',
+  rewrite: 'refresh',
+};
+const LEGACY_ITEM_STATUSES: Record<string, ContentItem['status']> = {
+  draft: 'idle',
+  ready: 'done',
+};
+const ITEM_TYPES: ContentItem['type'][] = ['pillar', 'cluster', 'standard', 'link-optimizer', 'refresh'];
+const ITEM_STATUSES: ContentItem['status'][] = ['idle', 'generating', 'maintaining', 'done', 'published', 'error'];
+const QUALITY_PROFILE_IDS: QualityProfileId[] = ['pillar', 'cluster', 'refresh', 'local', 'news'];
+
+export const CONTENT_ITEM_STATUS_TEXT: Record<ContentItem['status'], string> = {
+  idle: 'Not Started',
+  generating: 'Generating...',
+  maintaining: 'Maintaining...',
+  done: 'Ready',
+  published: 'Published',
+  error: 'Error',
+};
+
+/**
+ * Minimal GeneratedContent around bare HTML, for items that only ever
+ * stored a content string
+ */
+export function generatedContentFromHtml(title: string, html: string, primaryKeyword = ''): GeneratedContent {
+  return {
+    title,
+    slug: title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+    metaDescription: '',
+    primaryKeyword,
+    semanticKeywords: [],
+    content: html,
+    imageDetails: [],
+    strategy: { targetAudience: '', searchIntent: '', competitorAnalysis: '', contentAngle: '' },
+    jsonLdSchema: {},
+    socialMediaCopy: { twitter: '', linkedIn: '' },
+  };
+}
+
+/**
+ * Coerce any stored item (App's legacy shape, the services shape or a
+ * partial one from SET_ITEMS) into the current ContentItem
+ */
+export function normalizeContentItem(raw: any, index = 0): ContentItem {
+  const type = LEGACY_ITEM_TYPES[raw.type] ?? (ITEM_TYPES.includes(raw.type) ? raw.type : 'standard');
+  // 'generating' and 'maintaining' can't survive a reload; the run died with the tab
+  const storedStatus: ContentItem['status'] = LEGACY_ITEM_STATUSES[raw.status] ?? (ITEM_STATUSES.includes(raw.status) ? raw.status : 'idle');
+  const status = storedStatus === 'generating' || storedStatus === 'maintaining' ? 'idle' : storedStatus;
+  const title = String(raw.title ?? '');
+  const keywords = Array.isArray(raw.keywords) ? raw.keywords.map(String) : [];
+  const generatedContent = isObject(raw.generatedContent)
+    ? (raw.generatedContent as GeneratedContent)
+    : typeof raw.content === 'string' && raw.content
+      ? generatedContentFromHtml(title, raw.content, keywords[0] ?? '')
+      : null;
+  const createdAt = typeof raw.createdAt === 'number' ? raw.createdAt : Date.now() - index;
+
+  const item: ContentItem = {
+    id: String(raw.id ?? `item-${createdAt}-${index}`),
+    title,
+    type,
+    status,
+    statusText: status === storedStatus && typeof raw.statusText === 'string' ? raw.statusText : CONTENT_ITEM_STATUS_TEXT[status],
+    keywords,
+    generatedContent,
+    crawledContent: typeof raw.crawledContent === 'string' ? raw.crawledContent : null,
+    createdAt,
+  };
+  if (typeof raw.originalUrl === 'string') item.originalUrl = raw.originalUrl;
+  if (raw.analysis !== undefined) item.analysis = raw.analysis;
+  if (typeof raw.seoScore === 'number') item.seoScore = raw.seoScore;
+  if (QUALITY_PROFILE_IDS.includes(raw.qualityProfile)) item.qualityProfile = raw.qualityProfile;
+  if (typeof raw.voiceProfile === 'string' && raw.voiceProfile) item.voiceProfile = raw.voiceProfile;
+  if (typeof raw.error === 'string') item.error = raw.error;
+  return item;
+}
+
+// ==================== PAGES ====================
+
+/**
+ * Pages from before the canonical SitemapPage (App's `lastmod`/`seoHealth`
+ * shape, `loc`-only entries) get every required field filled in
+ */
+function normalizeLegacyPage(raw: any): SitemapPage | null {
+  const url = String(raw.url || raw.loc || raw.id || '');
+  if (!url) return null;
+  let slug = '';
+  try {
+    slug = new URL(url).pathname.split('/').filter(Boolean).pop() || '';
+  } catch {}
+  const { lastmod, changefreq, seoHealth, loc, ...rest } = raw;
+  return {
+    title: slug || url,
+    slug,
+    wordCount: null,
+    crawledContent: null,
+    updatePriority: null,
+    justification: null,
+    daysOld: null,
+    isStale: false,
+    publishedState: '',
+    status: 'idle',
+    enabled: true,
+    location: '',
+    region: '',
+    country: '',
+    postalCode: '',
+    ...rest,
+    id: String(raw.id || url),
+    url,
+    lastMod: raw.lastMod ?? lastmod ?? null,
+    changeFreq: raw.changeFreq ?? changefreq ?? null,
+    healthScore: raw.healthScore ?? seoHealth ?? null,
+  } as SitemapPage;
+}
+
+// ==================== MIGRATIONS ====================
+
+// MIGRATIONS[entity][n] upgrades data from version n to n + 1; entities
+// without a step for a version are carried over unchanged
+const MIGRATIONS: Record<PersistedEntity, Record<number, Migration>> = {
+  contentItems: {
+    1: items => toArray(items).map(normalizeContentItem),
+  },
+  pages: {
+    1: pages => toArray(pages).map(normalizeLegacyPage).filter((page): page is SitemapPage => page !== null),
+  },
+  images: {
+    // Generated images had no id before the storage layer keyed them
+    1: images => toArray(images).map((image, i) => (image.id ? image : { ...image, id: `images-${image.timestamp ?? Date.now()}-${i}` })),
+  },
+  wpConfig: {
+    1: config => {
+      if (!isObject(config)) return config;
+      const { url, applicationPassword, ...rest } = config;
+      return { ...rest, siteUrl: rest.siteUrl ?? url ?? '', appPassword: rest.appPassword ?? applicationPassword ?? '' };
+    },
+  },
+  aiConfig: {
+    // v3 added the custom OpenAI-compatible provider
+    2: config => isObject(config)
+      ? { customBaseUrl: '', customApiKey: '', customModel: '', customContextWindows: {}, ...config }
+      : config,
+  },
+  advancedConfig: {},
+  maintenance: {
+    1: state => isObject(state) ? { ...state, queue: toArray(state.queue).filter(entry => typeof entry.url === 'string') } : state,
+  },
+};
+
+/**
+ * Upgrade data saved at `fromVersion` to the current schema. Data from a
+ * newer build is returned untouched rather than guessed at.
+ */
+export function migrate<T>(entity: PersistedEntity, data: unknown, fromVersion: number): T {
+  let current: any = data;
+  for (let version = fromVersion; version < STATE_SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[entity][version];
+    if (step) current = step(current);
+  }
+  return current as T;
+}
+
+export const isVersioned = (value: any): value is Versioned<unknown> =>
+  isObject(value) && typeof value.schemaVersion === 'number' && 'data' in value && Object.keys(value).length === 2;
+
+/**
+ * Unwrap a parsed blob, migrating it when an entity is given. Bare values
+ * are treated as UNVERSIONED.
+ */
+export function upgradeBlob<T>(parsed: unknown, entity?: PersistedEntity): T {
+  const { schemaVersion, data } = isVersioned(parsed) ? parsed : { schemaVersion: UNVERSIONED, data: parsed };
+  if (schemaVersion > STATE_SCHEMA_VERSION) {
+    console.warn(`[StateSchema] ${entity ?? 'blob'} was saved by a newer version (v${schemaVersion}); loading as is`);
+  }
+  return entity ? migrate<T>(entity, data, schemaVersion) : (data as T);
+}
+
+/**
+ * Read a versioned localStorage key. Returns undefined when it's missing
+ * or unreadable.
+ */
+export function loadVersioned<T>(key: string, entity?: PersistedEntity): T | undefined {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? undefined : upgradeBlob<T>(JSON.parse(raw), entity);
+  } catch (e) {
+    console.warn(`[StateSchema] Could not read "${key}":`, e);
+    return undefined;
+  }
+}
+
+/**
+ * Write a localStorage key at the current schema version. Throws like
+ * localStorage.setItem does, so callers decide how to handle quota errors.
+ */
+export function saveVersioned<T>(key: string, data: T): void {
+  const envelope: Versioned<T> = { schemaVersion: STATE_SCHEMA_VERSION, data };
+  localStorage.setItem(key, JSON.stringify(envelope));
+}
@@ -0,0 +1,415 @@
+/**
+ * Storage Layer
+ * Shared async persistence on IndexedDB for data that outgrew localStorage:
+ * sitemap pages, content items, generated images, service caches, usage
+ * records, post revisions and generation checkpoints.
+ * Falls back to an in-memory store when IndexedDB is unavailable, and evicts
+ * cache records before giving up when the quota is exceeded. Collections
+ * are upgraded to the current StateSchema version when the layer opens.
+ * Ledgers hold records that are written one at a time and never evicted.
+ */
+
+import { migrate, STATE_SCHEMA_VERSION, UNVERSIONED } from './StateSchema';
+
+export type CollectionStore = 'pages' | 'contentItems' | 'images';
+export type LedgerStore = 'usage' | 'revisions' | 'checkpoints';
+type StoreName = CollectionStore | LedgerStore | 'cache' | 'meta';
+
+const COLLECTIONS: CollectionStore[] = ['pages', 'contentItems', 'images'];
+
+export interface StoredRecord {
+  id: string;
+}
+
+interface CacheRecord<T = unknown> {
+  key: string;
+  namespace: string;
+  id: string;
+  value: T;
+  updatedAt: number;
+}
+
+/** Schema version of a collection, one record per store */
+interface MetaRecord {
+  id: CollectionStore;
+  schemaVersion: number;
+}
+
+export type StorageMode = 'indexeddb' | 'memory';
+
+export interface StorageWarning {
+  kind: 'unavailable' | 'quota' | 'migration';
+  message: string;
+}
+
+const DB_NAME = 'content-suite';
+const DB_VERSION = 5;
+const MIGRATION_FLAG = 'storage.migratedToIndexedDB';
+
+// Indexes per store; `id` is always the key path except for the cache
+const STORE_INDEXES: Record<StoreName, string[]> = {
+  pages: ['url', 'status', 'sitemapStatus'],
+  contentItems: ['status', 'type'],
+  images: ['timestamp'],
+  usage: ['timestamp'],
+  revisions: ['postId', 'createdAt'],
+  checkpoints: ['updatedAt'],
+  cache: ['namespace', 'updatedAt'],
+  meta: [],
+};
+
+// localStorage key -> destination, for the one-time migration
+const LEGACY_COLLECTIONS: { key: string; store: CollectionStore }[] = [
+  { key: 'existingPages', store: 'pages' },
+  { key: 'contentItems', store: 'contentItems' },
+  { key: 'generatedImages', store: 'images' },
+];
+const LEGACY_CACHES: { key: string; namespace: string }[] = [
+  { key: 'god_mode_cache', namespace: 'semantic' },
+  { key: 'page_analysis_cache', namespace: 'page-analysis' },
+];
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+export class StorageLayer {
+  private db: IDBDatabase | null = null;
+  private memory = new Map<StoreName, Map<string, any>>();
+  private opening: Promise<void> | null = null;
+  private listeners = new Set<(warning: StorageWarning) => void>();
+  private warnings: StorageWarning[] = [];
+  private mode: StorageMode = 'indexeddb';
+  /** Stores whose upgrade could not be written back; upgraded on every read instead */
+  private staleVersions = new Map<CollectionStore, number>();
+
+  /**
+   * Open the database, upgrade stored collections to the current schema and
+   * run the localStorage migration once. Every public method awaits this, so
+   * callers never need to.
+   */
+  ready(): Promise<void> {
+    if (!this.opening) {
+      this.opening = this.open()
+        .then(() => this.upgradeCollections())
+        .then(() => this.migrateFromLocalStorage());
+    }
+    return this.opening;
+  }
+
+  get storageMode(): StorageMode {
+    return this.mode;
+  }
+
+  /**
+   * Warnings raised before the listener subscribed are replayed to it
+   */
+  onWarning(listener: (warning: StorageWarning) => void): () => void {
+    this.warnings.forEach(listener);
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getAll<T extends StoredRecord>(store: CollectionStore): Promise<T[]> {
+    await this.ready();
+    const records = await this.readAll(store);
+    const staleVersion = this.staleVersions.get(store);
+    return staleVersion === undefined ? (records as T[]) : migrate<T[]>(store, records, staleVersion);
+  }
+
+  async getByIndex<T extends StoredRecord>(store: CollectionStore, index: string, value: IDBValidKey): Promise<T[]> {
+    await this.ready();
+    if (!this.db) return Array.from(this.memoryStore(store).values()).filter(record => record[index] === value);
+    return promisify(this.db.transaction(store, 'readonly').objectStore(store).index(index).getAll(value)) as Promise<T[]>;
+  }
+
+  /**
+   * Apply upserts and deletes in one transaction
+   */
+  async sync<T extends StoredRecord>(store: CollectionStore, upserts: T[], deletes: string[] = []): Promise<void> {
+    if (upserts.length === 0 && deletes.length === 0) return;
+    await this.ready();
+    await this.syncRecords(store, upserts, deletes);
+  }
+
+  async clear(store: CollectionStore): Promise<void> {
+    await this.ready();
+    await this.write(store, objectStore => objectStore.clear(), memory => memory.clear());
+  }
+
+  async loadCache<T>(namespace: string): Promise<[string, T][]> {
+    await this.ready();
+    const records: CacheRecord<T>[] = this.db
+      ? await promisify(this.db.transaction('cache', 'readonly').objectStore('cache').index('namespace').getAll(namespace))
+      : Array.from(this.memoryStore('cache').values()).filter(record => record.namespace === namespace);
+    return records.map(record => [record.id, record.value]);
+  }
+
+  /**
+   * Replace every entry of a cache namespace
+   */
+  async saveCache<T>(namespace: string, entries: [string, T][]): Promise<void> {
+    await this.ready();
+    await this.replaceCache(namespace, entries);
+  }
+
+  async clearCache(namespace: string): Promise<void> {
+    await this.saveCache(namespace, []);
+  }
+
+  // ==================== LEDGERS ====================
+
+  async getLedger<T extends StoredRecord>(store: LedgerStore): Promise<T[]> {
+    await this.ready();
+    return this.readAll(store);
+  }
+
+  /**
+   * Apply upserts and deletes in one transaction. Resolves to false when
+   * the quota was still exceeded after evicting caches.
+   */
+  async syncLedger<T extends StoredRecord>(store: LedgerStore, upserts: T[], deletes: string[] = []): Promise<boolean> {
+    if (upserts.length === 0 && deletes.length === 0) return true;
+    await this.ready();
+    return this.syncRecords(store, upserts, deletes);
+  }
+
+  async clearLedger(store: LedgerStore): Promise<void> {
+    await this.ready();
+    await this.write(store, objectStore => objectStore.clear(), memory => memory.clear());
+  }
+
+  // ==================== INTERNALS ====================
+
+  private readAll(store: StoreName): Promise<any[]> {
+    if (!this.db) return Promise.resolve(Array.from(this.memoryStore(store).values()));
+    return promisify(this.db.transaction(store, 'readonly').objectStore(store).getAll());
+  }
+
+  /**
+   * Rewrite every collection saved at an older schema version. Stores
+   * without a meta record predate versioning. A failed rewrite leaves the
+   * old records in place and upgrades them on read until it succeeds.
+   */
+  private async upgradeCollections(): Promise<void> {
+    const versions = new Map((await this.readAll('meta') as MetaRecord[]).map(meta => [meta.id, meta.schemaVersion]));
+    for (const store of COLLECTIONS) {
+      const version = versions.get(store) ?? UNVERSIONED;
+      if (version >= STATE_SCHEMA_VERSION) continue;
+      try {
+        const upgraded = migrate<StoredRecord[]>(store, await this.readAll(store), version);
+        const written = await this.write(store, objectStore => {
+          objectStore.clear();
+          upgraded.forEach(record => objectStore.put(record));
+        }, memory => {
+          memory.clear();
+          upgraded.forEach(record => memory.set(record.id, record));
+        });
+        if (!written) throw new Error('quota exceeded');
+        await this.setVersion(store);
+      } catch (e: any) {
+        this.staleVersions.set(store, version);
+        const message = `Could not upgrade saved ${store} to schema v${STATE_SCHEMA_VERSION}: ${e?.message || e}`;
+        console.warn(`[StorageLayer] ${message}`);
+        this.emit({ kind: 'migration', message });
+      }
+    }
+  }
+
+  private async setVersion(store: CollectionStore): Promise<void> {
+    const meta: MetaRecord = { id: store, schemaVersion: STATE_SCHEMA_VERSION };
+    await this.write('meta', objectStore => objectStore.put(meta), memory => memory.set(store, meta));
+  }
+
+  private syncRecords<T extends StoredRecord>(store: CollectionStore | LedgerStore, upserts: T[], deletes: string[]): Promise<boolean> {
+    return this.write(store, objectStore => {
+      deletes.forEach(id => objectStore.delete(id));
+      upserts.forEach(record => objectStore.put(record));
+    }, memory => {
+      deletes.forEach(id => memory.delete(id));
+      upserts.forEach(record => memory.set(record.id, record));
+    });
+  }
+
+  private replaceCache<T>(namespace: string, entries: [string, T][]): Promise<boolean> {
+    const now = Date.now();
+    const records: CacheRecord<T>[] = entries.map(([id, value]) => ({ key: `${namespace}|${id}`, namespace, id, value, updatedAt: now }));
+    return this.write('cache', objectStore => {
+      const cursorRequest = objectStore.index('namespace').openKeyCursor(IDBKeyRange.only(namespace));
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          objectStore.delete(cursor.primaryKey);
+          cursor.continue();
+        } else {
+          records.forEach(record => objectStore.put(record));
+        }
+      };
+    }, memory => {
+      Array.from(memory.values()).filter(record => record.namespace === namespace).forEach(record => memory.delete(record.key));
+      records.forEach(record => memory.set(record.key, record));
+    });
+  }
+
+  private async open(): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+      this.fallBackToMemory('IndexedDB is not available; data is kept for this session only');
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const [name, indexes] of Object.entries(STORE_INDEXES)) {
+          if (db.objectStoreNames.contains(name)) continue;
+          const objectStore = db.createObjectStore(name, { keyPath: name === 'cache' ? 'key' : 'id' });
+          indexes.forEach(index => objectStore.createIndex(index, index));
+        }
+      };
+      this.db = await promisify(request);
+      // Another tab upgrading the schema; let it proceed
+      this.db.onversionchange = () => this.db?.close();
+    } catch (e: any) {
+      this.fallBackToMemory(`IndexedDB could not be opened (${e?.message || e}); data is kept for this session only`);
+    }
+  }
+
+  private fallBackToMemory(message: string): void {
+    this.db = null;
+    this.mode = 'memory';
+    console.warn(`[StorageLayer] ${message}`);
+    this.emit({ kind: 'unavailable', message });
+  }
+
+  private memoryStore(store: StoreName): Map<string, any> {
+    let map = this.memory.get(store);
+    if (!map) {
+      map = new Map();
+      this.memory.set(store, map);
+    }
+    return map;
+  }
+
+  /**
+   * Run a write; on quota errors evict the oldest half of the caches (they
+   * can always be rebuilt) and retry once before reporting it. Resolves to
+   * false when the data could not be persisted.
+   */
+  private async write(
+    store: StoreName,
+    apply: (objectStore: IDBObjectStore) => void,
+    applyMemory: (memory: Map<string, any>) => void
+  ): Promise<boolean> {
+    if (!this.db) {
+      applyMemory(this.memoryStore(store));
+      return true;
+    }
+    const attempt = async () => {
+      const tx = this.db!.transaction(store, 'readwrite');
+      apply(tx.objectStore(store));
+      await completion(tx);
+    };
+    try {
+      await attempt();
+      return true;
+    } catch (e) {
+      if (!isQuotaError(e)) throw e;
+      await this.evictCaches();
+      try {
+        await attempt();
+        return true;
+      } catch (retryError) {
+        if (!isQuotaError(retryError)) throw retryError;
+        // Callers keep their in-memory copy, so the session carries on; only persistence is lost
+        this.emit({ kind: 'quota', message: `Storage quota exceeded while saving ${store}; recent changes are only kept until the tab is closed` });
+        return false;
+      }
+    }
+  }
+
+  private async evictCaches(): Promise<void> {
+    if (!this.db) return;
+    const tx = this.db.transaction('cache', 'readwrite');
+    const objectStore = tx.objectStore('cache');
+    let evicted = 0;
+    // Chain from the count callback so the transaction never goes idle
+    const countRequest = objectStore.count();
+    countRequest.onsuccess = () => {
+      const target = Math.ceil(countRequest.result / 2);
+      const cursorRequest = objectStore.index('updatedAt').openKeyCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || evicted >= target) return;
+        objectStore.delete(cursor.primaryKey);
+        evicted++;
+        cursor.continue();
+      };
+    };
+    await completion(tx);
+    console.warn(`[StorageLayer] Quota exceeded; evicted ${evicted} cache records`);
+  }
+
+  /**
+   * Move the old localStorage blobs over once, upgrading them from their
+   * unversioned shape on the way. A key is only removed after its data was
+   * written, so a failed migration is retried next load. In memory mode the
+   * blobs are only read, so the session still sees them.
+   */
+  private async migrateFromLocalStorage(): Promise<void> {
+    if (typeof localStorage === 'undefined' || localStorage.getItem(MIGRATION_FLAG)) return;
+    let complete = true;
+
+    for (const { key, store } of LEGACY_COLLECTIONS) {
+      await this.migrateKey(key, async data => {
+        if (!Array.isArray(data)) return;
+        if (!(await this.syncRecords(store, migrate<StoredRecord[]>(store, data, UNVERSIONED), []))) throw new Error('quota exceeded');
+      }).catch(() => (complete = false));
+    }
+    for (const { key, namespace } of LEGACY_CACHES) {
+      await this.migrateKey(key, async data => {
+        if (Array.isArray(data) && !(await this.replaceCache(namespace, data))) throw new Error('quota exceeded');
+      }).catch(() => (complete = false));
+    }
+
+    // Memory mode has nowhere durable to put the data; leave localStorage alone
+    if (complete && this.db) localStorage.setItem(MIGRATION_FLAG, new Date().toISOString());
+  }
+
+  private async migrateKey(key: string, write: (data: unknown) => Promise<void>): Promise<void> {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return;
+    try {
+      await write(JSON.parse(raw));
+      if (this.db) localStorage.removeItem(key);
+    } catch (e: any) {
+      const message = `Could not migrate "${key}" from localStorage: ${e?.message || e}`;
+      console.warn(`[StorageLayer] ${message}`);
+      this.emit({ kind: 'migration', message });
+      throw e;
+    }
+  }
+
+  private emit(warning: StorageWarning): void {
+    this.warnings.push(warning);
+    this.listeners.forEach(listener => listener(warning));
+  }
+}
+
+// Singleton instance
+export const storageLayer = new StorageLayer();
+
+export default StorageLayer;
@@ -0,0 +1,182 @@
+/**
+ * Structured Output
+ * A small schema builder for the JSON replies of structured prompts. Each
+ * schema yields both a JSON Schema, which providers with native structured
+ * output are constrained by, and a validator that coerces a parsed reply into
+ * its typed shape and reports every field that doesn't fit by path.
+ */
+
+export type JsonSchema = {
+  type: 'object' | 'array' | 'string' | 'number';
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+};
+
+export interface FieldError {
+  /** e.g. `outline[2].wordCount`; empty for the reply itself */
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  readonly json: JsonSchema;
+  /** Coerce `value` into T, pushing a FieldError for every part that can't be */
+  parse(value: unknown, path: string, errors: FieldError[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+interface FieldOptions<T> {
+  description?: string;
+  /**
+   * Used when the field is missing, instead of reporting it. The JSON Schema
+   * still marks every field required, as OpenAI's strict mode demands.
+   */
+  default?: T;
+}
+
+export class SchemaValidationError extends Error {
+  /** Re-asks already had their chance; repeating the whole call rarely helps */
+  readonly retryable = false;
+
+  constructor(public promptKey: string, public errors: FieldError[]) {
+    const shown = formatFieldErrors(errors).slice(0, 5).join('; ');
+    super(`Reply to "${promptKey}" does not match its schema (${shown}${errors.length > 5 ? `; +${errors.length - 5} more` : ''})`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+// ==================== BUILDERS ====================
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const preview = (value: unknown): string => {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+const withDescription = (json: JsonSchema, options: FieldOptions<unknown>): JsonSchema =>
+  options.description ? { ...json, description: options.description } : json;
+
+/** Default for a missing value, or an error when the field has none */
+function missing<T>(options: FieldOptions<T>, path: string, errors: FieldError[], fallback: T): T {
+  if (options.default !== undefined) return options.default;
+  errors.push({ path, message: 'is required' });
+  return fallback;
+}
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+export const s = {
+  /** Non-empty text; numbers and booleans are accepted as their string form */
+  string(options: FieldOptions<string> = {}): Schema<string> {
+    return {
+      json: withDescription({ type: 'string' }, options),
+      parse(value, path, errors) {
+        if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+        if (typeof value === 'string') {
+          if (value.trim()) return value.trim();
+          return missing(options, path, errors, '');
+        }
+        if (isMissing(value)) return missing(options, path, errors, '');
+        errors.push({ path, message: `expected a string, got ${preview(value)}` });
+        return '';
+      },
+    };
+  },
+
+  /** Finite number; numeric strings such as "85" or "85/100" are read as numbers */
+  number(options: FieldOptions<number> = {}): Schema<number> {
+    return {
+      json: withDescription({ type: 'number' }, options),
+      parse(value, path, errors) {
+        if (typeof value === 'number' && Number.isFinite(value)) return value;
+        if (typeof value === 'string' && value.trim()) {
+          const parsed = parseFloat(value);
+          if (Number.isFinite(parsed)) return parsed;
+        }
+        if (isMissing(value) || value === '') return missing(options, path, errors, 0);
+        errors.push({ path, message: `expected a number, got ${preview(value)}` });
+        return 0;
+      },
+    };
+  },
+
+  /** One of `values`, matched case-insensitively and returned in canonical case */
+  enumOf<const V extends readonly string[]>(values: V, options: FieldOptions<V[number]> = {}): Schema<V[number]> {
+    return {
+      json: withDescription({ type: 'string', enum: [...values] }, options),
+      parse(value, path, errors) {
+        if (isMissing(value) || value === '') return missing(options, path, errors, values[0]!);
+        const match = values.find(v => v.toLowerCase() === String(value).trim().toLowerCase());
+        if (match !== undefined) return match;
+        errors.push({ path, message: `must be one of ${values.join(', ')}, got ${preview(value)}` });
+        return options.default ?? values[0]!;
+      },
+    };
+  },
+
+  array<T>(item: Schema<T>, options: FieldOptions<T[]> & { minItems?: number } = {}): Schema<T[]> {
+    return {
+      json: withDescription({ type: 'array', items: item.json }, options),
+      parse(value, path, errors) {
+        if (isMissing(value)) return missing(options, path, errors, []);
+        if (!Array.isArray(value)) {
+          errors.push({ path, message: `expected an array, got ${preview(value)}` });
+          return [];
+        }
+        if (options.minItems !== undefined && value.length < options.minItems) {
+          errors.push({ path, message: `needs at least ${options.minItems} items, got ${value.length}` });
+        }
+        return value.map((element, i) => item.parse(element, `${path}[${i}]`, errors));
+      },
+    };
+  },
+
+  /** Unknown keys are dropped; every declared key is required unless it has a default */
+  object<Shape extends Record<string, Schema<any>>>(
+    shape: Shape,
+    options: FieldOptions<{ [K in keyof Shape]: Infer<Shape[K]> }> = {}
+  ): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> {
+    const keys = Object.keys(shape);
+    return {
+      json: withDescription({
+        type: 'object',
+        properties: Object.fromEntries(keys.map(key => [key, shape[key]!.json])),
+        required: keys,
+        additionalProperties: false,
+      }, options),
+      parse(value, path, errors) {
+        const result = {} as { [K in keyof Shape]: Infer<Shape[K]> };
+        if (isMissing(value) && options.default !== undefined) return options.default;
+        if (isMissing(value) || typeof value !== 'object' || Array.isArray(value)) {
+          errors.push({ path, message: isMissing(value) ? 'is required' : `expected an object, got ${preview(value)}` });
+          value = {};
+        }
+        const record = value as Record<string, unknown>;
+        for (const key of keys) {
+          result[key as keyof Shape] = shape[key]!.parse(record[key], joinPath(path, key), errors);
+        }
+        return result;
+      },
+    };
+  },
+};
+
+// ==================== VALIDATION ====================
+
+export function validate<T>(schema: Schema<T>, value: unknown): { value: T; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const parsed = schema.parse(value, '', errors);
+  return { value: parsed, errors };
+}
+
+/** One `path: message` line per error, as shown to users and re-asked models */
+export const formatFieldErrors = (errors: FieldError[]): string[] =>
+  errors.map(e => `${e.path || '(reply)'}: ${e.message}`);
+
+export default s;
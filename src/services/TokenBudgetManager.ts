@@ -39,9 +39,13 @@ export const PROMPT_TIERS: Record<string, PromptTier> = {
 
 export type ContentType = 'cluster' | 'pillar' | 'refresh' | 'surgical' | 'analysis';
 
+// Headroom left in the context window for chat template and special tokens
+const CONTEXT_MARGIN_TOKENS = 256;
+
 export class TokenBudgetManager {
   private tokenUsage: { input: number; output: number } = { input: 0, output: 0 };
   private callCount: number = 0;
+  private contextWindows: Map<string, number> = new Map();
   
   /**
    * Select appropriate tier based on content type
@@ -70,11 +74,35 @@ export class TokenBudgetManager {
     return Math.ceil(text.length / 4);
   }
   
+  /**
+   * Register a model's context window (input + output tokens). Zero or
+   * less forgets it.
+   */
+  setContextWindow(model: string, tokens: number): void {
+    if (tokens > 0) this.contextWindows.set(model, Math.floor(tokens));
+    else this.contextWindows.delete(model);
+  }
+  
+  getContextWindow(model: string): number | null {
+    return this.contextWindows.get(model) ?? null;
+  }
+  
+  /**
+   * Largest output that fits next to `inputTokens` in the model's context
+   * window, capped at `requested`. Models without a registered window get
+   * `requested` unchanged; 0 means the prompt alone doesn't fit.
+   */
+  fitOutputTokens(model: string, inputTokens: number, requested: number): number {
+    const window = this.contextWindows.get(model);
+    if (window === undefined) return requested;
+    return Math.max(0, Math.min(requested, window - inputTokens - CONTEXT_MARGIN_TOKENS));
+  }
+  
   /**
    * Prune context to fit within budget
    */
   pruneContext(context: PruneableContext, maxTokens: number): PrunedContext {
-    const { serpData, competitors, references, paaQuestions, existingContent } = context;
+    const { serpData, competitors, paaQuestions, existingContent } = context;
     
     let currentTokens = 0;
     const result: PrunedContext = {
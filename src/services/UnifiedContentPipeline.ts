@@ -8,6 +8,7 @@ import { QualityGate, QualityCheckResult } from './QualityGate';
 import { semanticCache } from './SemanticCache';
 import { tokenBudgetManager, PROMPT_TIERS, ContentType } from './TokenBudgetManager';
 import { HumanWritingEngine } from './HumanWritingEngine';
+import { VoiceProfile, voiceInstruction, voiceProfiles } from './VoiceProfiles';
 
 const now = new Date();
 const CURRENT_YEAR = now.getFullYear();
@@ -22,6 +23,8 @@ export interface PipelineInput {
   paaQuestions?: string[];
   neuronData?: string;
   internalLinks?: string[];
+  /** Brand voice; the default voice when omitted */
+  voice?: VoiceProfile;
 }
 
 export interface PipelineOutput {
@@ -95,7 +98,7 @@ export class UnifiedContentPipeline {
     const parsed = this.parseUnifiedResponse(rawContent, input.keyword);
     
     // Humanize content
-    const humanizedContent = HumanWritingEngine.humanize(parsed.content);
+    const humanizedContent = HumanWritingEngine.humanize(parsed.content, input.voice);
     
     // Quality check
     const qualityScore = QualityGate.preflightCheck(humanizedContent, input.keyword);
@@ -135,7 +138,8 @@ export class UnifiedContentPipeline {
     context: any,
     tier: typeof PROMPT_TIERS.STANDARD
   ): UnifiedPromptConfig {
-    const systemPrompt = `You are ALEX HORMOZI writing the DEFINITIVE ${TARGET_YEAR} guide on "${input.keyword}".
+    const voice = input.voice ?? voiceProfiles.get();
+    const systemPrompt = `You are an expert ghostwriter writing the DEFINITIVE ${TARGET_YEAR} guide on "${input.keyword}".
 
 ## CRITICAL RULES - VIOLATION = FAILURE
 
@@ -143,13 +147,12 @@ export class UnifiedContentPipeline {
 - Count every word. No shortcuts.
 - This is non-negotiable. Below 2500 = FAILURE.
 
-### STYLE: HORMOZI MODE (MANDATORY)
-1. SHORT SENTENCES: Max 12 words. Period.
-2. ACTIVE VOICE ONLY: "You do X." NOT "X is done by you."
-3. ZERO FLUFF: If it doesn't add value, delete it.
-4. GRADE 5 READING: Simple words. Big ideas.
-5. DIRECT ADDRESS: Talk to "You".
-6. AGGRESSIVE HELPFULNESS: Give answers immediately.
+### STYLE (MANDATORY)
+1. ACTIVE VOICE: "You do X." NOT "X is done by you."
+2. ZERO FLUFF: If it doesn't add value, delete it.
+3. AGGRESSIVE HELPFULNESS: Give answers immediately.
+
+${voiceInstruction(voice)}
 
 ### BANNED PHRASES (INSTANT REJECTION)
 delve, tapestry, landscape, realm, leverage, robust, holistic, paradigm, synergy,
@@ -158,12 +161,8 @@ cutting-edge, game-changer, comprehensive guide, in today's world, it's worth no
 in conclusion, to summarize, furthermore, moreover, additionally, firstly, secondly
 
 ### HUMAN WRITING RULES (ANTI-AI DETECTION)
-1. Use contractions: don't, won't, can't, you're, it's, that's
-2. Vary sentence length: Mix 5-word punches with 20-word explanations
-3. Start sentences with "And", "But", "So" occasionally
-4. Use fragments for emphasis. Like this.
-5. Include rhetorical questions. Make sense?
-6. Add personality: "Here's the thing.", "Look.", "Real talk."
+1. Vary sentence length around the voice profile's average
+2. Follow the voice profile's contraction policy and person exactly
 
 ### STRUCTURE REQUIREMENTS
 1. NO H1 TAGS - Start with H2
@@ -199,7 +198,7 @@ ${input.internalLinks?.length > 0 ? `### Available Internal Links:\n${input.inte
 
 ## EXECUTION CHECKLIST
 ✓ Write 2500-3000 words (COUNT THEM)
-✓ Use Hormozi style throughout
+✓ Stay in the ${voice.label} voice throughout
 ✓ Include [YOUTUBE_VIDEO_1] and [YOUTUBE_VIDEO_2]
 ✓ Include [IMAGE_1], [IMAGE_2], [IMAGE_3]
 ✓ Add comparison table with real data
@@ -366,7 +365,7 @@ CRITICAL: Ensure 2500-3000 words.`;
       temperature: 0.8
     });
     
-    const humanized = HumanWritingEngine.humanize(fixed);
+    const humanized = HumanWritingEngine.humanize(fixed, input.voice);
     const newQuality = QualityGate.preflightCheck(humanized, input.keyword);
     
     return {
@@ -0,0 +1,388 @@
+/**
+ * Voice Analyzer
+ * Measures how a body of writing reads: sentence-length distribution,
+ * vocabulary richness, contraction rate, person, common openers and
+ * phrases, and heading style. Sampling the site's best crawled pages yields
+ * a VoiceProfile the generator can target, and the same measurements score
+ * how closely a draft matches a voice.
+ */
+
+import { SitemapPage, StyleFeatures, VoicePerson, VoiceProfile } from '../types';
+import { measureContent } from './QualityRuleEngine';
+import { FORMAL_REPLACEMENTS, GENERIC_AI_CLICHES } from './VoiceProfiles';
+
+// ==================== TEXT ====================
+
+interface StyleSource {
+  sentences: string[];
+  headings: string[];
+  text: string;
+}
+
+// Header lines of r.jina.ai crawls
+const CRAWL_META_LINE = /^(Title|URL Source|Published Time|Markdown Content):/i;
+
+const MIN_SENTENCE_WORDS = 3;
+
+const STOPWORDS = new Set(
+  ('a an the and or but so of to in on at for with by from as is are was were be been it its this that these those ' +
+    'you your we our i my he she they them their his her not no do does did have has had will would can could should ' +
+    'if then than there here what which who how when where why all any more most some such into about up out over just also')
+    .split(' ')
+);
+
+const FIRST_PERSON = /\b(i|i'm|i've|i'd|i'll|me|my|mine|we|we're|we've|we'd|we'll|us|our|ours)\b/gi;
+const SECOND_PERSON = /\b(you|you're|you've|you'd|you'll|your|yours|yourself)\b/gi;
+const THIRD_PERSON = /\b(he|she|they|them|his|her|hers|their|theirs|people|readers|patients|customers)\b/gi;
+const CONTRACTION = /\b[a-z]+'(t|s|re|ve|ll|d|m)\b/gi;
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+const wordsOf = (text: string) => text.toLowerCase().match(/[a-z][a-z'-]*/g) || [];
+
+/**
+ * Sentences and headings from crawled content, which is HTML, the markdown
+ * r.jina.ai returns, or plain text
+ */
+function toStyleSource(content: string): StyleSource {
+  const headings: string[] = [];
+  let body = content.replace(/’/g, "'");
+
+  if (/<(p|h[1-6])[\s>]/i.test(body)) {
+    body = body
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi, (_match, heading: string) => {
+        headings.push(heading.replace(/<[^>]*>/g, '').trim());
+        return '\n';
+      })
+      .replace(/<\/(p|li|div|blockquote|tr)>/gi, '\n')
+      .replace(/<[^>]*>/g, ' ');
+  } else {
+    body = body
+      .split('\n')
+      .filter(line => !CRAWL_META_LINE.test(line.trim()))
+      .map(line => {
+        const heading = line.match(/^\s*#{1,6}\s+(.+)$/);
+        if (heading) {
+          headings.push(heading[1]!.trim());
+          return '';
+        }
+        return line;
+      })
+      .join('\n')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/[*_`>#|]+/g, ' ');
+  }
+
+  const text = body.replace(/\s+/g, ' ').trim();
+  const sentences = body
+    .split('\n')
+    .flatMap(block => block.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.split(' ').length >= MIN_SENTENCE_WORDS && /[a-z]/i.test(sentence));
+  return { sentences, headings: headings.filter(Boolean), text };
+}
+
+// ==================== FEATURES ====================
+
+const round = (n: number, places = 2) => Math.round(n * 10 ** places) / 10 ** places;
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]!;
+
+/** Mean type-token ratio over consecutive 100-word windows, so long texts aren't penalized */
+function vocabularyRichness(words: string[]): number {
+  const WINDOW = 100;
+  if (words.length === 0) return 0;
+  if (words.length < WINDOW) return new Set(words).size / words.length;
+  const ratios: number[] = [];
+  for (let i = 0; i + WINDOW <= words.length; i += WINDOW) {
+    ratios.push(new Set(words.slice(i, i + WINDOW)).size / WINDOW);
+  }
+  return ratios.reduce((a, b) => a + b, 0) / ratios.length;
+}
+
+const isTitleCase = (heading: string) => {
+  const significant = heading.split(/\s+/).filter(word => /^[a-z]/i.test(word) && !STOPWORDS.has(word.toLowerCase()));
+  return significant.length > 1 && significant.every(word => /^[A-Z]/.test(word));
+};
+
+/** Features of several texts measured as one body of writing */
+export function analyzeStyle(contents: string[]): StyleFeatures {
+  const sources = contents.map(toStyleSource);
+  const sentences = sources.flatMap(source => source.sentences);
+  const headings = sources.flatMap(source => source.headings);
+  const text = sentences.join(' ');
+  const words = wordsOf(text);
+  const per100 = (count: number) => (words.length > 0 ? round((count / words.length) * 100) : 0);
+
+  const lengths = sentences.map(sentence => sentence.split(/\s+/).length);
+  const sorted = [...lengths].sort((a, b) => a - b);
+  const mean = lengths.length > 0 ? lengths.reduce((a, b) => a + b, 0) / lengths.length : 0;
+  const stdev = lengths.length > 0 ? Math.sqrt(lengths.reduce((sum, n) => sum + (n - mean) ** 2, 0) / lengths.length) : 0;
+
+  const openerCounts = new Map<string, number>();
+  sentences.forEach(sentence => {
+    const first = wordsOf(sentence)[0];
+    if (first) openerCounts.set(first, (openerCounts.get(first) ?? 0) + 1);
+  });
+
+  // Phrases must recur across pages, or one page's boilerplate would dominate
+  const phrasePages = new Map<string, { count: number; pages: Set<number> }>();
+  sources.forEach((source, page) => {
+    source.sentences.forEach(sentence => {
+      const sentenceWords = wordsOf(sentence);
+      for (const n of [2, 3]) {
+        for (let i = 0; i + n <= sentenceWords.length; i++) {
+          const gram = sentenceWords.slice(i, i + n);
+          if (gram.every(word => STOPWORDS.has(word)) || STOPWORDS.has(gram[n - 1]!)) continue;
+          const key = gram.join(' ');
+          const entry = phrasePages.get(key) ?? { count: 0, pages: new Set<number>() };
+          entry.count++;
+          entry.pages.add(page);
+          phrasePages.set(key, entry);
+        }
+      }
+    });
+  });
+  const minPages = Math.min(2, sources.length);
+
+  return {
+    words: words.length,
+    sentences: sentences.length,
+    sentenceLength: { mean: round(mean, 1), median: percentile(sorted, 0.5), p90: percentile(sorted, 0.9), stdev: round(stdev, 1) },
+    vocabularyRichness: round(vocabularyRichness(words)),
+    readingLevel: measureContent({ html: text, keyword: '' }).readabilityGrade,
+    contractionRate: per100(countMatches(text, CONTRACTION)),
+    person: {
+      first: per100(countMatches(text, FIRST_PERSON)),
+      second: per100(countMatches(text, SECOND_PERSON)),
+      third: per100(countMatches(text, THIRD_PERSON)),
+    },
+    questionRate: sentences.length > 0 ? round(sentences.filter(s => s.includes('?')).length / sentences.length) : 0,
+    openers: Array.from(openerCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 8)
+      .map(([opener, count]) => ({ text: opener, share: round(count / sentences.length) })),
+    phrases: Array.from(phrasePages.entries())
+      .filter(([, entry]) => entry.count >= 3 && entry.pages.size >= minPages)
+      .sort((a, b) => b[1].count - a[1].count)
+      .slice(0, 10)
+      .map(([phrase, entry]) => ({ text: phrase, count: entry.count })),
+    headings: headings.length === 0 ? null : {
+      count: headings.length,
+      titleCase: round(headings.filter(isTitleCase).length / headings.length),
+      questions: round(headings.filter(h => h.trim().endsWith('?')).length / headings.length),
+      meanWords: round(headings.reduce((sum, h) => sum + h.split(/\s+/).length, 0) / headings.length, 1),
+    },
+  };
+}
+
+// ==================== LEARNING ====================
+
+export interface LearnVoiceOptions {
+  /** Pages sampled, best first (default 25) */
+  sampleSize?: number;
+  id?: string;
+  label?: string;
+}
+
+const DEFAULT_SAMPLE_SIZE = 25;
+const MIN_PAGE_CHARS = 800;
+const MIN_CORPUS_SENTENCES = 30;
+
+/** Best pages first: highest health score, then longest */
+const byQuality = (a: SitemapPage, b: SitemapPage) =>
+  (b.healthScore ?? -1) - (a.healthScore ?? -1) || (b.wordCount ?? 0) - (a.wordCount ?? 0);
+
+const personOf = ({ first, second }: StyleFeatures['person']): VoicePerson => {
+  if (first < 0.5 && second < 0.5) return 'third';
+  return first >= second ? 'first' : 'second';
+};
+
+const contractionPolicyOf = (rate: number): VoiceProfile['contractions'] =>
+  rate < 0.15 ? 'never' : rate > 1.5 ? 'always' : 'natural';
+
+/** Three consecutive sentences per page whose length is closest to the site's average */
+function examplePassages(contents: string[], mean: number, count: number): string[] {
+  const candidates = contents.flatMap(content => {
+    const { sentences } = toStyleSource(content);
+    let best: { text: string; distance: number } | null = null;
+    for (let i = 0; i + 3 <= sentences.length; i++) {
+      const passage = sentences.slice(i, i + 3);
+      const words = passage.join(' ').split(/\s+/).length;
+      if (words < 20 || words > 90) continue;
+      const distance = Math.abs(words / 3 - mean);
+      if (!best || distance < best.distance) best = { text: passage.join(' '), distance };
+    }
+    return best ? [best] : [];
+  });
+  return candidates.sort((a, b) => a.distance - b.distance).slice(0, count).map(c => c.text);
+}
+
+function describeTone(features: StyleFeatures, person: VoicePerson, contractions: VoiceProfile['contractions']): string {
+  const register = contractions === 'never' ? 'formal' : contractions === 'always' ? 'conversational' : 'plain-spoken';
+  const length = features.sentenceLength.mean <= 13 ? 'short' : features.sentenceLength.mean >= 20 ? 'long' : 'medium-length';
+  const vocabulary = features.vocabularyRichness >= 0.72 ? 'varied' : features.vocabularyRichness <= 0.6 ? 'simple, repeated' : 'everyday';
+  const parts = [
+    `Match the site's published writing: ${register}, ${person} person, ${length} sentences and ${vocabulary} vocabulary.`,
+  ];
+  if (features.questionRate >= 0.05) parts.push('Asks the reader questions regularly.');
+  if (features.headings) {
+    const style = features.headings.titleCase >= 0.5 ? 'Title Case' : 'sentence case';
+    parts.push(`Headings in ${style}, about ${Math.round(features.headings.meanWords)} words${features.headings.questions >= 0.3 ? ', often phrased as questions' : ''}.`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * A voice profile from the site's crawled pages. Throws when too few pages
+ * have been crawled to measure the site reliably.
+ */
+export function learnVoiceProfile(pages: SitemapPage[], siteUrl: string, options: LearnVoiceOptions = {}): VoiceProfile {
+  const sample = pages
+    .filter(page => !page.removedAt && (page.crawledContent?.length ?? 0) >= MIN_PAGE_CHARS)
+    .sort(byQuality)
+    .slice(0, options.sampleSize ?? DEFAULT_SAMPLE_SIZE);
+  const contents = sample.map(page => page.crawledContent!);
+  const features = analyzeStyle(contents);
+  if (features.sentences < MIN_CORPUS_SENTENCES) {
+    throw new Error(`Only ${features.sentences} sentences across ${sample.length} crawled pages; crawl or analyze more pages first`);
+  }
+
+  const person = personOf(features.person);
+  const contractions = contractionPolicyOf(features.contractionRate);
+  const host = siteUrl.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '') || 'site';
+  const starters = features.openers
+    .filter(opener => ['and', 'but', 'so'].includes(opener.text) && opener.share >= 0.01)
+    .map(opener => `${opener.text.charAt(0).toUpperCase()}${opener.text.slice(1)} `);
+  const readingLevel = Math.max(1, Math.round(features.readingLevel));
+
+  return {
+    id: options.id ?? `learned-${host}`,
+    label: options.label ?? `Learned: ${host}`,
+    tone: describeTone(features, person, contractions),
+    readingLevel,
+    person,
+    contractions,
+    sentenceLength: {
+      target: Math.round(features.sentenceLength.mean),
+      max: Math.max(Math.round(features.sentenceLength.mean) + 4, features.sentenceLength.p90),
+    },
+    bannedPhrases: GENERIC_AI_CLICHES,
+    preferredPhrases: features.phrases.slice(0, 6).map(phrase => phrase.text),
+    ...(contractions === 'never' || readingLevel >= 10 ? { phraseReplacements: FORMAL_REPLACEMENTS } : {}),
+    sectionOpeners: [],
+    rhetoricalQuestions: [],
+    conjunctionStarters: starters,
+    examples: examplePassages(contents, features.sentenceLength.mean, 2),
+    learned: { pages: sample.length, learnedAt: Date.now(), features },
+  };
+}
+
+// ==================== MATCHING ====================
+
+export interface VoiceMatchComponent {
+  feature: string;
+  draft: number | string;
+  target: number | string;
+  /** 0-100 */
+  score: number;
+}
+
+export interface VoiceMatch {
+  /** 0-100, the mean of the component scores */
+  score: number;
+  components: VoiceMatchComponent[];
+}
+
+// Contractions per 100 words a declared policy implies, for built-in profiles
+const CONTRACTION_RATE_FOR_POLICY: Record<VoiceProfile['contractions'], number> = { never: 0, natural: 1, always: 2.5 };
+
+const clamp = (n: number) => Math.max(0, Math.min(100, Math.round(n)));
+
+const personShares = ({ first, second, third }: StyleFeatures['person']) => {
+  const total = first + second + third;
+  return total > 0 ? { first: first / total, second: second / total, third: third / total } : { first: 0, second: 0, third: 1 };
+};
+
+/**
+ * How closely a draft reads like `voice`, 0-100. Learned voices compare
+ * every measured feature; built-in voices compare what they declare.
+ */
+export function voiceMatch(html: string, voice: VoiceProfile): VoiceMatch {
+  const draft = analyzeStyle([html]);
+  const target = voice.learned?.features;
+  const components: VoiceMatchComponent[] = [];
+
+  const targetMean = target?.sentenceLength.mean ?? voice.sentenceLength.target;
+  components.push({
+    feature: 'Sentence length',
+    draft: draft.sentenceLength.mean,
+    target: targetMean,
+    score: clamp(100 - (Math.abs(draft.sentenceLength.mean - targetMean) / Math.max(1, targetMean)) * 150),
+  });
+
+  const targetGrade = target?.readingLevel ?? voice.readingLevel;
+  components.push({
+    feature: 'Reading level',
+    draft: draft.readingLevel,
+    target: targetGrade,
+    score: clamp(100 - Math.abs(draft.readingLevel - targetGrade) * 12),
+  });
+
+  const targetContractions = target?.contractionRate ?? CONTRACTION_RATE_FOR_POLICY[voice.contractions];
+  components.push({
+    feature: 'Contractions per 100 words',
+    draft: draft.contractionRate,
+    target: targetContractions,
+    score: clamp(100 - Math.abs(draft.contractionRate - targetContractions) * 30),
+  });
+
+  const draftShares = personShares(draft.person);
+  const targetShares = target
+    ? personShares(target.person)
+    : { first: voice.person === 'first' ? 1 : 0, second: voice.person === 'second' ? 1 : 0, third: voice.person === 'third' ? 1 : 0 };
+  const distance = Math.abs(draftShares.first - targetShares.first) + Math.abs(draftShares.second - targetShares.second) + Math.abs(draftShares.third - targetShares.third);
+  components.push({
+    feature: 'Person',
+    draft: personOf(draft.person),
+    target: target ? personOf(target.person) : voice.person,
+    score: clamp(100 - distance * 50),
+  });
+
+  if (target) {
+    components.push({
+      feature: 'Sentence length spread',
+      draft: draft.sentenceLength.stdev,
+      target: target.sentenceLength.stdev,
+      score: clamp(100 - (Math.abs(draft.sentenceLength.stdev - target.sentenceLength.stdev) / Math.max(1, target.sentenceLength.stdev)) * 100),
+    });
+    components.push({
+      feature: 'Vocabulary richness',
+      draft: draft.vocabularyRichness,
+      target: target.vocabularyRichness,
+      score: clamp(100 - Math.abs(draft.vocabularyRichness - target.vocabularyRichness) * 250),
+    });
+    components.push({
+      feature: 'Questions',
+      draft: draft.questionRate,
+      target: target.questionRate,
+      score: clamp(100 - Math.abs(draft.questionRate - target.questionRate) * 300),
+    });
+    if (draft.headings && target.headings) {
+      components.push({
+        feature: 'Title Case headings',
+        draft: draft.headings.titleCase,
+        target: target.headings.titleCase,
+        score: clamp(100 - Math.abs(draft.headings.titleCase - target.headings.titleCase) * 100),
+      });
+    }
+  }
+
+  return {
+    score: clamp(components.reduce((sum, c) => sum + c.score, 0) / components.length),
+    components,
+  };
+}
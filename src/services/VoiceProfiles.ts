@@ -0,0 +1,246 @@
+/**
+ * Voice Profiles
+ * Named brand voices: tone, reading level, person, contraction policy,
+ * sentence-length targets, banned and preferred phrases and example
+ * passages. The site picks a voice and any ContentItem may override it.
+ * buildRequest appends the voice to every prompt that writes prose, and
+ * HumanWritingEngine post-processes drafts with the same profile.
+ */
+
+import { ContentItem, VoicePerson, VoiceProfile } from '../types';
+
+export type { ContractionPolicy, StyleFeatures, VoicePerson, VoiceProfile } from '../types';
+
+// ==================== BUILT-IN PROFILES ====================
+
+// Replacements for the shared AI-phrase alternatives that are too casual
+// for professional and clinical writing
+export const FORMAL_REPLACEMENTS: Record<string, string[]> = {
+  'game-changer': ['major advance', 'significant change'],
+  'comprehensive guide': ['complete guide', 'detailed overview'],
+  'in conclusion': ['In summary', 'Overall'],
+  'to summarize': ['In summary', 'In short'],
+  furthermore: ['Also', 'In addition'],
+  moreover: ['Also', 'In addition'],
+  additionally: ['Also', 'In addition'],
+  firstly: ['First'],
+  secondly: ['Second'],
+  thirdly: ['Third'],
+  revolutionize: ['transform', 'change'],
+  unprecedented: ['new', 'unusual'],
+  plethora: ['many', 'a wide range of'],
+  myriad: ['many', 'numerous'],
+  empower: ['help', 'enable'],
+  harness: ['use', 'apply'],
+};
+
+export const GENERIC_AI_CLICHES = [
+  'In the fast-paced world',
+  'Unlock the potential',
+  'Delve into',
+  'Tapestry',
+  'Symphony',
+  'Navigating the landscape',
+  'In conclusion',
+];
+
+export const BUILT_IN_VOICE_PROFILES: VoiceProfile[] = [
+  {
+    id: 'direct',
+    label: 'Direct & punchy',
+    tone: 'High-energy, direct, confident and punchy. Active voice only. Eliminate all filler words and get to the point.',
+    readingLevel: 5,
+    person: 'second',
+    contractions: 'natural',
+    sentenceLength: { target: 12, max: 20 },
+    bannedPhrases: GENERIC_AI_CLICHES,
+    preferredPhrases: ["Here's the thing", 'Bottom line', 'Most people'],
+    sectionOpeners: [
+      'Look.',
+      "Here's the thing.",
+      'Most people fail at this.',
+      'The truth?',
+      "But here's what nobody tells you.",
+      "And that's exactly why",
+      "You know what's crazy?",
+      'Real talk.',
+      'Stop.',
+      'Think about it.',
+      "Here's the deal.",
+      'Now listen.',
+      'Pay attention.',
+      'This is important.',
+    ],
+    rhetoricalQuestions: [
+      'So what does this mean for you?',
+      'Why does this matter?',
+      "What's the catch?",
+      'Sound familiar?',
+      'Make sense?',
+      "See where I'm going with this?",
+      'Get it?',
+      'You with me?',
+    ],
+    conjunctionStarters: ['And ', 'But ', 'So '],
+    examples: [
+      "Most people overthink this. They read ten guides, buy three tools and never start. Don't be most people. Pick one method, run it for 30 days and measure what happens.",
+    ],
+  },
+  {
+    id: 'b2b',
+    label: 'B2B professional',
+    tone: 'Confident, precise and practical, for decision-makers who are short on time. Support claims with specifics and numbers. No hype, no slang.',
+    readingLevel: 10,
+    person: 'second',
+    contractions: 'natural',
+    sentenceLength: { target: 17, max: 28 },
+    bannedPhrases: [...GENERIC_AI_CLICHES, 'game-changer', 'best-in-class', 'world-class', 'synergy', 'Real talk', "You know what's crazy"],
+    preferredPhrases: ['in practice', 'for example', 'the trade-off is', 'teams that'],
+    phraseReplacements: FORMAL_REPLACEMENTS,
+    sectionOpeners: [],
+    rhetoricalQuestions: [],
+    conjunctionStarters: [],
+    examples: [
+      'Most procurement teams review vendor contracts once a year. The teams that cut costs fastest review them quarterly, because usage changes faster than pricing tiers do. In practice, that means tracking seat utilization monthly and renegotiating when it drops below 70%.',
+    ],
+  },
+  {
+    id: 'medical',
+    label: 'Medical & health',
+    tone: 'Calm, accurate and reassuring. Evidence-based and careful with claims; never alarmist or salesy. Point readers to a clinician where a decision depends on their own health.',
+    readingLevel: 8,
+    person: 'third',
+    contractions: 'never',
+    sentenceLength: { target: 16, max: 25 },
+    bannedPhrases: [...GENERIC_AI_CLICHES, 'cure', 'miracle', 'guaranteed', '100% safe', 'secret', 'breakthrough', 'game-changer'],
+    preferredPhrases: ['research suggests', 'may help', 'talk to a doctor', 'evidence shows'],
+    phraseReplacements: FORMAL_REPLACEMENTS,
+    sectionOpeners: [],
+    rhetoricalQuestions: [],
+    conjunctionStarters: [],
+    examples: [
+      'Mild dehydration often causes headaches and fatigue before thirst becomes noticeable. Research suggests that most adults need between 2 and 3 litres of fluid a day, although needs vary with age, activity and climate. People with kidney or heart conditions should ask a doctor before changing how much they drink.',
+    ],
+  },
+  {
+    id: 'friendly',
+    label: 'Friendly & conversational',
+    tone: 'Warm, helpful and encouraging, like a knowledgeable friend explaining something over coffee. Plain words, a little personality, no jargon.',
+    readingLevel: 7,
+    person: 'first',
+    contractions: 'always',
+    sentenceLength: { target: 14, max: 24 },
+    bannedPhrases: GENERIC_AI_CLICHES,
+    preferredPhrases: ["we've found", 'the good news is', 'a quick tip'],
+    sectionOpeners: ["Here's the good news.", 'Quick tip:', "Let's be honest."],
+    rhetoricalQuestions: ['Sound familiar?', 'Make sense?'],
+    conjunctionStarters: ['And ', 'But ', 'So '],
+    examples: [
+      "We've tried just about every way to keep basil alive on a windowsill. The good news is it's easier than it looks. Give it six hours of light, water it when the top of the soil feels dry, and pinch off the flowers as soon as they show up.",
+    ],
+  },
+];
+
+export const DEFAULT_VOICE_PROFILE = 'direct';
+
+/**
+ * Prompts whose output is prose the reader sees. Planning, analysis and
+ * repair-of-JSON prompts don't get the voice appended.
+ */
+export const VOICED_PROMPT_KEYS = new Set<string>([
+  'content_meta_and_outline',
+  'ultra_sota_article_writer',
+  'article_continuation',
+  'surgical_section_optimizer',
+  'content_refresher',
+  'god_mode_structural_guardian',
+  'content_grader',
+  'content_repair_agent',
+  'fluff_remover_and_replacer',
+  'generate_faq_section',
+  'generate_key_takeaways',
+]);
+
+// ==================== REGISTRY ====================
+
+export class VoiceProfileRegistry {
+  private profiles = new Map<string, VoiceProfile>();
+  private builtInIds: Set<string>;
+
+  constructor(profiles: VoiceProfile[] = BUILT_IN_VOICE_PROFILES) {
+    profiles.forEach(profile => this.register(profile));
+    this.builtInIds = new Set(profiles.map(profile => profile.id));
+  }
+
+  /** Add a profile, or replace the one with the same id */
+  register(profile: VoiceProfile): void {
+    this.profiles.set(profile.id, profile);
+  }
+
+  /** Replace every non-built-in profile, e.g. with the project's learned voices */
+  configure(custom: VoiceProfile[]): void {
+    Array.from(this.profiles.keys())
+      .filter(id => !this.builtInIds.has(id))
+      .forEach(id => this.profiles.delete(id));
+    custom.filter(profile => !this.builtInIds.has(profile.id)).forEach(profile => this.register(profile));
+  }
+
+  list(): VoiceProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  has(id: string): boolean {
+    return this.profiles.has(id);
+  }
+
+  isBuiltIn(id: string): boolean {
+    return this.builtInIds.has(id);
+  }
+
+  /** The profile, or the default voice when `id` is unknown or missing */
+  get(id?: string | null): VoiceProfile {
+    return (id ? this.profiles.get(id) : undefined) ?? this.profiles.get(DEFAULT_VOICE_PROFILE) ?? BUILT_IN_VOICE_PROFILES[0]!;
+  }
+}
+
+/** The item's chosen voice, or the site's */
+export const voiceForItem = (item: Pick<ContentItem, 'voiceProfile'>, siteVoice?: string): VoiceProfile =>
+  voiceProfiles.get(item.voiceProfile ?? siteVoice);
+
+// ==================== PROMPT ====================
+
+const PERSON_RULES: Record<VoicePerson, string> = {
+  first: 'First person. Speak as "I" or "we" and share experience directly.',
+  second: 'Second person. Address the reader as "you".',
+  third: 'Third person. Do not address the reader as "you" or speak as "I" or "we".',
+};
+
+const CONTRACTION_RULES = {
+  always: "Always use contractions (don't, it's, you're).",
+  natural: 'Use contractions where they sound natural in speech.',
+  never: 'Never use contractions. Write "do not", "it is", "you are".',
+};
+
+/** The voice as a system-instruction block */
+export function voiceInstruction(voice: VoiceProfile): string {
+  const lines = [
+    `**VOICE PROFILE: ${voice.label.toUpperCase()} (STRICTLY ENFORCED):**`,
+    `-   **Tone:** ${voice.tone}`,
+    `-   **Readability:** Grade ${voice.readingLevel} reading level.`,
+    `-   **Sentence Length:** About ${voice.sentenceLength.target} words on average, never more than ${voice.sentenceLength.max}.`,
+    `-   **Person:** ${PERSON_RULES[voice.person]}`,
+    `-   **Contractions:** ${CONTRACTION_RULES[voice.contractions]}`,
+  ];
+  if (voice.bannedPhrases.length > 0) lines.push(`-   **Banned Phrases:** NEVER use ${voice.bannedPhrases.map(p => `"${p}"`).join(', ')}.`);
+  if (voice.preferredPhrases.length > 0) lines.push(`-   **Preferred Phrases:** Use where they fit: ${voice.preferredPhrases.map(p => `"${p}"`).join(', ')}.`);
+  if (voice.examples.length > 0) {
+    lines.push('-   **Example Passages (match their voice, not their content):**');
+    voice.examples.forEach(example => lines.push(`    > ${example}`));
+  }
+  return lines.join('\n');
+}
+
+// Singleton instance
+export const voiceProfiles = new VoiceProfileRegistry();
+
+export default VoiceProfileRegistry;
@@ -0,0 +1,264 @@
+/**
+ * WordPress Publisher
+ * Creates or updates posts through the REST API with SEO meta, taxonomy
+ * resolution and media uploads. Re-publishing the same slug updates in place.
+ */
+
+export type PostStatus = 'draft' | 'pending' | 'publish' | 'future';
+
+export type Fetcher = (url: string, options: RequestInit) => Promise<Response>;
+
+export interface WordPressCredentials {
+  siteUrl: string;
+  username: string;
+  appPassword: string;
+}
+
+export interface PublishImage {
+  src: string;
+  altText: string;
+  title: string;
+  placeholder?: string;
+}
+
+export interface PublishPayload {
+  title: string;
+  /** SEO title for the plugin meta; `title` when omitted */
+  seoTitle?: string;
+  content: string;
+  slug: string;
+  status: PostStatus;
+  metaDescription?: string;
+  primaryKeyword?: string;
+  excerpt?: string;
+  /** Required when status is 'future' (ISO 8601, site-local time) */
+  scheduledAt?: string;
+  categories?: string[];
+  tags?: string[];
+  images?: PublishImage[];
+  /** Update this post instead of looking one up by slug */
+  postId?: number;
+}
+
+export interface PublishResult {
+  postId: number;
+  link: string;
+  action: 'created' | 'updated';
+  status: PostStatus;
+  uploadedMedia: number[];
+  warnings: string[];
+}
+
+/** A post as the REST API returns it in edit context */
+export interface WordPressPost {
+  id: number;
+  link: string;
+  status: string;
+  /** `raw` keeps Gutenberg block comments and unexpanded shortcodes; write that back, never `rendered` */
+  content: { raw: string; rendered: string };
+}
+
+export class WordPressApiError extends Error {
+  constructor(message: string, public status: number, public code?: string, public data?: any) {
+    super(message);
+    this.name = 'WordPressApiError';
+  }
+}
+
+/**
+ * Meta keys for the three SEO plugins we support. The REST API silently
+ * drops meta keys that aren't registered with `show_in_rest`, and none of
+ * these plugins registers them. The Yoast and AIOSEO keys start with an
+ * underscore, so WordPress treats them as protected and their registration
+ * also needs an `auth_callback`. DEPLOYMENT_GUIDE.md has a snippet that
+ * registers all of them; `publish` warns when none were stored.
+ */
+export const buildSeoMeta = (title: string, metaDescription?: string, primaryKeyword?: string): Record<string, string> => {
+  const meta: Record<string, string> = {
+    _yoast_wpseo_title: title,
+    rank_math_title: title,
+    _aioseo_title: title,
+  };
+  if (metaDescription) {
+    meta['_yoast_wpseo_metadesc'] = metaDescription;
+    meta['rank_math_description'] = metaDescription;
+    meta['_aioseo_description'] = metaDescription;
+  }
+  if (primaryKeyword) {
+    meta['_yoast_wpseo_focuskw'] = primaryKeyword;
+    meta['rank_math_focus_keyword'] = primaryKeyword;
+    meta['_aioseo_keywords'] = primaryKeyword;
+  }
+  return meta;
+};
+
+export class WordPressPublisher {
+  private baseUrl: string;
+
+  constructor(private credentials: WordPressCredentials, private fetcher: Fetcher = (url, options) => fetch(url, options)) {
+    this.baseUrl = credentials.siteUrl.trim().replace(/\/+$/, '');
+  }
+
+  /**
+   * Create or update a post, resolving taxonomy and uploading media first
+   */
+  async publish(payload: PublishPayload): Promise<PublishResult> {
+    if (payload.status === 'future' && !payload.scheduledAt) {
+      throw new Error('Scheduled posts need a publish date');
+    }
+
+    const warnings: string[] = [];
+    const existing = payload.postId
+      ? { id: payload.postId }
+      : await this.findPostBySlug(payload.slug);
+
+    const [categoryIds, tagIds] = await Promise.all([
+      this.resolveTerms('categories', payload.categories || [], warnings),
+      this.resolveTerms('tags', payload.tags || [], warnings),
+    ]);
+
+    let content = payload.content;
+    const uploadedMedia: number[] = [];
+    for (const image of payload.images || []) {
+      try {
+        const media = await this.uploadImage(image, payload.slug, uploadedMedia.length + 1);
+        uploadedMedia.push(media.id);
+        content = this.embedImage(content, image, media.source_url);
+      } catch (e: any) {
+        warnings.push(`Image "${image.title}" not uploaded: ${e?.message || 'error'}`);
+      }
+    }
+
+    const meta = buildSeoMeta(payload.seoTitle || payload.title, payload.metaDescription, payload.primaryKeyword);
+    const body: Record<string, any> = {
+      title: payload.title,
+      content,
+      slug: payload.slug,
+      status: payload.status,
+      meta,
+    };
+    if (payload.excerpt || payload.metaDescription) body['excerpt'] = payload.excerpt || payload.metaDescription;
+    if (payload.status === 'future') body['date'] = payload.scheduledAt;
+    if (categoryIds.length > 0) body['categories'] = categoryIds;
+    if (tagIds.length > 0) body['tags'] = tagIds;
+    if (uploadedMedia.length > 0) body['featured_media'] = uploadedMedia[0];
+
+    const post = existing
+      ? await this.request<any>(`/wp-json/wp/v2/posts/${existing.id}`, { method: 'POST', body: JSON.stringify(body) })
+      : await this.request<any>('/wp-json/wp/v2/posts', { method: 'POST', body: JSON.stringify(body) });
+
+    // The response only echoes registered keys
+    if (!Object.keys(meta).some(key => post.meta && key in post.meta)) {
+      warnings.push('SEO title and description were not stored: register the SEO plugin meta keys with show_in_rest (see DEPLOYMENT_GUIDE.md)');
+    }
+
+    if (uploadedMedia.length > 0) {
+      // Attach uploads to the post so they show up under "Uploaded to this post"
+      await Promise.all(uploadedMedia.map(id =>
+        this.request(`/wp-json/wp/v2/media/${id}`, { method: 'POST', body: JSON.stringify({ post: post.id }) })
+          .catch(() => warnings.push(`Media ${id} could not be attached`))
+      ));
+    }
+
+    return {
+      postId: post.id,
+      link: post.link,
+      action: existing ? 'updated' : 'created',
+      status: post.status,
+      uploadedMedia,
+      warnings,
+    };
+  }
+
+  async findPostBySlug(slug: string): Promise<WordPressPost | null> {
+    if (!slug) return null;
+    const posts = await this.request<WordPressPost[]>(
+      `/wp-json/wp/v2/posts?slug=${encodeURIComponent(slug)}&status=publish,future,draft,pending,private&context=edit`
+    );
+    return (Array.isArray(posts) && posts[0]) || null;
+  }
+
+  /**
+   * Map term names to IDs, creating any that don't exist yet
+   */
+  async resolveTerms(taxonomy: 'categories' | 'tags', names: string[], warnings: string[] = []): Promise<number[]> {
+    const ids: number[] = [];
+    for (const raw of names) {
+      const name = raw.trim();
+      if (!name) continue;
+      try {
+        const matches = await this.request<any[]>(`/wp-json/wp/v2/${taxonomy}?search=${encodeURIComponent(name)}&per_page=100`);
+        const found = matches.find(t => decodeEntities(t.name).toLowerCase() === name.toLowerCase());
+        if (found) {
+          ids.push(found.id);
+          continue;
+        }
+        const created = await this.request<any>(`/wp-json/wp/v2/${taxonomy}`, { method: 'POST', body: JSON.stringify({ name }) });
+        ids.push(created.id);
+      } catch (e: any) {
+        // WordPress returns term_exists with the existing ID on create races
+        if (e instanceof WordPressApiError && e.code === 'term_exists') {
+          const termId = Number(e.data?.term_id);
+          if (termId) ids.push(termId);
+          continue;
+        }
+        warnings.push(`Could not resolve ${taxonomy === 'tags' ? 'tag' : 'category'} "${name}": ${e?.message || 'error'}`);
+      }
+    }
+    return Array.from(new Set(ids));
+  }
+
+  async uploadImage(image: PublishImage, slug: string, index: number): Promise<{ id: number; source_url: string }> {
+    const blob = await (await fetch(image.src)).blob();
+    const extension = (blob.type.split('/')[1] || 'png').replace('jpeg', 'jpg');
+    const filename = `${slug || 'image'}-${index}.${extension}`;
+
+    const media = await this.request<any>('/wp-json/wp/v2/media', {
+      method: 'POST',
+      headers: {
+        'Content-Type': blob.type || 'image/png',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+      body: blob,
+    });
+
+    await this.request(`/wp-json/wp/v2/media/${media.id}`, {
+      method: 'POST',
+      body: JSON.stringify({ alt_text: image.altText, title: image.title, caption: image.altText }),
+    });
+
+    return { id: media.id, source_url: media.source_url };
+  }
+
+  private embedImage(content: string, image: PublishImage, sourceUrl: string): string {
+    let next = content;
+    if (image.placeholder && next.includes(image.placeholder)) {
+      const figure = `<figure class="wp-block-image"><img src="${sourceUrl}" alt="${escapeAttr(image.altText)}" title="${escapeAttr(image.title)}" /></figure>`;
+      next = next.split(image.placeholder).join(figure);
+    }
+    // Inline data URLs would bloat post_content; point them at the upload instead
+    if (next.includes(image.src)) next = next.split(image.src).join(sourceUrl);
+    return next;
+  }
+
+  private async request<T = any>(path: string, init: RequestInit = {}): Promise<T> {
+    const headers: Record<string, string> = {
+      Authorization: `Basic ${btoa(`${this.credentials.username}:${this.credentials.appPassword}`)}`,
+      ...(init.body && typeof init.body === 'string' ? { 'Content-Type': 'application/json' } : {}),
+      ...(init.headers as Record<string, string> | undefined),
+    };
+
+    const res = await this.fetcher(`${this.baseUrl}${path}`, { ...init, headers });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      throw new WordPressApiError(data?.message || `HTTP ${res.status}`, res.status, data?.code, data?.data);
+    }
+    return data as T;
+  }
+}
+
+const escapeAttr = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const decodeEntities = (value: string) => value.replace(/&amp;/g, '&').replace(/&#039;/g, "'").replace(/&quot;/g, '"');
+
+export default WordPressPublisher;
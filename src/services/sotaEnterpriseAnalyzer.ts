@@ -5,6 +5,7 @@
  */
 
 import Anthropic from "@anthropic-ai/sdk";
+import { DEFAULT_QUALITY_PROFILE, measureContent, qualityEngine } from "./QualityRuleEngine";
 
 // ============================================================
 // PHASE 1 SCORING ARCHITECTURE (35% + 25% = 60% WEIGHTED)
@@ -54,13 +55,14 @@ export interface Recommendation {
 }
 
 export class SOTAEnterpriseAnalyzer {
-  private client: Anthropic;
+  private client: Anthropic | null;
   private model = "claude-3-5-sonnet-20241022";
 
-  constructor() {
-    this.client = new Anthropic({
-      apiKey: process.env.VITE_ANTHROPIC_API_KEY || "",
-    });
+  /**
+   * Without an Anthropic client, content intelligence falls back to local heuristics
+   */
+  constructor(client: Anthropic | null = null) {
+    this.client = client;
   }
 
   async analyzeURL(url: string, content: string, primaryKeyword: string): Promise<SOTAAnalysisResult> {
@@ -99,8 +101,8 @@ export class SOTAEnterpriseAnalyzer {
     primaryKeyword: string
   ): Promise<ContentIntelligenceScore> {
     const wordCount = content.split(/\s+/).length;
-    const sentences = content.split(/[.!?]+/).length;
-    const avgSentenceLength = wordCount / sentences;
+
+    if (!this.client) return this.estimateContentIntelligence(content, primaryKeyword);
 
     const prompt = `Analyze content quality for SEO. Return ONLY valid JSON matching this structure (no markdown, no extra text):
 {"readability":{"score":72,"level":"Excellent","recommendation":"Strong readability"},"keywordOptimization":{"score":75,"density":1.8,"issues":[]},"contentDepth":{"score":${wordCount > 3000 ? 95 : wordCount > 1000 ? 75 : 45},"level":"${wordCount > 3000 ? "authority" : wordCount > 1000 ? "pillar" : "baseline"}","wordCount":${wordCount}},"sentiment":{"score":78,"positivePercent":72,"trustScore":81},"semantics":{"score":75,"entities":8,"topicalCoherence":82}}
@@ -140,6 +142,7 @@ Primary keyword: ${primaryKeyword}`;
   }
 
   private async analyzeTechnicalSEO(content: string): Promise<TechnicalSEOScore> {
+    const { minTitleLength, maxTitleLength, minMetaLength, maxMetaLength } = qualityEngine.resolveProfile(DEFAULT_QUALITY_PROFILE).thresholds;
     const h1Count = (content.match(/<h1[^>]*>/gi) || []).length;
     const titleMatch = content.match(/<title[^>]*>([^<]*)<\/title>/i);
     const titleLength = titleMatch ? titleMatch[1].length : 0;
@@ -155,7 +158,7 @@ Primary keyword: ${primaryKeyword}`;
       },
       metadata: {
         score:
-          titleLength >= 50 && titleLength <= 60 && metaDescLength >= 155 && metaDescLength <= 160 ? 90 : 70,
+          titleLength >= minTitleLength && titleLength <= maxTitleLength && metaDescLength >= minMetaLength && metaDescLength <= maxMetaLength ? 90 : 70,
         titleLength,
         metaDescLength,
       },
@@ -170,7 +173,7 @@ Primary keyword: ${primaryKeyword}`;
       },
       overallScore: Math.round(
         (h1Count === 1 ? 95 : h1Count === 0 ? 10 : 60) * 0.4 +
-          (titleLength >= 50 && titleLength <= 60 && metaDescLength >= 155 && metaDescLength <= 160 ? 90 : 70) *
+          (titleLength >= minTitleLength && titleLength <= maxTitleLength && metaDescLength >= minMetaLength && metaDescLength <= maxMetaLength ? 90 : 70) *
             0.35 +
           (schemaMatches.length > 0 ? 85 : 20) * 0.25
       ),
@@ -244,18 +247,17 @@ Primary keyword: ${primaryKeyword}`;
 
     // Medium optimizations
     if (
-      technical.metadata.titleLength < 50 ||
-      technical.metadata.titleLength > 60 ||
-      technical.metadata.metaDescLength < 155
+      technical.metadata.score < 90
     ) {
+      const { minTitleLength, maxTitleLength, minMetaLength, maxMetaLength } = qualityEngine.resolveProfile(DEFAULT_QUALITY_PROFILE).thresholds;
       recommendations.medium.push({
         title: "Optimize Meta Tags",
         impact: "medium",
         effort: "quick",
         estimatedLift: "+2-5% CTR improvement",
         actionItems: [
-          `Title: ${technical.metadata.titleLength} chars (target: 50-60)`,
-          `Meta: ${technical.metadata.metaDescLength} chars (target: 155-160)`,
+          `Title: ${technical.metadata.titleLength} chars (target: ${minTitleLength}-${maxTitleLength})`,
+          `Meta: ${technical.metadata.metaDescLength} chars (target: ${minMetaLength}-${maxMetaLength})`,
           "Include primary keyword in both",
         ],
       });
@@ -264,6 +266,43 @@ Primary keyword: ${primaryKeyword}`;
     return recommendations;
   }
 
+  /**
+   * Deterministic scoring used when no LLM client is available. Measures
+   * and keyword-density limits are the QualityRuleEngine's.
+   */
+  private estimateContentIntelligence(content: string, primaryKeyword: string): ContentIntelligenceScore {
+    const clamp = (n: number) => Math.max(0, Math.min(100, Math.round(n)));
+    const { text, wordCount, sentenceLengths, keywordDensity: density, externalRefs: citations } = measureContent({ html: content, keyword: primaryKeyword });
+    const avgSentenceLength = wordCount / Math.max(1, sentenceLengths.length);
+    const { minKeywordDensity, maxKeywordDensity } = qualityEngine.resolveProfile(DEFAULT_QUALITY_PROFILE).thresholds;
+
+    const keywordIssues: string[] = [];
+    if (density === 0) keywordIssues.push("Primary keyword not found");
+    else if (density > maxKeywordDensity) keywordIssues.push(`Keyword density ${density.toFixed(2)}% is too high`);
+
+    const entities = new Set(text.match(/\b[A-Z][a-z]+(?:\s[A-Z][a-z]+)+\b/g) || []).size;
+    const hasCurrentYear = text.includes(String(new Date().getFullYear()));
+
+    const readability = clamp(100 - Math.abs(avgSentenceLength - 15) * 4);
+    const keywordScore = density === 0 ? 20 : density < minKeywordDensity ? 60 : density <= maxKeywordDensity ? 90 : 50;
+    const depth = wordCount > 3000 ? 95 : wordCount > 1000 ? 75 : 45;
+    const trust = clamp(50 + Math.min(citations, 5) * 8 + (hasCurrentYear ? 10 : 0));
+    const semantics = clamp(40 + entities * 3);
+
+    return {
+      readability: {
+        score: readability,
+        level: readability >= 80 ? "Excellent" : readability >= 60 ? "Good" : "Needs work",
+        recommendation: avgSentenceLength > 20 ? "Shorten sentences" : "Readability is on target",
+      },
+      keywordOptimization: { score: keywordScore, density: Number(density.toFixed(2)), issues: keywordIssues },
+      contentDepth: { score: depth, level: wordCount > 3000 ? "authority" : wordCount > 1000 ? "pillar" : "baseline", wordCount },
+      sentiment: { score: trust, positivePercent: 50, trustScore: trust },
+      semantics: { score: semantics, entities, topicalCoherence: semantics },
+      overallScore: Math.round((readability + keywordScore + depth + trust + semantics) / 5),
+    };
+  }
+
   private getDefaultContentScore(): ContentIntelligenceScore {
     return {
       readability: { score: 50, level: "Fair", recommendation: "Review and improve" },
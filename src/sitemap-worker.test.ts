@@ -0,0 +1,104 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import worker from './sitemap-worker';
+
+const SECRET = 'test-secret';
+const ctx = { waitUntil: () => {} };
+
+let upstream: Server;
+let upstreamOrigin: string;
+
+// 127.0.0.1 is allowlisted below, `localhost` is not, so redirects there must be refused
+beforeAll(async () => {
+  upstream = createServer((req, res) => {
+    const port = (upstream.address() as AddressInfo).port;
+    if (req.url === '/redirect-out') {
+      res.writeHead(302, { Location: `http://localhost:${port}/page` });
+      res.end();
+      return;
+    }
+    if (req.url === '/redirect-in') {
+      res.writeHead(302, { Location: '/page' });
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/plain', 'Set-Cookie': 'session=1' });
+    res.end(`upstream ${req.url} ${req.headers.authorization ?? ''}`);
+  });
+  await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+  upstreamOrigin = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => upstream.close(() => resolve())));
+
+const env = () => ({ PROXY_SECRET: SECRET, ALLOWED_HOSTS: '127.0.0.1, *.example.com' });
+
+const call = (path: string, init: RequestInit = {}, secret: string | null = SECRET) => {
+  const headers = new Headers(init.headers);
+  if (secret !== null) headers.set('X-Proxy-Secret', secret);
+  return worker.fetch(new Request(`https://proxy.test${path}`, { ...init, headers }), env(), ctx);
+};
+
+const target = (url: string) => `/?url=${encodeURIComponent(url)}`;
+
+describe('proxy secret', () => {
+  it('rejects requests without the secret or with a wrong one', async () => {
+    expect((await call('/health', {}, null)).status).toBe(401);
+    expect((await call('/health', {}, 'nope')).status).toBe(401);
+  });
+
+  it('refuses to run without a configured secret', async () => {
+    const response = await worker.fetch(new Request('https://proxy.test/health'), { ALLOWED_HOSTS: '127.0.0.1' }, ctx);
+    expect(response.status).toBe(500);
+  });
+
+  it('answers preflights without the secret', async () => {
+    expect((await call('/', { method: 'OPTIONS' }, null)).status).toBe(204);
+  });
+
+  it('reports the allowlist on /health', async () => {
+    const response = await call('/health');
+    expect(await response.json()).toEqual({ ok: true, allowedHosts: ['127.0.0.1', '*.example.com'] });
+  });
+});
+
+describe('host allowlist', () => {
+  it('rejects hosts that are not allowlisted', async () => {
+    const response = await call(target('https://evil.test/wp-json'));
+    expect(response.status).toBe(403);
+    expect(response.headers.get('X-Proxy-Error')).toBe('1');
+    expect(await response.json()).toMatchObject({ error: 'Host not allowed: evil.test' });
+  });
+
+  it('matches wildcard entries on subdomains only', async () => {
+    expect((await call(target('https://example.com/'))).status).toBe(403);
+    expect((await call(target('https://notexample.com/'))).status).toBe(403);
+  });
+
+  it('rejects missing, invalid and non-http targets', async () => {
+    expect((await call('/')).status).toBe(400);
+    expect((await call('/?url=not%20a%20url')).status).toBe(400);
+    expect((await call(target('ftp://127.0.0.1/file'))).status).toBe(400);
+  });
+
+  it('passes allowlisted requests through and strips cookies', async () => {
+    // Credentialed requests bypass the edge cache
+    const response = await call(target(`${upstreamOrigin}/page`), { headers: { Authorization: 'Basic abc' } });
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('upstream /page Basic abc');
+    expect(response.headers.get('set-cookie')).toBeNull();
+    expect(response.headers.get('X-Proxy-Cache')).toBe('BYPASS');
+  });
+
+  it('follows redirects within the allowlist', async () => {
+    const response = await call(target(`${upstreamOrigin}/redirect-in`), { headers: { Authorization: 'Basic abc' } });
+    expect(await response.text()).toBe('upstream /page Basic abc');
+  });
+
+  it('refuses redirects to hosts that are not allowlisted', async () => {
+    const response = await call(target(`${upstreamOrigin}/redirect-out`), { headers: { Authorization: 'Basic abc' } });
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ error: 'Redirect to a host that is not allowed: localhost' });
+  });
+});
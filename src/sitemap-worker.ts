@@ -1,70 +1,276 @@
-// 🚀 SOTA Sitemap Proxy Worker - Cloudflare Workers
-// Fetches sitemaps server-side to bypass CORS
-// Deploy: npx wrangler deploy
+// 🚀 SOTA Fetch Proxy Worker - Cloudflare Workers
+// First-party CORS proxy for sitemaps, WordPress and NeuronWriter requests.
+// Unlike the public proxies, it only talks to allowlisted hosts and only for
+// callers that present the shared secret, so credentials never leave our infra.
+//
+// Local:  npx wrangler dev -c wrangler.proxy.toml   (reads .dev.vars)
+// Deploy: npx wrangler deploy -c wrangler.proxy.toml
+//         npx wrangler secret put PROXY_SECRET -c wrangler.proxy.toml
+//
+// Routes (all require the X-Proxy-Secret header):
+//   GET  /health              -> { ok, allowedHosts }
+//   ANY  /?url=<target>       -> pass-through of method, headers and body
+//   GET  /sitemap?url=<target> -> legacy JSON list of <loc> URLs
 
-export default {
-  async fetch(request: Request, env: any): Promise<Response> {
-    const url = new URL(request.url);
-    const sitemapUrl = url.searchParams.get('url');
+interface Env {
+  PROXY_SECRET?: string;
+  /** Comma-separated hostnames; `*.example.com` matches subdomains */
+  ALLOWED_HOSTS?: string;
+  /** Comma-separated origins for CORS; defaults to `*` */
+  ALLOWED_ORIGINS?: string;
+  RATE_LIMIT_PER_MINUTE?: string;
+  CACHE_TTL_SECONDS?: string;
+}
+
+interface WorkerContext {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+const PROXY_SECRET_HEADER = 'X-Proxy-Secret';
+
+const DEFAULT_RATE_LIMIT = 60;
+const DEFAULT_CACHE_TTL = 300;
+const UPSTREAM_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+
+// Hop-by-hop headers plus anything that belongs to the caller's connection to the worker
+const STRIPPED_REQUEST_HEADERS = [
+  'host', 'origin', 'referer', 'cookie', 'connection', 'keep-alive', 'transfer-encoding', 'upgrade',
+  'content-length', 'accept-encoding', PROXY_SECRET_HEADER.toLowerCase(),
+];
+const STRIPPED_RESPONSE_HEADERS = ['set-cookie', 'connection', 'keep-alive', 'transfer-encoding', 'upgrade'];
+const CREDENTIAL_HEADERS = ['authorization', 'x-api-key', 'cookie'];
+const EXPOSED_HEADERS = ['ETag', 'Last-Modified', 'Retry-After', 'X-WP-Total', 'X-WP-TotalPages', 'X-Proxy-Cache', 'X-Proxy-Error'];
+
+// ==================== CORS & ERRORS ====================
 
-    if (!sitemapUrl) {
-      return new Response(
-        JSON.stringify({ error: 'Missing url parameter' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
+function corsHeaders(request: Request, env: Env): Record<string, string> {
+  const allowed = (env.ALLOWED_ORIGINS || '*').split(',').map(o => o.trim()).filter(Boolean);
+  const origin = request.headers.get('Origin') || '';
+  const allowOrigin = allowed.includes('*') ? '*' : allowed.includes(origin) ? origin : allowed[0] || '';
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': request.headers.get('Access-Control-Request-Headers') || '*',
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS.join(', '),
+    'Access-Control-Max-Age': '86400',
+    Vary: 'Origin',
+  };
+}
+
+/**
+ * Errors raised by the proxy itself carry X-Proxy-Error so the client can
+ * tell them apart from the target's own 4xx/5xx responses.
+ */
+function proxyError(request: Request, env: Env, status: number, error: string, extra: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'X-Proxy-Error': '1', ...corsHeaders(request, env), ...extra },
+  });
+}
+
+// ==================== AUTH & ALLOWLIST ====================
+
+/** Constant-time comparison so the secret can't be guessed byte by byte */
+function secretMatches(provided: string | null, expected: string): boolean {
+  if (!provided) return false;
+  const a = new TextEncoder().encode(provided);
+  const b = new TextEncoder().encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) diff |= (a[i] ?? 0) ^ b[i]!;
+  return diff === 0;
+}
+
+const allowedHosts = (env: Env) =>
+  (env.ALLOWED_HOSTS || '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+
+function isHostAllowed(hostname: string, env: Env): boolean {
+  const host = hostname.toLowerCase();
+  return allowedHosts(env).some(entry =>
+    entry.startsWith('*.') ? host.endsWith(entry.slice(1)) : host === entry
+  );
+}
+
+function parseTarget(raw: string | null, env: Env): URL | string {
+  if (!raw) return 'Missing url parameter';
+  let target: URL;
+  try {
+    target = new URL(raw);
+  } catch {
+    return 'Invalid url parameter';
+  }
+  if (target.protocol !== 'https:' && target.protocol !== 'http:') return 'Only http(s) targets are supported';
+  if (!isHostAllowed(target.hostname, env)) return `Host not allowed: ${target.hostname}`;
+  return target;
+}
+
+// ==================== RATE LIMITING ====================
+
+// Fixed one-minute window per target host. State lives in the isolate, so
+// the limit is per worker instance; good enough to stop runaway loops.
+const rateWindows = new Map<string, { start: number; count: number }>();
+
+function checkRateLimit(host: string, env: Env): number | null {
+  const limit = Number(env.RATE_LIMIT_PER_MINUTE) || DEFAULT_RATE_LIMIT;
+  const now = Date.now();
+  const window = rateWindows.get(host);
+  if (!window || now - window.start >= 60000) {
+    rateWindows.set(host, { start: now, count: 1 });
+    return null;
+  }
+  if (window.count >= limit) return Math.ceil((window.start + 60000 - now) / 1000);
+  window.count++;
+  return null;
+}
+
+// ==================== UPSTREAM ====================
+
+function upstreamHeaders(request: Request): Headers {
+  const headers = new Headers();
+  request.headers.forEach((value, key) => {
+    const name = key.toLowerCase();
+    if (STRIPPED_REQUEST_HEADERS.includes(name) || name.startsWith('cf-') || name.startsWith('x-forwarded-')) return;
+    headers.set(key, value);
+  });
+  if (!headers.has('User-Agent')) {
+    headers.set('User-Agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36');
+  }
+  return headers;
+}
+
+/**
+ * Follow redirects by hand so every hop is checked against the allowlist
+ */
+async function fetchUpstream(target: URL, init: RequestInit, env: Env): Promise<Response> {
+  let url = target;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await fetch(url.toString(), { ...init, redirect: 'manual', signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) });
+    const location = response.headers.get('Location');
+    if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) return response;
+
+    url = new URL(location, url);
+    if (!isHostAllowed(url.hostname, env)) throw new Error(`Redirect to a host that is not allowed: ${url.hostname}`);
+    // 303 (and 301/302 for POST, as browsers do) switch to GET without a body
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && init.method === 'POST')) {
+      const { body, ...rest } = init;
+      init = { ...rest, method: 'GET' };
     }
+  }
+  throw new Error(`Too many redirects for ${target}`);
+}
 
-    try {
-      // Fetch sitemap from target site (NO CORS issues on server)
-      const response = await fetch(sitemapUrl, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        },
-        timeout: 15000
-      });
+function withCors(response: Response, request: Request, env: Env, cacheStatus?: string): Response {
+  const headers = new Headers();
+  response.headers.forEach((value, key) => {
+    if (!STRIPPED_RESPONSE_HEADERS.includes(key.toLowerCase())) headers.set(key, value);
+  });
+  for (const [key, value] of Object.entries(corsHeaders(request, env))) headers.set(key, value);
+  if (cacheStatus) headers.set('X-Proxy-Cache', cacheStatus);
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
 
-      if (!response.ok) {
-        return new Response(
-          JSON.stringify({ error: `HTTP ${response.status}` }),
-          { status: response.status, headers: { 'Content-Type': 'application/json' } }
-        );
-      }
+// ==================== CACHING ====================
 
-      const text = await response.text();
+const edgeCache = (): Cache => (caches as unknown as { default: Cache }).default;
 
-      // Parse URLs from XML or HTML
-      const urls: string[] = [];
-      const regex = /<loc[^>]*>([\s\S]*?)<\/loc>/gi;
-      let match;
+const isCacheable = (request: Request) =>
+  request.method === 'GET' && !CREDENTIAL_HEADERS.some(h => request.headers.has(h));
 
-      while ((match = regex.exec(text)) !== null) {
-        const url = match[1]?.trim();
-        if (url && (url.startsWith('http://') || url.startsWith('https://'))) {
-          urls.push(url);
-        }
+const cacheKey = (target: URL) => new Request(`https://fetch-proxy.cache/${encodeURIComponent(target.toString())}`);
+
+/** Answer a conditional request from the cached copy's validators */
+function notModifiedFromCache(request: Request, cached: Response): boolean {
+  const etag = cached.headers.get('ETag');
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (etag && ifNoneMatch) return ifNoneMatch.split(',').some(tag => tag.trim() === etag);
+  const lastModified = cached.headers.get('Last-Modified');
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  return !!lastModified && !!ifModifiedSince && Date.parse(lastModified) <= Date.parse(ifModifiedSince);
+}
+
+// ==================== ROUTES ====================
+
+async function handleProxy(request: Request, env: Env, ctx: WorkerContext, target: URL): Promise<Response> {
+  const cacheable = isCacheable(request);
+  if (cacheable) {
+    const cached = await edgeCache().match(cacheKey(target));
+    if (cached) {
+      if (notModifiedFromCache(request, cached)) {
+        return withCors(new Response(null, { status: 304, headers: cached.headers }), request, env, 'HIT');
       }
+      return withCors(cached, request, env, 'HIT');
+    }
+  }
+
+  const init: RequestInit = { method: request.method, headers: upstreamHeaders(request) };
+  if (request.method !== 'GET' && request.method !== 'HEAD') init.body = await request.arrayBuffer();
+  const upstream = await fetchUpstream(target, init, env);
+
+  const cacheControl = upstream.headers.get('Cache-Control') || '';
+  if (cacheable && upstream.status === 200 && !/no-store|private/i.test(cacheControl)) {
+    const ttl = Number(env.CACHE_TTL_SECONDS) || DEFAULT_CACHE_TTL;
+    const copy = new Response(upstream.clone().body, upstream);
+    copy.headers.set('Cache-Control', `public, max-age=${ttl}`);
+    copy.headers.delete('Set-Cookie');
+    ctx.waitUntil(edgeCache().put(cacheKey(target), copy));
+    return withCors(upstream, request, env, 'MISS');
+  }
+  return withCors(upstream, request, env, cacheable ? 'MISS' : 'BYPASS');
+}
+
+/** Pre-proxy response shape, kept for existing `/sitemap` callers */
+async function handleSitemap(request: Request, env: Env, target: URL): Promise<Response> {
+  const response = await fetchUpstream(target, { method: 'GET', headers: upstreamHeaders(request) }, env);
+  if (!response.ok) return proxyError(request, env, response.status, `HTTP ${response.status}`);
+
+  const text = await response.text();
+  const urls: string[] = [];
+  const regex = /<loc[^>]*>([\s\S]*?)<\/loc>/gi;
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    const url = match[1]?.trim();
+    if (url && (url.startsWith('http://') || url.startsWith('https://'))) urls.push(url);
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, count: urls.length, urls: urls.slice(0, 20000), raw: text.slice(0, 1000) }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders(request, env) } }
+  );
+}
+
+export default {
+  async fetch(request: Request, env: Env, ctx: WorkerContext): Promise<Response> {
+    // Preflights can't carry the secret; they only describe the real request
+    if (request.method === 'OPTIONS') {
+      return new Response(null, { status: 204, headers: corsHeaders(request, env) });
+    }
+
+    if (!env.PROXY_SECRET) return proxyError(request, env, 500, 'PROXY_SECRET is not configured');
+    if (!secretMatches(request.headers.get(PROXY_SECRET_HEADER), env.PROXY_SECRET)) {
+      return proxyError(request, env, 401, 'Missing or invalid proxy secret');
+    }
 
-      // Return parsed data
-      return new Response(
-        JSON.stringify({
-          success: true,
-          count: urls.length,
-          urls: urls.slice(0, 20000),
-          raw: text.slice(0, 1000)
-        }),
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*'
-          }
-        }
-      );
+    const url = new URL(request.url);
+    if (url.pathname === '/health') {
+      return new Response(JSON.stringify({ ok: true, allowedHosts: allowedHosts(env) }), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders(request, env) },
+      });
+    }
+
+    const target = parseTarget(url.searchParams.get('url'), env);
+    if (typeof target === 'string') return proxyError(request, env, target.startsWith('Host') ? 403 : 400, target);
+
+    const retryAfter = checkRateLimit(target.hostname, env);
+    if (retryAfter !== null) {
+      return proxyError(request, env, 429, `Rate limit exceeded for ${target.hostname}`, { 'Retry-After': String(retryAfter) });
+    }
+
+    try {
+      return url.pathname === '/sitemap'
+        ? await handleSitemap(request, env, target)
+        : await handleProxy(request, env, ctx, target);
     } catch (error: any) {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
-      );
+      return proxyError(request, env, 502, error?.message || 'Upstream request failed');
     }
-  }
+  },
 };
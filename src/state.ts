@@ -1,4 +1,5 @@
 import { ContentItem, GeneratedContent } from "./types";
+import { normalizeContentItem } from "./services/StateSchema";
 
 // --- REDUCER for items state ---
 export type ItemsAction =
@@ -10,7 +11,7 @@ export type ItemsAction =
 export const itemsReducer = (state: ContentItem[], action: ItemsAction): ContentItem[] => {
     switch (action.type) {
         case 'SET_ITEMS':
-            return action.payload.map((item: any) => ({ ...item, status: 'idle', statusText: 'Not Started', generatedContent: null, crawledContent: item.crawledContent || null, analysis: item.analysis || null }));
+            return action.payload.map((item, i) => normalizeContentItem({ ...item, status: 'idle', statusText: 'Not Started', generatedContent: null, analysis: item.analysis || null }, i));
         case 'UPDATE_STATUS':
             return state.map(item =>
                 item.id === action.payload.id
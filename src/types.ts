@@ -32,8 +32,26 @@ export interface NeuronConfig {
     enabled: boolean;
 }
 
+export type SitemapImage = { loc: string; title?: string; caption?: string };
+
+export type SitemapVideo = {
+    title: string;
+    thumbnailLoc: string;
+    description: string;
+    contentLoc?: string;
+    playerLoc?: string;
+    duration?: number;
+};
+
+export type SitemapNews = { publicationName: string; language: string; publicationDate: string; title: string };
+
+export type SitemapAlternate = { hreflang: string; href: string };
+
+// Canonical page shape for everything built from a sitemap crawl
 export type SitemapPage = {
     id: string;
+    /** Absolute page URL; same value as id */
+    url: string;
     title: string;
     slug: string;
     lastMod: string | null;
@@ -52,6 +70,45 @@ export type SitemapPage = {
         seoIssues: string[];
         improvementPlan: string;
     } | null;
+    priority?: number | null;
+    changeFreq?: string | null;
+    images?: SitemapImage[];
+    videos?: SitemapVideo[];
+    news?: SitemapNews;
+    alternates?: SitemapAlternate[];
+    /** Sitemap file the URL was listed in */
+    sourceSitemap?: string;
+    /** Outcome of the most recent recrawl for this URL */
+    sitemapStatus?: SitemapPageStatus;
+    /** Set when the URL disappeared from the sitemap; cleared if it returns */
+    removedAt?: string | null;
+};
+
+export type SitemapPageStatus = 'new' | 'changed' | 'unchanged' | 'removed';
+
+// One pass of the quality repair loop (services/QualityRepairLoop.ts)
+export type QualityRepairIteration = {
+    iteration: number;
+    // Failing rule ids the pass targeted, and the prompts it ran for them
+    rules: string[];
+    fixes: string[];
+    scoreBefore: number;
+    scoreAfter: number;
+    delta: number;
+    tokens: number;
+    // False when the pass scored lower and its HTML was discarded
+    kept: boolean;
+};
+
+export type QualityRepairStopReason = 'passed' | 'no-improvement' | 'budget' | 'max-iterations' | 'nothing-to-fix' | 'error';
+
+export type QualityRepairLog = {
+    profile: QualityProfileId;
+    iterations: QualityRepairIteration[];
+    stopReason: QualityRepairStopReason;
+    tokens: number;
+    /** Why a fix call failed when stopReason is 'error' */
+    error?: string;
 };
 
 export type GeneratedContent = {
@@ -93,6 +150,14 @@ export type GeneratedContent = {
         referencesHtml: string;
     };
     isFullSurgicalRewrite?: boolean;
+    /** Pre-refresh content, used as the diff baseline in review */
+    originalHtml?: string;
+    /** What the quality repair loop changed after generation */
+    qualityRepair?: QualityRepairLog;
+    /** What the humanizer changed, so edits can be reviewed and reverted */
+    humanizer?: HumanizerLog;
+    categories?: string[];
+    tags?: string[];
 };
 
 export interface SiteInfo {
@@ -113,16 +178,100 @@ export interface ExpandedGeoTargeting {
     postalCode: string;
 }
 
+// Named rule profiles of services/QualityRuleEngine.ts
+export type QualityProfileId = 'pillar' | 'cluster' | 'refresh' | 'local' | 'news';
+
+// Brand voice the writing prompts and the humanizer follow (services/VoiceProfiles.ts)
+export type VoicePerson = 'first' | 'second' | 'third';
+export type ContractionPolicy = 'always' | 'natural' | 'never';
+
+// Stylometric features of a body of writing (services/VoiceAnalyzer.ts)
+export type StyleFeatures = {
+    words: number;
+    sentences: number;
+    // Words per sentence
+    sentenceLength: { mean: number; median: number; p90: number; stdev: number };
+    // Mean type-token ratio over 100-word windows, 0-1
+    vocabularyRichness: number;
+    readingLevel: number;
+    // Per 100 words
+    contractionRate: number;
+    person: { first: number; second: number; third: number };
+    // Share of sentences that are questions
+    questionRate: number;
+    // Most common first words of sentences, by share of sentences
+    openers: { text: string; share: number }[];
+    // Recurring two- and three-word phrases
+    phrases: { text: string; count: number }[];
+    // Null when the text had no headings
+    headings: { count: number; titleCase: number; questions: number; meanWords: number } | null;
+};
+
+export type VoiceProfile = {
+    id: string;
+    label: string;
+    tone: string;
+    // Flesch-Kincaid grade the text should read at
+    readingLevel: number;
+    person: VoicePerson;
+    contractions: ContractionPolicy;
+    // Words per sentence
+    sentenceLength: { target: number; max: number };
+    bannedPhrases: string[];
+    preferredPhrases: string[];
+    // Humanizer replacements that differ from the shared AI-phrase alternatives
+    phraseReplacements?: Record<string, string[]>;
+    // What the humanizer may add; empty lists add nothing
+    sectionOpeners: string[];
+    rhetoricalQuestions: string[];
+    conjunctionStarters: string[];
+    // Short passages in the voice, shown to the model as reference
+    examples: string[];
+    // Set on profiles learned from the site's own pages
+    learned?: { pages: number; learnedAt: number; features: StyleFeatures };
+};
+
+// What the humanizer changed in a draft (services/HumanWritingEngine.ts)
+export type HumanizerEditKind = 'phrase' | 'rewrite' | 'contraction' | 'restructure' | 'opener' | 'question';
+
+export type HumanizerEdit = {
+    id: number;
+    kind: HumanizerEditKind;
+    // Where `replacement` starts in the HTML the log belongs to
+    offset: number;
+    // Empty for insertions
+    original: string;
+    replacement: string;
+    // Text just before the edit, to find it again once other changes shift offsets
+    before: string;
+};
+
+export type HumanizerLog = {
+    // Re-running with the same seed, voice and input gives the same output
+    seed: number;
+    voice: string;
+    edits: HumanizerEdit[];
+};
+
+// The one persisted item shape; see services/StateSchema.ts for how older saves are upgraded
 export type ContentItem = {
     id: string;
     title: string;
     type: 'pillar' | 'cluster' | 'standard' | 'link-optimizer' | 'refresh';
-    status: 'idle' | 'generating' | 'done' | 'error' | 'maintaining';
+    status: 'idle' | 'generating' | 'maintaining' | 'done' | 'published' | 'error';
     statusText: string;
+    keywords: string[];
     generatedContent: GeneratedContent | null;
     crawledContent: string | null;
+    createdAt: number;
     originalUrl?: string;
     analysis?: SitemapPage['analysis'];
+    seoScore?: number;
+    // Overrides the quality profile implied by `type`
+    qualityProfile?: QualityProfileId;
+    // Overrides the site's voice profile
+    voiceProfile?: string;
+    error?: string;
 };
 
 export type SeoCheck = {
@@ -141,6 +290,7 @@ export type ApiClients = {
     anthropic: Anthropic | null;
     openrouter: OpenAI | null;
     groq: OpenAI | null;
+    custom: OpenAI | null;
 };
 
 // SOTA FIX: Unified WpConfig with both legacy (url) and normalized (siteUrl) fields
@@ -160,6 +310,28 @@ export interface GapAnalysisSuggestion {
     monthlyVolume: string;
 }
 
+// Per-call extras for ServiceCallAI. With `onText` the response is streamed
+// and the callback receives all text received so far on every chunk.
+// Run and item a call's usage is charged to (see CostLedger.bind)
+export interface UsageScope {
+    runId?: string;
+    itemId?: string;
+    contentType?: string;
+}
+
+export interface AICallOptions {
+    signal?: AbortSignal | undefined;
+    onText?: (text: string) => void;
+    // Voice for prompts that write prose; the default voice when omitted
+    voice?: VoiceProfile | undefined;
+    scope?: UsageScope | undefined;
+    // Told the tokens of each successful call, as the cost ledger recorded them
+    onUsage?: ((usage: { inputTokens: number; outputTokens: number }) => void) | undefined;
+}
+
+// Pre-bound callAI: provider, model and geo settings are already applied
+export type ServiceCallAI = (promptKey: string, args: any[], format?: 'json' | 'html', grounding?: boolean, options?: AICallOptions) => Promise<string>;
+
 export interface GenerationContext {
     dispatch: React.Dispatch<any>;
     existingPages: SitemapPage[];
@@ -175,4 +347,6 @@ export interface GenerationContext {
     neuronConfig: NeuronConfig;
     excludedUrls?: string[];
     excludedCategories?: string[];
+    // Site voice profile id; items may override it
+    voiceProfile?: string;
 }
@@ -1,9 +1,9 @@
 
-import { SitemapPage } from "./types";
-import { MIN_INTERNAL_LINKS } from "./constants";
 import { GeneratedContent } from './types';
 import { WpConfig, SiteInfo, ExpandedGeoTargeting } from './types';
 import { generateFullSchema, generateSchemaMarkup } from './schema-generator';
+import { fetchViaProxy, getFetchProxyConfig } from './services/FetchProxy';
+import { isRetryableError, retryDelay, waitFor } from './services/RateLimiter';
 
 // --- START: Performance & Caching Enhancements ---
 
@@ -79,7 +79,7 @@ export const debounce = (func: (...args: any[]) => void, delay: number) => {
     return (...args: any[]) => {
         clearTimeout(timeoutId);
         timeoutId = setTimeout(() => {
-            func.apply(null, args);
+            func(...args);
         }, delay);
     };
 };
@@ -106,7 +106,7 @@ export const extractJson = (text: string): string => {
     else if (firstSquare === -1) startIndex = firstBracket;
     else startIndex = Math.min(firstBracket, firstSquare);
 
-    let potentialJson = cleanedText.substring(startIndex);
+    const potentialJson = cleanedText.substring(startIndex);
     const startChar = potentialJson[0];
     const endChar = startChar === '{' ? '}' : ']';
     
@@ -167,21 +167,21 @@ export const extractSlugFromUrl = (urlString: string): string => {
         let pathname = url.pathname;
         if (pathname.endsWith('/') && pathname.length > 1) pathname = pathname.slice(0, -1);
         const lastSegment = pathname.substring(pathname.lastIndexOf('/') + 1);
-        return decodeURIComponent(lastSegment).split('?')[0].split('#')[0].toLowerCase().replace(/[^a-z0-9/_\-]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '');
+        return decodeURIComponent(lastSegment).split('?')[0].split('#')[0].toLowerCase().replace(/[^a-z0-9/_-]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '');
     } catch (error: any) {
-        return urlString.split(/[?#]/)[0].split('/').pop()?.toLowerCase().replace(/[^a-z0-9/_\-]/g, '-') || '';
+        return urlString.split(/[?#]/)[0].split('/').pop()?.toLowerCase().replace(/[^a-z0-9/_-]/g, '-') || '';
     }
 };
 
-export const callAiWithRetry = async (apiCall: () => Promise<any>, maxRetries = 5, initialDelay = 5000) => {
+export const callAiWithRetry = async (apiCall: () => Promise<any>, maxRetries = 5, initialDelay = 5000, signal?: AbortSignal) => {
     for (let attempt = 0; attempt < maxRetries; attempt++) {
         try {
             return await apiCall();
         } catch (error: any) {
-            const errorMessage = (error?.message || '').toLowerCase();
-            if (errorMessage.includes('api key') || errorMessage.includes('context length')) throw error;
-            if (attempt === maxRetries - 1) throw error;
-            await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000 + initialDelay));
+            // Auth, context-length, budget and abort errors won't go away on retry
+            if (!isRetryableError(error) || attempt === maxRetries - 1 || signal?.aborted) throw error;
+            // Retry-After when the provider sent one, capped like every other backoff
+            await waitFor(retryDelay(error, attempt, initialDelay), signal);
         }
     }
     throw new Error("AI call failed after all retries.");
@@ -195,10 +195,14 @@ export const fetchWordPressWithRetry = async (targetUrl: string, options: Reques
         serverGuard.reportMetrics(Date.now() - startTime);
         return res;
     } catch (e: any) {
-        // Fallback to proxy if direct fails (CORS)
+        // Fallback to the first-party proxy if direct fails (CORS). WordPress
+        // requests carry the application password, so no public proxies.
+        if (!getFetchProxyConfig()) {
+             serverGuard.reportMetrics(5000);
+             throw e;
+        }
         try {
-             const proxyUrl = `https://corsproxy.io/?${encodeURIComponent(targetUrl)}`;
-             const res = await fetch(proxyUrl, options);
+             const res = await fetchViaProxy(targetUrl, options);
              serverGuard.reportMetrics(Date.now() - startTime);
              return res;
         } catch (proxyErr) {
@@ -225,7 +229,7 @@ export async function processConcurrently<T>(items: T[], processor: (item: T) =>
     };
     const workers = Array(concurrency).fill(null).map(run);
     await Promise.all(workers);
-};
+}
 
 export const sanitizeTitle = (title: string, slug: string): string => {
     try {